@@ -9,7 +9,16 @@ import { EXIT_CONFIG_ERROR } from './exitCodes';
 
 export type ChangeMode = 'new' | 'modified' | 'deleted' | 'all';
 
-export type CommandName = 'run' | 'validate' | 'format' | 'suggest' | 'diff' | 'list-files' | 'show-config';
+export type CommandName =
+  | 'run'
+  | 'validate'
+  | 'format'
+  | 'suggest'
+  | 'diff'
+  | 'list-files'
+  | 'show-config'
+  | 'explain'
+  | 'init';
 
 export type SyncCommand = {
   commandName: CommandName;
@@ -29,6 +38,12 @@ export type SyncCommand = {
   verbose: boolean;
   quiet: boolean;
   noColor: boolean;
+  provenance: boolean;
+  explainPath?: string;
+  source?: string;
+  destination?: string;
+  apply?: boolean;
+  minConfidence?: number;
 };
 
 // ============================================================================
@@ -61,6 +76,15 @@ const parseMyDays = (myRaw: string | boolean | undefined): { my: boolean; myDays
   return { my: true, myDays: parsed };
 };
 
+const parseConfidence = (raw: string, flag: string): number => {
+  const confidence = Number.parseFloat(raw);
+  if (Number.isNaN(confidence) || confidence < 0 || confidence > 1) {
+    console.error(`Error: ${flag} must be a number between 0 and 1`);
+    process.exit(EXIT_CONFIG_ERROR);
+  }
+  return confidence;
+};
+
 const checkVerboseQuiet = (verbose: boolean, quiet: boolean) => {
   if (verbose && quiet) {
     console.error('Error: --verbose and --quiet flags are mutually exclusive');
@@ -97,6 +121,7 @@ export const parseCommandLine = (argv?: string[]): SyncCommand => {
       .requiredOption('-c, --config <file>', 'Path to YAML configuration file')
       .option('-D, --dry-run', 'Preview changes without writing files', false)
       .option('--force', 'Override stop rules and proceed with changes', false)
+      .option('--strict', 'Treat warning-severity stop rule violations as blocking', false)
       .option('-S, --skip-format', 'Skip YAML formatting (outputFormat section)', false)
       .option('-f, --filter <string>', 'Filter files by name or content (supports , for OR, + for AND)')
       .option('-m, --mode <type>', 'Filter by change type: new, modified, deleted, all', 'all')
@@ -108,6 +133,7 @@ Examples:
   $ helm-env-delta run -c config.yaml
   $ helm-env-delta run -c config.yaml --dry-run
   $ helm-env-delta run -c config.yaml --force
+  $ helm-env-delta run -c config.yaml --strict
   $ helm-env-delta run -c config.yaml --mode new
   $ helm-env-delta run -c config.yaml -f prod --my 7
 `
@@ -121,7 +147,7 @@ Examples:
       config: options['config'],
       dryRun: options['dryRun'],
       force: options['force'],
-      strict: false,
+      strict: options['strict'],
       html: false,
       json: false,
       skipFormat: options['skipFormat'],
@@ -132,7 +158,8 @@ Examples:
       myDays,
       verbose: options['verbose'],
       quiet: options['quiet'],
-      noColor: !options['color']
+      noColor: !options['color'],
+      provenance: false
     };
   });
 
@@ -174,7 +201,8 @@ Examples:
       myDays,
       verbose: options['verbose'],
       quiet: options['quiet'],
-      noColor: !options['color']
+      noColor: !options['color'],
+      provenance: false
     };
   });
 
@@ -214,7 +242,8 @@ Examples:
       myDays: 30,
       verbose: options['verbose'],
       quiet: options['quiet'],
-      noColor: !options['color']
+      noColor: !options['color'],
+      provenance: false
     };
   });
 
@@ -228,6 +257,11 @@ Examples:
       .option('-f, --filter <string>', 'Filter files by name or content')
       .option('-m, --mode <type>', 'Filter by change type: new, modified, deleted, all', 'all')
       .option('--my [days]', 'Limit to files you modified in the last N days (default: 30)')
+      .option('--apply', 'Write accepted suggestions into the config file (asks for each one)', false)
+      .option(
+        '--min-confidence <number>',
+        'With --apply, accept suggestions at or above this confidence without asking'
+      )
       .addHelpText(
         'after',
         `
@@ -235,17 +269,23 @@ Examples:
   $ helm-env-delta suggest -c config.yaml
   $ helm-env-delta suggest -c config.yaml --suggest-threshold 0.5
   $ helm-env-delta suggest -c config.yaml -f prod
+  $ helm-env-delta suggest -c config.yaml --apply
+  $ helm-env-delta suggest -c config.yaml --apply --min-confidence 0.8
 `
       )
       .exitOverride(exitOverrideFunction)
   ).action(function (options) {
     checkVerboseQuiet(options['verbose'], options['quiet']);
-    const threshold = Number.parseFloat(options['suggestThreshold']);
-    if (Number.isNaN(threshold) || threshold < 0 || threshold > 1) {
-      console.error('Error: --suggest-threshold must be a number between 0 and 1');
+    const threshold = parseConfidence(options['suggestThreshold'], '--suggest-threshold');
+    const { my, myDays } = parseMyDays(options['my']);
+    if (options['minConfidence'] !== undefined && !options['apply']) {
+      console.error('Error: --min-confidence requires --apply');
       process.exit(EXIT_CONFIG_ERROR);
     }
-    const { my, myDays } = parseMyDays(options['my']);
+    const minConfidence =
+      options['minConfidence'] === undefined
+        ? undefined
+        : parseConfidence(options['minConfidence'], '--min-confidence');
     result = {
       commandName: 'suggest',
       config: options['config'],
@@ -262,7 +302,10 @@ Examples:
       myDays,
       verbose: options['verbose'],
       quiet: options['quiet'],
-      noColor: !options['color']
+      noColor: !options['color'],
+      provenance: false,
+      apply: options['apply'],
+      ...(minConfidence !== undefined && { minConfidence })
     };
   });
 
@@ -310,7 +353,8 @@ Examples:
       myDays,
       verbose: options['verbose'],
       quiet: options['quiet'],
-      noColor: !options['color']
+      noColor: !options['color'],
+      provenance: false
     };
   });
 
@@ -351,7 +395,8 @@ Examples:
       myDays,
       verbose: options['verbose'],
       quiet: options['quiet'],
-      noColor: !options['color']
+      noColor: !options['color'],
+      provenance: false
     };
   });
 
@@ -361,11 +406,15 @@ Examples:
       .command('show-config')
       .description('Display resolved configuration after inheritance')
       .requiredOption('-c, --config <file>', 'Path to YAML configuration file')
+      .option('--provenance', 'Annotate every value with the config file and line it comes from', false)
+      .option('-J, --json', 'Output configuration as JSON to stdout', false)
       .addHelpText(
         'after',
         `
 Examples:
   $ helm-env-delta show-config -c config.yaml
+  $ helm-env-delta show-config -c config.yaml --provenance
+  $ helm-env-delta show-config -c config.yaml --provenance --json --quiet | jq '.provenance'
 `
       )
       .exitOverride(exitOverrideFunction)
@@ -378,7 +427,7 @@ Examples:
       force: false,
       strict: false,
       html: false,
-      json: false,
+      json: options['json'],
       skipFormat: false,
       suggestThreshold: 0.3,
       filter: undefined,
@@ -387,7 +436,93 @@ Examples:
       myDays: 30,
       verbose: options['verbose'],
       quiet: options['quiet'],
-      noColor: !options['color']
+      noColor: !options['color'],
+      provenance: options['provenance']
+    };
+  });
+
+  // ── explain ────────────────────────────────────────────────────────────────
+  addGlobalOptions(
+    program
+      .command('explain')
+      .description('List the config rules that apply to a file and where they are defined')
+      .argument('<file>', 'File path relative to the source folder')
+      .requiredOption('-c, --config <file>', 'Path to YAML configuration file')
+      .option('-J, --json', 'Output explanation as JSON to stdout', false)
+      .addHelpText(
+        'after',
+        `
+Examples:
+  $ helm-env-delta explain -c config.yaml apps/uat/values.yaml
+  $ helm-env-delta explain -c config.yaml apps/uat/values.yaml --json --quiet | jq '.sections'
+`
+      )
+      .exitOverride(exitOverrideFunction)
+  ).action(function (file: string, options) {
+    checkVerboseQuiet(options['verbose'], options['quiet']);
+    result = {
+      commandName: 'explain',
+      config: options['config'],
+      dryRun: false,
+      force: false,
+      strict: false,
+      html: false,
+      json: options['json'],
+      skipFormat: false,
+      suggestThreshold: 0.3,
+      filter: undefined,
+      mode: 'all',
+      my: false,
+      myDays: 30,
+      verbose: options['verbose'],
+      quiet: options['quiet'],
+      noColor: !options['color'],
+      provenance: false,
+      explainPath: file
+    };
+  });
+
+  // ── init ───────────────────────────────────────────────────────────────────
+  addGlobalOptions(
+    program
+      .command('init')
+      .description('Scaffold a config file from a source and a destination folder')
+      .requiredOption('-s, --source <dir>', 'Source folder to sync from')
+      .requiredOption('-d, --destination <dir>', 'Destination folder to sync to')
+      .option('-c, --config <file>', 'Path of the config file to write', 'config.yaml')
+      .option('--force', 'Overwrite an existing config file', false)
+      .option('--suggest-threshold <number>', 'Minimum confidence for suggestions (0-1, default: 0.3)', '0.3')
+      .addHelpText(
+        'after',
+        `
+Examples:
+  $ helm-env-delta init --source ./uat --destination ./prod
+  $ helm-env-delta init -s ./uat -d ./prod -c uat-to-prod.yaml --suggest-threshold 0.5
+`
+      )
+      .exitOverride(exitOverrideFunction)
+  ).action(function (options) {
+    checkVerboseQuiet(options['verbose'], options['quiet']);
+    result = {
+      commandName: 'init',
+      config: options['config'],
+      dryRun: false,
+      force: options['force'],
+      strict: false,
+      html: false,
+      json: false,
+      skipFormat: false,
+      suggestThreshold: parseConfidence(options['suggestThreshold'], '--suggest-threshold'),
+      filter: undefined,
+      mode: 'all',
+      my: false,
+      myDays: 30,
+      verbose: options['verbose'],
+      quiet: options['quiet'],
+      noColor: !options['color'],
+      provenance: false,
+      source: options['source'],
+      destination: options['destination']
     };
   });
 
@@ -2,17 +2,42 @@ import path from 'node:path';
 
 import { z } from 'zod';
 
+import { parseJsonPath } from '../utils/jsonPath';
+import { parseQuantity } from '../utils/quantityParser';
 import { isSafeRegex } from '../utils/regexSafety';
 import { ZodValidationError } from './ZodError';
 
 // Stop Rule Schemas (Discriminated Union)
 
+/**
+ * How a violation is handled: "block" stops the sync (default), "warn" only reports it.
+ * `run --strict` treats warnings as blocking.
+ */
+const stopRuleSeveritySchema = z
+  .enum(['block', 'warn'])
+  .optional()
+  .describe('"block" = violation stops the sync (default), "warn" = violation is reported but does not stop it');
+
+/**
+ * A number or Kubernetes quantity string (e.g., 3, "500m", "512Mi", "2Gi").
+ */
+const quantitySchema = z.union([
+  z.number(),
+  z
+    .string()
+    .min(1)
+    .refine((value) => parseQuantity(value) !== undefined, {
+      message: 'Must be a number or Kubernetes quantity (e.g., "500m", "512Mi", "2Gi")'
+    })
+]);
+
 /**
  * Validates semver major version upgrades.
  * Blocks changes that would increment the major version (e.g., 1.x.x -> 2.0.0).
  */
 const semverMajorUpgradeRuleSchema = z.object({
   type: z.literal('semverMajorUpgrade'),
+  severity: stopRuleSeveritySchema,
   path: z.string().min(1).describe('JSONPath to the version field to check for major upgrades')
 });
 
@@ -22,9 +47,32 @@ const semverMajorUpgradeRuleSchema = z.object({
  */
 const semverDowngradeRuleSchema = z.object({
   type: z.literal('semverDowngrade'),
+  severity: stopRuleSeveritySchema,
   path: z.string().min(1).describe('JSONPath to the version field to check for any downgrade')
 });
 
+/**
+ * Blocks any change to a value the destination already has (e.g., persistence.storageClass, database.name).
+ * Removing the value counts as a change; setting a value the destination does not have yet does not.
+ */
+const immutableRuleSchema = z.object({
+  type: z.literal('immutable'),
+  severity: stopRuleSeveritySchema,
+  path: z
+    .string()
+    .min(1)
+    .describe('JSONPath to the field that must not change (filters like containers[name=app] allowed)')
+});
+
+/**
+ * Blocks removing, or setting to null, a value the destination has (e.g., podDisruptionBudget).
+ */
+const requiredRuleSchema = z.object({
+  type: z.literal('required'),
+  severity: stopRuleSeveritySchema,
+  path: z.string().min(1).describe('JSONPath to the field that must not be removed or set to null')
+});
+
 /**
  * Validates numeric values against min/max constraints.
  * Used to prevent dangerous scaling operations (e.g., scaling below minimum replicas).
@@ -32,13 +80,18 @@ const semverDowngradeRuleSchema = z.object({
 const numericRuleSchema = z
   .object({
     type: z.literal('numeric'),
-    path: z.string().min(1).describe('JSONPath to the numeric field to validate'),
-    min: z.number().optional().describe('Minimum allowed value (inclusive)'),
-    max: z.number().optional().describe('Maximum allowed value (inclusive)')
+    severity: stopRuleSeveritySchema,
+    path: z.string().min(1).describe('JSONPath to the numeric or quantity field to validate'),
+    min: quantitySchema
+      .optional()
+      .describe('Minimum allowed value (inclusive), as a number or quantity (e.g., "256Mi")'),
+    max: quantitySchema.optional().describe('Maximum allowed value (inclusive), as a number or quantity (e.g., "2")')
   })
   .refine(
     (data) => {
-      if (data.min !== undefined && data.max !== undefined) return data.min <= data.max;
+      const min = parseQuantity(data.min);
+      const max = parseQuantity(data.max);
+      if (min !== undefined && max !== undefined) return min <= max;
       return true;
     },
     {
@@ -47,6 +100,55 @@ const numericRuleSchema = z
     }
   );
 
+/**
+ * Validates the change between the old and updated numeric value.
+ * Used to catch relative drops and jumps (e.g., replicas 12 -> 2, memory limit halved).
+ * Both values may be numbers or Kubernetes quantities (e.g., "512Mi", "2Gi", "500m").
+ */
+const numericDeltaRuleSchema = z
+  .object({
+    type: z.literal('numericDelta'),
+    severity: stopRuleSeveritySchema,
+    path: z.string().min(1).describe('JSONPath to the numeric or quantity field to compare'),
+    maxIncreasePercent: z
+      .number()
+      .nonnegative()
+      .optional()
+      .describe('Largest allowed increase, in percent of the old value'),
+    maxDecreasePercent: z
+      .number()
+      .nonnegative()
+      .optional()
+      .describe('Largest allowed decrease, in percent of the old value'),
+    maxDelta: quantitySchema
+      .optional()
+      .describe('Largest allowed absolute change, as a number or quantity (e.g., 4, "1Gi", "500m")')
+  })
+  .refine(
+    (data) =>
+      data.maxIncreasePercent !== undefined || data.maxDecreasePercent !== undefined || data.maxDelta !== undefined,
+    { message: 'Set at least one of maxIncreasePercent, maxDecreasePercent or maxDelta', path: ['type'] }
+  )
+  .refine((data) => (parseQuantity(data.maxDelta) ?? 0) >= 0, {
+    message: 'maxDelta must not be negative',
+    path: ['maxDelta']
+  });
+
+/**
+ * Checks that container resource requests do not exceed their limits (e.g., requests.cpu: 2 with limits.cpu: 500m).
+ * Every `resources` map holding both `requests` and `limits` is checked, comparing values as Kubernetes quantities.
+ * Path is optional: if set, checks below that field; if not set, scans the whole document.
+ */
+const requestsWithinLimitsRuleSchema = z.object({
+  type: z.literal('requestsWithinLimits'),
+  severity: stopRuleSeveritySchema,
+  path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('JSONPath to check below, e.g. spec.template.spec.containers (omit to scan the whole document)')
+});
+
 /**
  * Validates field values against regex patterns.
  * Blocks changes that match dangerous patterns (e.g., production database URLs).
@@ -55,6 +157,7 @@ const numericRuleSchema = z
 const regexRuleSchema = z
   .object({
     type: z.literal('regex'),
+    severity: stopRuleSeveritySchema,
     path: z.string().min(1).optional().describe('JSONPath to check (omit to scan ALL values recursively)'),
     regex: z.string().min(1).describe('Regex pattern that must NOT match (blocks sync if matched)')
   })
@@ -84,6 +187,7 @@ const regexRuleSchema = z
  */
 const regexFileRuleSchema = z.object({
   type: z.literal('regexFile'),
+  severity: stopRuleSeveritySchema,
   path: z.string().min(1).optional().describe('JSONPath to check (omit to scan ALL values recursively)'),
   file: z.string().min(1).describe('Path to a YAML file containing an array of regex patterns')
 });
@@ -95,6 +199,7 @@ const regexFileRuleSchema = z.object({
  */
 const regexFileKeyRuleSchema = z.object({
   type: z.literal('regexFileKey'),
+  severity: stopRuleSeveritySchema,
   path: z.string().min(1).optional().describe('JSONPath to check (omit to scan ALL values recursively)'),
   file: z.string().min(1).describe('Path to a YAML file whose keys are used as regex patterns')
 });
@@ -107,6 +212,7 @@ const regexFileKeyRuleSchema = z.object({
 const versionFormatRuleSchema = z
   .object({
     type: z.literal('versionFormat'),
+    severity: stopRuleSeveritySchema,
     path: z.string().min(1).describe('JSONPath to the version field to validate format'),
     vPrefix: z
       .enum(['required', 'allowed', 'forbidden'])
@@ -115,14 +221,25 @@ const versionFormatRuleSchema = z
   })
   .strict();
 
+/**
+ * Blocks pruning of destination files matched by the rule's glob.
+ * Has no JSONPath: it is checked against files `prune` would delete, not against values.
+ */
+const fileDeletionRuleSchema = z.object({ type: z.literal('fileDeletion'), severity: stopRuleSeveritySchema }).strict();
+
 const stopRuleSchema = z.discriminatedUnion('type', [
   semverMajorUpgradeRuleSchema,
   semverDowngradeRuleSchema,
+  immutableRuleSchema,
+  requiredRuleSchema,
   numericRuleSchema,
+  numericDeltaRuleSchema,
+  requestsWithinLimitsRuleSchema,
   regexRuleSchema,
   regexFileRuleSchema,
   regexFileKeyRuleSchema,
-  versionFormatRuleSchema
+  versionFormatRuleSchema,
+  fileDeletionRuleSchema
 ]);
 
 // Array Sort Schema
@@ -141,6 +258,34 @@ const keySortRuleSchema = z.object({
   path: z.string().min(1).describe('JSONPath to the object whose keys should be sorted alphabetically')
 });
 
+// Array Merge Schema
+/**
+ * Merge strategy for an array path, applied when syncing changed files.
+ * - replace: source array replaces the destination array (default for arrays without a rule)
+ * - mergeByKey: items are paired by `key` and merged field by field; items missing in source are removed
+ * - keepDestinationExtras: like mergeByKey, but destination-only items are kept
+ * - union: items from both sides, deduplicated by `key` (or by value without a key); source wins on conflicts
+ */
+const arrayMergeRuleSchema = z
+  .object({
+    path: z.string().min(1).describe('JSONPath to the array (e.g. "spec.template.spec.containers")'),
+    key: z
+      .string()
+      .min(1)
+      .optional()
+      .describe('Item property that identifies an item (required for mergeByKey and keepDestinationExtras)'),
+    strategy: z
+      .enum(['replace', 'mergeByKey', 'union', 'keepDestinationExtras'])
+      .describe('"replace", "mergeByKey", "union" or "keepDestinationExtras"')
+  })
+  .refine(
+    (data) => data.key !== undefined || (data.strategy !== 'mergeByKey' && data.strategy !== 'keepDestinationExtras'),
+    {
+      message: 'key is required for the mergeByKey and keepDestinationExtras strategies',
+      path: ['key']
+    }
+  );
+
 // Fixed Value Schema
 /**
  * Fixed value rule that sets a specific JSONPath location to a constant value.
@@ -173,14 +318,24 @@ const fixedValueRuleSchema = z.object({
 // Transform Schema
 // ============================================================================
 
+// JSONPaths that scope a content transform to (or away from) subtrees of a document
+const transformScopePathsSchema = z.array(z.string().min(1)).min(1);
+
 /**
  * Transform rule for regex find/replace operations.
  * Used for both content transforms (on YAML values) and filename transforms (on paths).
+ * Content rules can be scoped with `paths` (only values under these JSONPaths) and `excludePaths`.
  */
 const transformRuleSchema = z
   .object({
     find: z.string().min(1).describe('Regex pattern to find'),
-    replace: z.string().describe('Replacement string (supports $1, $2... capture groups)')
+    replace: z.string().describe('Replacement string (supports $1, $2... capture groups)'),
+    paths: transformScopePathsSchema
+      .optional()
+      .describe('Only transform values under these JSONPaths (content transforms only)'),
+    excludePaths: transformScopePathsSchema
+      .optional()
+      .describe('Never transform values under these JSONPaths (content transforms only)')
   })
   .refine(
     (data) => {
@@ -201,35 +356,251 @@ const transformRuleSchema = z
     path: ['find']
   });
 
+// Structural operations write keys named by these paths, so prototype keys could pollute Object.prototype
+const hasDangerousSegment = (jsonPath: string): boolean =>
+  parseJsonPath(jsonPath).some((segment) => DANGEROUS_KEYS.has(segment));
+
+const safeStructuralPath = (description: string) =>
+  z
+    .string()
+    .min(1)
+    .refine((jsonPath) => !hasDangerousSegment(jsonPath), {
+      message: 'Path must not contain prototype-polluting keys (__proto__, constructor, prototype)'
+    })
+    .describe(description);
+
+const safeStructuralKey = (description: string) =>
+  z
+    .string()
+    .min(1)
+    .refine((key) => !DANGEROUS_KEYS.has(key), {
+      message: 'Key must not be a prototype-polluting key (__proto__, constructor, prototype)'
+    })
+    .describe(description);
+
+// Wildcards and filters select many locations; a move needs exactly one destination
+const isSingleLocationPath = (jsonPath: string): boolean => !jsonPath.includes('*') && !/\[[^\]]*=/.test(jsonPath);
+
+/**
+ * Structural transform operation on source documents (one operation per entry).
+ * - move: Moves the value at `from` to `to`, creating missing parent objects
+ * - renameKey: Renames the key at `path` to `to`, keeping its position
+ * - delete: Removes the value at a JSONPath (wildcards and filters remove every match)
+ * - wrap: Replaces the value at `path` with an object holding it under `key`
+ * Missing paths are skipped silently, like fixedValues.
+ * Paths and keys naming `__proto__`, `constructor` or `prototype` are rejected.
+ */
+const structuralTransformSchema = z.union([
+  z
+    .object({
+      move: z.object({
+        from: safeStructuralPath('JSONPath of the value to move'),
+        to: safeStructuralPath('JSONPath the value is moved to').refine(isSingleLocationPath, {
+          message: 'move.to cannot contain wildcards or filters'
+        })
+      })
+    })
+    .strict(),
+  z
+    .object({
+      renameKey: z.object({
+        path: safeStructuralPath('JSONPath of the key to rename'),
+        to: safeStructuralKey('New key name')
+      })
+    })
+    .strict(),
+  z
+    .object({
+      delete: safeStructuralPath('JSONPath of the value to remove')
+    })
+    .strict(),
+  z
+    .object({
+      wrap: z.object({
+        path: safeStructuralPath('JSONPath of the value to wrap'),
+        key: safeStructuralKey('Key the value is nested under')
+      })
+    })
+    .strict()
+]);
+
+const functionTransformPathSchema = z.string().min(1).describe('JSONPath of the value(s) to transform');
+
+/**
+ * Function transform applied to string values at a JSONPath (one function per entry).
+ * - base64Encode / base64Decode: Encodes or decodes the value as base64
+ * - upper / lower: Changes the case of the value
+ * - semverBump: Bumps the major, minor or patch part of a semver value
+ * - prefix / suffix: Prepends or appends a fixed string
+ * Values that do not apply (e.g. invalid base64 or non-semver values) are left unchanged.
+ */
+const functionTransformSchema = z.union([
+  z.object({ path: functionTransformPathSchema, base64Encode: z.literal(true) }).strict(),
+  z.object({ path: functionTransformPathSchema, base64Decode: z.literal(true) }).strict(),
+  z.object({ path: functionTransformPathSchema, upper: z.literal(true) }).strict(),
+  z.object({ path: functionTransformPathSchema, lower: z.literal(true) }).strict(),
+  z
+    .object({
+      path: functionTransformPathSchema,
+      semverBump: z.enum(['major', 'minor', 'patch']).describe('Version part to bump')
+    })
+    .strict(),
+  z.object({ path: functionTransformPathSchema, prefix: z.string().min(1).describe('String to prepend') }).strict(),
+  z.object({ path: functionTransformPathSchema, suffix: z.string().min(1).describe('String to append') }).strict()
+]);
+
+/**
+ * contentFile/keysFile reference: a path, or an object that scopes every entry of the file to JSONPaths.
+ */
+const transformFileEntrySchema = z.union([
+  z.string().min(1),
+  z
+    .object({
+      file: z.string().min(1).describe('Transform file with key:value pairs'),
+      paths: transformScopePathsSchema.optional().describe('Only transform values under these JSONPaths'),
+      excludePaths: transformScopePathsSchema.optional().describe('Never transform values under these JSONPaths')
+    })
+    .strict()
+]);
+
 /**
  * Transform rules configuration for a file pattern.
  * - content: Inline regex transforms applied to YAML values (not keys)
  * - filename: Inline regex transforms applied to file paths (full relative path including folders)
  * - contentFile: File(s) with key:value pairs for literal content replacement (applied before inline)
  * - filenameFile: File(s) with key:value pairs for literal filename replacement (applied before inline)
+ * - structural: Move/rename/delete/wrap operations on source documents (applied before content transforms)
+ * - keys: Inline regex transforms applied to map keys (collisions within a map are errors)
+ * - keysFile: File(s) with key:value pairs for literal key replacement (applied before inline)
+ * - functions: Function transforms (base64, case, semverBump, prefix/suffix) applied after content transforms
  * At least one transform type must be specified.
  */
 const transformRulesSchema = z
   .object({
     content: z.array(transformRuleSchema).optional(),
     filename: z.array(transformRuleSchema).optional(),
-    contentFile: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
-    filenameFile: z.union([z.string().min(1), z.array(z.string().min(1))]).optional()
+    contentFile: z.union([transformFileEntrySchema, z.array(transformFileEntrySchema)]).optional(),
+    filenameFile: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
+    structural: z.array(structuralTransformSchema).optional(),
+    keys: z.array(transformRuleSchema).optional(),
+    keysFile: z.union([transformFileEntrySchema, z.array(transformFileEntrySchema)]).optional(),
+    functions: z.array(functionTransformSchema).optional()
   })
   .refine(
     (data) =>
       data.content !== undefined ||
       data.filename !== undefined ||
       data.contentFile !== undefined ||
-      data.filenameFile !== undefined,
+      data.filenameFile !== undefined ||
+      data.structural !== undefined ||
+      data.keys !== undefined ||
+      data.keysFile !== undefined ||
+      data.functions !== undefined,
     {
-      message: 'At least one of content, filename, contentFile, or filenameFile must be specified'
+      message:
+        'At least one of content, filename, contentFile, filenameFile, structural, keys, keysFile, or functions must be specified'
     }
-  );
+  )
+  .refine((data) => !data.filename?.some((rule) => rule.paths !== undefined || rule.excludePaths !== undefined), {
+    message: 'paths and excludePaths are only supported on content transforms',
+    path: ['filename']
+  });
+
+// ============================================================================
+// Variables Schema
+// ============================================================================
+
+// Names referenced as `${name}`: a letter or underscore, then letters, digits, `_`, `.` or `-`
+export const VARIABLE_NAME_PATTERN = /^[A-Z_a-z][\w.-]*$/;
+
+const variableValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+// ============================================================================
+// Inheritance Override Schema ($replace / $remove)
+// ============================================================================
+
+// Fields whose inherited value can be replaced; per-file records also accept `<field>.<glob>`
+export const REPLACEABLE_CONFIG_FIELDS = [
+  'include',
+  'exclude',
+  'variables',
+  'variablesFile',
+  'outputFormat',
+  'skipPath',
+  'diffIgnore',
+  'transforms',
+  'stopRules',
+  'fixedValues',
+  'arrayMerge',
+  'orderedArrays'
+] as const;
+
+const isReplaceableField = (entry: string): boolean =>
+  (REPLACEABLE_CONFIG_FIELDS as readonly string[]).includes(entry.split('.')[0]!);
+
+// A string matches equal items; an object matches rules whose listed properties are all equal
+const removalMatcherSchema = z.union([z.string().min(1), z.record(z.string(), z.unknown())]);
+
+const removalRecordSchema = z.record(z.string(), z.array(removalMatcherSchema));
+
+/**
+ * Inherited entries removed before this config is merged over its parents.
+ * - include / exclude: Patterns to drop
+ * - skipPath, diffIgnore, orderedArrays, stopRules, fixedValues, arrayMerge: Per-glob matchers
+ * - transforms: Per-glob, per-list matchers (e.g. `content: [{ find: 'uat' }]`)
+ */
+const removeOverridesSchema = z
+  .object({
+    include: z.array(z.string().min(1)).optional(),
+    exclude: z.array(z.string().min(1)).optional(),
+    skipPath: removalRecordSchema.optional(),
+    diffIgnore: removalRecordSchema.optional(),
+    orderedArrays: removalRecordSchema.optional(),
+    stopRules: removalRecordSchema.optional(),
+    fixedValues: removalRecordSchema.optional(),
+    arrayMerge: removalRecordSchema.optional(),
+    transforms: z
+      .record(
+        z.string(),
+        z
+          .object({
+            content: z.array(removalMatcherSchema).optional(),
+            filename: z.array(removalMatcherSchema).optional(),
+            contentFile: z.array(removalMatcherSchema).optional(),
+            filenameFile: z.array(removalMatcherSchema).optional(),
+            structural: z.array(removalMatcherSchema).optional(),
+            keys: z.array(removalMatcherSchema).optional(),
+            keysFile: z.array(removalMatcherSchema).optional(),
+            functions: z.array(removalMatcherSchema).optional()
+          })
+          .strict()
+      )
+      .optional()
+  })
+  .strict();
 
 // Base Configuration Schema (allows partial configs for inheritance, no defaults)
 export const baseConfigSchema = z.object({
-  extends: z.string().min(1).optional().describe('Path to a parent config file to inherit from (up to 5 levels deep)'),
+  extends: z
+    .union([z.string().min(1), z.array(z.string().min(1)).min(1)])
+    .optional()
+    .describe(
+      'Path (or list of paths, merged left to right) to parent config files to inherit from (up to 5 levels deep)'
+    ),
+
+  $replace: z
+    .array(
+      z
+        .string()
+        .min(1)
+        .refine(isReplaceableField, {
+          message: `Must be one of ${REPLACEABLE_CONFIG_FIELDS.join(', ')} (optionally followed by .<glob>)`
+        })
+    )
+    .optional()
+    .describe('Inherited fields (or "<field>.<glob>" entries) replaced by this config instead of merged'),
+
+  $remove: removeOverridesSchema.optional().describe('Inherited entries removed before this config is merged'),
 
   requiredVersion: z
     .string()
@@ -262,6 +633,31 @@ export const baseConfigSchema = z.object({
     .optional()
     .describe('Per-file-glob map of JSONPath patterns whose destination values are preserved'),
 
+  variables: z
+    .record(
+      z.string().regex(VARIABLE_NAME_PATTERN, { message: 'Variable names must match [A-Za-z_][A-Za-z0-9_.-]*' }),
+      variableValueSchema
+    )
+    .optional()
+    .describe('Named values referenced as ${name} in transform replace strings and fixedValues values'),
+
+  variablesFile: z
+    .union([z.string().min(1), z.array(z.string().min(1))])
+    .optional()
+    .describe('YAML file(s) with flat name: value pairs; inline variables override file values'),
+
+  envVariables: z
+    .boolean()
+    .optional()
+    .describe('Allow ${env:NAME} references to environment variables (default: false)'),
+
+  diffIgnore: z
+    .record(z.string(), z.array(z.string()))
+    .optional()
+    .describe(
+      'Per-file-glob map of JSONPath patterns ignored when detecting changes (still synced with other changes)'
+    ),
+
   outputFormat: z
     .object({
       indent: z
@@ -270,7 +666,9 @@ export const baseConfigSchema = z.object({
         .min(1)
         .max(10)
         .optional()
-        .describe('Number of spaces for YAML indentation (1–10, default: 2)'),
+        .describe(
+          'Number of spaces for indentation (1–10); YAML defaults to 2, JSON keeps the destination indent when unset'
+        ),
       keySeparator: z.boolean().optional().describe('Insert a blank line between top-level keys (default: false)'),
       quoteValues: z
         .record(z.string(), z.array(z.string()))
@@ -305,12 +703,22 @@ export const baseConfigSchema = z.object({
   fixedValues: z
     .record(z.string(), z.array(fixedValueRuleSchema))
     .optional()
-    .describe('Per-file-glob rules that pin specific JSONPath locations to constant values after merge')
+    .describe('Per-file-glob rules that pin specific JSONPath locations to constant values after merge'),
+
+  arrayMerge: z
+    .record(z.string(), z.array(arrayMergeRuleSchema))
+    .optional()
+    .describe('Per-file-glob merge strategies for array paths (e.g. merge containers by name)'),
+
+  orderedArrays: z
+    .record(z.string(), z.array(z.string().min(1)))
+    .optional()
+    .describe('Per-file-glob JSONPaths of arrays compared in order, so reorders are changes (e.g. args, command)')
 });
 
 // Final Configuration Schema (requires source and destination, applies defaults)
 const finalConfigSchema = baseConfigSchema
-  .omit({ extends: true })
+  .omit({ extends: true, $replace: true, $remove: true })
   .required({ source: true, destination: true })
   .extend({
     include: z.array(z.string().min(1)).default(['**/*']),
@@ -319,7 +727,7 @@ const finalConfigSchema = baseConfigSchema
     confirmationDelay: z.number().int().min(0).default(3000),
     outputFormat: z
       .object({
-        indent: z.number().int().min(1).max(10).default(2),
+        indent: z.number().int().min(1).max(10).optional(),
         keySeparator: z.boolean().default(false),
         quoteValues: z.record(z.string(), z.array(z.string())).optional(),
         keyOrders: z.record(z.string(), z.array(z.string())).optional(),
@@ -327,7 +735,7 @@ const finalConfigSchema = baseConfigSchema
         arraySort: z.record(z.string(), z.array(arraySortRuleSchema)).optional()
       })
       .optional()
-      .default({ indent: 2, keySeparator: false })
+      .default({ keySeparator: false })
   })
   .refine(
     (data) => {
@@ -343,7 +751,7 @@ const finalConfigSchema = baseConfigSchema
 
 // Format-Only Configuration Schema (destination required, source optional)
 const formatOnlyConfigSchema = baseConfigSchema
-  .omit({ extends: true })
+  .omit({ extends: true, $replace: true, $remove: true })
   .required({ destination: true })
   .extend({
     include: z.array(z.string().min(1)).default(['**/*']),
@@ -352,7 +760,7 @@ const formatOnlyConfigSchema = baseConfigSchema
     confirmationDelay: z.number().int().min(0).default(3000),
     outputFormat: z
       .object({
-        indent: z.number().int().min(1).max(10).default(2),
+        indent: z.number().int().min(1).max(10).optional(),
         keySeparator: z.boolean().default(false),
         quoteValues: z.record(z.string(), z.array(z.string())).optional(),
         keyOrders: z.record(z.string(), z.array(z.string())).optional(),
@@ -360,30 +768,43 @@ const formatOnlyConfigSchema = baseConfigSchema
         arraySort: z.record(z.string(), z.array(arraySortRuleSchema)).optional()
       })
       .optional()
-      .default({ indent: 2, keySeparator: false })
+      .default({ keySeparator: false })
   });
 
 //Types
 export type BaseConfig = z.infer<typeof baseConfigSchema>;
+export type RemoveOverrides = z.infer<typeof removeOverridesSchema>;
 export type FinalConfig = z.infer<typeof finalConfigSchema>;
 export type FormatOnlyConfig = z.infer<typeof formatOnlyConfigSchema>;
 export type Config = FinalConfig;
 export type StopRule = z.infer<typeof stopRuleSchema>;
 export type SemverMajorUpgradeRule = z.infer<typeof semverMajorUpgradeRuleSchema>;
 export type SemverDowngradeRule = z.infer<typeof semverDowngradeRuleSchema>;
+export type ImmutableRule = z.infer<typeof immutableRuleSchema>;
+export type RequiredRule = z.infer<typeof requiredRuleSchema>;
 export type NumericRule = z.infer<typeof numericRuleSchema>;
+export type NumericDeltaRule = z.infer<typeof numericDeltaRuleSchema>;
+export type RequestsWithinLimitsRule = z.infer<typeof requestsWithinLimitsRuleSchema>;
 export type RegexRule = z.infer<typeof regexRuleSchema>;
 export type RegexFileRule = z.infer<typeof regexFileRuleSchema>;
 export type RegexFileKeyRule = z.infer<typeof regexFileKeyRuleSchema>;
 export type VersionFormatRule = z.infer<typeof versionFormatRuleSchema>;
+export type FileDeletionRule = z.infer<typeof fileDeletionRuleSchema>;
+export type StopRuleSeverity = NonNullable<z.infer<typeof stopRuleSeveritySchema>>;
 export type ArraySortRule = z.infer<typeof arraySortRuleSchema>;
 export type KeySortRule = z.infer<typeof keySortRuleSchema>;
 export type TransformRule = z.infer<typeof transformRuleSchema>;
 export type TransformRules = z.infer<typeof transformRulesSchema>;
+export type TransformFileEntry = z.infer<typeof transformFileEntrySchema>;
 export type TransformConfig = Record<string, TransformRules>;
+export type StructuralTransform = z.infer<typeof structuralTransformSchema>;
+export type FunctionTransform = z.infer<typeof functionTransformSchema>;
 export type OutputFormat = BaseConfig['outputFormat'];
 export type FixedValueRule = z.infer<typeof fixedValueRuleSchema>;
 export type FixedValueConfig = Record<string, FixedValueRule[]>;
+export type ArrayMergeRule = z.infer<typeof arrayMergeRuleSchema>;
+export type ArrayMergeStrategy = ArrayMergeRule['strategy'];
+export type ArrayMergeConfig = Record<string, ArrayMergeRule[]>;
 
 //Parses and validates base configuration (allows partial configs)
 export const parseBaseConfig = (data: unknown, configPath?: string): BaseConfig => {
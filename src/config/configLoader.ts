@@ -10,9 +10,12 @@ import {
   parseFinalConfig,
   parseFormatOnlyConfig,
   type TransformConfig,
+  type TransformFileEntry,
+  type TransformRule,
   type TransformRules
 } from './configFile';
 import { resolveConfigWithExtends } from './configMerger';
+import { resolveConfigVariables } from './variableResolver';
 
 // ============================================================================
 // Error Handling
@@ -60,9 +63,23 @@ export type LoadConfigOptions = {
   formatOnly?: boolean;
 };
 
+/**
+ * Loads one contentFile/keysFile reference; object references scope every loaded rule to their paths/excludePaths.
+ */
+const loadScopedTransformFile = (reference: TransformFileEntry, configDirectory: string): TransformRule[] => {
+  if (typeof reference === 'string') return loadTransformFiles(reference, configDirectory);
+
+  const { file, paths, excludePaths } = reference;
+  return loadTransformFiles(file, configDirectory).map((rule) => ({
+    ...rule,
+    ...(paths && { paths }),
+    ...(excludePaths && { excludePaths })
+  }));
+};
+
 /**
  * Expands file-based transform configurations by loading external YAML files.
- * Converts contentFile and filenameFile references into inline transform rules.
+ * Converts contentFile, filenameFile and keysFile references into inline transform rules.
  * File-based transforms are prepended before inline regex transforms.
  *
  * @param config - The merged base config (after extends resolution)
@@ -77,14 +94,22 @@ const expandTransformFiles = (config: BaseConfig, configDirectory: string): Base
   for (const [pattern, rules] of Object.entries(config.transforms)) {
     let content = [...(rules.content ?? [])];
     let filename = [...(rules.filename ?? [])];
+    let keys = [...(rules.keys ?? [])];
 
     // Load and prepend content transform files (file-based applied BEFORE inline regex)
     if (rules.contentFile) {
-      const filePaths = Array.isArray(rules.contentFile) ? rules.contentFile : [rules.contentFile];
-      const fileEntries = loadTransformFiles(filePaths, configDirectory);
+      const fileReferences = Array.isArray(rules.contentFile) ? rules.contentFile : [rules.contentFile];
+      const fileEntries = fileReferences.flatMap((reference) => loadScopedTransformFile(reference, configDirectory));
       content = [...fileEntries, ...content];
     }
 
+    // Load and prepend key transform files (file-based applied BEFORE inline regex)
+    if (rules.keysFile) {
+      const fileReferences = Array.isArray(rules.keysFile) ? rules.keysFile : [rules.keysFile];
+      const fileEntries = fileReferences.flatMap((reference) => loadScopedTransformFile(reference, configDirectory));
+      keys = [...fileEntries, ...keys];
+    }
+
     // Load and prepend filename transform files (file-based applied BEFORE inline regex)
     if (rules.filenameFile) {
       const filePaths = Array.isArray(rules.filenameFile) ? rules.filenameFile : [rules.filenameFile];
@@ -92,7 +117,13 @@ const expandTransformFiles = (config: BaseConfig, configDirectory: string): Base
       filename = [...fileEntries, ...filename];
     }
 
-    const expanded: TransformRules = { content, filename };
+    const expanded: TransformRules = {
+      content,
+      filename,
+      ...(rules.structural && { structural: rules.structural }),
+      ...(keys.length > 0 && { keys }),
+      ...(rules.functions && { functions: rules.functions })
+    };
     expandedTransforms[pattern] = expanded;
   }
 
@@ -111,8 +142,8 @@ export const loadConfigFile = (
   // Resolve config with extends chain and merge
   const mergedConfig = resolveConfigWithExtends(configPath, new Set(), 0, logger);
 
-  // Expand file-based transform configs (contentFile, filenameFile)
-  const expandedConfig = expandTransformFiles(mergedConfig, configDirectory);
+  // Expand file-based transform configs (contentFile, filenameFile), then interpolate ${var} references
+  const expandedConfig = resolveConfigVariables(expandTransformFiles(mergedConfig, configDirectory), configDirectory);
 
   // Check requiredVersion before final validation
   if (expandedConfig.requiredVersion) checkRequiredVersion(expandedConfig.requiredVersion);
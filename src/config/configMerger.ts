@@ -5,8 +5,9 @@ import * as YAML from 'yaml';
 
 import { MAX_CONFIG_EXTENDS_DEPTH } from '../constants';
 import type { Logger } from '../logger';
+import { deepEqual } from '../utils/deepEqual';
 import { createErrorClass, createErrorTypeGuard } from '../utils/errors';
-import { type BaseConfig, parseBaseConfig, type TransformRules } from './configFile';
+import { type BaseConfig, parseBaseConfig, type RemoveOverrides, type TransformRules } from './configFile';
 
 // ============================================================================
 // Error Handling
@@ -46,6 +47,125 @@ const ConfigMergerErrorClass = createErrorClass(
 export class ConfigMergerError extends ConfigMergerErrorClass {}
 export const isConfigMergerError = createErrorTypeGuard(ConfigMergerError);
 
+// ============================================================================
+// Inheritance Overrides ($replace / $remove)
+// ============================================================================
+
+type RemovalMatcher = string | Record<string, unknown>;
+
+type TransformListField = keyof NonNullable<RemoveOverrides['transforms']>[string];
+
+const TRANSFORM_LIST_FIELDS: TransformListField[] = [
+  'content',
+  'filename',
+  'contentFile',
+  'filenameFile',
+  'structural',
+  'keys',
+  'keysFile',
+  'functions'
+];
+
+const isRemovalMatch = (item: unknown, matcher: RemovalMatcher): boolean => {
+  if (typeof matcher === 'string') return item === matcher;
+  if (typeof item !== 'object' || item === null) return false;
+  return Object.entries(matcher).every(([key, value]) => deepEqual((item as Record<string, unknown>)[key], value));
+};
+
+const removeMatching = <T>(items: T[], matchers: RemovalMatcher[] | undefined): T[] =>
+  matchers ? items.filter((item) => !matchers.some((matcher) => isRemovalMatch(item, matcher))) : items;
+
+// Globs left without entries are dropped, so removals never leave empty rule lists behind
+const removeFromPerFileRecord = <T>(
+  record: Record<string, T[]> | undefined,
+  removals: Record<string, RemovalMatcher[]> | undefined
+): Record<string, T[]> | undefined => {
+  if (!record || !removals) return record;
+
+  const result: Record<string, T[]> = {};
+  for (const [pattern, items] of Object.entries(record)) {
+    const remaining = removeMatching(items, removals[pattern]);
+    if (remaining.length > 0 || items.length === 0) result[pattern] = remaining;
+  }
+  return result;
+};
+
+const removeFromTransformRules = (
+  rules: TransformRules,
+  removals: Partial<Record<TransformListField, RemovalMatcher[]>>
+): TransformRules => {
+  const result: Record<string, unknown> = { ...rules };
+  for (const field of TRANSFORM_LIST_FIELDS) {
+    if (rules[field] === undefined || !removals[field]) continue;
+
+    const remaining = removeMatching(normalizeToArray<unknown>(rules[field]), removals[field]);
+    if (remaining.length > 0) result[field] = remaining;
+    else delete result[field];
+  }
+  return result;
+};
+
+const removeFromTransformRecord = (
+  record: Record<string, TransformRules> | undefined,
+  removals: RemoveOverrides['transforms']
+): Record<string, TransformRules> | undefined => {
+  if (!record || !removals) return record;
+
+  return Object.fromEntries(
+    Object.entries(record).map(([pattern, rules]) => [
+      pattern,
+      removals[pattern] ? removeFromTransformRules(rules, removals[pattern]) : rules
+    ])
+  );
+};
+
+// `field` drops the whole inherited value, `field.glob` only the inherited entry of that glob
+const applyReplacements = (parent: BaseConfig, replacements: string[]): BaseConfig => {
+  const result: Record<string, unknown> = { ...parent };
+
+  for (const entry of replacements) {
+    const separatorIndex = entry.indexOf('.');
+    if (separatorIndex === -1) {
+      delete result[entry];
+      continue;
+    }
+
+    const field = entry.slice(0, separatorIndex);
+    const pattern = entry.slice(separatorIndex + 1);
+    const value = result[field];
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      const rest: Record<string, unknown> = { ...value };
+      delete rest[pattern];
+      result[field] = rest;
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Applies a child's `$replace` and `$remove` directives to the config it inherits from.
+ * The returned parent is then merged with the child as usual.
+ */
+const applyInheritanceOverrides = (parent: BaseConfig, child: BaseConfig): BaseConfig => {
+  const removals = child.$remove;
+  const replaced = child.$replace ? applyReplacements(parent, child.$replace) : parent;
+  if (!removals) return replaced;
+
+  return {
+    ...replaced,
+    ...(replaced.include && { include: removeMatching(replaced.include, removals.include) }),
+    ...(replaced.exclude && { exclude: removeMatching(replaced.exclude, removals.exclude) }),
+    skipPath: removeFromPerFileRecord(replaced.skipPath, removals.skipPath),
+    diffIgnore: removeFromPerFileRecord(replaced.diffIgnore, removals.diffIgnore),
+    orderedArrays: removeFromPerFileRecord(replaced.orderedArrays, removals.orderedArrays),
+    stopRules: removeFromPerFileRecord(replaced.stopRules, removals.stopRules),
+    fixedValues: removeFromPerFileRecord(replaced.fixedValues, removals.fixedValues),
+    arrayMerge: removeFromPerFileRecord(replaced.arrayMerge, removals.arrayMerge),
+    transforms: removeFromTransformRecord(replaced.transforms, removals.transforms)
+  };
+};
+
 // ============================================================================
 // Config Merging
 // ============================================================================
@@ -56,11 +176,14 @@ export const isConfigMergerError = createErrorTypeGuard(ConfigMergerError);
  * Merge rules:
  * 1. Primitive fields: child overrides parent
  * 2. Arrays (include, exclude): concatenate [...parent, ...child]
- * 3. Per-file Records (skipPath, transforms, stopRules, fixedValues): merge keys, concatenate arrays
+ * 3. Per-file Records (skipPath, diffIgnore, transforms, stopRules, fixedValues, arrayMerge, orderedArrays): merge keys, concatenate arrays
  * 4. outputFormat: shallow merge (child fields override parent fields)
- * 5. Remove 'extends' field from merged result
+ * 5. Remove 'extends', '$replace' and '$remove' fields from merged result
+ *
+ * The child's `$replace` and `$remove` directives are applied to the parent before merging.
  */
-export const mergeConfigs = (parent: BaseConfig, child: BaseConfig): BaseConfig => {
+export const mergeConfigs = (inherited: BaseConfig, child: BaseConfig): BaseConfig => {
+  const parent = applyInheritanceOverrides(inherited, child);
   const merged: BaseConfig = {};
 
   // Primitive fields - child overrides parent
@@ -79,6 +202,9 @@ export const mergeConfigs = (parent: BaseConfig, child: BaseConfig): BaseConfig
   if (child.requiredVersion !== undefined) merged.requiredVersion = child.requiredVersion;
   else if (parent.requiredVersion !== undefined) merged.requiredVersion = parent.requiredVersion;
 
+  if (child.envVariables !== undefined) merged.envVariables = child.envVariables;
+  else if (parent.envVariables !== undefined) merged.envVariables = parent.envVariables;
+
   // Arrays - concatenate parent and child
   const parentInclude = parent.include ?? [];
   const childInclude = child.include ?? [];
@@ -88,6 +214,13 @@ export const mergeConfigs = (parent: BaseConfig, child: BaseConfig): BaseConfig
   const childExclude = child.exclude ?? [];
   if (parentExclude.length > 0 || childExclude.length > 0) merged.exclude = [...parentExclude, ...childExclude];
 
+  const variablesFile = [...normalizeToArray(parent.variablesFile), ...normalizeToArray(child.variablesFile)];
+  if (variablesFile.length > 0) merged.variablesFile = variablesFile;
+
+  // variables - shallow merge (child overrides parent values)
+  if (parent.variables !== undefined || child.variables !== undefined)
+    merged.variables = { ...parent.variables, ...child.variables };
+
   // outputFormat - shallow merge (child overrides parent fields)
   if (parent.outputFormat !== undefined || child.outputFormat !== undefined)
     merged.outputFormat = {
@@ -97,9 +230,12 @@ export const mergeConfigs = (parent: BaseConfig, child: BaseConfig): BaseConfig
 
   // Per-file Records - merge keys, concatenate arrays
   merged.skipPath = mergePerFileRecords(parent.skipPath, child.skipPath);
+  merged.diffIgnore = mergePerFileRecords(parent.diffIgnore, child.diffIgnore);
   merged.transforms = mergeTransformRecords(parent.transforms, child.transforms);
   merged.stopRules = mergePerFileRecords(parent.stopRules, child.stopRules);
   merged.fixedValues = mergePerFileRecords(parent.fixedValues, child.fixedValues);
+  merged.arrayMerge = mergePerFileRecords(parent.arrayMerge, child.arrayMerge);
+  merged.orderedArrays = mergePerFileRecords(parent.orderedArrays, child.orderedArrays);
 
   // Note: 'extends' field is intentionally NOT included in merged result
 
@@ -110,25 +246,33 @@ export const mergeConfigs = (parent: BaseConfig, child: BaseConfig): BaseConfig
  * Normalizes string | string[] | undefined to string[].
  * Helper for merging file path arrays.
  */
-const normalizeToArray = (value: string | string[] | undefined): string[] => {
+const normalizeToArray = <T>(value: T | T[] | undefined): T[] => {
   if (!value) return [];
   return Array.isArray(value) ? value : [value];
 };
 
 /**
  * Merges transform rules from parent and child configs.
- * Concatenates content, filename, contentFile, and filenameFile arrays.
- * Note: contentFile and filenameFile are merged into arrays even if inputs were strings.
+ * Concatenates content, filename, contentFile, filenameFile, structural, keys, keysFile, and functions arrays.
+ * Note: contentFile, filenameFile and keysFile are merged into arrays even if inputs were strings.
  */
 const mergeTransformRules = (parent?: TransformRules, child?: TransformRules): TransformRules => {
   const contentFile = [...normalizeToArray(parent?.contentFile), ...normalizeToArray(child?.contentFile)];
   const filenameFile = [...normalizeToArray(parent?.filenameFile), ...normalizeToArray(child?.filenameFile)];
+  const structural = [...(parent?.structural ?? []), ...(child?.structural ?? [])];
+  const keys = [...(parent?.keys ?? []), ...(child?.keys ?? [])];
+  const keysFile = [...normalizeToArray(parent?.keysFile), ...normalizeToArray(child?.keysFile)];
+  const functions = [...(parent?.functions ?? []), ...(child?.functions ?? [])];
 
   return {
     content: [...(parent?.content ?? []), ...(child?.content ?? [])],
     filename: [...(parent?.filename ?? []), ...(child?.filename ?? [])],
     ...(contentFile.length > 0 && { contentFile }),
-    ...(filenameFile.length > 0 && { filenameFile })
+    ...(filenameFile.length > 0 && { filenameFile }),
+    ...(structural.length > 0 && { structural }),
+    ...(keys.length > 0 && { keys }),
+    ...(keysFile.length > 0 && { keysFile }),
+    ...(functions.length > 0 && { functions })
   };
 };
 
@@ -182,21 +326,65 @@ const mergePerFileRecords = <T>(
 // Extends Resolution
 // ============================================================================
 
+const assertExtendedConfigExists = (absolutePath: string, parent: string, parentPath: string): void => {
+  // Check if parent file exists
+  try {
+    readFileSync(parentPath, 'utf8');
+  } catch (error: unknown) {
+    if (error instanceof Error && 'code' in error) {
+      const extendsError = new ConfigMergerError('Extended config file not found', {
+        code: 'INVALID_EXTENDS_PATH',
+        path: absolutePath,
+        extends: parent,
+        resolved: parentPath,
+        cause: error
+      });
+
+      extendsError.message += '\n\n  Hint: Cannot find extended config file:';
+      extendsError.message += '\n    - Check the extends path in your config';
+      extendsError.message += `\n    - Path is resolved relative to: ${path.dirname(absolutePath)}`;
+      extendsError.message += '\n    - Use paths relative to the config file location';
+
+      throw extendsError;
+    }
+
+    throw new ConfigMergerError('Extended config file not found', {
+      code: 'INVALID_EXTENDS_PATH',
+      path: absolutePath,
+      extends: parent,
+      resolved: parentPath,
+      cause: error as Error
+    });
+  }
+};
+
+// One config of the extends DAG. `scopeStart` is the chain index of the first config merged as part of its
+// own ancestry; the configs from there up to itself are the ones its `$replace` and `$remove` apply to
+interface ExtendsChainLink {
+  config: BaseConfig;
+  scopeStart: number;
+}
+
+// Absolute config paths in merge order (parents before children) with their parsed configs
+type ExtendsChain = Map<string, ExtendsChainLink>;
+
+const getParentPaths = (configPath: string, config: BaseConfig): string[] =>
+  (config.extends === undefined ? [] : [config.extends].flat()).map((parent) =>
+    path.resolve(path.dirname(configPath), parent)
+  );
+
 /**
- * Recursively resolves extends chain and merges configs.
- *
- * @param configPath - Path to config file to load
- * @param visited - Set of visited paths for circular detection
- * @param depth - Current depth in extends chain
- * @param logger - Optional logger for verbose debug output
- * @returns Merged config object (before final validation)
+ * Walks the extends DAG depth-first and appends every config after its parents.
+ * Parents are visited left to right; a config shared by several parents (diamond) is added once.
+ * `visited` only holds the ancestors of the current config, so cycles are detected per branch.
  */
-export const resolveConfigWithExtends = (
+const collectExtendsChain = (
   configPath: string,
-  visited: Set<string> = new Set(),
-  depth: number = 0,
-  logger?: Logger
-): BaseConfig => {
+  visited: Set<string>,
+  depth: number,
+  logger: Logger | undefined,
+  chain: ExtendsChain
+): void => {
   // Check depth limit
   if (depth > MAX_CONFIG_EXTENDS_DEPTH) {
     const depthError = new ConfigMergerError(`Extends chain exceeds maximum depth of ${MAX_CONFIG_EXTENDS_DEPTH}`, {
@@ -218,11 +406,11 @@ export const resolveConfigWithExtends = (
 
   // Check circular dependency
   if (visited.has(absolutePath)) {
-    const chain = [...visited, absolutePath].map((filePath) => filePath.split('/').pop()).join(' → ');
+    const cycle = [...visited, absolutePath].map((filePath) => filePath.split('/').pop()).join(' → ');
     const circularError = new ConfigMergerError('Circular dependency detected in extends chain', {
       code: 'CIRCULAR_DEPENDENCY',
       path: absolutePath,
-      chain
+      chain: cycle
     });
 
     circularError.message += '\n\n  Hint: Break the circular reference in your extends chain:';
@@ -296,49 +484,87 @@ export const resolveConfigWithExtends = (
     logger.debug(`Loading config: ${filename} (depth: ${depth})`);
   }
 
-  // If no extends, return config as-is
-  if (config.extends === undefined) return config;
-
-  // Resolve parent path relative to current config directory
+  const parents = config.extends === undefined ? [] : [config.extends].flat();
   const configDirectory = path.dirname(absolutePath);
-  const parentPath = path.resolve(configDirectory, config.extends);
+  const scopeStart = chain.size;
 
-  // Check if parent file exists
-  try {
-    readFileSync(parentPath, 'utf8');
-  } catch (error: unknown) {
-    if (error instanceof Error && 'code' in error) {
-      const extendsError = new ConfigMergerError('Extended config file not found', {
-        code: 'INVALID_EXTENDS_PATH',
-        path: absolutePath,
-        extends: config.extends,
-        resolved: parentPath,
-        cause: error
-      });
+  for (const parent of parents) {
+    // Resolve parent path relative to current config directory
+    const parentPath = path.resolve(configDirectory, parent);
 
-      extendsError.message += '\n\n  Hint: Cannot find extended config file:';
-      extendsError.message += '\n    - Check the extends path in your config';
-      extendsError.message += `\n    - Path is resolved relative to: ${path.dirname(absolutePath)}`;
-      extendsError.message += '\n    - Use paths relative to the config file location';
+    // Shared ancestors are merged once, at their first position
+    if (chain.has(parentPath)) continue;
 
-      throw extendsError;
-    }
+    assertExtendedConfigExists(absolutePath, parent, parentPath);
 
-    throw new ConfigMergerError('Extended config file not found', {
-      code: 'INVALID_EXTENDS_PATH',
-      path: absolutePath,
-      extends: config.extends,
-      resolved: parentPath,
-      cause: error as Error
-    });
+    // Add verbose debug output for extends
+    if (logger?.shouldShow('debug')) logger.debug(`  Extends: ${parent} → ${parentPath.split('/').pop()}`);
+
+    collectExtendsChain(parentPath, visitedWithCurrent, depth + 1, logger, chain);
   }
 
-  // Add verbose debug output for extends
-  if (logger?.shouldShow('debug')) logger.debug(`  Extends: ${config.extends} → ${parentPath.split('/').pop()}`);
+  chain.set(absolutePath, { config, scopeStart });
+};
+
+/**
+ * Resolves a config of the chain: its parents are resolved first and merged left to right, then the config
+ * itself is merged on top. Each config's `$replace` and `$remove` therefore only affect its own ancestors,
+ * never entries of sibling parents. Configs already merged through an earlier parent are skipped.
+ */
+const mergeExtendsDag = (configPath: string, chain: ExtendsChain, merged: Set<string>): BaseConfig | undefined => {
+  if (merged.has(configPath)) return undefined;
+  merged.add(configPath);
+
+  const { config } = chain.get(configPath)!;
+  let inherited: BaseConfig = {};
+  for (const parentPath of getParentPaths(configPath, config)) {
+    const parent = mergeExtendsDag(parentPath, chain, merged);
+    if (parent) inherited = mergeConfigs(inherited, parent);
+  }
+
+  return mergeConfigs(inherited, config);
+};
+
+/**
+ * Resolves the extends DAG and merges configs left to right, parents before children.
+ *
+ * @param configPath - Path to config file to load
+ * @param visited - Set of visited paths for circular detection
+ * @param depth - Current depth in extends chain
+ * @param logger - Optional logger for verbose debug output
+ * @returns Merged config object (before final validation)
+ */
+export const resolveConfigWithExtends = (
+  configPath: string,
+  visited: Set<string> = new Set(),
+  depth: number = 0,
+  logger?: Logger
+): BaseConfig => {
+  const chain: ExtendsChain = new Map();
+  collectExtendsChain(configPath, visited, depth, logger, chain);
+
+  return mergeExtendsDag(path.resolve(configPath), chain, new Set())!;
+};
 
-  // Recursively load parent
-  const parentConfig = resolveConfigWithExtends(parentPath, visitedWithCurrent, depth + 1, logger);
+/**
+ * Lists the config files of the extends DAG in merge order (parents first, the given config last).
+ *
+ * @param configPath - Path to config file to load
+ * @returns Absolute config paths
+ */
+export const resolveExtendsChain = (configPath: string): string[] =>
+  resolveExtendsScopes(configPath).map(({ file }) => file);
 
-  // Merge parent with current (current overrides parent)
-  return mergeConfigs(parentConfig, config);
+/**
+ * Lists the config files of the extends DAG in merge order, each with the chain index of the first config
+ * merged as part of its own ancestry. `$replace` and `$remove` of a config only apply to the configs
+ * from `scopeStart` up to itself.
+ *
+ * @param configPath - Path to config file to load
+ * @returns Absolute config paths with their scope start
+ */
+export const resolveExtendsScopes = (configPath: string): Array<{ file: string; scopeStart: number }> => {
+  const chain: ExtendsChain = new Map();
+  collectExtendsChain(configPath, new Set(), 0, undefined, chain);
+  return [...chain.entries()].map(([file, { scopeStart }]) => ({ file, scopeStart }));
 };
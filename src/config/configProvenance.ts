@@ -0,0 +1,286 @@
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+
+import * as YAML from 'yaml';
+
+import { deepEqual } from '../utils/deepEqual';
+import type { BaseConfig } from './configFile';
+import { resolveConfigWithExtends, resolveExtendsScopes } from './configMerger';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ConfigPathSegment = string | number;
+
+/**
+ * Where one value of the merged config was defined.
+ * - path: Location in the merged config, e.g. `transforms['*.yaml'].content[0]`
+ * - file: Absolute path of the config file in the extends chain
+ * - line: 1-based line in that file
+ */
+export interface ConfigProvenanceEntry {
+  path: string;
+  segments: ConfigPathSegment[];
+  file: string;
+  line: number;
+}
+
+export interface ConfigProvenance {
+  config: BaseConfig;
+  extendsChain: string[];
+  entries: ConfigProvenanceEntry[];
+}
+
+// One config file of the chain: its raw data plus the parsed document for line lookups
+interface ChainSource {
+  file: string;
+  scopeStart: number;
+  data: Record<string, unknown>;
+  document: YAML.Document;
+  lineCounter: YAML.LineCounter;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Fields whose arrays are concatenated along the chain; every item keeps the file it came from
+const CONCATENATED_FIELDS = new Set([
+  'include',
+  'exclude',
+  'variablesFile',
+  'skipPath',
+  'diffIgnore',
+  'transforms',
+  'stopRules',
+  'fixedValues',
+  'arrayMerge',
+  'orderedArrays'
+]);
+
+// Fields merged key by key, where the last config setting a key wins
+const SHALLOW_MERGED_FIELDS = new Set(['outputFormat', 'variables']);
+
+// Directives consumed while merging; they never appear in the merged config
+const MERGE_DIRECTIVES = new Set(['extends', '$replace', '$remove']);
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const IDENTIFIER_PATTERN = /^[$A-Z_a-z][\w$]*$/;
+
+const formatConfigPath = (segments: ConfigPathSegment[]): string =>
+  segments.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') return `${result}[${segment}]`;
+    if (!IDENTIFIER_PATTERN.test(segment)) return `${result}['${segment}']`;
+    return result ? `${result}.${segment}` : segment;
+  }, '');
+
+const loadChainSource = (file: string, scopeStart: number): ChainSource => {
+  const lineCounter = new YAML.LineCounter();
+  const document = YAML.parseDocument(readFileSync(file, 'utf8'), { lineCounter });
+  const data = document.toJS() as unknown;
+
+  return { file, scopeStart, data: isPlainObject(data) ? data : {}, document, lineCounter };
+};
+
+const getRawValue = (data: unknown, segments: ConfigPathSegment[]): unknown => {
+  let current = data;
+  for (const segment of segments) {
+    if (typeof current !== 'object' || current === null || !Object.hasOwn(current, segment)) return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+};
+
+const getLine = (source: ChainSource, segments: ConfigPathSegment[]): number => {
+  const node = source.document.getIn(segments, true) as YAML.Node | undefined;
+  const offset = node?.range?.[0];
+  return offset === undefined ? 1 : source.lineCounter.linePos(offset).line;
+};
+
+// File path fields such as `contentFile` may hold one string that the merge turns into a list
+const getRawItems = (source: ChainSource, segments: ConfigPathSegment[]): unknown[] => {
+  const value = getRawValue(source.data, segments);
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+};
+
+const getItemSegments = (source: ChainSource, segments: ConfigPathSegment[], index: number): ConfigPathSegment[] =>
+  Array.isArray(getRawValue(source.data, segments)) ? [...segments, index] : segments;
+
+// Items of the ancestors of a config that `$replace`s the field (or `<field>.<glob>`) cannot survive the merge
+const getReplacedSources = (sources: ChainSource[], segments: ConfigPathSegment[]): Set<number> => {
+  const [field, pattern] = segments;
+  const entries = new Set([String(field), `${String(field)}.${String(pattern)}`]);
+  const replacedSources = new Set<number>();
+
+  for (const [index, source] of sources.entries()) {
+    const replaced = source.data['$replace'];
+    if (Array.isArray(replaced) && replaced.some((entry) => entries.has(String(entry))))
+      for (let ancestor = source.scopeStart; ancestor < index; ancestor++) replacedSources.add(ancestor);
+  }
+  return replacedSources;
+};
+
+const createEntry = (source: ChainSource, segments: ConfigPathSegment[], sourceSegments = segments) => ({
+  path: formatConfigPath(segments),
+  segments,
+  file: source.file,
+  line: getLine(source, sourceSegments)
+});
+
+// Matches the merged items against the chain in merge order, so duplicates are attributed to each file in turn
+const traceArrayItems = (
+  items: unknown[],
+  segments: ConfigPathSegment[],
+  sources: ChainSource[],
+  entries: ConfigProvenanceEntry[]
+): void => {
+  const consumed = sources.map(() => new Set<number>());
+  const replacedSources = getReplacedSources(sources, segments);
+  let sourceIndex = 0;
+
+  for (const [itemIndex, item] of items.entries())
+    for (let index = sourceIndex; index < sources.length; index++) {
+      if (replacedSources.has(index)) continue;
+      const source = sources[index]!;
+      const rawIndex = getRawItems(source, segments).findIndex(
+        (rawItem, candidate) => !consumed[index]!.has(candidate) && deepEqual(rawItem, item)
+      );
+      if (rawIndex === -1) continue;
+
+      consumed[index]!.add(rawIndex);
+      sourceIndex = index;
+      entries.push(createEntry(source, [...segments, itemIndex], getItemSegments(source, segments, rawIndex)));
+      break;
+    }
+};
+
+const traceLastWriter = (
+  segments: ConfigPathSegment[],
+  sources: ChainSource[],
+  entries: ConfigProvenanceEntry[]
+): void => {
+  const source = sources.findLast((candidate) => getRawValue(candidate.data, segments) !== undefined);
+  if (source) entries.push(createEntry(source, segments));
+};
+
+const traceConcatenated = (
+  value: unknown,
+  segments: ConfigPathSegment[],
+  sources: ChainSource[],
+  entries: ConfigProvenanceEntry[]
+): void => {
+  if (Array.isArray(value)) traceArrayItems(value, segments, sources, entries);
+  else if (isPlainObject(value))
+    for (const [key, child] of Object.entries(value)) traceConcatenated(child, [...segments, key], sources, entries);
+  else traceLastWriter(segments, sources, entries);
+};
+
+const withoutUndefined = (config: BaseConfig): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(config as Record<string, unknown>).filter(
+      ([key, value]) => value !== undefined && !MERGE_DIRECTIVES.has(key)
+    )
+  );
+
+// Puts the label where it reads best: after a scalar, after the first line of a list item, or after a map key
+const annotateNode = (document: YAML.Document, segments: ConfigPathSegment[], label: string): void => {
+  const node = document.getIn(segments, true);
+
+  if (YAML.isScalar(node)) {
+    node.comment = label;
+    return;
+  }
+
+  const firstPair = YAML.isMap(node) ? node.items[0] : undefined;
+  if (firstPair && typeof segments.at(-1) === 'number') {
+    const target = YAML.isScalar(firstPair.value) ? firstPair.value : firstPair.key;
+    if (YAML.isNode(target)) target.comment = label;
+    return;
+  }
+
+  const parent = document.getIn(segments.slice(0, -1), true);
+  const pair = YAML.isMap(parent)
+    ? parent.items.find((item) => YAML.isScalar(item.key) && item.key.value === segments.at(-1))
+    : undefined;
+  if (pair && YAML.isScalar(pair.key)) pair.key.comment = label;
+  else if (YAML.isNode(node)) node.commentBefore = label;
+};
+
+const formatLocation = (entry: ConfigProvenanceEntry, baseDirectory: string): string =>
+  `${path.relative(baseDirectory, entry.file)}:${entry.line}`;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Merges a config with its extends chain and records which file and line defined each value:
+ * every item of concatenated lists (patterns, rules, transforms), every `outputFormat` and `variables`
+ * field, and every scalar. Transform files and variables are reported as written, not expanded.
+ *
+ * @param configPath - Path to config file to load
+ * @returns The merged config, the chain in merge order and one entry per traced value
+ */
+export const resolveConfigProvenance = (configPath: string): ConfigProvenance => {
+  const scopes = resolveExtendsScopes(configPath);
+  const extendsChain = scopes.map(({ file }) => file);
+  const sources = scopes.map(({ file, scopeStart }) => loadChainSource(file, scopeStart));
+  const config = withoutUndefined(resolveConfigWithExtends(configPath)) as BaseConfig;
+  const entries: ConfigProvenanceEntry[] = [];
+
+  for (const [field, value] of Object.entries(config))
+    if (CONCATENATED_FIELDS.has(field)) traceConcatenated(value, [field], sources, entries);
+    else if (SHALLOW_MERGED_FIELDS.has(field) && isPlainObject(value))
+      for (const key of Object.keys(value)) traceLastWriter([field, key], sources, entries);
+    else traceLastWriter([field], sources, entries);
+
+  return { config, extendsChain, entries };
+};
+
+/**
+ * Renders the merged config as YAML with a `# file:line` comment on every traced value.
+ * @param provenance - Result of resolveConfigProvenance
+ * @param baseDirectory - Directory file paths are shown relative to
+ */
+export const formatConfigProvenanceYaml = (provenance: ConfigProvenance, baseDirectory: string): string => {
+  const document = new YAML.Document(provenance.config);
+  for (const entry of provenance.entries)
+    annotateNode(document, entry.segments, ` ${formatLocation(entry, baseDirectory)}`);
+
+  return document.toString({ indent: 2 });
+};
+
+/**
+ * Builds the JSON form of a provenance result, with file paths relative to `baseDirectory`.
+ */
+export const formatConfigProvenanceJson = (
+  provenance: ConfigProvenance,
+  baseDirectory: string
+): { extendsChain: string[]; config: BaseConfig; provenance: Array<{ path: string; file: string; line: number }> } => ({
+  extendsChain: provenance.extendsChain.map((file) => path.relative(baseDirectory, file)),
+  config: provenance.config,
+  provenance: provenance.entries.map((entry) => ({
+    path: entry.path,
+    file: path.relative(baseDirectory, entry.file),
+    line: entry.line
+  }))
+});
+
+/**
+ * Finds the provenance entry of a value in the merged config, e.g. `['stopRules', '*.yaml', 0]`.
+ */
+export const getProvenanceEntry = (
+  provenance: ConfigProvenance,
+  segments: ConfigPathSegment[]
+): ConfigProvenanceEntry | undefined => {
+  const configPath = formatConfigPath(segments);
+  return provenance.entries.find((entry) => entry.path === configPath);
+};
@@ -37,10 +37,21 @@ export const validateConfigWarnings = (config: FinalConfig): WarningResult => {
     for (const [pattern, paths] of Object.entries(config.skipPath))
       if (paths.length === 0) warnings.push(`skipPath pattern '${pattern}' has empty array (will have no effect)`);
 
+  // Check for empty diffIgnore values
+  if (config.diffIgnore)
+    for (const [pattern, paths] of Object.entries(config.diffIgnore))
+      if (paths.length === 0) warnings.push(`diffIgnore pattern '${pattern}' has empty array (will have no effect)`);
+
   // Check for empty transform values
   if (config.transforms)
     for (const [pattern, rules] of Object.entries(config.transforms))
-      if ((rules.content?.length ?? 0) === 0 && (rules.filename?.length ?? 0) === 0)
+      if (
+        (rules.content?.length ?? 0) === 0 &&
+        (rules.filename?.length ?? 0) === 0 &&
+        (rules.structural?.length ?? 0) === 0 &&
+        (rules.keys?.length ?? 0) === 0 &&
+        (rules.functions?.length ?? 0) === 0
+      )
         warnings.push(`Transform pattern '${pattern}' has empty content and filename arrays (will have no effect)`);
 
   // Check for empty fixedValues arrays
@@ -48,6 +59,16 @@ export const validateConfigWarnings = (config: FinalConfig): WarningResult => {
     for (const [pattern, rules] of Object.entries(config.fixedValues))
       if (rules.length === 0) warnings.push(`fixedValues pattern '${pattern}' has empty array (will have no effect)`);
 
+  // Check for empty arrayMerge arrays
+  if (config.arrayMerge)
+    for (const [pattern, rules] of Object.entries(config.arrayMerge))
+      if (rules.length === 0) warnings.push(`arrayMerge pattern '${pattern}' has empty array (will have no effect)`);
+
+  // Check for empty orderedArrays values
+  if (config.orderedArrays)
+    for (const [pattern, paths] of Object.entries(config.orderedArrays))
+      if (paths.length === 0) warnings.push(`orderedArrays pattern '${pattern}' has empty array (will have no effect)`);
+
   // Check for fixedValues paths that conflict with skipPath (informational)
   if (config.fixedValues && config.skipPath)
     for (const [fixedPattern, fixedRules] of Object.entries(config.fixedValues))
@@ -62,6 +83,23 @@ export const validateConfigWarnings = (config: FinalConfig): WarningResult => {
                   `fixedValues path '${rule.path}' overlaps with skipPath '${skipPath}' (fixedValues wins after skipPath restored)`
                 );
 
+  // Check for diffIgnore paths that are also skipPaths (skipped values are never compared or synced)
+  if (config.diffIgnore && config.skipPath)
+    for (const [ignorePattern, ignorePaths] of Object.entries(config.diffIgnore)) {
+      const skipPaths = config.skipPath[ignorePattern] ?? [];
+      for (const ignorePath of ignorePaths)
+        if (skipPaths.includes(ignorePath))
+          warnings.push(
+            `diffIgnore path '${ignorePath}' is also a skipPath for '${ignorePattern}' (skipPath wins, value is never synced)`
+          );
+    }
+
+  // Check for fileDeletion rules that can never trigger (only pruning deletes files)
+  if (config.stopRules && !config.prune)
+    for (const [pattern, rules] of Object.entries(config.stopRules))
+      if (rules.some((rule) => rule.type === 'fileDeletion'))
+        warnings.push(`fileDeletion stop rule for '${pattern}' has no effect because prune is disabled`);
+
   return {
     warnings,
     hasWarnings: warnings.length > 0
@@ -7,23 +7,36 @@ export { isZodValidationError, ZodValidationError } from './ZodError';
 
 // Config schema, types, and parsing
 export type {
+  ArrayMergeConfig,
+  ArrayMergeRule,
+  ArrayMergeStrategy,
   ArraySortRule,
   BaseConfig,
   Config,
+  FileDeletionRule,
   FinalConfig,
   FixedValueConfig,
   FixedValueRule,
   FormatOnlyConfig,
+  FunctionTransform,
+  ImmutableRule,
   KeySortRule,
+  NumericDeltaRule,
   NumericRule,
   OutputFormat,
   RegexFileKeyRule,
   RegexFileRule,
   RegexRule,
+  RemoveOverrides,
+  RequestsWithinLimitsRule,
+  RequiredRule,
   SemverDowngradeRule,
   SemverMajorUpgradeRule,
   StopRule,
+  StopRuleSeverity,
+  StructuralTransform,
   TransformConfig,
+  TransformFileEntry,
   TransformRule,
   TransformRules,
   VersionFormatRule
@@ -42,7 +55,32 @@ export type { LoadConfigOptions } from './configLoader';
 export { ConfigLoaderError, isConfigLoaderError, loadConfigFile } from './configLoader';
 
 // Config inheritance merging
-export { ConfigMergerError, isConfigMergerError, mergeConfigs, resolveConfigWithExtends } from './configMerger';
+export {
+  ConfigMergerError,
+  isConfigMergerError,
+  mergeConfigs,
+  resolveConfigWithExtends,
+  resolveExtendsChain,
+  resolveExtendsScopes
+} from './configMerger';
+
+// Config provenance (show-config --provenance)
+export type { ConfigPathSegment, ConfigProvenance, ConfigProvenanceEntry } from './configProvenance';
+export {
+  formatConfigProvenanceJson,
+  formatConfigProvenanceYaml,
+  getProvenanceEntry,
+  resolveConfigProvenance
+} from './configProvenance';
+
+// Config variables
+export type { VariableValue } from './variableResolver';
+export {
+  isVariableResolverError,
+  loadVariables,
+  resolveConfigVariables,
+  VariableResolverError
+} from './variableResolver';
 
 // Config validation warnings
 export type { WarningResult } from './configWarnings';
@@ -0,0 +1,252 @@
+import { createErrorClass, createErrorTypeGuard, isYamlFileLoaderError, loadYamlFile } from '../utils';
+import {
+  type BaseConfig,
+  type FixedValueRule,
+  type TransformRule,
+  type TransformRules,
+  VARIABLE_NAME_PATTERN
+} from './configFile';
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+const VariableResolverErrorClass = createErrorClass('Variable Resolver Error', {
+  UNDEFINED_VARIABLE: 'Config references variables that are not defined',
+  INVALID_FORMAT: 'Variables file must contain flat name: value pairs (string, number or boolean values)'
+});
+
+export class VariableResolverError extends VariableResolverErrorClass {}
+export const isVariableResolverError = createErrorTypeGuard(VariableResolverError);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type VariableValue = string | number | boolean;
+
+// A reference that could not be resolved, e.g. `${cluster}` in `fixedValues['*.yaml'][0].value`
+interface UnresolvedReference {
+  reference: string;
+  location: string;
+}
+
+// Variables available while interpolating, plus the references that failed so far
+interface InterpolationContext {
+  variables: Record<string, VariableValue>;
+  allowEnvironment: boolean;
+  requireDefined: boolean; // Without configured variables, unresolved references are literal text (e.g. Helm placeholders)
+  unresolved: UnresolvedReference[];
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// `${name}` or `${env:NAME}`, or the escaped `$${name}` for a literal `${name}`; anything else after `${` is left untouched
+const VARIABLE_REFERENCE_PATTERN = /(\$)?\${(env:)?([A-Z_a-z][\w.-]*)}/g;
+
+const isVariableValue = (value: unknown): value is VariableValue =>
+  typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+
+const validateVariablesFileFormat = (data: unknown, filePath: string): Record<string, VariableValue> => {
+  // Empty files define no variables
+  if (data === null || data === undefined) return {};
+
+  if (typeof data !== 'object' || Array.isArray(data))
+    throw new VariableResolverError('Variables file must be a YAML object with name: value pairs', {
+      code: 'INVALID_FORMAT',
+      path: filePath
+    });
+
+  for (const [name, value] of Object.entries(data as Record<string, unknown>)) {
+    if (!VARIABLE_NAME_PATTERN.test(name))
+      throw new VariableResolverError(`Invalid variable name "${name}"`, {
+        code: 'INVALID_FORMAT',
+        path: filePath,
+        hints: ['Variable names start with a letter or underscore and contain letters, digits, _, . or -']
+      });
+
+    if (!isVariableValue(value))
+      throw new VariableResolverError(`Variable "${name}" must be a string, number or boolean`, {
+        code: 'INVALID_FORMAT',
+        path: filePath
+      });
+  }
+
+  return data as Record<string, VariableValue>;
+};
+
+const loadVariablesFile = (filePath: string, configDirectory: string): Record<string, VariableValue> => {
+  try {
+    return validateVariablesFileFormat(loadYamlFile(filePath, configDirectory, 'variables'), filePath);
+  } catch (error) {
+    if (isYamlFileLoaderError(error))
+      throw new VariableResolverError('Failed to load variables file', {
+        code: 'INVALID_FORMAT',
+        path: filePath,
+        cause: error
+      });
+    throw error;
+  }
+};
+
+const lookupVariable = (
+  isEnvironmentReference: boolean,
+  name: string,
+  context: InterpolationContext
+): VariableValue | undefined => {
+  if (!isEnvironmentReference) return Object.hasOwn(context.variables, name) ? context.variables[name] : undefined;
+  return context.allowEnvironment ? process.env[name] : undefined;
+};
+
+// Replaces every reference in a string; unresolved references are recorded and left as they are
+const interpolateString = (value: string, location: string, context: InterpolationContext): string =>
+  value.replaceAll(
+    VARIABLE_REFERENCE_PATTERN,
+    (reference, escape: string | undefined, environmentPrefix: string | undefined, name: string) => {
+      if (escape !== undefined) return reference.slice(1);
+
+      const resolved = lookupVariable(environmentPrefix !== undefined, name, context);
+      if (resolved !== undefined) return String(resolved);
+
+      if (context.requireDefined) context.unresolved.push({ reference, location });
+      return reference;
+    }
+  );
+
+// A fixed value that is exactly one reference takes the variable's own type, so `${replicas}` can stay a number
+const interpolateFixedValue = (value: unknown, location: string, context: InterpolationContext): unknown => {
+  if (typeof value === 'string') {
+    const [wholeMatch] = [...value.matchAll(VARIABLE_REFERENCE_PATTERN)];
+    if (wholeMatch?.[0] === value && wholeMatch[1] === undefined) {
+      const resolved = lookupVariable(wholeMatch[2] !== undefined, wholeMatch[3]!, context);
+      if (resolved !== undefined) return resolved;
+    }
+    return interpolateString(value, location, context);
+  }
+
+  if (Array.isArray(value))
+    return value.map((item, index) => interpolateFixedValue(item, `${location}[${index}]`, context));
+
+  if (value && typeof value === 'object')
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateFixedValue(item, `${location}.${key}`, context)])
+    );
+
+  return value;
+};
+
+const interpolateRules = (
+  rules: TransformRule[] | undefined,
+  location: string,
+  context: InterpolationContext
+): TransformRule[] | undefined =>
+  rules?.map((rule, index) => ({
+    ...rule,
+    replace: interpolateString(rule.replace, `${location}[${index}].replace`, context)
+  }));
+
+const interpolateTransformRules = (
+  rules: TransformRules,
+  location: string,
+  context: InterpolationContext
+): TransformRules => {
+  const content = interpolateRules(rules.content, `${location}.content`, context);
+  const filename = interpolateRules(rules.filename, `${location}.filename`, context);
+  const keys = interpolateRules(rules.keys, `${location}.keys`, context);
+
+  return { ...rules, ...(content && { content }), ...(filename && { filename }), ...(keys && { keys }) };
+};
+
+const formatUnresolved = (unresolved: UnresolvedReference[], allowEnvironment: boolean): string[] =>
+  unresolved.map(({ reference, location }) => {
+    const note = reference.startsWith('${env:') && !allowEnvironment ? ' (environment access is disabled)' : '';
+    return `${reference} in ${location}${note}`;
+  });
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Collects the variables of a config: variablesFile entries first (in order), then inline `variables`,
+ * so later files and inline values win.
+ *
+ * @param config - The merged base config
+ * @param configDirectory - Directory of the config file (for resolving relative paths)
+ * @throws {VariableResolverError} If a variables file cannot be loaded or has an invalid format
+ */
+export const loadVariables = (config: BaseConfig, configDirectory: string): Record<string, VariableValue> => {
+  const files = config.variablesFile === undefined ? [] : [config.variablesFile].flat();
+
+  return Object.assign(
+    {},
+    ...files.map((filePath) => loadVariablesFile(filePath, configDirectory)),
+    config.variables
+  ) as Record<string, VariableValue>;
+};
+
+/**
+ * Interpolates `${name}` (and, with `envVariables: true`, `${env:NAME}`) references in transform
+ * `replace` strings and fixedValues values; `$${name}` is written as a literal `${name}`.
+ * Undefined references are only an error when the config sets `variables`, `variablesFile` or `envVariables`,
+ * so configs that predate variables keep their placeholders as text.
+ *
+ * @param config - The merged base config (after transform files are expanded)
+ * @param configDirectory - Directory of the config file (for resolving relative paths)
+ * @returns Config with all references replaced
+ * @throws {VariableResolverError} Listing every reference that is not defined (when variables are configured)
+ */
+export const resolveConfigVariables = (config: BaseConfig, configDirectory: string): BaseConfig => {
+  const context: InterpolationContext = {
+    variables: loadVariables(config, configDirectory),
+    allowEnvironment: config.envVariables ?? false,
+    requireDefined:
+      config.variables !== undefined || config.variablesFile !== undefined || config.envVariables !== undefined,
+    unresolved: []
+  };
+
+  const transforms =
+    config.transforms &&
+    Object.fromEntries(
+      Object.entries(config.transforms).map(([pattern, rules]) => [
+        pattern,
+        interpolateTransformRules(rules, `transforms['${pattern}']`, context)
+      ])
+    );
+
+  const fixedValues =
+    config.fixedValues &&
+    Object.fromEntries(
+      Object.entries(config.fixedValues).map(([pattern, rules]) => [
+        pattern,
+        rules.map(
+          (rule, index): FixedValueRule => ({
+            ...rule,
+            value: interpolateFixedValue(
+              rule.value,
+              `fixedValues['${pattern}'][${index}].value`,
+              context
+            ) as FixedValueRule['value']
+          })
+        )
+      ])
+    );
+
+  if (context.unresolved.length > 0) {
+    const details = formatUnresolved(context.unresolved, context.allowEnvironment)
+      .map((line) => `\n  ${line}`)
+      .join('');
+
+    throw new VariableResolverError(`Undefined variables referenced in config:${details}`, {
+      code: 'UNDEFINED_VARIABLE',
+      hints: [
+        'Define the variable under `variables` or in a `variablesFile`',
+        'Set `envVariables: true` to allow ${env:NAME} references'
+      ]
+    });
+  }
+
+  return { ...config, ...(transforms && { transforms }), ...(fixedValues && { fixedValues }) };
+};
@@ -0,0 +1,301 @@
+import { existsSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import * as YAML from 'yaml';
+
+import { type FinalConfig, parseFinalConfig, type StopRule, type TransformRule } from './config';
+import { getFormatHandler } from './formats';
+import type { Logger } from './logger';
+import { computeFileDiff, type FileMap, loadFiles } from './pipeline';
+import { analyzeDifferencesForSuggestions, type SuggestionResult } from './suggestionEngine';
+import { createErrorClass, createErrorTypeGuard } from './utils/errors';
+import { globalMatcher } from './utils/patternMatcher';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface InitOptions {
+  source: string;
+  destination: string;
+  configPath: string;
+  suggestThreshold: number;
+  force: boolean;
+}
+
+export interface InitialConfigResult {
+  config: FinalConfig;
+  content: string;
+  filesAnalyzed: number;
+  transformCount: number;
+  stopRuleCount: number;
+  skipPathCount: number;
+}
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+const ConfigInitializerErrorClass = createErrorClass('Config Initializer Error', {
+  OUTPUT_EXISTS: 'Config file already exists',
+  NO_FILES: 'No files found to scaffold a config from'
+});
+
+export class ConfigInitializerError extends ConfigInitializerErrorClass {}
+export const isConfigInitializerError = createErrorTypeGuard(ConfigInitializerError);
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const SCHEMA_COMMENT = ' yaml-language-server: $schema=./node_modules/helm-env-delta/config.schema.json';
+
+// A top-level key joins the inferred key order when at least this share of destination documents has it
+const KEY_ORDER_MIN_SHARE = 0.5;
+
+// ============================================================================
+// Inference
+// ============================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// One `**/*.<ext>` glob per extension a format handler supports; other files are left out
+const inferIncludePatterns = (filePaths: string[]): { include: string[]; skippedExtensions: string[] } => {
+  const included = new Set<string>();
+  const skipped = new Set<string>();
+
+  for (const filePath of filePaths) {
+    const extension = path.extname(filePath).slice(1);
+    if (!extension) continue;
+    if (getFormatHandler(filePath)) included.add(extension);
+    else skipped.add(extension);
+  }
+
+  return {
+    include: [...included].toSorted().map((extension) => `**/*.${extension}`),
+    skippedExtensions: [...skipped].toSorted()
+  };
+};
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Top-level keys shared by most destination documents, ordered by their average position
+const inferKeyOrder = (documents: Record<string, unknown>[]): string[] => {
+  const positions = new Map<string, number[]>();
+
+  for (const document of documents)
+    for (const [index, key] of Object.keys(document).entries())
+      positions.set(key, [...(positions.get(key) ?? []), index]);
+
+  return [...positions]
+    .filter(([, keyPositions]) => keyPositions.length >= documents.length * KEY_ORDER_MIN_SHARE)
+    .toSorted(([, first], [, second]) => average(first) - average(second))
+    .map(([key]) => key);
+};
+
+const inferKeyOrders = (destinationFiles: FileMap, include: string[]): Record<string, string[]> => {
+  const keyOrders: Record<string, string[]> = {};
+
+  for (const pattern of include) {
+    const documents: Record<string, unknown>[] = [];
+
+    for (const [filePath, content] of destinationFiles) {
+      if (!globalMatcher.match(filePath, pattern)) continue;
+      try {
+        documents.push(
+          ...(getFormatHandler(filePath)?.parse(content) ?? []).filter((document) => isPlainObject(document))
+        );
+      } catch {
+        // Unparseable files do not contribute to the key order
+      }
+    }
+
+    const keyOrder = documents.length > 0 ? inferKeyOrder(documents) : [];
+    if (keyOrder.length > 1) keyOrders[pattern] = keyOrder;
+  }
+
+  return keyOrders;
+};
+
+const filterFileMap = (files: FileMap, include: string[]): FileMap =>
+  new Map([...files].filter(([filePath]) => include.some((pattern) => globalMatcher.match(filePath, pattern))));
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+const buildConfigDocument = (
+  rawConfig: Record<string, unknown>,
+  suggestions: SuggestionResult,
+  skippedExtensions: string[]
+): YAML.Document => {
+  const document = new YAML.Document(rawConfig);
+
+  document.commentBefore = [
+    SCHEMA_COMMENT,
+    ' Generated by helm-env-delta init. Review every section, then run `helm-env-delta validate`.'
+  ].join('\n');
+
+  const includeNode = document.getIn(['include'], true);
+  if (YAML.isNode(includeNode))
+    includeNode.commentBefore =
+      skippedExtensions.length > 0
+        ? ` Structured file types found in the source or destination folder (not included: ${skippedExtensions.map((extension) => `.${extension}`).join(', ')})`
+        : ' Structured file types found in the source or destination folder';
+
+  for (const [pattern, transformSuggestions] of suggestions.transforms)
+    for (const [index, suggestion] of transformSuggestions.entries()) {
+      const node = document.getIn(['transforms', pattern, 'content', index], true);
+      const example = suggestion.examples[0];
+      if (YAML.isNode(node))
+        node.commentBefore = [
+          ` Confidence: ${Math.round(suggestion.confidence * 100)}% | ${suggestion.occurrences} occurrence(s) in ${suggestion.affectedFiles.length} file(s)`,
+          ...(example ? [` Example: "${example.oldValue}" → "${example.targetValue}" at ${example.path}`] : [])
+        ].join('\n');
+    }
+
+  for (const [pattern, filenameSuggestions] of suggestions.filenames)
+    for (const [index, suggestion] of filenameSuggestions.filter(({ literal }) => !literal).entries()) {
+      const node = document.getIn(['transforms', pattern, 'filename', index], true);
+      const example = suggestion.pairs[0]!;
+      if (YAML.isNode(node))
+        node.commentBefore = [
+          ` Confidence: ${Math.round(suggestion.confidence * 100)}% | ${suggestion.reason}`,
+          ` Example: ${example.sourcePath} → ${example.destinationPath}`
+        ].join('\n');
+    }
+
+  for (const [pattern, skipPathSuggestions] of suggestions.skipPaths)
+    for (const [index, suggestion] of skipPathSuggestions.entries()) {
+      const node = document.getIn(['skipPath', pattern, index], true);
+      if (YAML.isNode(node))
+        node.commentBefore = ` Confidence: ${Math.round(suggestion.confidence * 100)}% | ${suggestion.reason}`;
+    }
+
+  for (const [pattern, ruleSuggestions] of suggestions.stopRules)
+    for (const [index, suggestion] of ruleSuggestions.entries()) {
+      const node = document.getIn(['stopRules', pattern, index], true);
+      if (YAML.isNode(node))
+        node.commentBefore = ` Confidence: ${Math.round(suggestion.confidence * 100)}% | ${suggestion.reason}`;
+    }
+
+  const keyOrdersNode = document.getIn(['outputFormat', 'keyOrders'], true);
+  if (YAML.isNode(keyOrdersNode))
+    keyOrdersNode.commentBefore = ` Top-level keys found in at least half of the destination files, in their usual order`;
+
+  return document;
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Builds a starter config from loaded source and destination files: include globs for the structured
+ * file types found, content and filename transform, stop rule and skipPath suggestions from their
+ * differences, and key orders inferred from the destination. The result is validated against the config schema.
+ *
+ * @param sourceFiles - Source files (relative path -> content)
+ * @param destinationFiles - Destination files (relative path -> content)
+ * @param options - Folders as written into the config, and the suggestion confidence threshold
+ * @throws {ConfigInitializerError} If neither folder holds a structured file
+ */
+export const buildInitialConfig = (
+  sourceFiles: FileMap,
+  destinationFiles: FileMap,
+  options: Pick<InitOptions, 'source' | 'destination' | 'suggestThreshold'>
+): InitialConfigResult => {
+  const { include, skippedExtensions } = inferIncludePatterns([...sourceFiles.keys(), ...destinationFiles.keys()]);
+  if (include.length === 0)
+    throw new ConfigInitializerError('No YAML, JSON, TOML, .env or .properties files found', {
+      code: 'NO_FILES',
+      hints: ['Check the --source and --destination folders']
+    });
+
+  const baseConfig = parseFinalConfig({ source: options.source, destination: options.destination, include });
+  const includedSource = filterFileMap(sourceFiles, include);
+  const includedDestination = filterFileMap(destinationFiles, include);
+
+  const diffResult = computeFileDiff(includedSource, includedDestination, baseConfig);
+  const suggestions = analyzeDifferencesForSuggestions(
+    diffResult,
+    baseConfig,
+    options.suggestThreshold,
+    includedDestination
+  );
+
+  const transforms: Record<string, { content?: TransformRule[]; filename?: TransformRule[] }> = Object.fromEntries(
+    [...suggestions.transforms]
+      .filter(([, list]) => list.length > 0)
+      .map(([pattern, list]) => [
+        pattern,
+        { content: list.map(({ find, replace }): TransformRule => ({ find, replace })) }
+      ])
+  );
+  // Literal filenameFile entries would need a file of their own, so only regex rules are written
+  for (const [pattern, list] of suggestions.filenames) {
+    const filename = list
+      .filter(({ literal }) => !literal)
+      .map(({ find, replace }): TransformRule => ({ find, replace }));
+    if (filename.length > 0) transforms[pattern] = { ...transforms[pattern], filename };
+  }
+  const skipPath = Object.fromEntries(
+    [...suggestions.skipPaths]
+      .filter(([, list]) => list.length > 0)
+      .map(([pattern, list]) => [pattern, list.map((suggestion) => suggestion.path)])
+  );
+  const stopRules = Object.fromEntries(
+    [...suggestions.stopRules]
+      .filter(([, list]) => list.length > 0)
+      .map(([pattern, list]) => [pattern, list.map(({ rule }): StopRule => rule)])
+  );
+  const keyOrders = inferKeyOrders(includedDestination, include);
+
+  const rawConfig = {
+    source: options.source,
+    destination: options.destination,
+    include,
+    ...(Object.keys(transforms).length > 0 && { transforms }),
+    ...(Object.keys(skipPath).length > 0 && { skipPath }),
+    ...(Object.keys(stopRules).length > 0 && { stopRules }),
+    ...(Object.keys(keyOrders).length > 0 && { outputFormat: { keyOrders } })
+  };
+
+  return {
+    config: parseFinalConfig(rawConfig),
+    content: buildConfigDocument(rawConfig, suggestions, skippedExtensions).toString({ indent: 2, lineWidth: 0 }),
+    filesAnalyzed: new Set([...includedSource.keys(), ...includedDestination.keys()]).size,
+    transformCount: Object.values(transforms).reduce(
+      (count, rules) => count + (rules.content?.length ?? 0) + (rules.filename?.length ?? 0),
+      0
+    ),
+    stopRuleCount: Object.values(stopRules).reduce((count, rules) => count + rules.length, 0),
+    skipPathCount: Object.values(skipPath).reduce((count, paths) => count + paths.length, 0)
+  };
+};
+
+/**
+ * Scans both folders, builds a starter config and writes it to `options.configPath`.
+ *
+ * @throws {ConfigInitializerError} If the config file exists (without `force`) or no structured files are found
+ * @throws {FileLoaderError} If a folder does not exist or cannot be read
+ */
+export const initConfig = async (options: InitOptions, logger?: Logger): Promise<InitialConfigResult> => {
+  if (!options.force && existsSync(options.configPath))
+    throw new ConfigInitializerError('Config file already exists', {
+      code: 'OUTPUT_EXISTS',
+      path: options.configPath,
+      hints: ['Use --force to overwrite it, or choose another path with --config']
+    });
+
+  const everything = { include: ['**/*'], exclude: [] };
+  const sourceResult = await loadFiles({ baseDirectory: options.source, ...everything }, logger);
+  const destinationResult = await loadFiles({ baseDirectory: options.destination, ...everything }, logger);
+
+  const result = buildInitialConfig(sourceResult.fileMap, destinationResult.fileMap, options);
+  await writeFile(options.configPath, result.content, 'utf8');
+
+  return result;
+};
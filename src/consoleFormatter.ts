@@ -8,7 +8,7 @@ import { type StopRuleViolation } from './pipeline/stopRulesValidator';
 
 export type BoxStyle = 'success' | 'warning' | 'error' | 'info';
 export type ProgressStyle = 'loading' | 'success' | 'info';
-export type ViolationMode = 'error' | 'warning' | 'force';
+export type ViolationMode = 'error' | 'warning' | 'force' | 'advisory'; // advisory = rule with severity: warn
 export type FileOperation = 'add' | 'update' | 'delete' | 'format';
 
 // ============================================================================
@@ -55,6 +55,8 @@ export const formatStopRuleViolation = (violation: StopRuleViolation, mode: Viol
         return 'Stop Rule Violation (Dry Run)';
       case 'force':
         return 'Stop Rule Violation (--force)';
+      case 'advisory':
+        return 'Stop Rule Warning';
     }
   };
 
@@ -65,16 +67,19 @@ export const formatStopRuleViolation = (violation: StopRuleViolation, mode: Viol
   const labelWidth = 10;
   const formatLabel = (label: string): string => colors.dim(label.padEnd(labelWidth));
 
-  const content: string[] = [
-    `${formatLabel('File:')} ${violation.file}`,
+  const content: string[] = [`${formatLabel('File:')} ${violation.file}`];
+  if (violation.document) content.push(`${formatLabel('Document:')} ${violation.document}`);
+  content.push(
     `${formatLabel('Path:')} ${violation.path}`,
     `${formatLabel('Rule:')} ${violation.rule.type}`,
     `${formatLabel('Message:')} ${violation.message}`
-  ];
+  );
 
   if (violation.oldValue !== undefined) content.push(`${formatLabel('Old Value:')} ${violation.oldValue}`);
 
-  content.push(`${formatLabel('New Value:')} ${violation.updatedValue}`);
+  // Deleted files have neither value
+  if (violation.oldValue !== undefined || violation.updatedValue !== undefined)
+    content.push(`${formatLabel('New Value:')} ${violation.updatedValue}`);
 
   return formatBox(getModeTitle(mode), content, getBoxStyle(mode), 70);
 };
@@ -13,6 +13,9 @@ export const YAML_LINE_WIDTH_UNLIMITED = 0;
 /** Default indent size for YAML formatting */
 export const YAML_DEFAULT_INDENT = 2;
 
+/** Default indent size for JSON files when it cannot be detected from existing content */
+export const JSON_DEFAULT_INDENT = 2;
+
 // ============================================================================
 // Configuration Constants
 // ============================================================================
@@ -0,0 +1,155 @@
+import { isDotenvFile } from '../utils/fileType';
+import type { FormatHandler, PatchDocument } from './formatHandler';
+import {
+  type KeyValueEntry,
+  patchKeyValueLines,
+  serializeEntriesForDiff,
+  splitLines,
+  toEntryValues
+} from './keyValueLines';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+type DotenvQuote = '"' | "'" | '';
+
+interface DotenvEntry extends KeyValueEntry {
+  head: string; // Everything before the value, e.g. `export API_URL = `
+  quote: DotenvQuote;
+  comment: string; // Trailing inline comment including its leading whitespace
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const DOTENV_LINE_REGEX = /^(\s*(?:export\s+)?)([A-Z_a-z][\w.-]*)(\s*=\s*)(.*)$/;
+const INLINE_COMMENT_REGEX = /(?:^|\s)#/;
+const SAFE_UNQUOTED_REGEX = /^[^\s"#'\\]*$/;
+const DOUBLE_QUOTE_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+
+const getQuote = (text: string): DotenvQuote => {
+  if (text.startsWith('"')) return '"';
+  if (text.startsWith("'")) return "'";
+  return '';
+};
+
+// Index of the quote closing the value that starts at text[0], or -1 when it is not closed yet
+const findClosingQuote = (text: string, quote: DotenvQuote): number => {
+  for (let index = 1; index < text.length; index++) {
+    if (quote === '"' && text[index] === '\\') {
+      index++;
+      continue;
+    }
+    if (text[index] === quote) return index;
+  }
+  return -1;
+};
+
+const unescapeDoubleQuoted = (text: string): string =>
+  text.replaceAll(/\\(.)/g, (sequence, character: string) => DOUBLE_QUOTE_ESCAPES[character] ?? sequence);
+
+const parseDotenvEntries = (content: string): DotenvEntry[] => {
+  const lines = splitLines(content);
+  const entries: DotenvEntry[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const match = DOTENV_LINE_REGEX.exec(lines[index]!);
+    if (!match) continue;
+
+    const [, prefix = '', key = '', separator = '', rest = ''] = match;
+    const head = `${prefix}${key}${separator}`;
+    const quote = getQuote(rest);
+
+    if (!quote) {
+      const commentIndex = rest.search(INLINE_COMMENT_REGEX);
+      const value = commentIndex === -1 ? rest : rest.slice(0, commentIndex);
+      const comment = commentIndex === -1 ? '' : rest.slice(commentIndex);
+      entries.push({ key, value: value.trim(), startLine: index, endLine: index + 1, head, quote, comment });
+      continue;
+    }
+
+    // Quoted values may continue on the following lines
+    let text = rest;
+    let endLine = index + 1;
+    let closingIndex = findClosingQuote(text, quote);
+    while (closingIndex === -1 && endLine < lines.length) {
+      text += `\n${lines[endLine]!}`;
+      endLine++;
+      closingIndex = findClosingQuote(text, quote);
+    }
+    if (closingIndex === -1) throw new Error(`Unterminated ${quote} quote for '${key}' on line ${index + 1}`);
+
+    const body = text.slice(1, closingIndex);
+    entries.push({
+      key,
+      value: quote === '"' ? unescapeDoubleQuoted(body) : body,
+      startLine: index,
+      endLine,
+      head,
+      quote,
+      comment: text.slice(closingIndex + 1)
+    });
+    index = endLine - 1;
+  }
+
+  return entries;
+};
+
+// Keeps the previous quoting style when the value can still be written with it
+const quoteDotenvValue = (value: string, preferredQuote: DotenvQuote): string => {
+  if (preferredQuote === "'" && !value.includes("'") && !value.includes('\n')) return `'${value}'`;
+  if (preferredQuote === '' && SAFE_UNQUOTED_REGEX.test(value)) return value;
+
+  const escaped = value
+    .replaceAll('\\', '\\\\')
+    .replaceAll('"', String.raw`\"`)
+    .replaceAll('\n', String.raw`\n`)
+    .replaceAll('\r', String.raw`\r`);
+  return `"${escaped}"`;
+};
+
+const renderDotenvEntry = (key: string, value: string, previous?: DotenvEntry): string =>
+  previous
+    ? `${previous.head}${quoteDotenvValue(value, previous.quote)}${previous.comment}`
+    : `${key}=${quoteDotenvValue(value, '')}`;
+
+const parseDotenv = (content: string): unknown[] => [
+  Object.fromEntries(parseDotenvEntries(content).map((entry) => [entry.key, entry.value]))
+];
+
+const patchDotenv = (destinationContent: string, [document]: PatchDocument[]): string =>
+  patchKeyValueLines(
+    destinationContent,
+    parseDotenvEntries(destinationContent),
+    toEntryValues(document?.value),
+    renderDotenvEntry
+  );
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * `.env` files parse to a flat object of string values (`KEY=value`, optionally `export`ed and quoted).
+ * Rewrites keep comments, blank lines, `export` prefixes and quoting style.
+ */
+export const dotenvHandler: FormatHandler = {
+  id: 'dotenv',
+  name: '.env',
+  matches: isDotenvFile,
+  syntaxHints: ['Common issues: unterminated quotes', 'Expected format: KEY=value (optionally prefixed with export)'],
+  parse: parseDotenv,
+  serialize: (documents, originalContent) =>
+    patchDotenv(
+      originalContent,
+      documents.map((value) => ({ value }))
+    ),
+  patch: patchDotenv,
+  format: (content) => content,
+  serializeForDiff: (value) =>
+    value === undefined
+      ? ''
+      : serializeEntriesForDiff(toEntryValues(value), (key, entryValue) => renderDotenvEntry(key, entryValue))
+};
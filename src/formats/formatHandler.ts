@@ -0,0 +1,44 @@
+import type { OutputFormat } from '../config';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// A merged document to write back, linked to the destination document whose layout it reuses
+export interface PatchDocument {
+  value: unknown;
+  destinationIndex?: number; // Undefined for documents that are new in the source
+}
+
+/**
+ * Parse/serialize/diff operations for one structured file format.
+ * The pipeline dispatches on file extension through `getFormatHandler`; every format shares
+ * transforms, skipPath, fixedValues and stop rules because they all work on the parsed values.
+ */
+export interface FormatHandler {
+  id: string; // Lowercase identifier, also used as error code prefix (e.g. `yaml` → YAML_PARSE_ERROR)
+  name: string; // Display name used in messages
+  matches: (filePath: string) => boolean;
+  syntaxHints: string[]; // Listed below parse errors
+
+  /**
+   * Parses content into one plain value per document. Only YAML streams hold more than one.
+   * @throws When the content is not valid for the format
+   */
+  parse: (content: string) => unknown[];
+
+  // Serializes documents into new file content, keeping the style of `originalContent` where possible
+  serialize: (documents: unknown[], originalContent: string) => string;
+
+  // Rewrites existing content so it holds `documents`, keeping comments, key order and layout where the format allows
+  patch: (destinationContent: string, documents: PatchDocument[]) => string;
+
+  // For formats whose patch may regenerate the whole file: whether `patch` keeps the destination's comments and layout
+  patchKeepsLayout?: (destinationContent: string, documents: PatchDocument[]) => boolean;
+
+  // Applies outputFormat rules; formats without formatting support return the content unchanged
+  format: (content: string, filePath: string, outputFormat?: OutputFormat) => string;
+
+  // Canonical text for diffs (sorted keys, so key moves are not shown as changes); undefined (a missing document) is ''
+  serializeForDiff: (value?: unknown) => string;
+}
@@ -0,0 +1,24 @@
+import { dotenvHandler } from './dotenvHandler';
+import type { FormatHandler } from './formatHandler';
+import { jsonHandler } from './jsonHandler';
+import { propertiesHandler } from './propertiesHandler';
+import { tomlHandler } from './tomlHandler';
+import { yamlHandler } from './yamlHandler';
+
+// ============================================================================
+// Handler Registry
+// ============================================================================
+
+const formatHandlers: FormatHandler[] = [yamlHandler, jsonHandler, dotenvHandler, propertiesHandler, tomlHandler];
+
+/**
+ * Returns the handler for a file, or undefined when the file is synced as plain text.
+ * Handlers registered later take precedence, so a custom handler can replace a built-in one.
+ */
+export const getFormatHandler = (filePath: string): FormatHandler | undefined =>
+  formatHandlers.findLast((handler) => handler.matches(filePath));
+
+// Registers an additional format handler
+export const registerFormatHandler = (handler: FormatHandler): void => {
+  formatHandlers.push(handler);
+};
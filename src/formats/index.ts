@@ -0,0 +1,16 @@
+// ============================================================================
+// Barrel Exports for Formats
+// ============================================================================
+
+// Handler contract
+export type { FormatHandler, PatchDocument } from './formatHandler';
+
+// Handler registry
+export { getFormatHandler, registerFormatHandler } from './formatRegistry';
+
+// Built-in handlers
+export { dotenvHandler } from './dotenvHandler';
+export { jsonHandler } from './jsonHandler';
+export { propertiesHandler } from './propertiesHandler';
+export { tomlHandler } from './tomlHandler';
+export { yamlHandler } from './yamlHandler';
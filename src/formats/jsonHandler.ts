@@ -0,0 +1,36 @@
+import YAML from 'yaml';
+
+import { formatJson } from '../pipeline/jsonFormatter';
+import { isJsonFile } from '../utils/fileType';
+import { detectJsonIndent, parseJsonContent, stringifyJson } from '../utils/jsonContent';
+import { serializeJsonForDiff } from '../utils/serialization';
+import { patchYamlDocument } from '../utils/yamlDocumentPatcher';
+import type { FormatHandler } from './formatHandler';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const patchJson = (destinationContent: string, [document]: Array<{ value: unknown }>): string => {
+  // Patch through a document model so existing keys keep their destination order, like YAML files
+  const destinationDocument = new YAML.Document(parseJsonContent(destinationContent));
+  patchYamlDocument(destinationDocument, document?.value);
+
+  return stringifyJson(destinationDocument.toJS(), detectJsonIndent(destinationContent));
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export const jsonHandler: FormatHandler = {
+  id: 'json',
+  name: 'JSON',
+  matches: isJsonFile,
+  syntaxHints: ['Common issues: trailing commas, comments, single quotes or unquoted keys'],
+  parse: (content) => [parseJsonContent(content)],
+  serialize: ([document], originalContent) => stringifyJson(document, detectJsonIndent(originalContent)),
+  patch: patchJson,
+  format: formatJson,
+  serializeForDiff: serializeJsonForDiff
+};
@@ -0,0 +1,98 @@
+/**
+ * Shared helpers for line-based key/value formats (.env, .properties).
+ * Entries remember which physical lines they came from, so a file can be rewritten
+ * while keeping its comments, blank lines and key order.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface KeyValueEntry {
+  key: string;
+  value: string;
+  startLine: number; // Index of the first physical line
+  endLine: number; // Index after the last physical line (multi-line values span several)
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+// Splits content into physical lines, without the empty element a trailing newline produces
+export const splitLines = (content: string): string[] => {
+  if (content === '') return [];
+  const lines = content.split(/\r?\n/);
+  if (lines.at(-1) === '') lines.pop();
+  return lines;
+};
+
+// Converts a parsed value back to the string stored in a key/value file
+export const toEntryValue = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// Converts a flat object into key/value strings, e.g. { A: 1 } → Map { 'A' => '1' }
+export const toEntryValues = (value: unknown): Map<string, string> =>
+  new Map(isPlainObject(value) ? Object.entries(value).map(([key, item]) => [key, toEntryValue(item)]) : []);
+
+/**
+ * Rewrites `content` so it holds exactly `values`.
+ * Unchanged entries keep their original text, changed entries are re-rendered with `renderEntry`
+ * (receiving the entry they replace), removed keys are dropped and new keys are appended at the end.
+ */
+export const patchKeyValueLines = <T extends KeyValueEntry>(
+  content: string,
+  entries: T[],
+  values: Map<string, string>,
+  renderEntry: (key: string, value: string, previous?: T) => string
+): string => {
+  const lines = splitLines(content);
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const entryByStartLine = new Map(entries.map((entry) => [entry.startLine, entry]));
+  const output: string[] = [];
+  const writtenKeys = new Set<string>();
+
+  for (let index = 0; index < lines.length; index++) {
+    const entry = entryByStartLine.get(index);
+    if (!entry) {
+      output.push(lines[index]!);
+      continue;
+    }
+
+    const value = values.get(entry.key);
+    if (value !== undefined) {
+      output.push(
+        value === entry.value
+          ? lines.slice(entry.startLine, entry.endLine).join(eol)
+          : renderEntry(entry.key, value, entry)
+      );
+      writtenKeys.add(entry.key);
+    }
+    index = entry.endLine - 1;
+  }
+
+  for (const [key, value] of values) if (!writtenKeys.has(key)) output.push(renderEntry(key, value));
+
+  return output.length === 0 ? '' : `${output.join(eol)}${eol}`;
+};
+
+// Canonical `key=value` listing with sorted keys, used for diffs
+export const serializeEntriesForDiff = (
+  values: Map<string, string>,
+  renderEntry: (key: string, value: string) => string
+): string =>
+  [...values.keys()]
+    .toSorted()
+    .map((key) => `${renderEntry(key, values.get(key)!)}\n`)
+    .join('');
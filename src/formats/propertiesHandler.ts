@@ -0,0 +1,179 @@
+import { isPropertiesFile } from '../utils/fileType';
+import type { FormatHandler, PatchDocument } from './formatHandler';
+import {
+  type KeyValueEntry,
+  patchKeyValueLines,
+  serializeEntriesForDiff,
+  splitLines,
+  toEntryValue
+} from './keyValueLines';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface PropertiesEntry extends KeyValueEntry {
+  head: string; // Raw key and separator as written, e.g. `  server.port = `
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const COMMENT_LINE_REGEX = /^\s*[!#]/;
+const KEY_TERMINATOR_REGEX = /[\s:=]/;
+const SEPARATOR_REGEX = /^\s*[:=]?\s*/;
+const PROPERTIES_ESCAPES: Record<string, string> = { t: '\t', n: '\n', r: '\r', f: '\f' };
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// A line continues on the next one when it ends with an odd number of backslashes
+const hasContinuation = (line: string): boolean => (/\\+$/.exec(line)?.[0].length ?? 0) % 2 === 1;
+
+const unescapeProperties = (text: string): string =>
+  text.replaceAll(/\\(u[\dA-Fa-f]{4}|.)/g, (_sequence, escaped: string) =>
+    escaped.length === 5
+      ? String.fromCodePoint(Number.parseInt(escaped.slice(1), 16))
+      : (PROPERTIES_ESCAPES[escaped] ?? escaped)
+  );
+
+const escapePropertiesValue = (value: string): string =>
+  value
+    .replaceAll('\\', '\\\\')
+    .replaceAll('\n', String.raw`\n`)
+    .replaceAll('\r', String.raw`\r`)
+    .replaceAll('\t', String.raw`\t`)
+    .replaceAll('\f', String.raw`\f`)
+    .replace(/^ /, String.raw`\ `);
+
+const escapePropertiesKey = (key: string): string =>
+  escapePropertiesValue(key)
+    .replaceAll(/[\s:=]/g, (character) => `\\${character}`)
+    .replace(/^[!#]/, (character) => `\\${character}`);
+
+// Index of the first unescaped key terminator (whitespace, `=` or `:`)
+const findKeyEnd = (line: string): number => {
+  for (let index = 0; index < line.length; index++) {
+    if (line[index] === '\\') {
+      index++;
+      continue;
+    }
+    if (KEY_TERMINATOR_REGEX.test(line[index]!)) return index;
+  }
+  return line.length;
+};
+
+const parsePropertiesEntries = (content: string): PropertiesEntry[] => {
+  const lines = splitLines(content);
+  const entries: PropertiesEntry[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const firstLine = lines[index]!;
+    if (firstLine.trim() === '' || COMMENT_LINE_REGEX.test(firstLine)) continue;
+
+    // Join continuation lines into one logical line; leading whitespace of continued lines is dropped
+    let logicalLine = firstLine;
+    let endLine = index + 1;
+    while (hasContinuation(logicalLine) && endLine < lines.length) {
+      logicalLine = logicalLine.slice(0, -1) + lines[endLine]!.trimStart();
+      endLine++;
+    }
+    if (hasContinuation(logicalLine)) logicalLine = logicalLine.slice(0, -1);
+
+    const leadingWhitespace = /^\s*/.exec(logicalLine)![0];
+    const keyText = logicalLine.slice(leadingWhitespace.length);
+    const keyEnd = findKeyEnd(keyText);
+    const separator = SEPARATOR_REGEX.exec(keyText.slice(keyEnd))![0];
+
+    entries.push({
+      key: unescapeProperties(keyText.slice(0, keyEnd)),
+      value: unescapeProperties(keyText.slice(keyEnd + separator.length)),
+      startLine: index,
+      endLine,
+      head: `${leadingWhitespace}${keyText.slice(0, keyEnd)}${separator}`
+    });
+    index = endLine - 1;
+  }
+
+  return entries;
+};
+
+// Dotted keys become nested objects so JSONPaths like `spring.datasource.url` address them
+const nestProperties = (entries: PropertiesEntry[]): Record<string, unknown> => {
+  const root: Record<string, unknown> = {};
+
+  for (const { key, value } of entries) {
+    const segments = key.split('.');
+    let current = root;
+    for (const [position, segment] of segments.entries()) {
+      const isLast = position === segments.length - 1;
+      const existing = Object.hasOwn(current, segment) ? current[segment] : undefined;
+
+      if (isLast) {
+        if (isPlainObject(existing)) throw new Error(`Key '${key}' conflicts with longer keys using it as a prefix`);
+        current[segment] = value;
+      } else {
+        if (existing !== undefined && !isPlainObject(existing))
+          throw new Error(`Key '${key}' conflicts with key '${segments.slice(0, position + 1).join('.')}'`);
+        if (existing === undefined) current[segment] = {};
+        current = current[segment] as Record<string, unknown>;
+      }
+    }
+  }
+
+  return root;
+};
+
+const flattenProperties = (value: unknown, prefix = '', result = new Map<string, string>()): Map<string, string> => {
+  if (!isPlainObject(value)) {
+    if (prefix !== '' || (value !== null && value !== undefined)) result.set(prefix, toEntryValue(value));
+    return result;
+  }
+
+  for (const [key, item] of Object.entries(value))
+    flattenProperties(item, prefix === '' ? key : `${prefix}.${key}`, result);
+  return result;
+};
+
+const renderPropertiesEntry = (key: string, value: string, previous?: PropertiesEntry): string =>
+  `${previous ? previous.head : `${escapePropertiesKey(key)}=`}${escapePropertiesValue(value)}`;
+
+const patchProperties = (destinationContent: string, [document]: PatchDocument[]): string =>
+  patchKeyValueLines(
+    destinationContent,
+    parsePropertiesEntries(destinationContent),
+    flattenProperties(document?.value),
+    renderPropertiesEntry
+  );
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Java `.properties` files parse to nested objects of string values, split on dots
+ * (`server.port=8080` → `{ server: { port: '8080' } }`).
+ * Rewrites keep comments, blank lines, separators and key order.
+ */
+export const propertiesHandler: FormatHandler = {
+  id: 'properties',
+  name: '.properties',
+  matches: isPropertiesFile,
+  syntaxHints: [
+    'A key cannot hold a value and also prefix other keys (e.g. both `app` and `app.name`)',
+    'Expected format: key=value, key: value or key value'
+  ],
+  parse: (content) => [nestProperties(parsePropertiesEntries(content))],
+  serialize: (documents, originalContent) =>
+    patchProperties(
+      originalContent,
+      documents.map((value) => ({ value }))
+    ),
+  patch: patchProperties,
+  format: (content) => content,
+  serializeForDiff: (value) =>
+    value === undefined
+      ? ''
+      : serializeEntriesForDiff(flattenProperties(value), (key, entryValue) => renderPropertiesEntry(key, entryValue))
+};
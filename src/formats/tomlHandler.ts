@@ -0,0 +1,433 @@
+import type * as SmolToml from 'smol-toml' with { 'resolution-mode': 'import' };
+
+import { deepEqualStructural } from '../utils/deepEqual';
+import { isTomlFile } from '../utils/fileType';
+import type { FormatHandler, PatchDocument } from './formatHandler';
+import { splitLines } from './keyValueLines';
+
+// smol-toml ships a CommonJS build, but its type declarations are ESM-only
+// eslint-disable-next-line @typescript-eslint/no-require-imports, unicorn/prefer-module
+const { parse, stringify, TomlDate } = require('smol-toml') as typeof SmolToml;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// A `key = value` statement; multi-line strings, arrays and inline tables span several lines
+interface TomlEntry {
+  path: string[]; // Table path followed by the (dotted) key
+  startLine: number;
+  endLine: number; // Index after the last physical line
+  head: string; // Text before the value, e.g. `  port = `
+  tail: string; // Text after the value on its last line, e.g. `  # comment`
+}
+
+interface TomlTable {
+  path: string[];
+  line: number;
+}
+
+interface TomlLayout {
+  entries: TomlEntry[];
+  tables: TomlTable[];
+}
+
+interface LinePosition {
+  line: number;
+  column: number;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+
+// Dates become their TOML text so they compare, diff and transform like any other string
+const datesToStrings = (value: unknown): unknown => {
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.map((item) => datesToStrings(item));
+  if (isPlainObject(value))
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, datesToStrings(item)]));
+  return value;
+};
+
+// Turns strings back into dates where the template held a date at the same path
+const restoreDates = (value: unknown, template: unknown): unknown => {
+  if (template instanceof TomlDate && typeof value === 'string') {
+    const date = new TomlDate(value);
+    return date.isValid() ? date : value;
+  }
+  if (Array.isArray(value))
+    return value.map((item, index) => restoreDates(item, Array.isArray(template) ? template[index] : undefined));
+  if (isPlainObject(value))
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        restoreDates(item, isPlainObject(template) ? template[key] : undefined)
+      ])
+    );
+  return value;
+};
+
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map((item) => sortKeys(item));
+  if (!isPlainObject(value)) return value;
+
+  const sorted: Record<string, unknown> = {};
+  for (const key of Object.keys(value).toSorted()) sorted[key] = sortKeys(value[key]);
+  return sorted;
+};
+
+const stringifyToml = (value: unknown, templateContent: string): string => {
+  if (!isPlainObject(value)) throw new Error('TOML documents must be tables');
+
+  const output = stringify(restoreDates(value, parse(templateContent)));
+  return output.trim() === '' ? '' : output;
+};
+
+// ============================================================================
+// Line Scanning
+// ============================================================================
+
+const BARE_KEY_REGEX = /^[\w-]+/;
+const BASIC_STRING_REGEX = /^"(?:[^"\\]|\\.)*"/;
+const LITERAL_STRING_REGEX = /^'[^']*'/;
+
+const skipWhitespace = (text: string, index: number): number => {
+  let position = index;
+  while (text[position] === ' ' || text[position] === '\t') position++;
+  return position;
+};
+
+// Reads one key segment (bare, "basic" or 'literal'); basic strings use JSON escapes, which cover TOML's common ones
+const readKeySegment = (text: string, index: number): { segment: string; end: number } | undefined => {
+  const rest = text.slice(index);
+  const bare = BARE_KEY_REGEX.exec(rest)?.[0];
+  if (bare) return { segment: bare, end: index + bare.length };
+
+  const basic = BASIC_STRING_REGEX.exec(rest)?.[0];
+  if (basic) return { segment: JSON.parse(basic) as string, end: index + basic.length };
+
+  const literal = LITERAL_STRING_REGEX.exec(rest)?.[0];
+  if (literal) return { segment: literal.slice(1, -1), end: index + literal.length };
+
+  return undefined;
+};
+
+// Reads a dotted key such as `server."web.host".port`, returning the index after it and its trailing whitespace
+const readKey = (text: string, index: number): { segments: string[]; end: number } | undefined => {
+  const segments: string[] = [];
+  let position = index;
+
+  while (position <= text.length) {
+    const segment = readKeySegment(text, skipWhitespace(text, position));
+    if (!segment) return undefined;
+
+    segments.push(segment.segment);
+    position = skipWhitespace(text, segment.end);
+    if (text[position] !== '.') return { segments, end: position };
+    position++;
+  }
+
+  return undefined;
+};
+
+// Finds the end of a single-line string starting at `index`, or -1 when it is not closed
+const findStringEnd = (text: string, index: number): number => {
+  if (text[index] === "'") {
+    const closing = text.indexOf("'", index + 1);
+    return closing === -1 ? -1 : closing + 1;
+  }
+
+  for (let position = index + 1; position < text.length; position++)
+    if (text[position] === '\\') position++;
+    else if (text[position] === '"') return position + 1;
+
+  return -1;
+};
+
+// Finds the end of a `"""` or `'''` string, which may span lines and end with up to two extra quotes
+const findMultilineStringEnd = (lines: string[], start: LinePosition): LinePosition | undefined => {
+  const delimiter = lines[start.line]!.slice(start.column, start.column + 3);
+  let column = start.column + 3;
+
+  for (let line = start.line; line < lines.length; line++) {
+    const text = lines[line]!;
+    for (; column < text.length; column++) {
+      if (delimiter === '"""' && text[column] === '\\') {
+        column++;
+        continue;
+      }
+      if (!text.startsWith(delimiter, column)) continue;
+
+      let end = column + 3;
+      while (end < column + 5 && text[end] === delimiter[0]) end++;
+      return { line, column: end };
+    }
+    column = 0;
+  }
+
+  return undefined;
+};
+
+// Finds where a value ends (before any trailing comment); arrays, inline tables and multi-line strings may span lines
+const findValueEnd = (lines: string[], start: LinePosition): LinePosition | undefined => {
+  let depth = 0;
+  let { line, column } = start;
+  let valueEnd = column;
+
+  while (line < lines.length) {
+    const text = lines[line]!;
+
+    if (column >= text.length || text[column] === '#') {
+      if (depth === 0) return { line, column: valueEnd };
+      line++;
+      column = 0;
+      valueEnd = 0;
+      continue;
+    }
+
+    const character = text[column]!;
+    if (text.startsWith('"""', column) || text.startsWith("'''", column)) {
+      const end = findMultilineStringEnd(lines, { line, column });
+      if (!end) return undefined;
+      ({ line, column } = end);
+      valueEnd = column;
+      continue;
+    }
+
+    if (character === '"' || character === "'") {
+      column = findStringEnd(text, column);
+      if (column === -1) return undefined;
+      valueEnd = column;
+      continue;
+    }
+
+    if (character === '[' || character === '{') depth++;
+    else if (character === ']' || character === '}') depth--;
+    column++;
+    if (character !== ' ' && character !== '\t') valueEnd = column;
+  }
+
+  return undefined;
+};
+
+// Maps the statements of a TOML file to lines; undefined for layouts the line patch does not handle (arrays of tables)
+const scanTomlLayout = (lines: string[]): TomlLayout | undefined => {
+  const entries: TomlEntry[] = [];
+  const tables: TomlTable[] = [];
+  let table: string[] = [];
+  let line = 0;
+
+  while (line < lines.length) {
+    const text = lines[line]!;
+    const start = skipWhitespace(text, 0);
+
+    if (start === text.length || text[start] === '#') {
+      line++;
+      continue;
+    }
+
+    if (text[start] === '[') {
+      const key = text[start + 1] === '[' ? undefined : readKey(text, start + 1);
+      if (!key || text[key.end] !== ']') return undefined;
+
+      table = key.segments;
+      tables.push({ path: table, line });
+      line++;
+      continue;
+    }
+
+    const key = readKey(text, start);
+    if (!key || text[key.end] !== '=') return undefined;
+
+    const valueStart = skipWhitespace(text, key.end + 1);
+    const end = findValueEnd(lines, { line, column: valueStart });
+    if (!end) return undefined;
+
+    entries.push({
+      path: [...table, ...key.segments],
+      startLine: line,
+      endLine: end.line + 1,
+      head: text.slice(0, valueStart),
+      tail: lines[end.line]!.slice(end.column)
+    });
+    line = end.line + 1;
+  }
+
+  return { entries, tables };
+};
+
+// ============================================================================
+// Line Patching
+// ============================================================================
+
+interface TomlAddition {
+  table: string[];
+  key: string;
+}
+
+const getPathKey = (path: string[]): string => JSON.stringify(path);
+
+const getAtPath = (value: unknown, path: string[]): unknown =>
+  path.reduce<unknown>(
+    (current, key) => (isPlainObject(current) && Object.hasOwn(current, key) ? current[key] : undefined),
+    value
+  );
+
+const renderKey = (key: string): string => (/^[\w-]+$/.test(key) ? key : JSON.stringify(key));
+
+// Renders a value on one line; tables become inline tables and arrays of tables inline arrays
+const renderInlineValue = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map((item) => renderInlineValue(item)).join(', ')}]`;
+  if (isPlainObject(value)) {
+    const pairs = Object.entries(value).map(([key, item]) => `${renderKey(key)} = ${renderInlineValue(item)}`);
+    return pairs.length === 0 ? '{}' : `{ ${pairs.join(', ')} }`;
+  }
+  return stringify({ value }).slice('value = '.length).trimEnd();
+};
+
+// Keys of `value` not written by any existing entry, with the table they belong to
+const collectAdditions = (
+  value: Record<string, unknown>,
+  table: string[],
+  covered: Set<string>,
+  additions: TomlAddition[]
+): TomlAddition[] => {
+  for (const [key, item] of Object.entries(value)) {
+    const path = [...table, key];
+    if (covered.has(getPathKey(path))) continue;
+
+    if (isPlainObject(item) && Object.keys(item).length > 0) collectAdditions(item, path, covered, additions);
+    else additions.push({ table, key });
+  }
+  return additions;
+};
+
+/**
+ * Rewrites only the lines whose values changed: changed values are re-rendered after their original key,
+ * removed keys and tables are dropped, and new keys are added to the end of their table (new tables go
+ * at the end of the file). Returns undefined when the file cannot be patched this way, or when the
+ * patched text would not parse back to `value`.
+ */
+const patchTomlLines = (content: string, value: Record<string, unknown>): string | undefined => {
+  const lines = splitLines(content);
+  const layout = scanTomlLayout(lines);
+  if (!layout) return undefined;
+
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const restored = restoreDates(value, parse(content));
+  const current = datesToStrings(parse(content));
+  const tablePaths = new Set(layout.tables.map((table) => getPathKey(table.path)));
+  const firstTableLine = layout.tables[0]?.line ?? lines.length;
+
+  const replacements = new Map<number, { endLine: number; text?: string }>();
+  const insertions = new Map<number, string[]>(); // Lines to add after the given line index (-1: at the top)
+  const addLines = (afterLine: number, added: string[]): void => {
+    insertions.set(afterLine, [...(insertions.get(afterLine) ?? []), ...added]);
+  };
+
+  const covered = new Set<string>();
+  for (const entry of layout.entries) {
+    const updated = getAtPath(value, entry.path);
+    if (updated !== undefined) covered.add(getPathKey(entry.path));
+
+    if (updated === undefined) replacements.set(entry.startLine, { endLine: entry.endLine });
+    else if (!deepEqualStructural(getAtPath(current, entry.path), updated))
+      replacements.set(entry.startLine, {
+        endLine: entry.endLine,
+        text: `${entry.head}${renderInlineValue(getAtPath(restored, entry.path))}${entry.tail}`
+      });
+  }
+
+  for (const table of layout.tables)
+    if (!isPlainObject(getAtPath(value, table.path))) replacements.set(table.line, { endLine: table.line + 1 });
+
+  // New keys go after the last entry of their table; tables missing from the file are appended
+  const addedTables = new Map<string, string[]>();
+  for (const { table, key } of collectAdditions(value, [], covered, [])) {
+    const line = `${renderKey(key)} = ${renderInlineValue(getAtPath(restored, [...table, key]))}`;
+    const header = layout.tables.findLast((candidate) => getPathKey(candidate.path) === getPathKey(table));
+
+    if (table.length === 0 || header) {
+      const sectionStart = header ? header.line : -1;
+      const sectionEnd = header
+        ? (layout.tables.find((candidate) => candidate.line > header.line)?.line ?? lines.length)
+        : firstTableLine;
+      const lastEntry = layout.entries.findLast(
+        (entry) => entry.startLine > sectionStart && entry.startLine < sectionEnd
+      );
+      addLines(lastEntry ? lastEntry.endLine - 1 : table.length === 0 ? firstTableLine - 1 : sectionStart, [line]);
+    } else if (!tablePaths.has(getPathKey(table)))
+      addedTables.set(getPathKey(table), [...(addedTables.get(getPathKey(table)) ?? []), line]);
+  }
+  for (const [pathKey, tableLines] of addedTables)
+    addLines(lines.length - 1, [
+      '',
+      `[${(JSON.parse(pathKey) as string[]).map((key) => renderKey(key)).join('.')}]`,
+      ...tableLines
+    ]);
+
+  const output: string[] = [...(insertions.get(-1) ?? [])];
+  for (let index = 0; index < lines.length; index++) {
+    const replacement = replacements.get(index);
+    if (replacement) {
+      if (replacement.text !== undefined) output.push(replacement.text);
+      index = replacement.endLine - 1;
+    } else output.push(lines[index]!);
+
+    output.push(...(insertions.get(index) ?? []));
+  }
+
+  const patched = output.length === 0 ? '' : `${output.join(eol)}${eol}`;
+  return deepEqualStructural(datesToStrings(parse(patched)), value) ? patched : undefined;
+};
+
+const tryPatchTomlLines = (content: string, value: Record<string, unknown>): string | undefined => {
+  try {
+    return patchTomlLines(content, value);
+  } catch {
+    // Values TOML cannot hold (e.g. null) and unusual layouts fall back to regenerating the file
+    return undefined;
+  }
+};
+
+const isUnchanged = (destinationContent: string, value: unknown): boolean =>
+  deepEqualStructural(datesToStrings(parse(destinationContent)), value);
+
+const patchToml = (destinationContent: string, [document]: PatchDocument[]): string => {
+  const value = document?.value;
+  if (!isPlainObject(value)) throw new Error('TOML documents must be tables');
+
+  // Formatting-only differences leave the destination as it is
+  if (isUnchanged(destinationContent, value)) return destinationContent;
+
+  return tryPatchTomlLines(destinationContent, value) ?? stringifyToml(value, destinationContent);
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * TOML files parse to nested objects; date-time values are handled as their TOML text.
+ * Rewrites only touch the lines of changed keys, keeping comments and layout. Files the line patch
+ * cannot handle (arrays of tables, values TOML cannot hold) are regenerated without their comments.
+ */
+export const tomlHandler: FormatHandler = {
+  id: 'toml',
+  name: 'TOML',
+  matches: isTomlFile,
+  syntaxHints: ['Common issues: unquoted string values, duplicate keys or tables, missing `=` between key and value'],
+  parse: (content) => [datesToStrings(parse(content))],
+  serialize: ([document], originalContent) => stringifyToml(document, originalContent),
+  patch: patchToml,
+  patchKeepsLayout: (destinationContent, [document]) =>
+    isPlainObject(document?.value) &&
+    (isUnchanged(destinationContent, document.value) ||
+      tryPatchTomlLines(destinationContent, document.value) !== undefined),
+  format: (content) => content,
+  serializeForDiff: (value) => (value === undefined ? '' : stringifyToml(sortKeys(value), ''))
+};
@@ -0,0 +1,71 @@
+import YAML, { type Document } from 'yaml';
+
+import { YAML_LINE_WIDTH_UNLIMITED } from '../constants';
+import { formatYaml } from '../pipeline/yamlFormatter';
+import { isYamlFile } from '../utils/fileType';
+import { joinYamlDocuments, parseYamlDocuments, stringifyYamlDocuments } from '../utils/multiDocumentYaml';
+import { serializeForDiff } from '../utils/serialization';
+import { patchYamlDocument } from '../utils/yamlDocumentPatcher';
+import type { FormatHandler, PatchDocument } from './formatHandler';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const parseDestinationDocuments = (content: string): Document.Parsed[] => {
+  const documents = YAML.parseAllDocuments(content);
+  const firstError = documents.flatMap((document) => document.errors)[0];
+  if (firstError) throw firstError;
+
+  return documents;
+};
+
+const patchDocument = (document: Document, value: unknown): string => {
+  patchYamlDocument(document, value);
+  return document.toString({ lineWidth: YAML_LINE_WIDTH_UNLIMITED });
+};
+
+const patchYaml = (destinationContent: string, documents: PatchDocument[]): string => {
+  const destinationDocuments = parseDestinationDocuments(destinationContent);
+
+  // Single-document files are patched as one Document so the output matches the input byte for byte
+  const [singleDocument] = documents;
+  if (documents.length === 1 && singleDocument?.destinationIndex === 0 && destinationDocuments.length <= 1)
+    return patchDocument(YAML.parseDocument(destinationContent), singleDocument.value);
+
+  const patchedDocuments: string[] = [];
+  // eslint-disable-next-line unicorn/no-null -- the yaml library types an implicit document start as null
+  const leadingDocumentStart = destinationDocuments[0]?.directives.docStart ?? null;
+
+  for (const { value, destinationIndex } of documents) {
+    const destinationDocument = destinationIndex === undefined ? undefined : destinationDocuments[destinationIndex];
+
+    if (destinationDocument) {
+      // Reordered documents take over the leading `---` style of the document at their new position
+      destinationDocument.directives.docStart = patchedDocuments.length === 0 ? leadingDocumentStart : true;
+      patchedDocuments.push(patchDocument(destinationDocument, value));
+    } else if (value === null) patchedDocuments.push('');
+    else patchedDocuments.push(YAML.stringify(value, { lineWidth: YAML_LINE_WIDTH_UNLIMITED }));
+  }
+
+  return joinYamlDocuments(patchedDocuments);
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+export const yamlHandler: FormatHandler = {
+  id: 'yaml',
+  name: 'YAML',
+  matches: isYamlFile,
+  syntaxHints: [
+    'Validate at: https://www.yamllint.com/',
+    'Common issues: incorrect indentation, missing quotes, invalid characters'
+  ],
+  parse: parseYamlDocuments,
+  serialize: (documents) => stringifyYamlDocuments(documents),
+  patch: patchYaml,
+  format: formatYaml,
+  serializeForDiff: (value) => (value === undefined ? '' : serializeForDiff(value, true))
+};
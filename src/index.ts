@@ -2,6 +2,7 @@ import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
 import { writeFile } from 'node:fs/promises';
 import { homedir } from 'node:os';
 import path from 'node:path';
+import { createInterface } from 'node:readline/promises';
 
 import colors from 'ansi-colors';
 import * as YAML from 'yaml';
@@ -10,12 +11,18 @@ import packageJson from '../package.json';
 import { parseCommandLine } from './commandLine';
 import type { FinalConfig } from './config';
 import {
+  formatConfigProvenanceJson,
+  formatConfigProvenanceYaml,
   isConfigLoaderError,
   isConfigMergerError,
+  isVariableResolverError,
   isZodValidationError,
   loadConfigFile,
+  resolveConfigProvenance,
+  resolveExtendsChain,
   validateConfigWarnings
 } from './config';
+import { initConfig, isConfigInitializerError } from './configInitializer';
 import { formatProgressMessage } from './consoleFormatter';
 import {
   EXIT_CHANGES_SYNCED,
@@ -23,10 +30,14 @@ import {
   EXIT_STOP_RULE_VIOLATION,
   EXIT_VALIDATION_WARNINGS
 } from './exitCodes';
+import { getFormatHandler } from './formats';
 import { Logger, type VerbosityLevel } from './logger';
 import {
   computeFileDiff,
-  formatYaml,
+  explainFileRules,
+  formatFileRuleExplanation,
+  formatFileRuleExplanationJson,
+  isBlockingViolation,
   isFileDiffError,
   isFileLoaderError,
   isFileUpdaterError,
@@ -42,15 +53,75 @@ import {
   isJsonReporterError,
   showConsoleDiff
 } from './reporters';
+import {
+  type AppliableSuggestion,
+  applySuggestionsToConfigFile,
+  describeAppliableSuggestion,
+  isSuggestionApplierError,
+  listAppliableSuggestions,
+  promptForSuggestions,
+  selectByConfidence,
+  SuggestionApplierError
+} from './suggestionApplier';
 import { analyzeDifferencesForSuggestions, formatSuggestionsAsYaml, isSuggestionEngineError } from './suggestionEngine';
-import { detectCollisions, isCollisionDetectorError, validateNoCollisions } from './utils/collisionDetector';
+import {
+  detectCollisions,
+  isCollisionDetectorError,
+  isKeyCollisionError,
+  validateNoCollisions
+} from './utils/collisionDetector';
 import { isCommentOnlyContent } from './utils/commentOnlyDetector';
 import { filterDiffResultByMode, filterFileMap, filterFileMaps, isFilterParseError } from './utils/fileFilter';
 import { isFilenameTransformerError } from './utils/filenameTransformer';
-import { isYamlFile } from './utils/fileType';
 import { filterFileMapsByGitAuthor, getGitUser, isGitFilterError } from './utils/gitFilter';
 import { checkForUpdates } from './utils/versionChecker';
 
+/**
+ * Writes suggestions into the config file: those at or above `minConfidence`, or the ones
+ * accepted one by one in the terminal when no minimum is given.
+ */
+const applySuggestionsFromCommand = async (
+  suggestions: AppliableSuggestion[],
+  configPath: string,
+  minConfidence?: number
+): Promise<void> => {
+  if (suggestions.length === 0) {
+    console.log(colors.yellow('\nℹ️  No suggestions to apply.'));
+    return;
+  }
+
+  let selected: AppliableSuggestion[];
+  if (minConfidence === undefined) {
+    if (!process.stdin.isTTY)
+      throw new SuggestionApplierError('Cannot ask which suggestions to apply without a terminal', {
+        code: 'NOT_INTERACTIVE',
+        hints: ['Use --min-confidence to select suggestions without prompting']
+      });
+
+    const prompt = createInterface({ input: process.stdin, output: process.stdout });
+    try {
+      console.log(
+        colors.cyan(
+          `\n💡 ${suggestions.length} suggestion(s) — y = apply, n = skip, a = apply all remaining, q = quit\n`
+        )
+      );
+      selected = await promptForSuggestions(suggestions, (question) => prompt.question(question));
+    } finally {
+      prompt.close();
+    }
+  } else selected = selectByConfidence(suggestions, minConfidence);
+
+  const result = await applySuggestionsToConfigFile(configPath, selected);
+
+  console.log(colors.cyan(`\n✏️  Applied ${result.applied.length} suggestion(s) to ${configPath}\n`));
+  for (const entry of result.applied) console.log(`  ${colors.green('+')} ${describeAppliableSuggestion(entry)}`);
+  for (const entry of result.skipped)
+    console.log(colors.dim(`  = ${describeAppliableSuggestion(entry)} (already in config)`));
+
+  const notSelected = suggestions.length - selected.length;
+  if (notSelected > 0) console.log(colors.dim(`\n  ${notSelected} suggestion(s) not selected`));
+};
+
 /**
  * Main entry point for helm-env-delta CLI tool.
  * Orchestrates CLI argument parsing, config loading, and sync execution.
@@ -87,6 +158,33 @@ const main = async (): Promise<void> => {
     writeFileSync(firstRunMarker, new Date().toISOString());
   }
 
+  // Early exit for init command (writes the config instead of loading one)
+  if (command.commandName === 'init' && command.source && command.destination) {
+    logger.log('\n' + formatProgressMessage('Scanning source and destination folders...', 'info'));
+
+    const initResult = await initConfig(
+      {
+        source: command.source,
+        destination: command.destination,
+        configPath: command.config,
+        suggestThreshold: command.suggestThreshold,
+        force: command.force
+      },
+      logger
+    );
+
+    console.log(colors.green(`\n✅ Config written to ${command.config}\n`));
+    console.log(`  Files analyzed: ${initResult.filesAnalyzed}`);
+    console.log(`  Include patterns: ${initResult.config.include.join(', ')}`);
+    console.log(`  Suggested transforms: ${initResult.transformCount}`);
+    console.log(`  Suggested stop rules: ${initResult.stopRuleCount}`);
+    console.log(`  Suggested skipPaths: ${initResult.skipPathCount}`);
+    console.log(
+      colors.dim('\n💡 Tip: Review the generated rules, then run validate and diff with -c ' + command.config)
+    );
+    return;
+  }
+
   // Load and validate config
   const config = loadConfigFile(command.config, command.quiet, logger, {
     formatOnly: command.commandName === 'format'
@@ -95,11 +193,50 @@ const main = async (): Promise<void> => {
 
   // Early exit for show-config command
   if (command.commandName === 'show-config') {
+    if (command.provenance) {
+      const provenance = resolveConfigProvenance(command.config);
+      if (command.json)
+        console.log(JSON.stringify(formatConfigProvenanceJson(provenance, process.cwd()), undefined, 2));
+      else {
+        console.log(colors.cyan('\n⚙️  Merged Configuration (with provenance):\n'));
+        console.log(colors.dim('  Transform files and variables are shown as written in the config files.\n'));
+        console.log(formatConfigProvenanceYaml(provenance, process.cwd()));
+      }
+      return;
+    }
+
+    const extendsChain = resolveExtendsChain(command.config);
+    if (command.json) {
+      const chain = extendsChain.map((configFile) => path.relative(process.cwd(), configFile));
+      console.log(JSON.stringify({ extendsChain: chain, config }, undefined, 2));
+      return;
+    }
+
+    if (extendsChain.length > 1) {
+      console.log(colors.cyan('\n🔗 Extends Chain (merged in order):\n'));
+      for (const [index, configFile] of extendsChain.entries())
+        console.log(`  ${index + 1}. ${path.relative(process.cwd(), configFile)}`);
+    }
+
     console.log(colors.cyan('\n⚙️  Resolved Configuration:\n'));
     console.log(YAML.stringify(config, { indent: 2 }));
     return;
   }
 
+  // Early exit for explain command
+  if (command.commandName === 'explain' && command.explainPath) {
+    const explanation = explainFileRules(
+      command.explainPath,
+      config as FinalConfig,
+      resolveConfigProvenance(command.config)
+    );
+
+    if (command.json)
+      console.log(JSON.stringify(formatFileRuleExplanationJson(explanation, process.cwd()), undefined, 2));
+    else console.log(formatFileRuleExplanation(explanation, process.cwd()));
+    return;
+  }
+
   // Early exit for validate command
   if (command.commandName === 'validate') {
     // Validation requires source folder
@@ -238,11 +375,12 @@ const main = async (): Promise<void> => {
     const errors: Array<{ path: string; error: Error }> = [];
 
     for (const [relativePath, content] of destinationFiles) {
-      if (!isYamlFile(relativePath)) continue;
+      const handler = getFormatHandler(relativePath);
+      if (!handler) continue;
       if (isCommentOnlyContent(content)) continue;
 
       try {
-        const formatted = formatYaml(content, relativePath, config.outputFormat);
+        const formatted = handler.format(content, relativePath, config.outputFormat);
 
         if (formatted !== content) {
           const absolutePath = path.join(config.destination, relativePath);
@@ -389,13 +527,25 @@ const main = async (): Promise<void> => {
     logger.log('\n' + formatProgressMessage('Analyzing differences for suggestions...', 'info'));
 
     try {
-      const suggestions = analyzeDifferencesForSuggestions(diffResult, syncConfig, command.suggestThreshold);
+      const suggestions = analyzeDifferencesForSuggestions(
+        diffResult,
+        syncConfig,
+        command.suggestThreshold,
+        destinationFiles
+      );
+
+      if (command.apply) {
+        await applySuggestionsFromCommand(listAppliableSuggestions(suggestions), command.config, command.minConfidence);
+        return;
+      }
+
       const yaml = formatSuggestionsAsYaml(suggestions);
 
       console.log(colors.cyan('\n💡 Suggested Configuration:\n'));
       console.log(yaml);
 
-      if (suggestions.metadata.changedFiles === 0)
+      const hasFilenameSuggestions = [...suggestions.filenames.values()].some((list) => list.length > 0);
+      if (suggestions.metadata.changedFiles === 0 && !hasFilenameSuggestions)
         console.log(colors.yellow('\nℹ️  No changes detected. Files are already in sync.'));
       else {
         console.log(colors.dim('\n---'));
@@ -416,11 +566,18 @@ const main = async (): Promise<void> => {
   const configFileDirectory = path.dirname(path.resolve(command.config));
   const validationResult = validateStopRules(diffResult, syncConfig.stopRules, configFileDirectory, logger);
 
-  if (validationResult.violations.length > 0)
-    if (command.force) for (const violation of validationResult.violations) logger.stopRule(violation, 'force');
-    else if (command.dryRun) for (const violation of validationResult.violations) logger.stopRule(violation, 'warning');
+  // Warning-severity violations are only reported, unless --strict makes them blocking
+  const blockingViolations = validationResult.violations.filter((violation) =>
+    isBlockingViolation(violation, command.strict)
+  );
+  for (const violation of validationResult.violations)
+    if (!blockingViolations.includes(violation)) logger.stopRule(violation, 'advisory');
+
+  if (blockingViolations.length > 0)
+    if (command.force) for (const violation of blockingViolations) logger.stopRule(violation, 'force');
+    else if (command.dryRun) for (const violation of blockingViolations) logger.stopRule(violation, 'warning');
     else {
-      for (const violation of validationResult.violations) logger.stopRule(violation, 'error');
+      for (const violation of blockingViolations) logger.stopRule(violation, 'error');
 
       logger.error('\nUse --force to override stop rules or --dry-run to preview changes.', 'critical');
       process.exit(EXIT_STOP_RULE_VIOLATION);
@@ -473,19 +630,30 @@ void (async () => {
     if (isConfigMergerError(error)) console.error(error.message);
     else if (isConfigLoaderError(error)) console.error(error.message);
     else if (isZodValidationError(error)) console.error(error.message);
+    else if (isVariableResolverError(error)) console.error(error.message);
     else if (isFileLoaderError(error)) console.error(error.message);
     else if (isFilenameTransformerError(error)) console.error(error.message);
     else if (isCollisionDetectorError(error)) console.error(error.message);
+    else if (isKeyCollisionError(error)) console.error(error.message);
     else if (isFileDiffError(error)) console.error(error.message);
     else if (isFileUpdaterError(error)) console.error(error.message);
     else if (isHtmlReporterError(error)) console.error(error.message);
     else if (isJsonReporterError(error)) console.error(error.message);
     else if (isSuggestionEngineError(error)) console.error(error.message);
+    else if (isConfigInitializerError(error)) console.error(error.message);
+    else if (isSuggestionApplierError(error)) console.error(error.message);
     else if (isFilterParseError(error)) console.error(error.message);
     else if (isGitFilterError(error)) console.error(error.message);
     else if (error instanceof Error) console.error('Unexpected error:', error.message);
     else console.error('Unexpected error:', error);
-    if (isConfigMergerError(error) || isConfigLoaderError(error) || isZodValidationError(error))
+    if (
+      isConfigMergerError(error) ||
+      isConfigLoaderError(error) ||
+      isZodValidationError(error) ||
+      isVariableResolverError(error) ||
+      isConfigInitializerError(error) ||
+      isSuggestionApplierError(error)
+    )
       process.exit(EXIT_CONFIG_ERROR);
     else process.exit(EXIT_CHANGES_SYNCED);
   } finally {
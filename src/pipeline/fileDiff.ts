@@ -1,24 +1,30 @@
-import YAML from 'yaml';
-
 import {
+  type ArrayMergeConfig,
+  type ArrayMergeRule,
   type Config,
   type FixedValueConfig,
   type FixedValueRule,
+  type FunctionTransform,
   type OutputFormat,
+  type StructuralTransform,
   type TransformConfig
 } from '../config';
+import { type FormatHandler, getFormatHandler } from '../formats';
 import type { Logger } from '../logger';
+import { applyArrayMergeRules, getArrayMergeRulesForFile, sortArraysByMergeKey } from '../utils/arrayMerger';
+import { isKeyCollisionError } from '../utils/collisionDetector';
 import { isCommentOnlyContent } from '../utils/commentOnlyDetector';
-import { deepEqual } from '../utils/deepEqual';
+import { deepEqualStructural } from '../utils/deepEqual';
 import { createErrorClass, createErrorTypeGuard } from '../utils/errors';
-import { isYamlFile } from '../utils/fileType';
 import { applyFixedValues, getFixedValuesForFile } from '../utils/fixedValues';
+import { getFunctionTransformsForFile } from '../utils/functionTransformer';
 import { isFilterSegment, matchesFilter, parseFilterSegment, parseJsonPath } from '../utils/jsonPath';
+import { matchYamlDocuments } from '../utils/multiDocumentYaml';
 import { globalMatcher } from '../utils/patternMatcher';
 import { normalizeForComparison } from '../utils/serialization';
+import { getStructuralTransformsForFile } from '../utils/structuralTransformer';
 import { applyTransforms } from '../utils/transformer';
 import { type FileMap } from './fileLoader';
-import { formatYaml } from './yamlFormatter';
 
 // Types
 export interface FileDiffResult {
@@ -39,10 +45,27 @@ export interface ChangedFile {
   rawParsedDest: unknown;
   skipPaths?: string[];
   fixedValueRules?: FixedValueRule[]; // Pre-computed once in fileDiff, reused in fileUpdater
+  arrayMergeRules?: ArrayMergeRule[]; // Pre-computed once in fileDiff, reused in fileUpdater and reporters
+  orderedArrayPaths?: string[]; // Arrays compared in order; pre-computed once in fileDiff, reused in fileUpdater and reporters
+  structuralTransforms?: StructuralTransform[]; // Structural operations applied to the source, shown in reports
+  functionTransforms?: FunctionTransform[]; // Function transforms applied to the source, shown in reports
   normalizedSource?: unknown;
   normalizedDest?: unknown;
   parsedSource?: unknown;
   parsedDest?: unknown;
+  documents?: ChangedDocument[]; // Per-document results, only set for multi-document YAML files
+}
+
+// One source/destination document pair of a multi-document YAML file
+export interface ChangedDocument {
+  label: string; // Resource identity (apiVersion/kind/name) or positional label ("document 2")
+  sourceIndex?: number; // Undefined when the document was removed from the source
+  destinationIndex?: number; // Undefined when the document is new in the source
+  changed: boolean;
+  processedSourceContent: unknown;
+  processedDestContent: unknown;
+  rawParsedSource: unknown;
+  rawParsedDest: unknown;
 }
 
 export interface AddedFile {
@@ -59,11 +82,24 @@ export interface ProcessYamlOptions {
   skipPath?: Record<string, string[]>;
   transforms?: TransformConfig;
   fixedValues?: FixedValueConfig;
+  arrayMerge?: ArrayMergeConfig;
+  orderedArrays?: Record<string, string[]>;
+  diffIgnore?: Record<string, string[]>;
+}
+
+// arrayMerge rules and orderedArrays paths that apply to one file
+interface ArrayRules {
+  mergeRules: ArrayMergeRule[];
+  orderedPaths: string[];
 }
 
 // Error Handling
 const FileDiffErrorClass = createErrorClass('File Diff Error', {
-  YAML_PARSE_ERROR: 'YAML file could not be parsed'
+  YAML_PARSE_ERROR: 'YAML file could not be parsed',
+  JSON_PARSE_ERROR: 'JSON file could not be parsed',
+  DOTENV_PARSE_ERROR: '.env file could not be parsed',
+  PROPERTIES_PARSE_ERROR: '.properties file could not be parsed',
+  TOML_PARSE_ERROR: 'TOML file could not be parsed'
 });
 
 export class FileDiffError extends FileDiffErrorClass {}
@@ -78,27 +114,24 @@ const processAddedFileContent = (
   outputFormat?: OutputFormat,
   logger?: Logger
 ): string => {
-  if (!isYamlFile(filePath)) return content;
+  const handler = getFormatHandler(filePath);
+  if (!handler) return content;
 
   try {
-    // Parse YAML
-    const parsed = YAML.parse(content);
-
-    // Apply transforms
-    const transformed = applyTransforms(parsed, filePath, transforms);
-
-    // Apply fixed values
     const fixedValueRules = getFixedValuesForFile(filePath, fixedValues);
-    if (fixedValueRules.length > 0) applyFixedValues(transformed, fixedValueRules);
 
-    // Serialize back to YAML
-    let processed = YAML.stringify(transformed);
-
-    // Apply formatting
-    processed = formatYaml(processed, filePath, outputFormat);
+    // Parse, apply transforms and fixed values to every document, then serialize back and format
+    const documents = handler.parse(content).map((parsed) => {
+      const transformed = applyTransforms(parsed, filePath, transforms);
+      if (fixedValueRules.length > 0) applyFixedValues(transformed, fixedValueRules);
+      return transformed;
+    });
 
-    return processed;
+    return handler.format(handler.serialize(documents, content), filePath, outputFormat);
   } catch (error) {
+    // Colliding key transforms would silently drop values, so they fail the run like for updated files
+    if (isKeyCollisionError(error)) throw error;
+
     logger?.warn(
       `Warning: Could not process added file '${filePath}' (${error instanceof Error ? error.message : String(error)}). Using raw content.`,
       'normal'
@@ -260,69 +293,212 @@ export const getSkipPathsForFile = (filePath: string, skipPath?: Record<string,
   return pathsToSkip;
 };
 
-const processYamlFile = (options: ProcessYamlOptions): ChangedFile | undefined => {
-  const { filePath, sourceContent, destinationContent, skipPath, transforms, fixedValues } = options;
-  let sourceParsed: unknown;
-  let destinationParsed: unknown;
+export const getDiffIgnorePathsForFile = (filePath: string, diffIgnore?: Record<string, string[]>): string[] => {
+  if (!diffIgnore) return [];
 
-  try {
-    sourceParsed = YAML.parse(sourceContent);
-  } catch (error) {
-    const parseError = new FileDiffError('Failed to parse source YAML file', {
-      code: 'YAML_PARSE_ERROR',
-      path: filePath,
-      cause: error instanceof Error ? error : undefined
-    });
+  const ignoredPaths: string[] = [];
 
-    const hints = [
-      '\n\n  Hint: YAML syntax error in source file:',
-      '\n    - Validate at: https://www.yamllint.com/',
-      '\n    - Common issues: incorrect indentation, missing quotes, invalid characters'
-    ].join('');
-    parseError.message += hints;
+  for (const [pattern, paths] of Object.entries(diffIgnore))
+    if (globalMatcher.match(filePath, pattern)) ignoredPaths.push(...paths);
 
-    throw parseError;
-  }
+  return ignoredPaths;
+};
+
+export const getOrderedArrayPathsForFile = (filePath: string, orderedArrays?: Record<string, string[]>): string[] => {
+  if (!orderedArrays) return [];
+
+  const orderedPaths: string[] = [];
+
+  for (const [pattern, paths] of Object.entries(orderedArrays))
+    if (globalMatcher.match(filePath, pattern)) orderedPaths.push(...paths);
+
+  return orderedPaths;
+};
+
+// Compares what the destination will contain after a sync: arrayMerge rules add back kept destination items,
+// then keyed arrays are ordered by key so paired items line up in diffs; orderedArrays keep their order throughout
+const normalizeMergedSource = (source: unknown, destination: unknown, arrayRules: ArrayRules): unknown =>
+  sortArraysByMergeKey(
+    normalizeForComparison(
+      applyArrayMergeRules(source, destination, arrayRules.mergeRules, arrayRules.orderedPaths),
+      arrayRules.orderedPaths
+    ),
+    arrayRules.mergeRules,
+    arrayRules.orderedPaths
+  );
+
+const normalizeDestination = (destination: unknown, arrayRules: ArrayRules): unknown =>
+  sortArraysByMergeKey(
+    normalizeForComparison(destination, arrayRules.orderedPaths),
+    arrayRules.mergeRules,
+    arrayRules.orderedPaths
+  );
+
+// diffIgnore paths only affect change detection; the values stay in the processed content and are still synced
+const isEqualIgnoringPaths = (source: unknown, destination: unknown, ignoredPaths: string[]): boolean =>
+  ignoredPaths.length > 0
+    ? deepEqualStructural(applySkipPaths(source, ignoredPaths), applySkipPaths(destination, ignoredPaths))
+    : deepEqualStructural(source, destination);
+
+const processYamlDocuments = (
+  filePath: string,
+  sourceDocuments: unknown[],
+  destinationDocuments: unknown[],
+  transforms: TransformConfig | undefined,
+  fixedValueRules: FixedValueRule[],
+  pathsToSkip: string[],
+  arrayRules: ArrayRules,
+  ignoredPaths: string[]
+): ChangedDocument[] => {
+  const transformedDocuments = sourceDocuments.map((document) => {
+    const transformed = applyTransforms(document, filePath, transforms);
+    if (fixedValueRules.length > 0) applyFixedValues(transformed, fixedValueRules);
+    return transformed;
+  });
+
+  // Match after transforms so renamed resources (e.g. uat-app → prod-app) pair with their destination
+  return matchYamlDocuments(transformedDocuments, destinationDocuments).map(
+    ({ label, sourceIndex, destinationIndex }) => {
+      const source = sourceIndex === undefined ? undefined : transformedDocuments[sourceIndex];
+      const destination = destinationIndex === undefined ? undefined : destinationDocuments[destinationIndex];
+
+      // Documents new to the destination are written in full like added files; skipPath only protects existing values
+      const sourceFiltered =
+        destinationIndex !== undefined && pathsToSkip.length > 0 ? applySkipPaths(source, pathsToSkip) : source;
+      const destinationFiltered = pathsToSkip.length > 0 ? applySkipPaths(destination, pathsToSkip) : destination;
+
+      const normalizedSource = normalizeMergedSource(sourceFiltered, destinationFiltered, arrayRules);
+      const normalizedDestination = normalizeDestination(destinationFiltered, arrayRules);
+
+      return {
+        label,
+        sourceIndex,
+        destinationIndex,
+        changed:
+          sourceIndex === undefined ||
+          destinationIndex === undefined ||
+          !isEqualIgnoringPaths(normalizedSource, normalizedDestination, ignoredPaths),
+        processedSourceContent: normalizedSource,
+        processedDestContent: normalizedDestination,
+        rawParsedSource: sourceFiltered,
+        rawParsedDest: destinationFiltered
+      };
+    }
+  );
+};
+
+const createParseError = (
+  filePath: string,
+  handler: FormatHandler,
+  side: 'source' | 'destination',
+  error: unknown
+): FileDiffError => {
+  const parseError = new FileDiffError(`Failed to parse ${side} ${handler.name} file`, {
+    code: `${handler.id.toUpperCase()}_PARSE_ERROR`,
+    path: filePath,
+    cause: error instanceof Error ? error : undefined
+  });
+
+  parseError.message += `\n\n  Hint: ${handler.name} syntax error in ${side} file:`;
+  for (const hint of handler.syntaxHints) parseError.message += `\n    - ${hint}`;
+
+  return parseError;
+};
+
+const processStructuredFile = (options: ProcessYamlOptions, handler: FormatHandler): ChangedFile | undefined => {
+  const {
+    filePath,
+    sourceContent,
+    destinationContent,
+    skipPath,
+    transforms,
+    fixedValues,
+    arrayMerge,
+    orderedArrays,
+    diffIgnore
+  } = options;
+  let sourceDocuments: unknown[];
+  let destinationDocuments: unknown[];
 
   try {
-    destinationParsed = YAML.parse(destinationContent);
+    sourceDocuments = handler.parse(sourceContent);
   } catch (error) {
-    const parseError = new FileDiffError('Failed to parse destination YAML file', {
-      code: 'YAML_PARSE_ERROR',
-      path: filePath,
-      cause: error instanceof Error ? error : undefined
-    });
-
-    const destinationHints = [
-      '\n\n  Hint: YAML syntax error in destination file:',
-      '\n    - Validate at: https://www.yamllint.com/',
-      '\n    - Common issues: incorrect indentation, missing quotes, invalid characters'
-    ].join('');
-    parseError.message += destinationHints;
+    throw createParseError(filePath, handler, 'source', error);
+  }
 
-    throw parseError;
+  try {
+    destinationDocuments = handler.parse(destinationContent);
+  } catch (error) {
+    throw createParseError(filePath, handler, 'destination', error);
   }
 
   // Check if destination is comment-only - preserve it
   if (isCommentOnlyContent(destinationContent)) return undefined;
 
+  const fixedValueRules = getFixedValuesForFile(filePath, fixedValues);
+  const pathsToSkip = getSkipPathsForFile(filePath, skipPath);
+  const ignoredPaths = getDiffIgnorePathsForFile(filePath, diffIgnore);
+  const arrayRules: ArrayRules = {
+    mergeRules: getArrayMergeRulesForFile(filePath, arrayMerge),
+    orderedPaths: getOrderedArrayPathsForFile(filePath, orderedArrays)
+  };
+
+  // Multi-document files are compared document by document
+  if (sourceDocuments.length > 1 || destinationDocuments.length > 1) {
+    const documents = processYamlDocuments(
+      filePath,
+      sourceDocuments,
+      destinationDocuments,
+      transforms,
+      fixedValueRules,
+      pathsToSkip,
+      arrayRules,
+      ignoredPaths
+    );
+    if (!documents.some((document) => document.changed)) return undefined;
+
+    const processedSourceContent = documents.map((document) => document.processedSourceContent);
+    const processedDestinationContent = documents.map((document) => document.processedDestContent);
+
+    return {
+      path: filePath,
+      sourceContent,
+      destinationContent,
+      processedSourceContent,
+      processedDestContent: processedDestinationContent,
+      rawParsedSource: documents.map((document) => document.rawParsedSource),
+      rawParsedDest: documents.map((document) => document.rawParsedDest),
+      skipPaths: pathsToSkip,
+      fixedValueRules,
+      arrayMergeRules: arrayRules.mergeRules,
+      orderedArrayPaths: arrayRules.orderedPaths,
+      structuralTransforms: getStructuralTransformsForFile(filePath, transforms),
+      functionTransforms: getFunctionTransformsForFile(filePath, transforms),
+      normalizedSource: processedSourceContent,
+      normalizedDest: processedDestinationContent,
+      parsedSource: sourceDocuments,
+      parsedDest: destinationDocuments,
+      documents
+    };
+  }
+
+  const sourceParsed = sourceDocuments[0];
+  const destinationParsed = destinationDocuments[0];
+
   const sourceTransformed = applyTransforms(sourceParsed, filePath, transforms);
 
   // Apply fixed values after transforms, before skipPath filtering
-  const fixedValueRules = getFixedValuesForFile(filePath, fixedValues);
   if (fixedValueRules.length > 0) applyFixedValues(sourceTransformed, fixedValueRules);
 
-  const pathsToSkip = getSkipPathsForFile(filePath, skipPath);
-
   const sourceFiltered = pathsToSkip.length > 0 ? applySkipPaths(sourceTransformed, pathsToSkip) : sourceTransformed;
 
   const destinationFiltered =
     pathsToSkip.length > 0 ? applySkipPaths(destinationParsed, pathsToSkip) : destinationParsed;
 
-  const normalizedSource = normalizeForComparison(sourceFiltered);
-  const normalizedDestination = normalizeForComparison(destinationFiltered);
+  const normalizedSource = normalizeMergedSource(sourceFiltered, destinationFiltered, arrayRules);
+  const normalizedDestination = normalizeDestination(destinationFiltered, arrayRules);
 
-  const areEqual = deepEqual(normalizedSource, normalizedDestination);
+  const areEqual = isEqualIgnoringPaths(normalizedSource, normalizedDestination, ignoredPaths);
 
   if (areEqual) return undefined;
 
@@ -336,6 +512,10 @@ const processYamlFile = (options: ProcessYamlOptions): ChangedFile | undefined =
     rawParsedDest: destinationFiltered,
     skipPaths: pathsToSkip,
     fixedValueRules,
+    arrayMergeRules: arrayRules.mergeRules,
+    orderedArrayPaths: arrayRules.orderedPaths,
+    structuralTransforms: getStructuralTransformsForFile(filePath, transforms),
+    functionTransforms: getFunctionTransformsForFile(filePath, transforms),
     normalizedSource,
     normalizedDest: normalizedDestination,
     parsedSource: sourceParsed,
@@ -349,7 +529,10 @@ const processChangedFiles = (
   skipPath?: Record<string, string[]>,
   transforms?: TransformConfig,
   fixedValues?: FixedValueConfig,
-  originalPaths?: Map<string, string>
+  originalPaths?: Map<string, string>,
+  arrayMerge?: ArrayMergeConfig,
+  orderedArrays?: Record<string, string[]>,
+  diffIgnore?: Record<string, string[]>
 ): { changedFiles: ChangedFile[]; unchangedFiles: string[] } => {
   const changedFiles: ChangedFile[] = [];
   const unchangedFiles: string[] = [];
@@ -360,17 +543,23 @@ const processChangedFiles = (
     const destinationContent = destinationFiles.get(path)!;
     const originalPath = originalPaths?.get(path);
 
-    const isYaml = isYamlFile(path);
-
-    if (isYaml) {
-      const changed = processYamlFile({
-        filePath: path,
-        sourceContent,
-        destinationContent,
-        skipPath,
-        transforms,
-        fixedValues
-      });
+    const handler = getFormatHandler(path);
+
+    if (handler) {
+      const changed = processStructuredFile(
+        {
+          filePath: path,
+          sourceContent,
+          destinationContent,
+          skipPath,
+          transforms,
+          fixedValues,
+          arrayMerge,
+          orderedArrays,
+          diffIgnore
+        },
+        handler
+      );
 
       if (changed) {
         if (originalPath) changed.originalPath = originalPath;
@@ -388,7 +577,11 @@ const processChangedFiles = (
         rawParsedSource: sourceContent,
         rawParsedDest: destinationContent,
         skipPaths: [],
-        fixedValueRules: []
+        fixedValueRules: [],
+        arrayMergeRules: [],
+        orderedArrayPaths: [],
+        structuralTransforms: [],
+        functionTransforms: []
       });
   }
 
@@ -414,6 +607,9 @@ export const computeFileDiff = (
 
     const skipPathCount = Object.keys(config.skipPath || {}).length;
     if (skipPathCount > 0) logger.debug(`  SkipPath patterns: ${skipPathCount}`);
+
+    const diffIgnoreCount = Object.keys(config.diffIgnore || {}).length;
+    if (diffIgnoreCount > 0) logger.debug(`  DiffIgnore patterns: ${diffIgnoreCount}`);
   }
 
   const addedFiles = detectAddedFiles(sourceFiles, destinationFiles, config, originalPaths, logger);
@@ -426,7 +622,10 @@ export const computeFileDiff = (
     config.skipPath,
     config.transforms,
     config.fixedValues,
-    originalPaths
+    originalPaths,
+    config.arrayMerge,
+    config.orderedArrays,
+    config.diffIgnore
   );
 
   return { addedFiles, deletedFiles, changedFiles, unchangedFiles };
@@ -4,6 +4,7 @@ import path from 'node:path';
 import { glob } from 'tinyglobby';
 
 import type { TransformConfig } from '../config';
+import { getFormatHandler } from '../formats';
 import type { Logger } from '../logger';
 import { createErrorClass, createErrorTypeGuard } from '../utils/errors';
 import { transformFilename, transformFilenameMap } from '../utils/filenameTransformer';
@@ -40,6 +41,8 @@ export class FileLoaderError extends FileLoaderErrorClass {}
 export const isFileLoaderError = createErrorTypeGuard(FileLoaderError);
 
 // Helper Functions
+const UTF8_BOM = '\uFEFF';
+
 const sortMapByKeys = (map: FileMap): FileMap => {
   // eslint-disable-next-line unicorn/no-array-sort -- toSorted not available in ES2020, spread creates new array
   const sortedEntries = [...map.entries()].sort(([keyA], [keyB]: [string, string]) => keyA.localeCompare(keyB));
@@ -176,6 +179,10 @@ const readFilesIntoMap = async (baseDirectory: string, absoluteFilePaths: string
 
       const relativePath = path.relative(baseDirectory, absolutePath);
 
+      // A UTF-8 byte order mark would end up in the first key of structured files (and breaks JSON.parse)
+      if (getFormatHandler(relativePath) && content.startsWith(UTF8_BOM))
+        return { relativePath, content: content.slice(UTF8_BOM.length) };
+
       return { relativePath, content };
     } catch (error: unknown) {
       if (isFileLoaderError(error)) throw error;
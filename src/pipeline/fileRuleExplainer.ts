@@ -0,0 +1,265 @@
+import path from 'node:path';
+
+import colors from 'ansi-colors';
+import * as YAML from 'yaml';
+
+import {
+  type ConfigPathSegment,
+  type ConfigProvenance,
+  type FinalConfig,
+  getProvenanceEntry,
+  type TransformRules
+} from '../config';
+import { transformFilename } from '../utils/filenameTransformer';
+import { globalMatcher } from '../utils/patternMatcher';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One config entry that applies to the explained file.
+ * - pattern: The glob that matched (for include/exclude, the pattern itself)
+ * - rule: The entry as written in the config file
+ * - file / line: Where the entry is defined (absent for built-in defaults)
+ */
+export interface ExplainedRule {
+  pattern: string;
+  rule: unknown;
+  file?: string;
+  line?: number;
+}
+
+export interface ExplainedSection {
+  title: string;
+  rules: ExplainedRule[];
+}
+
+export interface FileRuleExplanation {
+  filePath: string;
+  destinationPath: string;
+  included: boolean;
+  includedBy?: ExplainedRule;
+  excludedBy?: ExplainedRule;
+  sections: ExplainedSection[];
+}
+
+type PerFileField = 'skipPath' | 'diffIgnore' | 'fixedValues' | 'stopRules' | 'arrayMerge' | 'orderedArrays';
+
+type TransformListField = keyof TransformRules;
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Transform lists in pipeline order; filename transforms match the source path, the rest the destination path
+const TRANSFORM_SECTIONS: Array<{ title: string; fields: TransformListField[] }> = [
+  { title: 'Structural transforms', fields: ['structural'] },
+  { title: 'Content transforms', fields: ['contentFile', 'content'] },
+  { title: 'Key transforms', fields: ['keysFile', 'keys'] },
+  { title: 'Function transforms', fields: ['functions'] }
+];
+
+const PER_FILE_SECTIONS: Array<{ title: string; field: PerFileField }> = [
+  { title: 'Fixed values', field: 'fixedValues' },
+  { title: 'Skip paths', field: 'skipPath' },
+  { title: 'Diff ignore paths', field: 'diffIgnore' },
+  { title: 'Array merge rules', field: 'arrayMerge' },
+  { title: 'Ordered arrays', field: 'orderedArrays' },
+  { title: 'Stop rules', field: 'stopRules' }
+];
+
+const OUTPUT_FORMAT_FIELDS = ['keyOrders', 'keySort', 'arraySort', 'quoteValues'] as const;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const withLocation = (
+  provenance: ConfigProvenance,
+  segments: ConfigPathSegment[],
+  pattern: string,
+  rule: unknown
+): ExplainedRule => {
+  const entry = getProvenanceEntry(provenance, segments);
+  return entry ? { pattern, rule, file: entry.file, line: entry.line } : { pattern, rule };
+};
+
+// Every entry of a list under a matching glob; single-string file references are listed as one entry
+const collectListEntries = (
+  provenance: ConfigProvenance,
+  record: unknown,
+  filePath: string,
+  field: PerFileField | 'transforms',
+  listField?: TransformListField
+): ExplainedRule[] => {
+  if (!isPlainObject(record)) return [];
+
+  const rules: ExplainedRule[] = [];
+  for (const [pattern, value] of Object.entries(record)) {
+    if (!globalMatcher.match(filePath, pattern)) continue;
+
+    const segments: ConfigPathSegment[] = listField ? [field, pattern, listField] : [field, pattern];
+    const list = listField ? (isPlainObject(value) ? value[listField] : undefined) : value;
+
+    if (Array.isArray(list))
+      for (const [index, rule] of list.entries())
+        rules.push(withLocation(provenance, [...segments, index], pattern, rule));
+    else if (list !== undefined) rules.push(withLocation(provenance, segments, pattern, list));
+  }
+  return rules;
+};
+
+const collectTransformSection = (
+  provenance: ConfigProvenance,
+  filePath: string,
+  title: string,
+  fields: TransformListField[]
+): ExplainedSection => ({
+  title,
+  rules: fields.flatMap((field) =>
+    collectListEntries(provenance, provenance.config.transforms, filePath, 'transforms', field)
+  )
+});
+
+const collectOutputFormatSection = (provenance: ConfigProvenance, filePath: string): ExplainedSection => {
+  const outputFormat = provenance.config.outputFormat;
+  const rules: ExplainedRule[] = [];
+
+  for (const field of OUTPUT_FORMAT_FIELDS) {
+    const record = outputFormat?.[field];
+    if (!record) continue;
+
+    for (const [pattern, rule] of Object.entries(record))
+      if (globalMatcher.match(filePath, pattern))
+        rules.push(withLocation(provenance, ['outputFormat', field], pattern, { [field]: rule }));
+  }
+
+  return { title: 'Output format rules', rules };
+};
+
+// The first include and exclude pattern that match, located through the merged config they came from
+const findPatternMatch = (
+  provenance: ConfigProvenance,
+  patterns: string[],
+  field: 'include' | 'exclude',
+  filePath: string
+): ExplainedRule | undefined => {
+  const index = patterns.findIndex((pattern) => globalMatcher.match(filePath, pattern));
+  if (index === -1) return undefined;
+
+  const pattern = patterns[index]!;
+  return withLocation(provenance, [field, index], pattern, pattern);
+};
+
+const describeRule = (rule: unknown): string =>
+  typeof rule === 'string' ? rule : YAML.stringify(rule, { collectionStyle: 'flow', lineWidth: 0 }).trim();
+
+const describeLocation = (rule: ExplainedRule, baseDirectory: string): string =>
+  rule.file ? `${path.relative(baseDirectory, rule.file)}:${rule.line}` : 'default';
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Lists every config entry that applies to one source file: filename transforms, the include/exclude
+ * decision (on the transformed path, as when loading files) and the per-glob rules matched against it.
+ * Entries are taken from the merged config as written, so each one carries the file and line it comes from.
+ *
+ * @param filePath - Path relative to the source folder
+ * @param config - The loaded config (used for the filename result and include/exclude defaults)
+ * @param provenance - Provenance of the merged config
+ * @throws {FilenameTransformerError} If the filename transforms produce an invalid path
+ */
+export const explainFileRules = (
+  filePath: string,
+  config: FinalConfig,
+  provenance: ConfigProvenance
+): FileRuleExplanation => {
+  const normalizedPath = path.normalize(filePath);
+  const destinationPath = transformFilename(normalizedPath, config.transforms);
+
+  const includedBy = findPatternMatch(provenance, config.include, 'include', destinationPath);
+  const excludedBy = findPatternMatch(provenance, config.exclude, 'exclude', destinationPath);
+
+  const sections: ExplainedSection[] = [
+    collectTransformSection(provenance, normalizedPath, 'Filename transforms', ['filenameFile', 'filename']),
+    ...TRANSFORM_SECTIONS.map(({ title, fields }) =>
+      collectTransformSection(provenance, destinationPath, title, fields)
+    ),
+    ...PER_FILE_SECTIONS.map(({ title, field }) => ({
+      title,
+      rules: collectListEntries(provenance, provenance.config[field], destinationPath, field)
+    })),
+    collectOutputFormatSection(provenance, destinationPath)
+  ];
+
+  return {
+    filePath: normalizedPath,
+    destinationPath,
+    included: includedBy !== undefined && excludedBy === undefined,
+    ...(includedBy && { includedBy }),
+    ...(excludedBy && { excludedBy }),
+    sections
+  };
+};
+
+/**
+ * Formats an explanation for the console, with config locations relative to `baseDirectory`.
+ */
+export const formatFileRuleExplanation = (explanation: FileRuleExplanation, baseDirectory: string): string => {
+  const lines: string[] = [colors.cyan(`\n🔎 Rules for ${explanation.filePath}\n`)];
+
+  const renamed = explanation.destinationPath === explanation.filePath ? '' : colors.dim(' (filename transforms)');
+  lines.push(`  Destination path: ${explanation.destinationPath}${renamed}`);
+
+  if (explanation.excludedBy)
+    lines.push(
+      `  Included: ${colors.red('no')} — excluded by '${explanation.excludedBy.pattern}' ${colors.dim(`(${describeLocation(explanation.excludedBy, baseDirectory)})`)}`
+    );
+  else if (explanation.includedBy)
+    lines.push(
+      `  Included: ${colors.green('yes')} — include '${explanation.includedBy.pattern}' ${colors.dim(`(${describeLocation(explanation.includedBy, baseDirectory)})`)}`
+    );
+  else lines.push(`  Included: ${colors.red('no')} — no include pattern matches`);
+
+  // Empty sections are summarized in one line to keep the output short
+  for (const section of explanation.sections.filter((candidate) => candidate.rules.length > 0)) {
+    lines.push(`\n  ${section.title}:`);
+    for (const rule of section.rules)
+      lines.push(
+        `    • ${describeRule(rule.rule)} ${colors.dim(`[${rule.pattern}] (${describeLocation(rule, baseDirectory)})`)}`
+      );
+  }
+
+  const emptySections = explanation.sections.filter((section) => section.rules.length === 0);
+  if (emptySections.length > 0)
+    lines.push(colors.dim(`\n  No matching ${emptySections.map((section) => section.title.toLowerCase()).join(', ')}`));
+
+  return lines.join('\n');
+};
+
+/**
+ * Builds the JSON form of an explanation, with config file paths relative to `baseDirectory`.
+ */
+export const formatFileRuleExplanationJson = (
+  explanation: FileRuleExplanation,
+  baseDirectory: string
+): FileRuleExplanation => {
+  const relativeRule = (rule: ExplainedRule): ExplainedRule =>
+    rule.file ? { ...rule, file: path.relative(baseDirectory, rule.file) } : rule;
+
+  return {
+    ...explanation,
+    ...(explanation.includedBy && { includedBy: relativeRule(explanation.includedBy) }),
+    ...(explanation.excludedBy && { excludedBy: relativeRule(explanation.excludedBy) }),
+    sections: explanation.sections.map((section) => ({
+      ...section,
+      rules: section.rules.map((rule) => relativeRule(rule))
+    }))
+  };
+};
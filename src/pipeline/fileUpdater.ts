@@ -1,20 +1,26 @@
 import { mkdir, stat, unlink, writeFile } from 'node:fs/promises';
 import path from 'node:path';
 
-import YAML from 'yaml';
-
-import { type Config } from '../config';
+import { type ArrayMergeRule, type Config, type FixedValueRule } from '../config';
 import { formatProgressMessage } from '../consoleFormatter';
+import { type FormatHandler, getFormatHandler, type PatchDocument } from '../formats';
 import { type Logger } from '../logger';
-import { findMatchingTargetItem, getApplicableArrayFilters, itemMatchesAnyFilter } from '../utils/arrayMerger';
+import {
+  findArrayMergeRule,
+  findMatchingTargetItem,
+  getApplicableArrayFilters,
+  getArrayItemKey,
+  getArrayMergeRulesForFile,
+  isOrderedArrayPath,
+  itemMatchesAnyFilter,
+  mergeArrayByRule
+} from '../utils/arrayMerger';
 import { isCommentOnlyContent } from '../utils/commentOnlyDetector';
 import { createErrorClass, createErrorTypeGuard } from '../utils/errors';
-import { isYamlFile } from '../utils/fileType';
 import { applyFixedValues, getFixedValuesForFile } from '../utils/fixedValues';
 import { applyTransforms } from '../utils/transformer';
-import { type AddedFile, type ChangedFile, type FileDiffResult } from './fileDiff';
+import { type AddedFile, type ChangedDocument, type ChangedFile, type FileDiffResult } from './fileDiff';
 import { type FileMap } from './fileLoader';
-import { formatYaml } from './yamlFormatter';
 
 // Types
 export interface FileUpdateError {
@@ -59,6 +65,18 @@ const FileUpdaterErrorClass = createErrorClass('File Updater Error', {
   YAML_PARSE_ERROR: 'YAML file could not be parsed',
   YAML_MERGE_ERROR: 'YAML merge operation failed',
   YAML_SERIALIZE_ERROR: 'YAML serialization failed',
+  JSON_PARSE_ERROR: 'JSON file could not be parsed',
+  JSON_MERGE_ERROR: 'JSON merge operation failed',
+  JSON_SERIALIZE_ERROR: 'JSON serialization failed',
+  DOTENV_PARSE_ERROR: '.env file could not be parsed',
+  DOTENV_MERGE_ERROR: '.env merge operation failed',
+  DOTENV_SERIALIZE_ERROR: '.env serialization failed',
+  PROPERTIES_PARSE_ERROR: '.properties file could not be parsed',
+  PROPERTIES_MERGE_ERROR: '.properties merge operation failed',
+  PROPERTIES_SERIALIZE_ERROR: '.properties serialization failed',
+  TOML_PARSE_ERROR: 'TOML file could not be parsed',
+  TOML_MERGE_ERROR: 'TOML merge operation failed',
+  TOML_SERIALIZE_ERROR: 'TOML serialization failed',
   UPDATE_FAILED: 'Failed to update one or more files'
 });
 
@@ -112,7 +130,9 @@ const deepMerge = (
   filteredSource: unknown,
   filteredTarget: unknown,
   currentPath: string[] = [],
-  skipPaths: string[] = []
+  skipPaths: string[] = [],
+  arrayMergeRules: ArrayMergeRule[] = [],
+  orderedArrayPaths: string[] = []
 ): unknown => {
   // Handle null/undefined cases
   if (filteredSource === null || filteredSource === undefined) return fullTarget;
@@ -127,6 +147,32 @@ const deepMerge = (
     const filteredTargetArray = Array.isArray(filteredTarget) ? (filteredTarget as unknown[]) : [];
     const applicableFilters = getApplicableArrayFilters(currentPath, skipPaths);
 
+    // arrayMerge rule: pair items by key; destination items hidden by skipPath filters always survive
+    const arrayMergeRule = findArrayMergeRule(currentPath, arrayMergeRules);
+    if (arrayMergeRule && arrayMergeRule.strategy !== 'replace')
+      return mergeArrayByRule(
+        filteredSource,
+        fullTargetArray,
+        arrayMergeRule,
+        (sourceItem, targetItem) => {
+          const itemKey = getArrayItemKey(targetItem, arrayMergeRule.key);
+          const filteredTargetItem = filteredTargetArray.find(
+            (item) => getArrayItemKey(item, arrayMergeRule.key) === itemKey
+          );
+          return deepMerge(
+            targetItem,
+            sourceItem,
+            filteredTargetItem,
+            currentPath,
+            skipPaths,
+            arrayMergeRules,
+            orderedArrayPaths
+          );
+        },
+        (targetItem) => itemMatchesAnyFilter(targetItem, applicableFilters).matches,
+        isOrderedArrayPath(currentPath, orderedArrayPaths)
+      );
+
     // No applicable filters - replace entirely
     if (applicableFilters.length === 0) return filteredSource;
 
@@ -144,7 +190,17 @@ const deepMerge = (
           const matchingFilteredTargetItem = findMatchingTargetItem(sourceItem, filteredTargetArray, applicableFilters);
           if (matchingTargetItem) {
             // Recursively merge to preserve nested skipped fields
-            result.push(deepMerge(matchingTargetItem, sourceItem, matchingFilteredTargetItem, currentPath, skipPaths));
+            result.push(
+              deepMerge(
+                matchingTargetItem,
+                sourceItem,
+                matchingFilteredTargetItem,
+                currentPath,
+                skipPaths,
+                arrayMergeRules,
+                orderedArrayPaths
+              )
+            );
             continue;
           }
         }
@@ -198,7 +254,9 @@ const deepMerge = (
           value,
           filteredTargetObject[key],
           [...currentPath, key],
-          skipPaths
+          skipPaths,
+          arrayMergeRules,
+          orderedArrayPaths
         );
 
     return result;
@@ -208,50 +266,101 @@ const deepMerge = (
   return filteredSource;
 };
 
-const mergeYamlContent = (
-  destinationContent: string,
-  processedSourceContent: unknown,
-  filteredDestinationContent: unknown,
-  filePath: string,
-  skipPaths: string[] = []
-): { content: string; merged: unknown } => {
-  // 1. Parse current destination (full, unfiltered)
-  let destinationParsed: unknown;
-  try {
-    destinationParsed = YAML.parse(destinationContent);
-  } catch (error) {
-    const parseError = new FileUpdaterError('Failed to parse destination YAML for merge', {
-      code: 'YAML_PARSE_ERROR',
-      path: filePath,
-      cause: error instanceof Error ? error : undefined
-    });
+const createDestinationParseError = (filePath: string, handler: FormatHandler, error: unknown): FileUpdaterError => {
+  const parseError = new FileUpdaterError(`Failed to parse destination ${handler.name} for merge`, {
+    code: `${handler.id.toUpperCase()}_PARSE_ERROR`,
+    path: filePath,
+    cause: error instanceof Error ? error : undefined
+  });
 
-    parseError.message += '\n\n  Hint: YAML syntax error in destination file:';
-    parseError.message += '\n    - Validate at: https://www.yamllint.com/';
-    parseError.message += '\n    - Common issues: incorrect indentation, missing quotes';
-    parseError.message += '\n    - Try --skip-format flag if formatting is the issue';
+  parseError.message += `\n\n  Hint: ${handler.name} syntax error in destination file:`;
+  for (const hint of handler.syntaxHints) parseError.message += `\n    - ${hint}`;
+  parseError.message += '\n    - Try --skip-format flag if formatting is the issue';
 
-    throw parseError;
-  }
+  return parseError;
+};
 
-  // 2. Deep merge source changes into destination
-  let merged: unknown;
+// Single-document files are treated as one document pair
+const getDocumentPairs = (changedFile: ChangedFile): ChangedDocument[] =>
+  changedFile.documents ?? [
+    {
+      label: changedFile.path,
+      sourceIndex: 0,
+      destinationIndex: 0,
+      changed: true,
+      processedSourceContent: changedFile.processedSourceContent,
+      processedDestContent: changedFile.processedDestContent,
+      rawParsedSource: changedFile.rawParsedSource,
+      rawParsedDest: changedFile.rawParsedDest
+    }
+  ];
+
+const mergeStructuredContent = (
+  handler: FormatHandler,
+  changedFile: ChangedFile,
+  fixedValueRules: FixedValueRule[] = [],
+  arrayMergeRules: ArrayMergeRule[] = [],
+  logger?: Logger
+): string => {
+  const { path: filePath, destinationContent, skipPaths = [], orderedArrayPaths = [] } = changedFile;
+
+  // Parse the current destination to recover values hidden by skipPath
+  let destinationDocuments: unknown[];
   try {
-    merged = deepMerge(destinationParsed, processedSourceContent, filteredDestinationContent, [], skipPaths);
+    destinationDocuments = handler.parse(destinationContent);
   } catch (error) {
-    throw new FileUpdaterError('Failed to merge YAML content', {
-      code: 'YAML_MERGE_ERROR',
-      path: filePath,
-      cause: error instanceof Error ? error : undefined
-    });
+    throw createDestinationParseError(filePath, handler, error);
   }
 
-  // 3. Serialize back to YAML
+  // Output follows source document order; documents only present in the destination are dropped
+  const patchDocuments: PatchDocument[] = [];
+  for (const document of getDocumentPairs(changedFile)) {
+    if (document.sourceIndex === undefined) continue;
+
+    // Documents new to the destination are written as they are in the source
+    if (document.destinationIndex === undefined) {
+      patchDocuments.push({ value: document.rawParsedSource });
+      continue;
+    }
+
+    // 1. Deep merge source changes into the full, unfiltered destination
+    let merged: unknown;
+    try {
+      merged = deepMerge(
+        destinationDocuments[document.destinationIndex],
+        document.rawParsedSource,
+        document.rawParsedDest,
+        [],
+        skipPaths,
+        arrayMergeRules,
+        orderedArrayPaths
+      );
+    } catch (error) {
+      throw new FileUpdaterError(`Failed to merge ${handler.name} content`, {
+        code: `${handler.id.toUpperCase()}_MERGE_ERROR`,
+        path: filePath,
+        cause: error instanceof Error ? error : undefined
+      });
+    }
+
+    // 2. Apply fixed values after merge, before serialization
+    if (fixedValueRules.length > 0) applyFixedValues(merged, fixedValueRules);
+
+    patchDocuments.push({ value: merged, destinationIndex: document.destinationIndex });
+  }
+
+  // 3. Patch only the changed values into the destination content
   try {
-    return { content: YAML.stringify(merged), merged };
+    if (handler.patchKeepsLayout && !handler.patchKeepsLayout(destinationContent, patchDocuments))
+      logger?.warn(
+        `Warning: '${filePath}' is regenerated as a whole; comments and formatting of the destination ${handler.name} file are not kept.`,
+        'normal'
+      );
+
+    return handler.patch(destinationContent, patchDocuments);
   } catch (error) {
-    throw new FileUpdaterError('Failed to serialize merged YAML', {
-      code: 'YAML_SERIALIZE_ERROR',
+    throw new FileUpdaterError(`Failed to serialize merged ${handler.name}`, {
+      code: `${handler.id.toUpperCase()}_SERIALIZE_ERROR`,
       path: filePath,
       cause: error instanceof Error ? error : undefined
     });
@@ -269,28 +378,26 @@ const addFile = async (options: FileOperationOptions): Promise<void> => {
 
   let contentToWrite = content;
 
-  // Apply transforms, fixed values, and formatting for YAML files
-  if (isYamlFile(relativePath))
+  // Apply transforms, fixed values, and formatting for structured files
+  const handler = getFormatHandler(relativePath);
+  if (handler)
     try {
-      // Parse YAML
-      const parsed = YAML.parse(content);
-
-      // Apply transforms
-      const transformed = applyTransforms(parsed, relativePath, config.transforms);
-
-      // Apply fixed values
       const fixedValueRules = getFixedValuesForFile(relativePath, config.fixedValues);
-      if (fixedValueRules.length > 0) applyFixedValues(transformed, fixedValueRules);
 
-      // Serialize back to YAML
-      contentToWrite = YAML.stringify(transformed);
+      // Parse, apply transforms and fixed values to every document, then serialize back
+      const documents = handler.parse(content).map((parsed) => {
+        const transformed = applyTransforms(parsed, relativePath, config.transforms);
+        if (fixedValueRules.length > 0) applyFixedValues(transformed, fixedValueRules);
+        return transformed;
+      });
+      contentToWrite = handler.serialize(documents, content);
 
       // Apply formatting
       const effectiveOutputFormat = skipFormat ? undefined : config.outputFormat;
-      contentToWrite = formatYaml(contentToWrite, relativePath, effectiveOutputFormat);
+      contentToWrite = handler.format(contentToWrite, relativePath, effectiveOutputFormat);
     } catch (error) {
-      throw new FileUpdaterError('Failed to process YAML file for adding', {
-        code: 'YAML_PARSE_ERROR',
+      throw new FileUpdaterError(`Failed to process ${handler.name} file for adding`, {
+        code: `${handler.id.toUpperCase()}_PARSE_ERROR`,
         path: relativePath,
         cause: error instanceof Error ? error : undefined
       });
@@ -319,35 +426,20 @@ const updateFile = async (options: UpdateFileOptions): Promise<void> => {
   }
 
   let contentToWrite: string;
-  let mergedObject: unknown;
-
-  if (isYamlFile(changedFile.path)) {
-    const mergeResult = mergeYamlContent(
-      changedFile.destinationContent,
-      changedFile.rawParsedSource,
-      changedFile.rawParsedDest,
-      changedFile.path,
-      changedFile.skipPaths
-    );
-    contentToWrite = mergeResult.content;
-    mergedObject = mergeResult.merged;
-  } else contentToWrite = changedFile.sourceContent;
 
-  if (isYamlFile(changedFile.path)) {
-    // Apply fixed values after merge, before formatting.
-    // fixedValueRules are pre-computed in fileDiff to avoid redundant glob matching;
+  const handler = getFormatHandler(changedFile.path);
+  if (handler) {
+    // fixedValueRules and arrayMergeRules are pre-computed in fileDiff to avoid redundant glob matching;
     // fall back to on-demand lookup for manually constructed ChangedFile objects (e.g. tests).
     const fixedValueRules = changedFile.fixedValueRules ?? getFixedValuesForFile(changedFile.path, config.fixedValues);
-    if (fixedValueRules.length > 0) {
-      // Reuse the already-parsed merged object to avoid an extra YAML.parse round-trip
-      const target = mergedObject ?? YAML.parse(contentToWrite);
-      applyFixedValues(target, fixedValueRules);
-      contentToWrite = YAML.stringify(target);
-    }
+    const arrayMergeRules =
+      changedFile.arrayMergeRules ?? getArrayMergeRulesForFile(changedFile.path, config.arrayMerge);
+
+    contentToWrite = mergeStructuredContent(handler, changedFile, fixedValueRules, arrayMergeRules, logger);
 
     const effectiveOutputFormat = skipFormat ? undefined : config.outputFormat;
-    contentToWrite = formatYaml(contentToWrite, changedFile.path, effectiveOutputFormat);
-  }
+    contentToWrite = handler.format(contentToWrite, changedFile.path, effectiveOutputFormat);
+  } else contentToWrite = changedFile.sourceContent;
 
   try {
     await ensureParentDirectory(absolutePath);
@@ -439,14 +531,15 @@ const formatUnchangedFiles = async (
 ): Promise<string[]> => {
   const formattedFiles: string[] = [];
 
-  for (const relativePath of files)
-    if (isYamlFile(relativePath))
+  for (const relativePath of files) {
+    const handler = getFormatHandler(relativePath);
+    if (handler)
       try {
         const content = destinationFiles.get(relativePath)!;
         if (isCommentOnlyContent(content)) continue;
 
         const effectiveOutputFormat = context.skipFormat ? undefined : context.config.outputFormat;
-        const formatted = formatYaml(content, relativePath, effectiveOutputFormat);
+        const formatted = handler.format(content, relativePath, effectiveOutputFormat);
 
         if (formatted !== content) {
           const absolutePath = path.join(context.absoluteDestinationDirectory, relativePath);
@@ -463,6 +556,7 @@ const formatUnchangedFiles = async (
       } catch (error) {
         context.errors.push({ operation: 'update', path: relativePath, error: error as Error });
       }
+  }
 
   return formattedFiles;
 };
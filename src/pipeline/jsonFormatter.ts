@@ -0,0 +1,62 @@
+import YAML from 'yaml';
+
+import { type OutputFormat } from '../config';
+import { createErrorClass, createErrorTypeGuard } from '../utils/errors';
+import { detectJsonIndent, parseJsonContent, stringifyJson } from '../utils/jsonContent';
+import { applyStructuralFormatting } from './yamlFormatter';
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+export const JsonFormatterError = createErrorClass('JSON Formatter Error', {
+  JSON_PARSE_ERROR: 'JSON file could not be parsed',
+  JSON_FORMAT_ERROR: 'Failed to apply formatting'
+});
+
+export const isJsonFormatterError = createErrorTypeGuard(JsonFormatterError);
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Formats JSON content according to outputFormat.
+ * Applies `indent` (when set; otherwise the content keeps its own indentation) plus the key ordering rules shared with YAML (keyOrders, keySort, arraySort)
+ * and always ends the file with a newline. YAML-only options (keySeparator, quoteValues) are ignored.
+ */
+export const formatJson = (content: string, filePath: string, outputFormat?: OutputFormat): string => {
+  if (!outputFormat) return content;
+  if (!content || content.trim() === '') return content;
+
+  let parsed: unknown;
+  try {
+    parsed = parseJsonContent(content);
+  } catch (error) {
+    throw new JsonFormatterError('Failed to parse JSON for formatting', {
+      code: 'JSON_PARSE_ERROR',
+      path: filePath,
+      cause: error instanceof Error ? error : undefined
+    });
+  }
+
+  try {
+    // Reuse the YAML AST rules so JSON and YAML files follow the same keyOrders/keySort/arraySort config
+    const document = new YAML.Document(parsed);
+    applyStructuralFormatting(document, filePath, outputFormat);
+
+    return stringifyJson(document.toJS(), outputFormat.indent ?? detectJsonIndent(content));
+  } catch (error) {
+    const formatError = new JsonFormatterError('Failed to format JSON', {
+      code: 'JSON_FORMAT_ERROR',
+      path: filePath,
+      cause: error instanceof Error ? error : undefined
+    });
+
+    formatError.message += '\n\n  Hint: Formatting failed. Options:';
+    formatError.message += '\n    - Skip formatting: --skip-format';
+    formatError.message += '\n    - Check keyOrders patterns match JSON structure';
+
+    throw formatError;
+  }
+};
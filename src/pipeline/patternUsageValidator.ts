@@ -1,6 +1,5 @@
-import YAML from 'yaml';
-
 import type { FinalConfig, StopRule } from '../config';
+import { getFormatHandler } from '../formats';
 import { isFilterSegment, matchesFilter, parseFilterSegment, parseJsonPath } from '../utils/jsonPath';
 import { globalMatcher } from '../utils/patternMatcher';
 import type { FileMap } from './fileLoader';
@@ -21,10 +20,16 @@ export interface PatternUsageWarning {
     | 'unused-exclude'
     | 'unused-skipPath'
     | 'unused-skipPath-jsonpath'
+    | 'unused-diffIgnore'
+    | 'unused-diffIgnore-jsonpath'
     | 'unused-stopRule-glob'
     | 'unused-stopRule-path'
     | 'unused-fixedValues'
-    | 'unused-fixedValues-jsonpath';
+    | 'unused-fixedValues-jsonpath'
+    | 'unused-arrayMerge'
+    | 'unused-arrayMerge-path'
+    | 'unused-orderedArrays'
+    | 'unused-orderedArrays-path';
   pattern: string;
   message: string;
   context?: string;
@@ -33,7 +38,7 @@ export interface PatternUsageWarning {
 
 /**
  * Validates that patterns in config are actually used.
- * Checks exclude, skipPath, and stopRules patterns against loaded files.
+ * Checks exclude, skipPath, diffIgnore, stopRules, fixedValues, arrayMerge and orderedArrays patterns against loaded files.
  *
  * @param config - The final validated config
  * @param sourceFiles - Loaded source files (Map<relativePath, content>)
@@ -48,8 +53,11 @@ export const validatePatternUsage = (
   const warnings: PatternUsageWarning[] = [
     ...validateExcludePatterns(config, sourceFiles, destinationFiles),
     ...validateSkipPathPatterns(config, sourceFiles, destinationFiles),
+    ...validateDiffIgnorePatterns(config, sourceFiles, destinationFiles),
     ...validateStopRulePatterns(config, sourceFiles, destinationFiles),
-    ...validateFixedValuesPatterns(config, sourceFiles, destinationFiles)
+    ...validateFixedValuesPatterns(config, sourceFiles, destinationFiles),
+    ...validateArrayMergePatterns(config, sourceFiles, destinationFiles),
+    ...validateOrderedArraysPatterns(config, sourceFiles, destinationFiles)
   ];
 
   return {
@@ -112,21 +120,69 @@ const validateSkipPathPatterns = (
       continue; // Skip JSONPath validation if glob doesn't match
     }
 
-    // Only validate for YAML files
-    const yamlFiles = matchedFiles.filter((f) => f.endsWith('.yaml') || f.endsWith('.yml'));
+    // Only validate for structured files
+    const structuredFiles = matchedFiles.filter((f) => getFormatHandler(f) !== undefined);
 
-    if (yamlFiles.length === 0) continue;
+    if (structuredFiles.length === 0) continue;
 
     // For each JSONPath, verify it exists in at least one matched file
     for (const jsonPath of jsonPaths) {
-      const pathExistsInAny = validateJsonPathInFiles(jsonPath, yamlFiles, sourceFiles, destinationFiles);
+      const pathExistsInAny = validateJsonPathInFiles(jsonPath, structuredFiles, sourceFiles, destinationFiles);
 
       if (!pathExistsInAny)
         warnings.push({
           type: 'unused-skipPath-jsonpath',
           pattern,
           message: `skipPath JSONPath '${jsonPath}' not found in any matched files`,
-          context: `Pattern: ${pattern}, matches ${yamlFiles.length} file(s)`,
+          context: `Pattern: ${pattern}, matches ${structuredFiles.length} file(s)`,
+          hint: 'Run with --list-files to see which files matched, and --validate for full pattern analysis'
+        });
+    }
+  }
+
+  return warnings;
+};
+
+/**
+ * Validates diffIgnore patterns match at least one file.
+ * Also validates that JSONPaths exist in at least one matched file.
+ */
+const validateDiffIgnorePatterns = (
+  config: FinalConfig,
+  sourceFiles: FileMap,
+  destinationFiles: FileMap
+): PatternUsageWarning[] => {
+  const warnings: PatternUsageWarning[] = [];
+
+  if (!config.diffIgnore) return warnings;
+
+  const allFiles = new Set([...sourceFiles.keys(), ...destinationFiles.keys()]);
+
+  for (const [pattern, jsonPaths] of Object.entries(config.diffIgnore)) {
+    const matchedFiles = [...allFiles].filter((filePath) => globalMatcher.match(filePath, pattern));
+
+    if (matchedFiles.length === 0) {
+      warnings.push({
+        type: 'unused-diffIgnore',
+        pattern,
+        message: `diffIgnore pattern '${pattern}' matches no files`
+      });
+      continue;
+    }
+
+    const structuredFiles = matchedFiles.filter((f) => getFormatHandler(f) !== undefined);
+
+    if (structuredFiles.length === 0) continue;
+
+    for (const jsonPath of jsonPaths) {
+      const pathExistsInAny = validateJsonPathInFiles(jsonPath, structuredFiles, sourceFiles, destinationFiles);
+
+      if (!pathExistsInAny)
+        warnings.push({
+          type: 'unused-diffIgnore-jsonpath',
+          pattern,
+          message: `diffIgnore JSONPath '${jsonPath}' not found in any matched files`,
+          context: `Pattern: ${pattern}, matches ${structuredFiles.length} file(s)`,
           hint: 'Run with --list-files to see which files matched, and --validate for full pattern analysis'
         });
     }
@@ -171,20 +227,20 @@ const validateStopRulePatterns = (
       // Skip rules without path (they scan globally)
       if (!hasPathField(rule) || !rule.path) continue;
 
-      // Only validate for YAML files
-      const yamlFiles = matchedFiles.filter((f) => f.endsWith('.yaml') || f.endsWith('.yml'));
+      // Only validate for structured files
+      const structuredFiles = matchedFiles.filter((f) => getFormatHandler(f) !== undefined);
 
-      if (yamlFiles.length === 0) continue;
+      if (structuredFiles.length === 0) continue;
 
       // Check if path exists in at least one file
-      const pathExistsInAny = validateJsonPathInFiles(rule.path, yamlFiles, sourceFiles, destinationFiles);
+      const pathExistsInAny = validateJsonPathInFiles(rule.path, structuredFiles, sourceFiles, destinationFiles);
 
       if (!pathExistsInAny)
         warnings.push({
           type: 'unused-stopRule-path',
           pattern: globPattern,
           message: `stopRules JSONPath '${rule.path}' not found in any matched files`,
-          context: `Rule type: ${rule.type}, matches ${yamlFiles.length} file(s)`,
+          context: `Rule type: ${rule.type}, matches ${structuredFiles.length} file(s)`,
           hint: 'Run with --list-files to see which files are loaded'
         });
     }
@@ -228,21 +284,21 @@ const validateFixedValuesPatterns = (
       continue; // Skip JSONPath validation if glob doesn't match
     }
 
-    // Only validate for YAML files
-    const yamlFiles = matchedFiles.filter((f) => f.endsWith('.yaml') || f.endsWith('.yml'));
+    // Only validate for structured files
+    const structuredFiles = matchedFiles.filter((f) => getFormatHandler(f) !== undefined);
 
-    if (yamlFiles.length === 0) continue;
+    if (structuredFiles.length === 0) continue;
 
     // For each rule's path, verify it exists in at least one matched file
     for (const rule of rules) {
-      const pathExistsInAny = validateJsonPathInFiles(rule.path, yamlFiles, sourceFiles, destinationFiles);
+      const pathExistsInAny = validateJsonPathInFiles(rule.path, structuredFiles, sourceFiles, destinationFiles);
 
       if (!pathExistsInAny)
         warnings.push({
           type: 'unused-fixedValues-jsonpath',
           pattern,
           message: `fixedValues JSONPath '${rule.path}' not found in any matched files`,
-          context: `Pattern: ${pattern}, matches ${yamlFiles.length} file(s)`,
+          context: `Pattern: ${pattern}, matches ${structuredFiles.length} file(s)`,
           hint: 'Run with --list-files to see which files matched'
         });
     }
@@ -251,6 +307,104 @@ const validateFixedValuesPatterns = (
   return warnings;
 };
 
+/**
+ * Validates arrayMerge patterns match at least one file.
+ * Also validates that array paths exist in at least one matched file.
+ */
+const validateArrayMergePatterns = (
+  config: FinalConfig,
+  sourceFiles: FileMap,
+  destinationFiles: FileMap
+): PatternUsageWarning[] => {
+  const warnings: PatternUsageWarning[] = [];
+
+  if (!config.arrayMerge) return warnings;
+
+  const allFiles = new Set([...sourceFiles.keys(), ...destinationFiles.keys()]);
+
+  for (const [pattern, rules] of Object.entries(config.arrayMerge)) {
+    const matchedFiles = [...allFiles].filter((filePath) => globalMatcher.match(filePath, pattern));
+
+    if (matchedFiles.length === 0) {
+      warnings.push({
+        type: 'unused-arrayMerge',
+        pattern,
+        message: `arrayMerge pattern '${pattern}' matches no files`,
+        context: `${rules.length} rule(s) defined`
+      });
+      continue;
+    }
+
+    const structuredFiles = matchedFiles.filter((f) => getFormatHandler(f) !== undefined);
+
+    if (structuredFiles.length === 0) continue;
+
+    for (const rule of rules) {
+      const pathExistsInAny = validateJsonPathInFiles(rule.path, structuredFiles, sourceFiles, destinationFiles);
+
+      if (!pathExistsInAny)
+        warnings.push({
+          type: 'unused-arrayMerge-path',
+          pattern,
+          message: `arrayMerge path '${rule.path}' not found in any matched files`,
+          context: `Pattern: ${pattern}, matches ${structuredFiles.length} file(s)`,
+          hint: 'Use [*] to address arrays nested in array items, e.g. spec.containers[*].env'
+        });
+    }
+  }
+
+  return warnings;
+};
+
+/**
+ * Validates orderedArrays patterns match at least one file.
+ * Also validates that array paths exist in at least one matched file.
+ */
+const validateOrderedArraysPatterns = (
+  config: FinalConfig,
+  sourceFiles: FileMap,
+  destinationFiles: FileMap
+): PatternUsageWarning[] => {
+  const warnings: PatternUsageWarning[] = [];
+
+  if (!config.orderedArrays) return warnings;
+
+  const allFiles = new Set([...sourceFiles.keys(), ...destinationFiles.keys()]);
+
+  for (const [pattern, paths] of Object.entries(config.orderedArrays)) {
+    const matchedFiles = [...allFiles].filter((filePath) => globalMatcher.match(filePath, pattern));
+
+    if (matchedFiles.length === 0) {
+      warnings.push({
+        type: 'unused-orderedArrays',
+        pattern,
+        message: `orderedArrays pattern '${pattern}' matches no files`,
+        context: `${paths.length} path(s) defined`
+      });
+      continue;
+    }
+
+    const structuredFiles = matchedFiles.filter((f) => getFormatHandler(f) !== undefined);
+
+    if (structuredFiles.length === 0) continue;
+
+    for (const arrayPath of paths) {
+      const pathExistsInAny = validateJsonPathInFiles(arrayPath, structuredFiles, sourceFiles, destinationFiles);
+
+      if (!pathExistsInAny)
+        warnings.push({
+          type: 'unused-orderedArrays-path',
+          pattern,
+          message: `orderedArrays path '${arrayPath}' not found in any matched files`,
+          context: `Pattern: ${pattern}, matches ${structuredFiles.length} file(s)`,
+          hint: 'Use [*] to address arrays nested in array items, e.g. spec.containers[*].args'
+        });
+    }
+  }
+
+  return warnings;
+};
+
 /**
  * Checks if a JSONPath could potentially match in an object.
  * For filter segments, checks if the array contains items with the specified property.
@@ -299,7 +453,7 @@ const pathCouldMatch = (object: unknown, pathParts: string[]): boolean => {
 
 /**
  * Checks if a JSONPath exists in at least one file.
- * Parses YAML and validates path could match.
+ * Parses structured files (every document of multi-document YAML) and validates path could match.
  * Supports filter segments like 'env[name=DEBUG]'.
  */
 const validateJsonPathInFiles = (
@@ -313,11 +467,12 @@ const validateJsonPathInFiles = (
   for (const filePath of filePaths) {
     // Check both source and destination
     const content = sourceFiles.get(filePath) || destinationFiles.get(filePath);
-    if (!content) continue;
+    const handler = getFormatHandler(filePath);
+    if (!content || !handler) continue;
 
     try {
-      const parsed = YAML.parse(content);
-      if (pathCouldMatch(parsed, pathParts)) return true;
+      const documents = handler.parse(content);
+      if (documents.some((parsed) => pathCouldMatch(parsed, pathParts))) return true;
     } catch {
       // Ignore parse errors (they'll be caught elsewhere)
       continue;
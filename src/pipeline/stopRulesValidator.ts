@@ -1,16 +1,34 @@
-import type { RegexFileKeyRule, RegexFileRule, RegexRule, StopRule } from '../config';
+import type {
+  ImmutableRule,
+  NumericDeltaRule,
+  NumericRule,
+  RegexFileKeyRule,
+  RegexFileRule,
+  RegexRule,
+  RequestsWithinLimitsRule,
+  RequiredRule,
+  SemverDowngradeRule,
+  SemverMajorUpgradeRule,
+  StopRule,
+  StopRuleSeverity,
+  VersionFormatRule
+} from '../config';
+import { getFormatHandler } from '../formats';
 import type { Logger } from '../logger';
 import {
+  deepEqual,
   loadRegexPatternArray,
   loadRegexPatternsFromKeys,
+  parseQuantity,
   validatePathlessRegex,
   validateTargetedRegex,
   validateVersionString
 } from '../utils';
 import { createErrorClass, createErrorTypeGuard } from '../utils/errors';
 import { getValueAtPath, parseJsonPath } from '../utils/jsonPath';
+import { getDocumentIdentity } from '../utils/multiDocumentYaml';
 import { globalMatcher } from '../utils/patternMatcher';
-import type { ChangedFile, FileDiffResult } from './fileDiff';
+import type { AddedFile, ChangedFile, FileDiffResult } from './fileDiff';
 
 // ============================================================================
 // Error Handling
@@ -24,7 +42,7 @@ const StopRulesValidatorErrorClass = createErrorClass('Stop Rules Validator Erro
   if (options['violations'] && Array.isArray(options['violations']) && options['violations'].length > 0) {
     fullMessage += `\n  Violations (${options['violations'].length}):`;
     for (const v of options['violations'] as StopRuleViolation[])
-      fullMessage += `\n    - ${v.file}:${v.path} (${v.rule.type})`;
+      fullMessage += `\n    - ${v.file}${v.document ? ` [${v.document}]` : ''}:${v.path} (${v.rule.type})`;
 
     fullMessage += '\n\n  Hint: Review stop rule violations carefully:';
     fullMessage += '\n    - Preview changes: --dry-run --diff';
@@ -47,6 +65,7 @@ export const isStopRulesValidatorError = createErrorTypeGuard(StopRulesValidator
 
 export interface StopRuleViolation {
   file: string;
+  document?: string; // Document label, only set for multi-document YAML files
   rule: StopRule;
   path: string;
   oldValue: unknown;
@@ -56,7 +75,7 @@ export interface StopRuleViolation {
 
 export interface ValidationResult {
   violations: StopRuleViolation[];
-  isValid: boolean;
+  isValid: boolean; // False when any violation comes from a blocking rule
 }
 
 export interface ValidationContext {
@@ -67,6 +86,19 @@ export interface ValidationContext {
   configDirectory?: string;
 }
 
+// ============================================================================
+// Severity
+// ============================================================================
+
+export const getViolationSeverity = (violation: StopRuleViolation): StopRuleSeverity =>
+  violation.rule.severity ?? 'block';
+
+/**
+ * Whether a violation should stop the sync. With `strict`, warnings block as well.
+ */
+export const isBlockingViolation = (violation: StopRuleViolation, strict = false): boolean =>
+  strict || getViolationSeverity(violation) === 'block';
+
 // ============================================================================
 // Main Validation Function
 // ============================================================================
@@ -84,7 +116,9 @@ export const validateStopRules = (
     const totalRules = Object.values(stopRulesConfig).reduce((sum, rules) => sum + rules.length, 0);
     logger.debug('Stop rule validation:');
     logger.debug(`  Total rules: ${totalRules}`);
-    logger.debug(`  Files to check: ${diffResult.changedFiles.length}`);
+    logger.debug(
+      `  Files to check: ${diffResult.changedFiles.length} changed, ${diffResult.addedFiles.length} added, ${diffResult.deletedFiles.length} deleted`
+    );
   }
 
   const violations: StopRuleViolation[] = [];
@@ -95,15 +129,20 @@ export const validateStopRules = (
     violations.push(...fileViolations);
   }
 
-  // Note: Added files are not validated as they don't have old values for comparison
-  // Stop rules primarily apply to changes in existing files
+  // Added files have no old values, so only rules that judge the new value on its own apply
+  for (const addedFile of diffResult.addedFiles)
+    violations.push(...validateAddedFileAgainstRules(addedFile, stopRulesConfig, configDirectory));
+
+  // Deleted files (prune) only face fileDeletion rules
+  for (const deletedFile of diffResult.deletedFiles)
+    violations.push(...validateDeletedFileAgainstRules(deletedFile, stopRulesConfig));
 
   // Add verbose debug output for results
   if (logger?.shouldShow('debug')) logger.debug(`Stop rules: ${violations.length} violation(s) found`);
 
   return {
     violations,
-    isValid: violations.length === 0
+    isValid: !violations.some((violation) => isBlockingViolation(violation))
   };
 };
 
@@ -122,24 +161,105 @@ const validateFileAgainstRules = (
 
   if (applicableRules.length === 0) return violations;
 
-  const oldData = changedFile.processedDestContent;
-  const updatedData = changedFile.processedSourceContent;
+  // Multi-document files are validated per changed document so rule paths stay relative to each document
+  const targets = changedFile.documents
+    ? changedFile.documents
+        .filter((document) => document.changed)
+        .map((document) => ({
+          document: document.label,
+          oldData: document.processedDestContent,
+          updatedData: document.processedSourceContent
+        }))
+    : [
+        {
+          document: undefined,
+          oldData: changedFile.processedDestContent,
+          updatedData: changedFile.processedSourceContent
+        }
+      ];
+
+  for (const { document, oldData, updatedData } of targets)
+    for (const rule of applicableRules) {
+      const violation = validateRule({
+        rule,
+        oldData,
+        updatedData,
+        filePath: changedFile.path,
+        configDirectory
+      });
+
+      if (violation) violations.push(document ? { ...violation, document } : violation);
+    }
 
-  for (const rule of applicableRules) {
-    const violation = validateRule({
-      rule,
-      oldData,
-      updatedData,
-      filePath: changedFile.path,
-      configDirectory
-    });
+  return violations;
+};
 
-    if (violation) violations.push(violation);
+// Rule types that need no old value; semver and numericDelta rules compare against one and are skipped for added files
+const ADDED_FILE_RULE_TYPES = new Set<StopRule['type']>([
+  'regex',
+  'regexFile',
+  'regexFileKey',
+  'versionFormat',
+  'numeric',
+  'requestsWithinLimits'
+]);
+
+const validateAddedFileAgainstRules = (
+  addedFile: AddedFile,
+  stopRulesConfig: Record<string, StopRule[]>,
+  configDirectory?: string
+): StopRuleViolation[] => {
+  const applicableRules = getApplicableRules(addedFile.path, stopRulesConfig).filter((rule) =>
+    ADDED_FILE_RULE_TYPES.has(rule.type)
+  );
+  const handler = getFormatHandler(addedFile.path);
+
+  if (applicableRules.length === 0 || !handler) return [];
+
+  let documents: unknown[];
+  try {
+    documents = handler.parse(addedFile.processedContent);
+  } catch {
+    // Content that does not parse was already reported while processing the added file
+    return [];
+  }
+
+  const violations: StopRuleViolation[] = [];
+
+  for (const [index, updatedData] of documents.entries()) {
+    const document = documents.length > 1 ? (getDocumentIdentity(updatedData) ?? `document ${index + 1}`) : undefined;
+
+    for (const rule of applicableRules) {
+      const violation = validateRule({
+        rule,
+        oldData: undefined,
+        updatedData,
+        filePath: addedFile.path,
+        configDirectory
+      });
+
+      if (violation) violations.push(document ? { ...violation, document } : violation);
+    }
   }
 
   return violations;
 };
 
+const validateDeletedFileAgainstRules = (
+  deletedFile: string,
+  stopRulesConfig: Record<string, StopRule[]>
+): StopRuleViolation[] =>
+  getApplicableRules(deletedFile, stopRulesConfig)
+    .filter((rule) => rule.type === 'fileDeletion')
+    .map((rule) => ({
+      file: deletedFile,
+      rule,
+      path: '(file)',
+      oldValue: undefined,
+      updatedValue: undefined,
+      message: 'Prune would delete this protected file'
+    }));
+
 // ============================================================================
 // Rule Matching
 // ============================================================================
@@ -180,8 +300,10 @@ const validateRule = (context: ValidationContext): StopRuleViolation | undefined
       return validateRegexFileKeyGlobal(rule, oldData, updatedData, filePath, configDirectory);
     }
 
-  // For non-regex rules, path is required
-  if (!rule.path) return undefined;
+  if (rule.type === 'requestsWithinLimits') return validateRequestsWithinLimits(rule, oldData, updatedData, filePath);
+
+  // fileDeletion rules only apply to deleted files; every other rule requires a path
+  if (rule.type === 'fileDeletion' || !rule.path) return undefined;
 
   const pathParts = parseJsonPath(rule.path);
   const oldValue = oldData ? getValueAtPath(oldData, pathParts) : undefined;
@@ -194,8 +316,14 @@ const validateRule = (context: ValidationContext): StopRuleViolation | undefined
       return validateSemverMajorUpgrade(rule, oldValue, updatedValue, filePath);
     case 'semverDowngrade':
       return validateSemverDowngrade(rule, oldValue, updatedValue, filePath);
+    case 'immutable':
+      return validateImmutable(rule, oldValue, updatedValue, filePath);
+    case 'required':
+      return validateRequired(rule, oldValue, updatedValue, filePath);
     case 'numeric':
       return validateNumeric(rule, oldValue, updatedValue, filePath);
+    case 'numericDelta':
+      return validateNumericDelta(rule, oldValue, updatedValue, filePath);
     case 'versionFormat':
       return validateVersionFormat(rule, oldValue, updatedValue, filePath);
     default:
@@ -204,7 +332,7 @@ const validateRule = (context: ValidationContext): StopRuleViolation | undefined
 };
 
 const validateSemverMajorUpgrade = (
-  rule: StopRule,
+  rule: SemverMajorUpgradeRule,
   oldValue: unknown,
   updatedValue: unknown,
   filePath: string
@@ -223,7 +351,7 @@ const validateSemverMajorUpgrade = (
     return {
       file: filePath,
       rule,
-      path: rule.path ?? '(unknown)',
+      path: rule.path,
       oldValue,
       updatedValue,
       message: `Major version upgrade detected: ${oldVersion} → ${updatedVersion}`
@@ -233,7 +361,7 @@ const validateSemverMajorUpgrade = (
 };
 
 const validateSemverDowngrade = (
-  rule: StopRule,
+  rule: SemverDowngradeRule,
   oldValue: unknown,
   updatedValue: unknown,
   filePath: string
@@ -259,7 +387,7 @@ const validateSemverDowngrade = (
     return {
       file: filePath,
       rule,
-      path: rule.path ?? '(unknown)',
+      path: rule.path,
       oldValue,
       updatedValue,
       message: `Version downgrade detected: ${oldVersion} → ${updatedVersion}`
@@ -268,8 +396,46 @@ const validateSemverDowngrade = (
   return undefined;
 };
 
+const isScalarValue = (value: unknown): boolean => typeof value !== 'object' || value === null;
+
+const validateImmutable = (
+  rule: ImmutableRule,
+  oldValue: unknown,
+  updatedValue: unknown,
+  filePath: string
+): StopRuleViolation | undefined => {
+  // Only values the destination already has are protected
+  if (oldValue === undefined || deepEqual(oldValue, updatedValue)) return undefined;
+
+  let message = 'Immutable value would be changed';
+  if (updatedValue === undefined) message = 'Immutable value would be removed';
+  else if (isScalarValue(oldValue) && isScalarValue(updatedValue))
+    message = `Immutable value changed: ${String(oldValue)} → ${String(updatedValue)}`;
+
+  return { file: filePath, rule, path: rule.path, oldValue, updatedValue, message };
+};
+
+const validateRequired = (
+  rule: RequiredRule,
+  oldValue: unknown,
+  updatedValue: unknown,
+  filePath: string
+): StopRuleViolation | undefined => {
+  if (oldValue === undefined || oldValue === null) return undefined;
+  if (updatedValue !== undefined && updatedValue !== null) return undefined;
+
+  return {
+    file: filePath,
+    rule,
+    path: rule.path,
+    oldValue,
+    updatedValue,
+    message: updatedValue === null ? 'Required value would be set to null' : 'Required value would be removed'
+  };
+};
+
 const validateNumeric = (
-  rule: StopRule & { min?: number; max?: number },
+  rule: NumericRule,
   oldValue: unknown,
   updatedValue: unknown,
   filePath: string
@@ -278,35 +444,39 @@ const validateNumeric = (
 
   if (valueToCheck === undefined) return undefined;
 
-  const numberValue = Number(valueToCheck);
+  // Numbers, numeric strings and Kubernetes quantities (e.g. "500m", "1Gi") compare by value
+  const numberValue = parseQuantity(valueToCheck);
+
+  if (numberValue === undefined) return undefined;
 
-  if (Number.isNaN(numberValue)) return undefined;
+  const min = parseQuantity(rule.min);
+  const max = parseQuantity(rule.max);
 
-  if (rule.min !== undefined && numberValue < rule.min)
+  if (min !== undefined && numberValue < min)
     return {
       file: filePath,
       rule,
-      path: rule.path ?? '(unknown)',
+      path: rule.path,
       oldValue,
       updatedValue,
-      message: `Value ${numberValue} is below minimum ${rule.min}`
+      message: `Value ${String(valueToCheck)} is below minimum ${String(rule.min)}`
     };
 
-  if (rule.max !== undefined && numberValue > rule.max)
+  if (max !== undefined && numberValue > max)
     return {
       file: filePath,
       rule,
-      path: rule.path ?? '(unknown)',
+      path: rule.path,
       oldValue,
       updatedValue,
-      message: `Value ${numberValue} exceeds maximum ${rule.max}`
+      message: `Value ${String(valueToCheck)} exceeds maximum ${String(rule.max)}`
     };
 
   return undefined;
 };
 
 const validateRegex = (
-  rule: StopRule & { regex: string },
+  rule: RegexRule,
   oldValue: unknown,
   updatedValue: unknown,
   filePath: string
@@ -320,8 +490,141 @@ const validateRegex = (
   });
 };
 
+// Rounds away floating point noise (e.g. 0.30000000000000004) for messages
+const formatNumber = (value: number): string => String(Number(value.toPrecision(12)));
+
+const validateNumericDelta = (
+  rule: NumericDeltaRule,
+  oldValue: unknown,
+  updatedValue: unknown,
+  filePath: string
+): StopRuleViolation | undefined => {
+  const oldNumber = parseQuantity(oldValue);
+  const updatedNumber = parseQuantity(updatedValue);
+
+  if (oldNumber === undefined || updatedNumber === undefined || oldNumber === updatedNumber) return undefined;
+
+  const delta = updatedNumber - oldNumber;
+  const createViolation = (message: string): StopRuleViolation => ({
+    file: filePath,
+    rule,
+    path: rule.path,
+    oldValue,
+    updatedValue,
+    message
+  });
+
+  const maxDelta = parseQuantity(rule.maxDelta);
+  if (maxDelta !== undefined && Math.abs(delta) > maxDelta)
+    return createViolation(
+      `Change of ${formatNumber(Math.abs(delta))} (${String(oldValue)} → ${String(updatedValue)}) exceeds maxDelta ${String(rule.maxDelta)}`
+    );
+
+  // A percentage of zero is undefined, so changes from 0 are only checked by maxDelta
+  if (oldNumber === 0) return undefined;
+
+  const percent = (Math.abs(delta) / Math.abs(oldNumber)) * 100;
+  const [direction, limitName, limit] =
+    delta > 0
+      ? ['Increase', 'maxIncreasePercent', rule.maxIncreasePercent]
+      : ['Decrease', 'maxDecreasePercent', rule.maxDecreasePercent];
+
+  if (limit !== undefined && percent > limit)
+    return createViolation(
+      `${direction} of ${Number(percent.toFixed(1))}% (${String(oldValue)} → ${String(updatedValue)}) exceeds ${limitName} ${limit}`
+    );
+
+  return undefined;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+interface RequestAboveLimit {
+  path: string;
+  // Whether the path holds a positional array index, which may not address the same item in the destination
+  hasIndex: boolean;
+  resource: string;
+  request: unknown;
+  limit: unknown;
+}
+
+// Named items are addressed with a filter (`containers[name=app]`), so the path finds the same container
+// in the destination; other items keep their index in the normalized data
+const getItemPath = (currentPath: string, item: unknown, index: number): { path: string; hasIndex: boolean } => {
+  const name = isPlainObject(item) ? item['name'] : undefined;
+  if ((typeof name === 'string' || typeof name === 'number') && !String(name).includes('"')) {
+    const value = String(name);
+    return { path: `${currentPath}[name=${/^[^\s\]]+$/.test(value) ? value : `"${value}"`}]`, hasIndex: false };
+  }
+  return { path: currentPath ? `${currentPath}.${index}` : String(index), hasIndex: true };
+};
+
+// Depth-first search for a `resources` map whose request for some resource exceeds its limit
+const findRequestAboveLimit = (node: unknown, currentPath: string, hasIndex = false): RequestAboveLimit | undefined => {
+  const joinPath = (key: string): string => (currentPath ? `${currentPath}.${key}` : key);
+
+  if (Array.isArray(node)) {
+    for (const [index, item] of node.entries()) {
+      const itemPath = getItemPath(currentPath, item, index);
+      const found = findRequestAboveLimit(item, itemPath.path, hasIndex || itemPath.hasIndex);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  if (!isPlainObject(node)) return undefined;
+
+  const resources = node['resources'];
+  if (isPlainObject(resources) && isPlainObject(resources['requests']) && isPlainObject(resources['limits'])) {
+    const limits = resources['limits'];
+
+    for (const [resource, request] of Object.entries(resources['requests'])) {
+      const requestValue = parseQuantity(request);
+      const limitValue = parseQuantity(limits[resource]);
+
+      if (requestValue !== undefined && limitValue !== undefined && requestValue > limitValue)
+        return {
+          path: joinPath(`resources.requests.${resource}`),
+          hasIndex,
+          resource,
+          request,
+          limit: limits[resource]
+        };
+    }
+  }
+
+  for (const [key, value] of Object.entries(node)) {
+    const found = findRequestAboveLimit(value, joinPath(key), hasIndex);
+    if (found) return found;
+  }
+
+  return undefined;
+};
+
+const validateRequestsWithinLimits = (
+  rule: RequestsWithinLimitsRule,
+  oldData: unknown,
+  updatedData: unknown,
+  filePath: string
+): StopRuleViolation | undefined => {
+  const pathParts = rule.path ? parseJsonPath(rule.path) : [];
+  const found = findRequestAboveLimit(getValueAtPath(updatedData, pathParts), rule.path ?? '');
+
+  if (!found) return undefined;
+
+  return {
+    file: filePath,
+    rule,
+    path: found.path,
+    oldValue: found.hasIndex ? undefined : getValueAtPath(oldData, parseJsonPath(found.path)),
+    updatedValue: found.request,
+    message: `Request ${String(found.request)} exceeds limit ${String(found.limit)} for ${found.resource}`
+  };
+};
+
 const validateVersionFormat = (
-  rule: StopRule & { vPrefix: 'required' | 'allowed' | 'forbidden' },
+  rule: VersionFormatRule,
   oldValue: unknown,
   updatedValue: unknown,
   filePath: string
@@ -338,7 +641,7 @@ const validateVersionFormat = (
     return {
       file: filePath,
       rule,
-      path: rule.path ?? '(unknown)',
+      path: rule.path,
       oldValue,
       updatedValue,
       message: validationResult.message
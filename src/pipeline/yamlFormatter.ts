@@ -5,6 +5,7 @@ import { YAML_DEFAULT_INDENT, YAML_LINE_WIDTH_UNLIMITED } from '../constants';
 import { isCommentOnlyContent } from '../utils/commentOnlyDetector';
 import { createErrorClass, createErrorTypeGuard } from '../utils/errors';
 import { parseJsonPath } from '../utils/jsonPath';
+import { joinYamlDocuments } from '../utils/multiDocumentYaml';
 import { globalMatcher } from '../utils/patternMatcher';
 import { extractKeyValue, isScalar, isYamlMap, isYamlSeq } from '../utils/yamlTypeGuards';
 
@@ -102,41 +103,77 @@ const preserveMultilineStrings = (yamlDocument: Document): void => {
   traverseNodes(yamlDocument.contents);
 };
 
+// Rules that only reorder content; shared with the JSON formatter
+const applyStructuralRules = (yamlDocument: Document, rules: FormattingRules): void => {
+  if (rules.keyOrders.length > 0) applyKeyOrdering(yamlDocument, rules.keyOrders);
+  if (rules.keySort.length > 0) applyKeySort(yamlDocument, rules.keySort);
+  if (rules.arraySort.length > 0) applyArraySorting(yamlDocument, rules.arraySort);
+};
+
+const formatDocument = (
+  yamlDocument: Document,
+  rules: FormattingRules,
+  outputFormat: NonNullable<OutputFormat>
+): string => {
+  // Apply formatting rules (only if they matched)
+  applyStructuralRules(yamlDocument, rules);
+  if (rules.quoteValues.length > 0) applyValueQuoting(yamlDocument, rules.quoteValues);
+
+  // Preserve literal block scalars for multi-line strings
+  preserveMultilineStrings(yamlDocument);
+
+  // Serialize with indent and disable line wrapping
+  const indent = outputFormat.indent ?? YAML_DEFAULT_INDENT;
+  let result = yamlDocument.toString({ indent, lineWidth: YAML_LINE_WIDTH_UNLIMITED });
+
+  // Apply keySeparator
+  if (outputFormat.keySeparator) result = applyKeySeparator(result, indent);
+
+  // Ensure trailing newline
+  if (!result.endsWith('\n')) result += '\n';
+
+  return result;
+};
+
 // ============================================================================
 // Public API
 // ============================================================================
 
+/**
+ * Applies the outputFormat rules that reorder content (keyOrders, keySort, arraySort) matching `filePath`.
+ * Used by the JSON formatter, which shares these rules but has no quoting or key separators.
+ */
+export const applyStructuralFormatting = (
+  yamlDocument: Document,
+  filePath: string,
+  outputFormat: NonNullable<OutputFormat>
+): void => applyStructuralRules(yamlDocument, getFormattingRules(filePath, outputFormat));
+
 export const formatYaml = (content: string, filePath: string, outputFormat?: OutputFormat): string => {
   if (!outputFormat) return content;
   if (!content || content.trim() === '') return content;
   if (isCommentOnlyContent(content)) return content;
 
   try {
-    const yamlDocument = YAML.parseDocument(content);
-
     // Batch all pattern matching in a single pass for better performance
     const rules = getFormattingRules(filePath, outputFormat);
 
-    // Apply formatting rules (only if they matched)
-    if (rules.keyOrders.length > 0) applyKeyOrdering(yamlDocument, rules.keyOrders);
-    if (rules.keySort.length > 0) applyKeySort(yamlDocument, rules.keySort);
-    if (rules.arraySort.length > 0) applyArraySorting(yamlDocument, rules.arraySort);
-    if (rules.quoteValues.length > 0) applyValueQuoting(yamlDocument, rules.quoteValues);
-
-    // Preserve literal block scalars for multi-line strings
-    preserveMultilineStrings(yamlDocument);
-
-    // Serialize with indent and disable line wrapping
-    const indent = outputFormat.indent ?? YAML_DEFAULT_INDENT;
-    let result = yamlDocument.toString({ indent, lineWidth: YAML_LINE_WIDTH_UNLIMITED });
-
-    // Apply keySeparator
-    if (outputFormat.keySeparator) result = applyKeySeparator(result, indent);
-
-    // Ensure trailing newline
-    if (!result.endsWith('\n')) result += '\n';
+    const yamlDocuments = YAML.parseAllDocuments(content);
+    if (yamlDocuments.length > 1) {
+      const firstError = yamlDocuments.flatMap((yamlDocument) => yamlDocument.errors)[0];
+      if (firstError) throw firstError;
+
+      // Format each document on its own; separators are re-added so keySeparator never sees `---`
+      return joinYamlDocuments(
+        yamlDocuments.map((yamlDocument) => {
+          // eslint-disable-next-line unicorn/no-null -- the yaml library types an implicit document start as null
+          yamlDocument.directives.docStart = null;
+          return formatDocument(yamlDocument, rules, outputFormat);
+        })
+      );
+    }
 
-    return result;
+    return formatDocument(yamlDocuments[0] ?? YAML.parseDocument(content), rules, outputFormat);
   } catch (error) {
     const formatError = new YamlFormatterError('Failed to format YAML', {
       code: 'YAML_FORMAT_ERROR',
@@ -0,0 +1,43 @@
+import { getFormatHandler } from '../formats';
+import { type ChangedFile } from '../pipeline';
+import { generateUnifiedDiff } from '../utils/diffGenerator';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// Plain text files diff their raw content; documents missing on one side (added/removed) serialize to ''
+const serializeContent = (filePath: string, content: unknown): string => {
+  const handler = getFormatHandler(filePath);
+  return handler ? handler.serializeForDiff(content) : String(content);
+};
+
+const formatDocumentDiffPath = (filePath: string, label: string): string => `${filePath} (${label})`;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Builds the unified diff shown for a changed file.
+ * Multi-document YAML files get one diff section per changed document, named `<path> (<document>)`.
+ */
+export const generateChangedFileDiff = (file: ChangedFile): string => {
+  if (!file.documents)
+    return generateUnifiedDiff(
+      file.path,
+      serializeContent(file.path, file.processedDestContent),
+      serializeContent(file.path, file.processedSourceContent)
+    );
+
+  return file.documents
+    .filter((document) => document.changed)
+    .map((document) =>
+      generateUnifiedDiff(
+        formatDocumentDiffPath(file.path, document.label),
+        serializeContent(file.path, document.processedDestContent),
+        serializeContent(file.path, document.processedSourceContent)
+      )
+    )
+    .join('');
+};
@@ -2,9 +2,9 @@ import colors from 'ansi-colors';
 
 import { type Config } from '../config';
 import { type AddedFile, type ChangedFile, type FileDiffResult, getSkipPathsForFile } from '../pipeline';
-import { generateUnifiedDiff } from '../utils/diffGenerator';
-import { isYamlFile } from '../utils/fileType';
-import { serializeForDiff } from '../utils/serialization';
+import { describeFunctionTransform } from '../utils/functionTransformer';
+import { describeStructuralTransform } from '../utils/structuralTransformer';
+import { generateChangedFileDiff } from './changedFileDiff';
 
 // ============================================================================
 // Helper Functions
@@ -41,27 +41,30 @@ const formatDeletedFiles = (files: string[]): string => {
 };
 
 const formatChangedFile = (file: ChangedFile, config: Config): string => {
-  const isYaml = isYamlFile(file.path);
   const separator = colors.yellow('━'.repeat(60));
   const skipPaths = getSkipPathsForFile(file.path, config.skipPath);
   const skipPathInfo =
     skipPaths.length > 0
       ? colors.dim(`SkipPath patterns applied: ${skipPaths.join(', ')}`)
       : colors.dim('No skipPath patterns applied');
-
-  const destinationContent = isYaml
-    ? serializeForDiff(file.processedDestContent, true)
-    : String(file.processedDestContent);
-  const sourceContent = isYaml
-    ? serializeForDiff(file.processedSourceContent, true)
-    : String(file.processedSourceContent);
-  const unifiedDiff = generateUnifiedDiff(file.path, destinationContent, sourceContent);
+  const structuralTransforms = file.structuralTransforms ?? [];
+  const structuralInfo =
+    structuralTransforms.length > 0
+      ? `\n${colors.dim(`Structural transforms applied: ${structuralTransforms.map((operation) => describeStructuralTransform(operation)).join(', ')}`)}`
+      : '';
+  const functionTransforms = file.functionTransforms ?? [];
+  const functionInfo =
+    functionTransforms.length > 0
+      ? `\n${colors.dim(`Function transforms applied: ${functionTransforms.map((transform) => describeFunctionTransform(transform)).join(', ')}`)}`
+      : '';
+
+  const unifiedDiff = generateChangedFileDiff(file);
   const colorizedDiff = colorizeUnifiedDiff(unifiedDiff);
 
   return `
 ${separator}
 ${colors.yellow.bold(`File: ${file.path}`)}
-${skipPathInfo}
+${skipPathInfo}${structuralInfo}${functionInfo}
 
 ${colorizedDiff}
 `;
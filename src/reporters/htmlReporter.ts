@@ -8,12 +8,10 @@ import { html as diff2html } from 'diff2html';
 import { type Config } from '../config';
 import type { Logger } from '../logger';
 import type { ValidationResult } from '../pipeline';
-import { type AddedFile, type ChangedFile, type FileDiffResult } from '../pipeline';
-import { generateUnifiedDiff } from '../utils/diffGenerator';
+import { type AddedFile, type ChangedFile, type FileDiffResult, getViolationSeverity } from '../pipeline';
 import { createErrorClass, createErrorTypeGuard } from '../utils/errors';
-import { isYamlFile } from '../utils/fileType';
-import { serializeForDiff } from '../utils/serialization';
 import { openInBrowser } from './browserLauncher';
+import { generateChangedFileDiff } from './changedFileDiff';
 import { type DiffStats, generateHtmlTemplate, type HtmlStopRuleViolation, type ReportMetadata } from './htmlTemplate';
 import { escapeHtml } from './treeRenderer';
 
@@ -102,11 +100,8 @@ const generateChangedFileSection = (
   fileId: string,
   open: boolean
 ): { html: string; added: number; removed: number } => {
-  const isYaml = isYamlFile(file.path);
   const summary = generateFileSummary(file);
-  const destinationContent = serializeForDiff(file.processedDestContent, isYaml);
-  const sourceContent = serializeForDiff(file.processedSourceContent, isYaml);
-  const unifiedDiff = generateUnifiedDiff(file.path, destinationContent, sourceContent);
+  const unifiedDiff = generateChangedFileDiff(file);
   const diffHtml = generateDiffHtml(unifiedDiff);
   const { added, removed } = countDiffLines(unifiedDiff);
   const escapedDiff = escapeHtml(unifiedDiff);
@@ -220,7 +215,9 @@ export const generateHtmlReport = async (
     validationResult && validationResult.violations.length > 0
       ? validationResult.violations.map((violation) => ({
           file: violation.file,
-          rule: { type: violation.rule.type, path: violation.rule.path },
+          document: violation.document,
+          rule: { type: violation.rule.type, path: 'path' in violation.rule ? violation.rule.path : undefined },
+          severity: getViolationSeverity(violation),
           path: violation.path,
           oldValue: violation.oldValue,
           updatedValue: violation.updatedValue,
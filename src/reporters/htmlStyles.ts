@@ -732,6 +732,20 @@ export const HTML_STYLES = `
     white-space: nowrap;
   }
 
+  .violation-severity {
+    font-size: 11px;
+    font-weight: 600;
+    text-transform: uppercase;
+  }
+
+  .violation-severity.block {
+    color: #cb2431;
+  }
+
+  .violation-severity.warn {
+    color: #b08800;
+  }
+
   .violation-value {
     font-family: ui-monospace, SFMono-Regular, "SF Mono", Menlo, Consolas, "Liberation Mono", monospace;
     font-size: 12px;
@@ -740,6 +754,13 @@ export const HTML_STYLES = `
     border-radius: 3px;
     border: 1px solid #e1e4e8;
   }
+
+  .violation-document {
+    display: block;
+    margin-top: 2px;
+    font-size: 11px;
+    color: #586069;
+  }
 `;
 
 /**
@@ -1,3 +1,4 @@
+import { type StopRuleSeverity } from '../config';
 import { type AddedFile, type FileDiffResult } from '../pipeline';
 import { DIFF2HTML_STYLES, HTML_STYLES, TAB_SCRIPT } from './htmlStyles';
 import { buildFileTree } from './treeBuilder';
@@ -9,7 +10,9 @@ import { escapeHtml, renderSidebarTree, renderTreeview } from './treeRenderer';
 
 export interface HtmlStopRuleViolation {
   file: string;
+  document?: string;
   rule: { type: string; path?: string };
+  severity: StopRuleSeverity;
   path: string;
   oldValue: unknown;
   updatedValue: unknown;
@@ -28,8 +31,9 @@ const renderStopRulesSection = (violations: HtmlStopRuleViolation[]): string =>
     .map(
       (v) =>
         `<tr>
-          <td>${escapeHtml(v.file)}</td>
+          <td>${escapeHtml(v.file)}${v.document ? `<span class="violation-document">${escapeHtml(v.document)}</span>` : ''}</td>
           <td><span class="violation-rule-badge">${escapeHtml(v.rule.type)}</span></td>
+          <td><span class="violation-severity ${v.severity}">${v.severity}</span></td>
           <td>${escapeHtml(v.path)}</td>
           <td>${formatViolationValue(v.oldValue)}</td>
           <td>${formatViolationValue(v.updatedValue)}</td>
@@ -47,6 +51,7 @@ const renderStopRulesSection = (violations: HtmlStopRuleViolation[]): string =>
             <tr>
               <th>File</th>
               <th>Rule</th>
+              <th>Severity</th>
               <th>Path</th>
               <th>Old Value</th>
               <th>New Value</th>
@@ -6,6 +6,9 @@
 export type { ArrayDiffResult } from './arrayDiffer';
 export { diffArrays, findArrayPaths, hasArrays } from './arrayDiffer';
 
+// Changed file diff
+export { generateChangedFileDiff } from './changedFileDiff';
+
 // Console diff reporter
 export { showConsoleDiff } from './consoleDiffReporter';
 
@@ -22,6 +25,7 @@ export type {
   JsonReportFiles,
   JsonReportMetadata,
   JsonReportSummary,
+  QuantityChange,
   StopRuleViolationJson
 } from './jsonReporter';
 export { generateJsonReport, isJsonReporterError, JsonReporterError } from './jsonReporter';
@@ -1,8 +1,18 @@
-import { type Config } from '../config';
-import { type AddedFile, type ChangedFile, type FileDiffResult, type ValidationResult } from '../pipeline';
-import { deepEqual } from '../utils/deepEqual';
+import { type ArrayMergeRule, type Config, type StopRuleSeverity } from '../config';
+import {
+  type AddedFile,
+  type ChangedFile,
+  type FileDiffResult,
+  getViolationSeverity,
+  type ValidationResult
+} from '../pipeline';
+import { findArrayMergeRule, getArrayItemKey, isOrderedArrayPath } from '../utils/arrayMerger';
+import { deepEqual, deepEqualStructural } from '../utils/deepEqual';
 import { generateUnifiedDiff } from '../utils/diffGenerator';
 import { createErrorClass, createErrorTypeGuard } from '../utils/errors';
+import { describeFunctionTransform } from '../utils/functionTransformer';
+import { getQuantitySuffix, parseQuantity } from '../utils/quantityParser';
+import { describeStructuralTransform } from '../utils/structuralTransformer';
 
 // ============================================================================
 // Error Handling
@@ -33,16 +43,26 @@ export interface JsonReportSummary {
   unchanged: number;
 }
 
+export interface QuantityChange {
+  oldValue: number;
+  updatedValue: number;
+  delta: number;
+}
+
 export interface FieldChange {
+  document?: string; // Document label, only set for multi-document YAML files
   path: string;
   oldValue: unknown;
   updatedValue: unknown;
+  quantity?: QuantityChange; // Both values in base units, only set when either is a Kubernetes quantity like "512Mi"
 }
 
 export interface ChangedFileDetail {
   path: string;
   diff: string;
   changes: FieldChange[];
+  structuralTransforms?: string[]; // Structural operations applied to the source, only set when any matched
+  functionTransforms?: string[]; // Function transforms applied to the source, only set when any matched
 }
 
 export interface AddedFileDetail {
@@ -61,10 +81,12 @@ export interface JsonReportFiles {
 
 export interface StopRuleViolationJson {
   file: string;
+  document?: string;
   rule: {
     type: string;
     path?: string;
   };
+  severity: StopRuleSeverity;
   path: string;
   oldValue: unknown;
   updatedValue: unknown;
@@ -92,29 +114,129 @@ const formatJsonPath = (path: string[]): string => {
   return `$.${path.join('.')}`;
 };
 
-const detectDeepChanges = (oldData: unknown, updatedData: unknown, currentPath: string[] = []): FieldChange[] => {
+// arrayMerge rules and orderedArrays paths of the file being reported
+interface ArrayReportRules {
+  mergeRules: ArrayMergeRule[];
+  orderedPaths: string[];
+}
+
+const NO_ARRAY_RULES: ArrayReportRules = { mergeRules: [], orderedPaths: [] };
+
+// Path of a keyed array item, e.g. `containers[name=app]`; `keyPath` (object keys only) is used for rule lookup
+const formatItemPath = (currentPath: string[], key: string, keyValue: unknown): string[] => [
+  ...currentPath.slice(0, -1),
+  `${currentPath.at(-1) ?? ''}[${key}=${String(keyValue)}]`
+];
+
+// Merge keys of items present on both sides, in array order
+const getSharedKeyOrder = (items: unknown[], otherItems: unknown[], key: string): unknown[] => {
+  const otherKeys = new Set(otherItems.map((item) => getArrayItemKey(item, key)));
+  return items.map((item) => getArrayItemKey(item, key)).filter((keyValue) => otherKeys.has(keyValue));
+};
+
+// Arrays with a keyed arrayMerge rule are compared item by item, paired by their merge key
+const detectKeyedArrayChanges = (
+  oldArray: unknown[],
+  updatedArray: unknown[],
+  key: string,
+  currentPath: string[],
+  keyPath: string[],
+  arrayRules: ArrayReportRules
+): FieldChange[] => {
+  const changes: FieldChange[] = [];
+  const pairedOldIndexes = new Set<number>();
+
+  // Ordered arrays report a reorder of their items as one change listing the keys in order
+  if (isOrderedArrayPath(keyPath, arrayRules.orderedPaths)) {
+    const oldOrder = getSharedKeyOrder(oldArray, updatedArray, key);
+    const updatedOrder = getSharedKeyOrder(updatedArray, oldArray, key);
+    if (!deepEqualStructural(oldOrder, updatedOrder))
+      changes.push({ path: formatJsonPath(currentPath), oldValue: oldOrder, updatedValue: updatedOrder });
+  }
+
+  for (const updatedItem of updatedArray) {
+    const keyValue = getArrayItemKey(updatedItem, key);
+    const oldIndex = oldArray.findIndex(
+      (oldItem, index) => !pairedOldIndexes.has(index) && getArrayItemKey(oldItem, key) === keyValue
+    );
+    const itemPath = formatItemPath(currentPath, key, keyValue);
+
+    if (oldIndex === -1) {
+      changes.push({ path: formatJsonPath(itemPath), oldValue: undefined, updatedValue: updatedItem });
+      continue;
+    }
+
+    pairedOldIndexes.add(oldIndex);
+    changes.push(...detectDeepChanges(oldArray[oldIndex], updatedItem, itemPath, arrayRules, keyPath));
+  }
+
+  for (const [index, oldItem] of oldArray.entries())
+    if (!pairedOldIndexes.has(index))
+      changes.push({
+        path: formatJsonPath(formatItemPath(currentPath, key, getArrayItemKey(oldItem, key))),
+        oldValue: oldItem,
+        updatedValue: undefined
+      });
+
+  return changes;
+};
+
+// Compares "500m" → "1" or "1Gi" → "1536Mi" by value; plain numbers need no conversion and are left out
+const getQuantityChange = (oldValue: unknown, updatedValue: unknown): QuantityChange | undefined => {
+  if (getQuantitySuffix(oldValue) === undefined && getQuantitySuffix(updatedValue) === undefined) return undefined;
+
+  const oldNumber = parseQuantity(oldValue);
+  const updatedNumber = parseQuantity(updatedValue);
+  if (oldNumber === undefined || updatedNumber === undefined) return undefined;
+
+  return { oldValue: oldNumber, updatedValue: updatedNumber, delta: updatedNumber - oldNumber };
+};
+
+const detectDeepChanges = (
+  oldData: unknown,
+  updatedData: unknown,
+  currentPath: string[] = [],
+  arrayRules: ArrayReportRules = NO_ARRAY_RULES,
+  keyPath: string[] = currentPath
+): FieldChange[] => {
   const changes: FieldChange[] = [];
 
   // Base case: both are primitives or one is primitive
   if (isPrimitive(oldData) || isPrimitive(updatedData)) {
-    if (!deepEqual(oldData, updatedData))
+    if (!deepEqual(oldData, updatedData)) {
+      const quantity = getQuantityChange(oldData, updatedData);
       changes.push({
         path: formatJsonPath(currentPath),
         oldValue: oldData,
-        updatedValue: updatedData
+        updatedValue: updatedData,
+        ...(quantity && { quantity })
       });
+    }
 
     return changes;
   }
 
-  // Arrays: report array-level change if items differ
+  // Arrays: report item-level changes for keyed arrays, otherwise an array-level change if items differ
   if (Array.isArray(oldData) && Array.isArray(updatedData)) {
-    if (!deepEqual(oldData, updatedData))
-      changes.push({
-        path: formatJsonPath(currentPath),
-        oldValue: `Array with ${oldData.length} item(s)`,
-        updatedValue: `Array with ${updatedData.length} item(s)`
-      });
+    // Processed content is already normalized, so ordered arrays are compared as they are
+    const isOrdered = isOrderedArrayPath(keyPath, arrayRules.orderedPaths);
+    if (isOrdered ? deepEqualStructural(oldData, updatedData) : deepEqual(oldData, updatedData)) return changes;
+
+    const key = findArrayMergeRule(keyPath, arrayRules.mergeRules)?.key;
+    const isKeyed =
+      key !== undefined && [...oldData, ...updatedData].every((item) => getArrayItemKey(item, key) !== undefined);
+    if (isKeyed) return detectKeyedArrayChanges(oldData, updatedData, key, currentPath, keyPath, arrayRules);
+
+    // Ordered arrays show both arrays so a reorder is visible
+    changes.push(
+      isOrdered
+        ? { path: formatJsonPath(currentPath), oldValue: oldData, updatedValue: updatedData }
+        : {
+            path: formatJsonPath(currentPath),
+            oldValue: `Array with ${oldData.length} item(s)`,
+            updatedValue: `Array with ${updatedData.length} item(s)`
+          }
+    );
 
     return changes;
   }
@@ -137,7 +259,10 @@ const detectDeepChanges = (oldData: unknown, updatedData: unknown, currentPath:
       const oldValue = oldData[key];
       const updatedValue = updatedData[key];
 
-      const subChanges = detectDeepChanges(oldValue, updatedValue, [...currentPath, key]);
+      const subChanges = detectDeepChanges(oldValue, updatedValue, [...currentPath, key], arrayRules, [
+        ...keyPath,
+        key
+      ]);
 
       changes.push(...subChanges);
     }
@@ -149,12 +274,36 @@ const detectDeepChanges = (oldData: unknown, updatedData: unknown, currentPath:
 const generateChangedFileDetail = (file: ChangedFile): ChangedFileDetail => {
   const diff = generateUnifiedDiff(file.path, file.destinationContent, file.sourceContent);
 
-  const changes = detectDeepChanges(file.processedDestContent, file.processedSourceContent);
+  const arrayRules: ArrayReportRules = {
+    mergeRules: file.arrayMergeRules ?? [],
+    orderedPaths: file.orderedArrayPaths ?? []
+  };
+
+  // Multi-document files report changes per document so paths stay relative to each document
+  const changes = file.documents
+    ? file.documents
+        .filter((document) => document.changed)
+        .flatMap((document) =>
+          detectDeepChanges(document.processedDestContent, document.processedSourceContent, [], arrayRules).map(
+            (change) => ({
+              document: document.label,
+              ...change
+            })
+          )
+        )
+    : detectDeepChanges(file.processedDestContent, file.processedSourceContent, [], arrayRules);
+
+  const structuralTransforms = (file.structuralTransforms ?? []).map((operation) =>
+    describeStructuralTransform(operation)
+  );
+  const functionTransforms = (file.functionTransforms ?? []).map((transform) => describeFunctionTransform(transform));
 
   return {
     path: file.path,
     diff,
-    changes
+    changes,
+    ...(structuralTransforms.length > 0 && { structuralTransforms }),
+    ...(functionTransforms.length > 0 && { functionTransforms })
   };
 };
 
@@ -205,10 +354,12 @@ export const generateJsonReport = (
 
     const stopRuleViolations: StopRuleViolationJson[] = validationResult.violations.map((violation) => ({
       file: violation.file,
+      document: violation.document,
       rule: {
         type: violation.rule.type,
-        path: violation.rule.path
+        path: 'path' in violation.rule ? violation.rule.path : undefined
       },
+      severity: getViolationSeverity(violation),
       path: violation.path,
       oldValue: violation.oldValue,
       updatedValue: violation.updatedValue,
@@ -0,0 +1,343 @@
+import { readFile, writeFile } from 'node:fs/promises';
+
+import * as YAML from 'yaml';
+
+import { type Config, parseBaseConfig } from './config';
+import {
+  type FilenameSuggestion,
+  isFilenameTransformInConfig,
+  isSkipPathInConfig,
+  isStopRuleInConfig,
+  isTransformInConfig,
+  type SkipPathSuggestion,
+  type StopRuleSuggestion,
+  type SuggestionResult,
+  type TransformSuggestion
+} from './suggestionEngine';
+import { createErrorClass, createErrorTypeGuard } from './utils/errors';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One suggestion that can be written into a config file, with the glob it is suggested for.
+ */
+export type AppliableSuggestion =
+  | { kind: 'transform'; pattern: string; suggestion: TransformSuggestion }
+  | { kind: 'stopRule'; pattern: string; suggestion: StopRuleSuggestion }
+  | { kind: 'skipPath'; pattern: string; suggestion: SkipPathSuggestion }
+  | { kind: 'filename'; pattern: string; suggestion: FilenameSuggestion };
+
+export interface ApplySuggestionsResult {
+  content: string;
+  applied: AppliableSuggestion[];
+  skipped: AppliableSuggestion[];
+}
+
+// Asks one question and resolves with the raw answer (e.g. readline's `question`)
+export type AskFunction = (question: string) => Promise<string>;
+
+// ============================================================================
+// Error Handling
+// ============================================================================
+
+const SuggestionApplierErrorClass = createErrorClass('Suggestion Applier Error', {
+  PARSE_ERROR: 'Config file is not valid YAML',
+  NOT_A_MAPPING: 'Config file must contain a YAML mapping',
+  NOT_INTERACTIVE: 'Cannot ask which suggestions to apply without a terminal'
+});
+
+export class SuggestionApplierError extends SuggestionApplierErrorClass {}
+export const isSuggestionApplierError = createErrorTypeGuard(SuggestionApplierError);
+
+// ============================================================================
+// Selection
+// ============================================================================
+
+/**
+ * Flattens suggestion results into one list: transforms, stop rules, skipPaths, then filename transforms,
+ * each in engine order. Literal filenameFile entries are left out, as they belong in a separate file.
+ */
+export const listAppliableSuggestions = (result: SuggestionResult): AppliableSuggestion[] => [
+  ...[...result.transforms].flatMap(([pattern, suggestions]) =>
+    suggestions.map((suggestion): AppliableSuggestion => ({ kind: 'transform', pattern, suggestion }))
+  ),
+  ...[...result.stopRules].flatMap(([pattern, suggestions]) =>
+    suggestions.map((suggestion): AppliableSuggestion => ({ kind: 'stopRule', pattern, suggestion }))
+  ),
+  ...[...result.skipPaths].flatMap(([pattern, suggestions]) =>
+    suggestions.map((suggestion): AppliableSuggestion => ({ kind: 'skipPath', pattern, suggestion }))
+  ),
+  ...[...result.filenames].flatMap(([pattern, suggestions]) =>
+    suggestions
+      .filter((suggestion) => !suggestion.literal)
+      .map((suggestion): AppliableSuggestion => ({ kind: 'filename', pattern, suggestion }))
+  )
+];
+
+export const selectByConfidence = (suggestions: AppliableSuggestion[], minConfidence: number): AppliableSuggestion[] =>
+  suggestions.filter(({ suggestion }) => suggestion.confidence >= minConfidence);
+
+/**
+ * One-line description of a suggestion, e.g. `transform [**\/*.yaml] find 'uat' → replace 'prod' (65%)`.
+ */
+export const describeAppliableSuggestion = (entry: AppliableSuggestion): string => {
+  const confidence = `(${Math.round(entry.suggestion.confidence * 100)}%)`;
+  if (entry.kind === 'transform')
+    return `transform [${entry.pattern}] find '${entry.suggestion.find}' → replace '${entry.suggestion.replace}' ${confidence}`;
+  if (entry.kind === 'skipPath') return `skipPath [${entry.pattern}] ${entry.suggestion.path} ${confidence}`;
+  if (entry.kind === 'filename')
+    return `filename transform [${entry.pattern}] find '${entry.suggestion.find}' → replace '${entry.suggestion.replace}' ${confidence}`;
+
+  return `stop rule [${entry.pattern}] ${YAML.stringify(entry.suggestion.rule, { collectionStyle: 'flow', lineWidth: 0 }).trim()} ${confidence}`;
+};
+
+/**
+ * Asks about each suggestion in turn: y = apply, n = skip (default), a = apply this and all remaining,
+ * q = skip this and all remaining.
+ */
+export const promptForSuggestions = async (
+  suggestions: AppliableSuggestion[],
+  ask: AskFunction
+): Promise<AppliableSuggestion[]> => {
+  const accepted: AppliableSuggestion[] = [];
+
+  for (const [index, entry] of suggestions.entries()) {
+    const reply = await ask(
+      `[${index + 1}/${suggestions.length}] ${describeAppliableSuggestion(entry)} — apply? [y/N/a/q] `
+    );
+    const answer = reply.trim().toLowerCase();
+
+    if (answer === 'q') break;
+    if (answer === 'a') return [...accepted, ...suggestions.slice(index)];
+    if (answer === 'y' || answer === 'yes') accepted.push(entry);
+  }
+
+  return accepted;
+};
+
+// ============================================================================
+// Applying
+// ============================================================================
+
+const suggestionComment = (entry: AppliableSuggestion): string =>
+  entry.kind === 'transform'
+    ? ` Suggested (confidence ${Math.round(entry.suggestion.confidence * 100)}%, ${entry.suggestion.occurrences} occurrence(s))`
+    : ` Suggested (confidence ${Math.round(entry.suggestion.confidence * 100)}%): ${entry.suggestion.reason}`;
+
+const getTarget = (entry: AppliableSuggestion): { path: string[]; value: unknown } => {
+  switch (entry.kind) {
+    case 'transform':
+      return {
+        path: ['transforms', entry.pattern, 'content'],
+        value: { find: entry.suggestion.find, replace: entry.suggestion.replace }
+      };
+    case 'stopRule':
+      return { path: ['stopRules', entry.pattern], value: entry.suggestion.rule };
+    case 'skipPath':
+      return { path: ['skipPath', entry.pattern], value: entry.suggestion.path };
+    case 'filename':
+      return {
+        path: ['transforms', entry.pattern, 'filename'],
+        value: { find: entry.suggestion.find, replace: entry.suggestion.replace }
+      };
+  }
+};
+
+// Appends to the sequence at `path`, creating it (and missing parent maps) when needed
+const appendToSequence = (document: YAML.Document, path: string[], value: unknown, comment: string): void => {
+  // Empty values such as `skipPath:` are replaced, as entries cannot be added below a scalar
+  for (let depth = 1; depth < path.length; depth++)
+    if (!YAML.isMap(document.getIn(path.slice(0, depth), true)))
+      document.setIn(path.slice(0, depth), document.createNode({}));
+  if (!YAML.isSeq(document.getIn(path, true))) document.setIn(path, document.createNode([]));
+
+  const node = document.createNode(value);
+  node.commentBefore = comment;
+  document.addIn(path, node);
+};
+
+// A text replacement in the config file; everything outside [start, end) is kept byte for byte
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// End of the line holding the last character of a node; block map ranges may already end after the newline
+const getEndOfLine = (content: string, valueEnd: number): number => {
+  const index = content.indexOf('\n', Math.max(valueEnd - 1, 0));
+  return index === -1 ? content.length : index + 1;
+};
+
+const getColumn = (content: string, offset: number): number => offset - (content.lastIndexOf('\n', offset - 1) + 1);
+
+const indentLines = (text: string, column: number): string =>
+  text
+    .split('\n')
+    .map((line) => (line === '' ? line : ' '.repeat(column) + line))
+    .join('\n');
+
+// Renders nodes of the updated document in block style, the way `init` writes configs
+const renderBlock = (node: YAML.Node): string => {
+  YAML.visit(node, {
+    Collection: (_, collection) => {
+      collection.flow = false;
+    }
+  });
+
+  const fragment = new YAML.Document();
+  fragment.contents = node;
+  return fragment.toString({ indent: 2, lineWidth: 0 });
+};
+
+const isBlockMap = (node: unknown): node is YAML.YAMLMap => YAML.isMap(node) && !node.flow;
+const isBlockSeq = (node: unknown): node is YAML.YAMLSeq => YAML.isSeq(node) && !node.flow;
+
+// Inserts rendered lines after the last item of a block collection, at the column of its items
+const insertAfterLastItem = (content: string, collection: YAML.YAMLMap | YAML.YAMLSeq, rendered: string): TextEdit => {
+  const last = collection.items.at(-1);
+  const lastNode = YAML.isPair(last) ? ((last.value ?? last.key) as YAML.Node) : (last as YAML.Node);
+  const start = getEndOfLine(content, lastNode.range![1]);
+  const separator = start === content.length && !content.endsWith('\n') ? '\n' : '';
+
+  return { start, end: start, text: separator + indentLines(rendered, getColumn(content, collection.range![0])) };
+};
+
+/**
+ * Finds the smallest text edit that adds the entry at `path`: a new item of an existing block sequence,
+ * a new key of the deepest existing block map, or, where the file uses flow style or an empty value,
+ * that one value rewritten in block style. `updated` is the document with the entry already added.
+ */
+const planTextEdit = (
+  content: string,
+  parent: YAML.YAMLMap,
+  updated: YAML.Document,
+  path: string[],
+  depth = 0
+): TextEdit => {
+  const key = path[depth]!;
+  const childPath = path.slice(0, depth + 1);
+  const child = parent.get(key, true) as YAML.Node | undefined;
+
+  if (child === undefined) {
+    const fragment = new YAML.YAMLMap();
+    fragment.items.push((updated.getIn(path.slice(0, depth), true) as YAML.YAMLMap).items.at(-1)!);
+    return insertAfterLastItem(content, parent, renderBlock(fragment));
+  }
+
+  const isLast = depth === path.length - 1;
+  if (isLast && isBlockSeq(child)) {
+    const fragment = new YAML.YAMLSeq();
+    fragment.items.push((updated.getIn(path, true) as YAML.YAMLSeq).items.at(-1));
+    return insertAfterLastItem(content, child, renderBlock(fragment));
+  }
+  if (!isLast && isBlockMap(child)) return planTextEdit(content, child, updated, path, depth + 1);
+
+  // A flow collection or scalar value is replaced by its updated value in block style
+  const pair = parent.items.find((item) => YAML.isScalar(item.key) && item.key.value === key)!;
+  const column = getColumn(content, (pair.key as YAML.Node).range![0]) + 2;
+  const updatedChild = updated.getIn(childPath, true) as YAML.Node;
+  updatedChild.comment = undefined;
+  const rendered = indentLines(renderBlock(updatedChild), column);
+  const end = getEndOfLine(content, child.range![1]);
+  if (YAML.isCollection(child) && !child.flow)
+    return { start: child.range![0] - getColumn(content, child.range![0]), end, text: rendered };
+
+  // The value moves to the following lines; a comment after it stays on the key's line
+  let start = child.range![0];
+  while (content[start - 1] === ' ' || content[start - 1] === '\t') start--;
+  const trailing = content.slice(child.range![1], end).trimEnd();
+  return { start, end, text: `${trailing}\n${rendered}` };
+};
+
+// The config as written in the file, in the shape the engine's duplicate checks read
+const readWrittenConfig = (document: YAML.Document): Config => document.toJS() as Config;
+
+const isAlreadyWritten = (entry: AppliableSuggestion, written: Config): boolean => {
+  if (entry.kind === 'transform') return isTransformInConfig(entry.suggestion.find, entry.suggestion.replace, written);
+  if (entry.kind === 'skipPath') return isSkipPathInConfig(entry.suggestion.path, written);
+  if (entry.kind === 'filename')
+    return isFilenameTransformInConfig(entry.suggestion.find, entry.suggestion.replace, written);
+
+  const rule = entry.suggestion.rule;
+  return 'path' in rule && rule.path !== undefined && isStopRuleInConfig(rule.type, rule.path, written);
+};
+
+/**
+ * Merges suggestions into config file content. Only the collections that receive entries are edited;
+ * every other line of the file, including comments and flow-style values, is kept byte for byte.
+ * Transforms are appended to `transforms.<glob>.content` (or `.filename`), stop rules to `stopRules.<glob>` and skipPaths to `skipPath.<glob>`;
+ * suggestions the file already contains are skipped. The result is validated against the config schema.
+ *
+ * @param content - Current config file content
+ * @param suggestions - Suggestions to write
+ * @param configPath - Config file path (for error messages)
+ * @throws {SuggestionApplierError} If the content is not a YAML mapping
+ * @throws {ZodValidationError} If the merged config is invalid
+ */
+export const applySuggestionsToConfig = (
+  content: string,
+  suggestions: AppliableSuggestion[],
+  configPath?: string
+): ApplySuggestionsResult => {
+  const document = YAML.parseDocument(content);
+  if (document.errors.length > 0)
+    throw new SuggestionApplierError('Config file is not valid YAML', {
+      code: 'PARSE_ERROR',
+      path: configPath,
+      cause: document.errors[0]
+    });
+  if (!YAML.isMap(document.contents))
+    throw new SuggestionApplierError('Config file must contain a YAML mapping', {
+      code: 'NOT_A_MAPPING',
+      path: configPath
+    });
+
+  const applied: AppliableSuggestion[] = [];
+  const skipped: AppliableSuggestion[] = [];
+  let result = content;
+  let current = document;
+
+  for (const entry of suggestions) {
+    if (isAlreadyWritten(entry, readWrittenConfig(current))) {
+      skipped.push(entry);
+      continue;
+    }
+
+    const { path, value } = getTarget(entry);
+    const updated = current.clone();
+    appendToSequence(updated, path, value, suggestionComment(entry));
+
+    // A config written as one flow mapping has no block lines to keep, so it is rewritten as a whole
+    const root = current.contents as YAML.YAMLMap;
+    const edit = root.flow
+      ? { start: root.range![0], end: root.range![1], text: renderBlock(updated.contents as YAML.Node).trimEnd() }
+      : planTextEdit(result, root, updated, path);
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    current = YAML.parseDocument(result);
+
+    applied.push(entry);
+  }
+
+  parseBaseConfig(current.toJS(), configPath);
+
+  return { content: result, applied, skipped };
+};
+
+/**
+ * Reads the config file, merges the suggestions into it and writes it back if anything was added.
+ *
+ * @throws {SuggestionApplierError} If the file is not a YAML mapping
+ * @throws {ZodValidationError} If the merged config is invalid
+ */
+export const applySuggestionsToConfigFile = async (
+  configPath: string,
+  suggestions: AppliableSuggestion[]
+): Promise<ApplySuggestionsResult> => {
+  const result = applySuggestionsToConfig(await readFile(configPath, 'utf8'), suggestions, configPath);
+  if (result.applied.length > 0) await writeFile(configPath, result.content, 'utf8');
+
+  return result;
+};
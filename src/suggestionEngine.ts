@@ -1,12 +1,18 @@
-import { type Config, type StopRule } from './config';
-import { type ChangedFile, type FileDiffResult } from './pipeline';
+import { type Config, type StopRule, type TransformRule } from './config';
+import { getFormatHandler } from './formats';
+import { type AddedFile, type ChangedFile, type FileDiffResult, type FileMap } from './pipeline';
+import { detectCollisions } from './utils/collisionDetector';
 import { createErrorClass, createErrorTypeGuard } from './utils/errors';
+import { transformFilename } from './utils/filenameTransformer';
 import { parseJsonPath } from './utils/jsonPath';
+import { formatQuantity, getQuantitySuffix, parseQuantity } from './utils/quantityParser';
 import {
   ANTONYM_PAIRS,
   ARRAY_KEY_FIELDS,
   CONFIDENCE_DEFAULTS,
   CONSTRAINT_FIELD_NAMES,
+  ENVIRONMENT_SPECIFIC_KEYWORDS,
+  FILENAME_PAIRING,
   FILTER_THRESHOLDS,
   ISO_TIMESTAMP_PATTERN,
   MAX_EXAMPLES_PER_SUGGESTION,
@@ -16,8 +22,10 @@ import {
   SEMANTIC_KEYWORDS,
   SEMANTIC_PATTERNS,
   SEMVER_PATTERN,
+  SKIP_PATH_CONFIDENCE,
   UUID_PATTERN
 } from './utils/suggestionConstants';
+import { escapeRegex } from './utils/yamlFileLoader';
 
 // ============================================================================
 // Types
@@ -46,9 +54,35 @@ export interface StopRuleSuggestion {
   affectedFiles: string[];
 }
 
+export interface SkipPathSuggestion {
+  path: string;
+  confidence: number;
+  reason: string;
+  affectedFiles: string[];
+  examples: ValuePair[];
+}
+
+export interface FilenamePair {
+  sourcePath: string; // Added file (source path after the configured filename transforms)
+  destinationPath: string; // Deleted file it lines up with
+  contentSimilarity: number;
+  pathSimilarity: number;
+}
+
+export interface FilenameSuggestion {
+  find: string; // Regex for a `filename` rule; the literal source path for a `filenameFile` entry
+  replace: string;
+  literal: boolean; // True when no regex rule lines the pairs up without renaming other files
+  confidence: number;
+  reason: string;
+  pairs: FilenamePair[];
+}
+
 export interface SuggestionResult {
   transforms: Map<string, TransformSuggestion[]>;
   stopRules: Map<string, StopRuleSuggestion[]>;
+  skipPaths: Map<string, SkipPathSuggestion[]>;
+  filenames: Map<string, FilenameSuggestion[]>;
   metadata: {
     filesAnalyzed: number;
     changedFiles: number;
@@ -59,6 +93,7 @@ export interface SuggestionResult {
 interface ValueDifference {
   filePath: string;
   jsonPath: string;
+  filterPath?: string; // Same location in skipPath syntax (`env[name=X]`, `[*]`); unset if a key cannot be written as one
   oldValue: unknown;
   targetValue: unknown;
 }
@@ -75,6 +110,11 @@ interface PathValueCollection {
   files: Set<string>;
 }
 
+interface SkipPathOccurrence {
+  files: Set<string>;
+  examples: ValuePair[];
+}
+
 // ============================================================================
 // Error Handling
 // ============================================================================
@@ -92,28 +132,42 @@ export const isSuggestionEngineError = createErrorTypeGuard(SuggestionEngineErro
 // ============================================================================
 
 /**
- * Analyzes file differences and suggests transforms and stop rules.
+ * Analyzes file differences and suggests transforms, stop rules, skipPaths and filename transforms.
  *
  * @param diffResult - Result from computeFileDiff
  * @param config - Current configuration (to avoid duplicating existing rules)
  * @param confidenceThreshold - Minimum confidence score for suggestions (default: 0.3)
+ * @param destinationFiles - Destination files; needed to pair added files with unmatched destination files for filename suggestions
  * @returns Structured suggestions with confidence scores
  */
 export const analyzeDifferencesForSuggestions = (
   diffResult: FileDiffResult,
   config: Config,
-  confidenceThreshold: number = CONFIDENCE_DEFAULTS.DEFAULT_THRESHOLD
+  confidenceThreshold: number = CONFIDENCE_DEFAULTS.DEFAULT_THRESHOLD,
+  destinationFiles?: FileMap
 ): SuggestionResult => {
-  if (diffResult.changedFiles.length === 0) return createEmptySuggestionResult(diffResult);
+  const hasRenameCandidates = destinationFiles !== undefined && diffResult.addedFiles.length > 0;
+  if (diffResult.changedFiles.length === 0 && !hasRenameCandidates) return createEmptySuggestionResult(diffResult);
 
   try {
+    const filenameSuggestions = hasRenameCandidates
+      ? analyzeFilenamePatterns(diffResult, destinationFiles, confidenceThreshold)
+      : [];
     const allDifferences = extractAllDifferences(diffResult.changedFiles);
     const transformSuggestions = analyzeTransformPatterns(allDifferences, config, confidenceThreshold);
     const stopRuleSuggestions = analyzeStopRulePatterns(diffResult.changedFiles, config, confidenceThreshold);
+    const skipPathSuggestions = analyzeSkipPathPatterns(
+      allDifferences,
+      transformSuggestions,
+      config,
+      confidenceThreshold
+    );
 
     return {
       transforms: new Map([['**/*.yaml', transformSuggestions]]),
       stopRules: new Map([['**/*.yaml', stopRuleSuggestions]]),
+      skipPaths: new Map([['**/*.yaml', skipPathSuggestions]]),
+      filenames: new Map([['**/*', filenameSuggestions]]),
       metadata: {
         filesAnalyzed: diffResult.changedFiles.length,
         changedFiles: diffResult.changedFiles.length,
@@ -131,6 +185,8 @@ export const analyzeDifferencesForSuggestions = (
 const createEmptySuggestionResult = (diffResult: FileDiffResult): SuggestionResult => ({
   transforms: new Map(),
   stopRules: new Map(),
+  skipPaths: new Map(),
+  filenames: new Map(),
   metadata: {
     filesAnalyzed: diffResult.changedFiles.length,
     changedFiles: 0,
@@ -144,18 +200,38 @@ const createEmptySuggestionResult = (diffResult: FileDiffResult): SuggestionResu
 
 /**
  * Recursively walks both YAML trees and extracts differences.
+ * Multi-document files are walked document by document, so paths stay relative to one document.
  */
 const extractAllDifferences = (changedFiles: ChangedFile[]): ValueDifference[] => {
   const differences: ValueDifference[] = [];
 
   for (const file of changedFiles) {
-    const fileDiffs = walkAndCompare(file.rawParsedSource, file.rawParsedDest, [], file.path, file.skipPaths ?? []);
-    differences.push(...fileDiffs);
+    const pairs = file.documents ?? [{ rawParsedSource: file.rawParsedSource, rawParsedDest: file.rawParsedDest }];
+    for (const pair of pairs)
+      differences.push(
+        ...walkAndCompare(pair.rawParsedSource, pair.rawParsedDest, [], '', file.path, file.skipPaths ?? [])
+      );
   }
 
   return differences;
 };
 
+// Keys containing `.` or brackets would be split apart when the skipPath is parsed
+const appendPathKey = (filterPath: string | undefined, key: string): string | undefined => {
+  if (filterPath === undefined || /[.[\]]/.test(key)) return undefined;
+  return filterPath ? `${filterPath}.${key}` : key;
+};
+
+const appendIndexWildcard = (filterPath: string | undefined): string | undefined =>
+  filterPath === undefined ? undefined : `${filterPath}[*]`;
+
+// Filter values with spaces or brackets are quoted; values containing quotes cannot be written
+const appendFilterSegment = (filterPath: string | undefined, keyField: string, key: unknown): string | undefined => {
+  const value = String(key);
+  if (filterPath === undefined || value.includes('"')) return undefined;
+  return /^[^\s\]]+$/.test(value) ? `${filterPath}[${keyField}=${value}]` : `${filterPath}[${keyField}="${value}"]`;
+};
+
 /**
  * Recursively compares two objects and tracks differences with JSONPath.
  */
@@ -163,6 +239,7 @@ const walkAndCompare = (
   source: unknown,
   destination: unknown,
   currentPath: string[],
+  filterPath: string | undefined,
   filePath: string,
   skipPaths: string[]
 ): ValueDifference[] => {
@@ -177,6 +254,7 @@ const walkAndCompare = (
         differences.push({
           filePath,
           jsonPath,
+          filterPath,
           oldValue: destination,
           targetValue: source
         });
@@ -199,7 +277,14 @@ const walkAndCompare = (
         if (destinationMap.has(key)) {
           const destinationItem = destinationMap.get(key);
           const nextPath = [...currentPath, '*'];
-          const childDiffs = walkAndCompare(sourceItem, destinationItem, nextPath, filePath, skipPaths);
+          const childDiffs = walkAndCompare(
+            sourceItem,
+            destinationItem,
+            nextPath,
+            appendFilterSegment(filterPath, keyField, key),
+            filePath,
+            skipPaths
+          );
           differences.push(...childDiffs);
         }
       // Note: Items only in source (added) are ignored for suggestions
@@ -220,11 +305,12 @@ const walkAndCompare = (
 
   for (const key of allKeys) {
     // Use wildcard for numeric array indices
-    const pathKey = bothArrays && /^\d+$/.test(key) ? '*' : key;
-    const nextPath = [...currentPath, pathKey];
+    const isIndex = bothArrays && /^\d+$/.test(key);
+    const nextPath = [...currentPath, isIndex ? '*' : key];
+    const nextFilterPath = isIndex ? appendIndexWildcard(filterPath) : appendPathKey(filterPath, key);
     const sourceValue = sourceObject[key];
     const destinationValue = destinationObject[key];
-    const childDiffs = walkAndCompare(sourceValue, destinationValue, nextPath, filePath, skipPaths);
+    const childDiffs = walkAndCompare(sourceValue, destinationValue, nextPath, nextFilterPath, filePath, skipPaths);
     differences.push(...childDiffs);
   }
 
@@ -584,7 +670,7 @@ const calculateTransformConfidence = (occurrence: PatternOccurrence): number =>
 /**
  * Checks if a transform pattern already exists in config.
  */
-const isTransformInConfig = (find: string, replace: string, config: Config): boolean => {
+export const isTransformInConfig = (find: string, replace: string, config: Config): boolean => {
   if (!config.transforms) return false;
 
   for (const rules of Object.values(config.transforms))
@@ -594,6 +680,19 @@ const isTransformInConfig = (find: string, replace: string, config: Config): boo
   return false;
 };
 
+/**
+ * Checks if a filename transform already exists in config.
+ */
+export const isFilenameTransformInConfig = (find: string, replace: string, config: Config): boolean => {
+  if (!config.transforms) return false;
+
+  for (const rules of Object.values(config.transforms))
+    if (rules.filename)
+      for (const rule of rules.filename) if (rule.find === find && rule.replace === replace) return true;
+
+  return false;
+};
+
 // ============================================================================
 // Stop Rule Pattern Detection
 // ============================================================================
@@ -730,14 +829,16 @@ const detectNumericStopRules = (
   const suggestions: StopRuleSuggestion[] = [];
 
   for (const [jsonPath, collection] of valuesByPath) {
-    const numericValues = collection.values
-      .filter((v) => typeof v === 'number' || (typeof v === 'string' && !Number.isNaN(Number(v))))
-      .map(Number);
+    // Numbers, numeric strings and Kubernetes quantities (e.g. "500m", "1Gi")
+    const quantities = collection.values.flatMap((value) => {
+      const number = parseQuantity(value);
+      return number === undefined ? [] : [{ value, number }];
+    });
 
-    if (numericValues.length === 0) continue;
+    if (quantities.length === 0) continue;
 
-    const min = Math.min(...numericValues);
-    const max = Math.max(...numericValues);
+    const min = Math.min(...quantities.map(({ number }) => number));
+    const max = Math.max(...quantities.map(({ number }) => number));
 
     if (min === max) continue;
 
@@ -750,7 +851,12 @@ const detectNumericStopRules = (
     const fileCount = collection.files.size;
     const confidence =
       fileCount === 1 ? CONFIDENCE_DEFAULTS.NUMERIC_SINGLE_FILE : CONFIDENCE_DEFAULTS.NUMERIC_MULTI_FILE;
-    const suggestedMin = Math.max(NUMERIC_MIN_FLOOR, Math.floor(min * NUMERIC_MIN_MULTIPLIER));
+    // Quantities keep the unit of the smallest value (512Mi → 256Mi); the floor only makes sense for counts
+    const unit = getQuantitySuffix(quantities.find(({ number }) => number === min)?.value);
+    const suggestedMin =
+      unit === undefined
+        ? Math.max(NUMERIC_MIN_FLOOR, Math.floor(min * NUMERIC_MIN_MULTIPLIER))
+        : formatQuantity(min * NUMERIC_MIN_MULTIPLIER, unit);
 
     suggestions.push({
       rule: {
@@ -771,19 +877,376 @@ const detectNumericStopRules = (
 /**
  * Checks if a stop rule already exists in config.
  */
-const isStopRuleInConfig = (type: string, path: string, config: Config): boolean => {
+export const isStopRuleInConfig = (type: string, path: string, config: Config): boolean => {
   if (!config.stopRules) return false;
 
   for (const rules of Object.values(config.stopRules))
-    for (const rule of rules) if (rule.type === type && rule.path === path) return true;
+    for (const rule of rules) if (rule.type === type && 'path' in rule && rule.path === path) return true;
 
   return false;
 };
 
+// ============================================================================
+// Skip Path Pattern Detection
+// ============================================================================
+
+/**
+ * Suggests skipPaths for values that differ between source and destination (after the configured
+ * transforms) and that no transform explains: replica counts, resource limits, hostnames and the like.
+ * Keyed array items are addressed with filter syntax (e.g. `env[name=DB_HOST].value`).
+ * @param transformSuggestions - Suggested transforms; differences they explain are not skipPath candidates
+ */
+const analyzeSkipPathPatterns = (
+  differences: ValueDifference[],
+  transformSuggestions: TransformSuggestion[],
+  config: Config,
+  confidenceThreshold: number
+): SkipPathSuggestion[] => {
+  const suggestedPairs = new Set(transformSuggestions.map(({ find, replace }) => `${find}→${replace}`));
+  const occurrences = new Map<string, SkipPathOccurrence>();
+
+  for (const diff of differences) {
+    if (!diff.filterPath || !isSkipPathCandidate(diff, suggestedPairs)) continue;
+
+    if (!occurrences.has(diff.filterPath)) occurrences.set(diff.filterPath, { files: new Set(), examples: [] });
+
+    const occurrence = occurrences.get(diff.filterPath)!;
+    occurrence.files.add(diff.filePath);
+    occurrence.examples.push({
+      oldValue: String(diff.oldValue),
+      targetValue: String(diff.targetValue),
+      path: diff.jsonPath
+    });
+  }
+
+  const suggestions: SkipPathSuggestion[] = [];
+
+  for (const [path, occurrence] of occurrences) {
+    const confidence = calculateSkipPathConfidence(path, occurrence.files.size);
+    if (confidence < confidenceThreshold) continue;
+    if (isSkipPathInConfig(path, config)) continue;
+
+    const fileWord = occurrence.files.size === 1 ? 'file' : 'files';
+    suggestions.push({
+      path,
+      confidence,
+      reason: `Differs in ${occurrence.files.size} ${fileWord} with no matching transform`,
+      affectedFiles: [...occurrence.files],
+      examples: occurrence.examples.slice(0, MAX_EXAMPLES_PER_SUGGESTION)
+    });
+  }
+
+  return suggestions.toSorted((a, b) => b.confidence - a.confidence || a.path.localeCompare(b.path));
+};
+
+/**
+ * A difference is a skipPath candidate when both sides hold a scalar and the change is not something
+ * meant to be synced: a transform pattern, a version bump (guarded by stop rules instead) or generated
+ * noise such as UUIDs and timestamps.
+ */
+const isSkipPathCandidate = (diff: ValueDifference, suggestedPairs: Set<string>): boolean => {
+  const { oldValue, targetValue } = diff;
+  if (oldValue === undefined || targetValue === undefined || isObject(oldValue) || isObject(targetValue)) return false;
+  if (typeof oldValue !== 'string' || typeof targetValue !== 'string') return true;
+
+  if (SEMVER_PATTERN.test(oldValue) || SEMVER_PATTERN.test(targetValue)) return false;
+  if (UUID_PATTERN.test(oldValue) || UUID_PATTERN.test(targetValue)) return false;
+  if (ISO_TIMESTAMP_PATTERN.test(oldValue) || ISO_TIMESTAMP_PATTERN.test(targetValue)) return false;
+
+  // `targetValue` holds the source value and `oldValue` the destination value
+  if (isDerivedBySemanticPattern(targetValue, oldValue)) return false;
+
+  return !findSubstringPatterns(oldValue, targetValue).some(({ find, replace }) =>
+    suggestedPairs.has(`${find}→${replace}`)
+  );
+};
+
+/**
+ * Checks if an environment pair turns the source value into the destination value,
+ * e.g. `app1.uat.example.com` → `app1.prod.example.com` with uat → prod.
+ */
+const isDerivedBySemanticPattern = (sourceValue: string, destinationValue: string): boolean =>
+  SEMANTIC_PATTERNS.some(
+    (semantic) =>
+      sourceValue.includes(semantic.old) && sourceValue.replaceAll(semantic.old, semantic.target) === destinationValue
+  );
+
+const calculateSkipPathConfidence = (path: string, fileCount: number): number => {
+  let confidence: number = SKIP_PATH_CONFIDENCE.SINGLE_FILE;
+  if (fileCount >= 4) confidence = SKIP_PATH_CONFIDENCE.MULTI_FILE_HIGH;
+  else if (fileCount >= 2) confidence = SKIP_PATH_CONFIDENCE.MULTI_FILE_LOW;
+
+  if (isEnvironmentSpecificPath(path)) confidence += SKIP_PATH_CONFIDENCE.ENVIRONMENT_KEY_BOOST;
+
+  return Math.min(confidence, CONFIDENCE_DEFAULTS.MAX_CONFIDENCE);
+};
+
+const isEnvironmentSpecificPath = (path: string): boolean =>
+  path
+    .toLowerCase()
+    .split(/[^a-z]+/)
+    .some((word) => (ENVIRONMENT_SPECIFIC_KEYWORDS as readonly string[]).includes(word));
+
+/**
+ * Checks if a skipPath already exists in config.
+ */
+export const isSkipPathInConfig = (path: string, config: Config): boolean => {
+  if (!config.skipPath) return false;
+
+  for (const paths of Object.values(config.skipPath)) if (paths.includes(path)) return true;
+
+  return false;
+};
+
+// ============================================================================
+// Filename Pattern Detection
+// ============================================================================
+
+// Filename suggestions apply to every file; the rules decide which paths they rename
+const FILENAME_SUGGESTION_PATTERN = '**/*';
+
+// Characters that split a path into the words a filename rule replaces as a whole
+const PATH_SEPARATOR = /[./_-]/;
+
+/**
+ * Suggests filename transforms for files named per environment, which show up as an added file plus a
+ * destination file with no source counterpart (deleted under `prune`), e.g. `values-uat.yaml` and
+ * `values-prod.yaml`. Added files are paired with those destination files by content and path similarity, and
+ * each pair yields a find/replace on the part of the path that differs. Pairs that share a rule become one
+ * `filename` suggestion if the rule renames exactly those files without collisions; otherwise each pair
+ * becomes a literal `filenameFile` entry.
+ */
+const analyzeFilenamePatterns = (
+  diffResult: FileDiffResult,
+  destinationFiles: FileMap,
+  confidenceThreshold: number
+): FilenameSuggestion[] => {
+  const { addedFiles, changedFiles, unchangedFiles } = diffResult;
+  const sourcePaths = [
+    ...changedFiles.map((file) => file.path),
+    ...unchangedFiles,
+    ...addedFiles.map((file) => file.path)
+  ];
+  const sourcePathSet = new Set(sourcePaths);
+  const deletedFiles = [...destinationFiles.keys()].filter((filePath) => !sourcePathSet.has(filePath));
+  if (addedFiles.length * deletedFiles.length > FILENAME_PAIRING.MAX_COMPARISONS) return [];
+  const pairs = pairAddedWithDeletedFiles(addedFiles, deletedFiles, destinationFiles);
+  const suggestions: FilenameSuggestion[] = [];
+
+  // Try the differing words alone (`uat`), then with their separators (`-uat.`), then one literal entry per pair
+  for (const group of groupPairsByRule(pairs, false)) {
+    if (renamesExactly(sourcePaths, group.rule, group.pairs)) {
+      suggestions.push(createFilenameSuggestion(group.rule, false, group.pairs));
+      continue;
+    }
+
+    for (const narrowGroup of groupPairsByRule(group.pairs, true)) {
+      if (renamesExactly(sourcePaths, narrowGroup.rule, narrowGroup.pairs)) {
+        suggestions.push(createFilenameSuggestion(narrowGroup.rule, false, narrowGroup.pairs));
+        continue;
+      }
+
+      // filenameFile keys are matched literally, like escapeRegex(key) in the transform file loader
+      for (const pair of narrowGroup.pairs) {
+        const rule = { find: escapeRegex(pair.sourcePath), replace: pair.destinationPath };
+        if (renamesExactly(sourcePaths, rule, [pair]))
+          suggestions.push(
+            createFilenameSuggestion({ find: pair.sourcePath, replace: pair.destinationPath }, true, [pair])
+          );
+      }
+    }
+  }
+
+  return suggestions
+    .filter((suggestion) => suggestion.confidence >= confidenceThreshold)
+    .toSorted((a, b) => b.confidence - a.confidence || a.find.localeCompare(b.find));
+};
+
+/**
+ * Pairs added with deleted files greedily, best score first, each file at most once.
+ * Added files are compared after content transforms, so configured value transforms count as matches.
+ */
+const pairAddedWithDeletedFiles = (
+  addedFiles: AddedFile[],
+  deletedFiles: string[],
+  destinationFiles: FileMap
+): FilenamePair[] => {
+  const destinationFingerprints = new Map(
+    deletedFiles.map((filePath) => [filePath, contentFingerprint(filePath, destinationFiles.get(filePath) ?? '')])
+  );
+  const candidates: FilenamePair[] = [];
+
+  for (const added of addedFiles) {
+    const sourceFingerprint = contentFingerprint(added.path, added.processedContent);
+
+    for (const deletedPath of deletedFiles) {
+      const pathSimilarity = calculateSimilarity(added.path, deletedPath);
+      if (pathSimilarity < FILENAME_PAIRING.MIN_PATH_SIMILARITY) continue;
+
+      const contentSimilarity = calculateSetSimilarity(sourceFingerprint, destinationFingerprints.get(deletedPath)!);
+      if (contentSimilarity < FILENAME_PAIRING.MIN_CONTENT_SIMILARITY) continue;
+
+      candidates.push({ sourcePath: added.path, destinationPath: deletedPath, contentSimilarity, pathSimilarity });
+    }
+  }
+
+  const pairedSources = new Set<string>();
+  const pairedDestinations = new Set<string>();
+  const pairs: FilenamePair[] = [];
+
+  for (const candidate of candidates.toSorted((a, b) => scoreFilenamePair(b) - scoreFilenamePair(a))) {
+    if (pairedSources.has(candidate.sourcePath) || pairedDestinations.has(candidate.destinationPath)) continue;
+
+    pairedSources.add(candidate.sourcePath);
+    pairedDestinations.add(candidate.destinationPath);
+    pairs.push(candidate);
+  }
+
+  return pairs;
+};
+
+/**
+ * Structured files are fingerprinted by their key paths, since values differ between environments by design;
+ * other files (and files that fail to parse) by their trimmed, non-empty lines.
+ */
+const contentFingerprint = (filePath: string, content: string): Set<string> => {
+  const handler = getFormatHandler(filePath);
+
+  if (handler)
+    try {
+      const keyPaths = new Set<string>();
+      for (const [index, document] of handler.parse(content).entries()) collectKeyPaths(document, `${index}`, keyPaths);
+      return keyPaths;
+    } catch {
+      // Compared by lines instead
+    }
+
+  return new Set(
+    content
+      .split('\n')
+      .map((line) => line.trim())
+      .filter((line) => line.length > 0)
+  );
+};
+
+const collectKeyPaths = (value: unknown, path: string, keyPaths: Set<string>): void => {
+  if (Array.isArray(value)) for (const item of value) collectKeyPaths(item, `${path}[]`, keyPaths);
+  else if (isObject(value))
+    for (const [key, child] of Object.entries(value as Record<string, unknown>))
+      collectKeyPaths(child, `${path}.${key}`, keyPaths);
+  else keyPaths.add(path);
+};
+
+// Jaccard index: shared entries divided by all entries
+const calculateSetSimilarity = (first: Set<string>, second: Set<string>): number => {
+  let shared = 0;
+  for (const entry of first) if (second.has(entry)) shared++;
+
+  const total = first.size + second.size - shared;
+  return total === 0 ? 0 : shared / total;
+};
+
+const calculateSimilarity = (first: string, second: string): number => {
+  const longest = Math.max(first.length, second.length);
+  return longest === 0 ? 1 : 1 - calculateLevenshteinDistance(first, second) / longest;
+};
+
+const scoreFilenamePair = (pair: FilenamePair): number =>
+  pair.contentSimilarity * FILENAME_PAIRING.CONTENT_WEIGHT +
+  pair.pathSimilarity * (1 - FILENAME_PAIRING.CONTENT_WEIGHT);
+
+// Pairs sharing the same derived rule (regex-escaped find); pairs without a rule are dropped
+const groupPairsByRule = (
+  pairs: FilenamePair[],
+  withSeparators: boolean
+): Array<{ rule: TransformRule; pairs: FilenamePair[] }> => {
+  const groups = new Map<string, { rule: TransformRule; pairs: FilenamePair[] }>();
+
+  for (const pair of pairs) {
+    const rule = deriveFilenameRule(pair.sourcePath, pair.destinationPath, withSeparators);
+    if (!rule) continue;
+
+    const key = `${rule.find}→${rule.replace}`;
+    if (!groups.has(key)) groups.set(key, { rule: { find: escapeRegex(rule.find), replace: rule.replace }, pairs: [] });
+    groups.get(key)!.pairs.push(pair);
+  }
+
+  return [...groups.values()];
+};
+
+/**
+ * The differing part of two paths, widened to whole words (split on `.`, `/`, `_` and `-`),
+ * e.g. `envs/values-uat.yaml` → `envs/values-prod.yaml` gives `uat` → `prod` (`-uat.` → `-prod.` with separators).
+ */
+const deriveFilenameRule = (
+  sourcePath: string,
+  destinationPath: string,
+  withSeparators: boolean
+): { find: string; replace: string } | undefined => {
+  const shortest = Math.min(sourcePath.length, destinationPath.length);
+
+  let prefix = 0;
+  while (prefix < shortest && sourcePath[prefix] === destinationPath[prefix]) prefix++;
+
+  let suffix = 0;
+  while (suffix < shortest - prefix && sourcePath.at(-1 - suffix) === destinationPath.at(-1 - suffix)) suffix++;
+
+  while (prefix > 0 && !PATH_SEPARATOR.test(sourcePath[prefix - 1]!)) prefix--;
+  while (suffix > 0 && !PATH_SEPARATOR.test(sourcePath.at(-suffix)!)) suffix--;
+
+  if (withSeparators) {
+    prefix = Math.max(prefix - 1, 0);
+    suffix = Math.max(suffix - 1, 0);
+  }
+
+  const find = sourcePath.slice(prefix, sourcePath.length - suffix);
+  const replace = destinationPath.slice(prefix, destinationPath.length - suffix);
+
+  return find.length > 0 ? { find, replace } : undefined;
+};
+
+// True if the rule moves each paired file onto its partner, leaves every other file alone and causes no collisions
+const renamesExactly = (sourcePaths: string[], rule: TransformRule, pairs: FilenamePair[]): boolean => {
+  const transforms = { [FILENAME_SUGGESTION_PATTERN]: { filename: [rule] } };
+  const expectedPaths = new Map(pairs.map((pair) => [pair.sourcePath, pair.destinationPath]));
+
+  try {
+    if (detectCollisions(new Map(sourcePaths.map((filePath) => [filePath, ''])), transforms).length > 0) return false;
+
+    return sourcePaths.every(
+      (filePath) => transformFilename(filePath, transforms) === (expectedPaths.get(filePath) ?? filePath)
+    );
+  } catch {
+    // Rules producing invalid or escaping paths are not suggested
+    return false;
+  }
+};
+
+const createFilenameSuggestion = (
+  { find, replace }: TransformRule,
+  literal: boolean,
+  pairs: FilenamePair[]
+): FilenameSuggestion => {
+  const averageScore = pairs.reduce((sum, pair) => sum + scoreFilenamePair(pair), 0) / pairs.length;
+  const boost = pairs.length > 1 ? FILENAME_PAIRING.MULTI_PAIR_BOOST : 0;
+
+  return {
+    find,
+    replace,
+    literal,
+    confidence: Math.min(averageScore + boost, CONFIDENCE_DEFAULTS.MAX_CONFIDENCE),
+    reason: `Lines up ${pairs.length} added file(s) with deleted file(s) of similar content`,
+    pairs
+  };
+};
+
 // ============================================================================
 // Output Formatting
 // ============================================================================
 
+// Quantity strings are quoted so they stay strings (e.g. '256Mi')
+const formatYamlScalar = (value: number | string): string => (typeof value === 'string' ? `'${value}'` : String(value));
+
 /**
  * Formats suggestions as copy-paste ready YAML configuration.
  */
@@ -802,7 +1265,10 @@ export const formatSuggestionsAsYaml = (result: SuggestionResult): string => {
   ];
 
   const allTransforms = [...result.transforms.values()].flat();
-  if (allTransforms.length > 0) {
+  const filenameRules = [...result.filenames]
+    .map(([pattern, suggestions]) => [pattern, suggestions.filter((suggestion) => !suggestion.literal)] as const)
+    .filter(([, suggestions]) => suggestions.length > 0);
+  if (allTransforms.length > 0 || filenameRules.length > 0) {
     lines.push('transforms:');
 
     for (const [pattern] of result.transforms) {
@@ -829,9 +1295,40 @@ export const formatSuggestionsAsYaml = (result: SuggestionResult): string => {
         );
       }
     }
+
+    for (const [pattern, suggestions] of filenameRules) {
+      lines.push(`  '${pattern}':`, '    filename:');
+
+      for (const suggestion of suggestions) {
+        const confidencePct = Math.round(suggestion.confidence * 100);
+        const example = suggestion.pairs[0]!;
+        lines.push(
+          `      # Confidence: ${confidencePct}% | ${suggestion.reason}`,
+          `      # Example: "${example.sourcePath}" → "${example.destinationPath}"`,
+          `      - find: '${escapeYamlString(suggestion.find)}'`,
+          `        replace: '${escapeYamlString(suggestion.replace)}'`
+        );
+      }
+    }
     lines.push('');
   } else lines.push('# No transform suggestions found', '');
 
+  const filenameEntries = [...result.filenames.values()].flat().filter((suggestion) => suggestion.literal);
+  if (filenameEntries.length > 0) {
+    lines.push(
+      "# Suggested filenameFile entries: copy them (uncommented) into a file listed under transforms.'**/*'.filenameFile"
+    );
+
+    for (const suggestion of filenameEntries) {
+      const confidencePct = Math.round(suggestion.confidence * 100);
+      lines.push(
+        `# Confidence: ${confidencePct}% | ${suggestion.reason}`,
+        `# '${escapeYamlString(suggestion.find)}': '${escapeYamlString(suggestion.replace)}'`
+      );
+    }
+    lines.push('');
+  }
+
   const allStopRules = [...result.stopRules.values()].flat();
   if (allStopRules.length > 0) {
     lines.push('stopRules:');
@@ -858,13 +1355,38 @@ export const formatSuggestionsAsYaml = (result: SuggestionResult): string => {
         if (rule.type === 'versionFormat' && 'vPrefix' in rule) lines.push(`      vPrefix: '${rule.vPrefix}'`);
 
         if (rule.type === 'numeric') {
-          if ('min' in rule && rule.min !== undefined) lines.push(`      min: ${rule.min}`);
+          if ('min' in rule && rule.min !== undefined) lines.push(`      min: ${formatYamlScalar(rule.min)}`);
 
-          if ('max' in rule && rule.max !== undefined) lines.push(`      max: ${rule.max}`);
+          if ('max' in rule && rule.max !== undefined) lines.push(`      max: ${formatYamlScalar(rule.max)}`);
         }
       }
     }
-  } else lines.push('# No stop rule suggestions found');
+    lines.push('');
+  } else lines.push('# No stop rule suggestions found', '');
+
+  const allSkipPaths = [...result.skipPaths.values()].flat();
+  if (allSkipPaths.length > 0) {
+    lines.push('skipPath:');
+
+    for (const [pattern, suggestions] of result.skipPaths) {
+      if (suggestions.length === 0) continue;
+
+      lines.push(`  '${pattern}':`);
+
+      for (const suggestion of suggestions) {
+        const confidencePct = Math.round(suggestion.confidence * 100);
+        lines.push(`    # Confidence: ${confidencePct}% | ${suggestion.reason}`);
+
+        if (suggestion.examples.length > 0) {
+          const example = suggestion.examples[0]!;
+          // Source value first, as it reads in a uat → prod sync
+          lines.push(`    # Example: "${example.targetValue}" → "${example.oldValue}"`);
+        }
+
+        lines.push(`    - '${escapeYamlString(suggestion.path)}'`);
+      }
+    }
+  } else lines.push('# No skipPath suggestions found');
 
   return lines.join('\n');
 };
@@ -3,7 +3,17 @@
 // Extracted from fileUpdater.ts for skipPath-aware array merging
 // ============================================================================
 
-import { isFilterSegment, matchesFilter, parseFilterSegment, parseJsonPath } from './jsonPath';
+import type { ArrayMergeConfig, ArrayMergeRule } from '../config';
+import { deepEqual } from './deepEqual';
+import {
+  isFilterSegment,
+  matchesArrayPath,
+  matchesFilter,
+  parseArrayPath,
+  parseFilterSegment,
+  parseJsonPath
+} from './jsonPath';
+import { globalMatcher } from './patternMatcher';
 
 /**
  * Represents a filter that applies to array items during merge operations.
@@ -151,3 +161,229 @@ export const shouldPreserveItem = (
 
   return true;
 };
+
+// ============================================================================
+// Array Merge Strategies (arrayMerge config)
+// ============================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Gets the arrayMerge rules that apply to a specific file path.
+ *
+ * @param filePath - Relative file path to match
+ * @param arrayMerge - arrayMerge config (glob pattern -> rules)
+ * @returns Array of rules that apply to this file
+ */
+export const getArrayMergeRulesForFile = (filePath: string, arrayMerge?: ArrayMergeConfig): ArrayMergeRule[] => {
+  if (!arrayMerge) return [];
+
+  const rules: ArrayMergeRule[] = [];
+
+  for (const [pattern, patternRules] of Object.entries(arrayMerge))
+    if (globalMatcher.match(filePath, pattern)) rules.push(...patternRules);
+
+  return rules;
+};
+
+/**
+ * Checks whether the array at `currentPath` is listed in orderedArrays (compared and merged in order).
+ *
+ * @param currentPath - Object key path of the array
+ * @param orderedPaths - orderedArrays paths for the file
+ */
+export const isOrderedArrayPath = (currentPath: string[], orderedPaths: string[]): boolean =>
+  orderedPaths.some((orderedPath) => matchesArrayPath(currentPath, parseArrayPath(orderedPath)));
+
+/**
+ * Finds the arrayMerge rule for the array at `currentPath` (object keys only, no array indices).
+ * When several rules match, the last one wins so child configs can override inherited rules.
+ *
+ * @param currentPath - Object key path of the array being merged
+ * @param rules - Rules that apply to the file
+ * @returns The matching rule or undefined
+ */
+export const findArrayMergeRule = (currentPath: string[], rules: ArrayMergeRule[]): ArrayMergeRule | undefined =>
+  rules.findLast((rule) => matchesArrayPath(currentPath, parseArrayPath(rule.path)));
+
+/**
+ * Returns the merge key value of an array item, or undefined when the item has none.
+ *
+ * @param item - Array item
+ * @param key - Item property that identifies the item
+ */
+export const getArrayItemKey = (item: unknown, key?: string): unknown =>
+  key !== undefined && isPlainObject(item) ? item[key] : undefined;
+
+// Index of the first unused source item that represents the same element as `targetItem`
+const findSourceMatch = (
+  targetItem: unknown,
+  source: unknown[],
+  used: Set<number>,
+  key: string | undefined
+): number => {
+  if (key === undefined) return source.findIndex((item, index) => !used.has(index) && deepEqual(item, targetItem));
+
+  const targetKey = getArrayItemKey(targetItem, key);
+  if (targetKey === undefined) return -1;
+
+  return source.findIndex((item, index) => !used.has(index) && getArrayItemKey(item, key) === targetKey);
+};
+
+// A paired source item (by index) or a kept destination-only item, in destination order
+type MergedTargetEntry = { sourceIndex: number } | { item: unknown };
+
+// Orders merged items like the source; kept destination-only items follow the item that preceded them in the destination
+const orderBySource = (sourceItems: unknown[], targetEntries: MergedTargetEntry[]): unknown[] => {
+  const sourceSlots = sourceItems.map((value) => ({ value }));
+  const slots = [...sourceSlots];
+  let previous: { value: unknown } | undefined;
+
+  for (const entry of targetEntries) {
+    if ('sourceIndex' in entry) {
+      previous = sourceSlots[entry.sourceIndex];
+      continue;
+    }
+    const slot = { value: entry.item };
+    slots.splice(previous ? slots.indexOf(previous) + 1 : 0, 0, slot);
+    previous = slot;
+  }
+
+  return slots.map((slot) => slot.value);
+};
+
+/**
+ * Merges a source array into a target array using a non-replace arrayMerge strategy.
+ * By default the result keeps the target order: paired items stay in place, destination-only items are kept or
+ * dropped depending on the strategy, and source-only items are appended in source order.
+ * With `keepSourceOrder` (orderedArrays) the source order wins and kept destination-only items stay next to
+ * the item they followed in the destination.
+ *
+ * @param source - Source array (after transforms and skipPath filtering)
+ * @param target - Target (destination) array
+ * @param rule - The arrayMerge rule for this array
+ * @param mergeItem - Merges a paired source/target item (used by mergeByKey and keepDestinationExtras)
+ * @param keepTargetItem - Extra predicate for destination-only items that must survive (e.g. skipPath filters)
+ * @param keepSourceOrder - Whether the array is order-sensitive
+ * @returns The merged array
+ */
+export const mergeArrayByRule = (
+  source: unknown[],
+  target: unknown[],
+  rule: ArrayMergeRule,
+  mergeItem: (sourceItem: unknown, targetItem: unknown) => unknown,
+  keepTargetItem?: (targetItem: unknown) => boolean,
+  keepSourceOrder = false
+): unknown[] => {
+  if (rule.strategy === 'replace') return source;
+
+  const used = new Set<number>();
+  const mergedItems = [...source];
+  const targetEntries: MergedTargetEntry[] = [];
+
+  for (const targetItem of target) {
+    const sourceIndex = findSourceMatch(targetItem, source, used, rule.key);
+    if (sourceIndex !== -1) {
+      used.add(sourceIndex);
+      const sourceItem = source[sourceIndex];
+      mergedItems[sourceIndex] = rule.strategy === 'union' ? sourceItem : mergeItem(sourceItem, targetItem);
+      targetEntries.push({ sourceIndex });
+      continue;
+    }
+
+    if (rule.strategy !== 'mergeByKey' || keepTargetItem?.(targetItem)) targetEntries.push({ item: targetItem });
+  }
+
+  if (keepSourceOrder) return orderBySource(mergedItems, targetEntries);
+
+  return [
+    ...targetEntries.map((entry) => ('item' in entry ? entry.item : mergedItems[entry.sourceIndex])),
+    ...mergedItems.filter((_, index) => !used.has(index))
+  ];
+};
+
+/**
+ * Applies arrayMerge rules to a source value, so it shows what the destination will contain after a sync.
+ * Used for diffing: destination-only items kept by keepDestinationExtras or union then compare as unchanged.
+ *
+ * @param source - Source value (after transforms and skipPath filtering)
+ * @param destination - Destination value (after skipPath filtering)
+ * @param rules - arrayMerge rules for the file
+ * @param orderedPaths - orderedArrays paths for the file (merged in source order)
+ * @param currentPath - Object key path of `source`
+ * @returns The source value with merged arrays (unchanged when no rule applies)
+ */
+export const applyArrayMergeRules = (
+  source: unknown,
+  destination: unknown,
+  rules: ArrayMergeRule[],
+  orderedPaths: string[] = [],
+  currentPath: string[] = []
+): unknown => {
+  if (rules.length === 0) return source;
+
+  if (Array.isArray(source)) {
+    const rule = findArrayMergeRule(currentPath, rules);
+    if (!rule || !Array.isArray(destination)) return source;
+
+    return mergeArrayByRule(
+      source,
+      destination,
+      rule,
+      (sourceItem, targetItem) => applyArrayMergeRules(sourceItem, targetItem, rules, orderedPaths, currentPath),
+      undefined,
+      isOrderedArrayPath(currentPath, orderedPaths)
+    );
+  }
+
+  if (!isPlainObject(source) || !isPlainObject(destination)) return source;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(source))
+    result[key] = Object.hasOwn(destination, key)
+      ? applyArrayMergeRules(value, destination[key], rules, orderedPaths, [...currentPath, key])
+      : value;
+
+  return result;
+};
+
+/**
+ * Orders arrays that have a keyed arrayMerge rule by their merge key, so the same item lines up
+ * on both sides of a diff. Expects normalized values (see normalizeForComparison); items without a key go last.
+ * Arrays at `orderedPaths` keep their order.
+ *
+ * @param value - Normalized value
+ * @param rules - arrayMerge rules for the file
+ * @param orderedPaths - orderedArrays paths for the file
+ * @param currentPath - Object key path of `value`
+ * @returns A copy of `value` with keyed arrays sorted (unchanged when no keyed rule applies)
+ */
+export const sortArraysByMergeKey = (
+  value: unknown,
+  rules: ArrayMergeRule[],
+  orderedPaths: string[] = [],
+  currentPath: string[] = []
+): unknown => {
+  if (rules.length === 0) return value;
+
+  if (Array.isArray(value)) {
+    const items = value.map((item) => sortArraysByMergeKey(item, rules, orderedPaths, currentPath));
+    const key = findArrayMergeRule(currentPath, rules)?.key;
+    if (key === undefined || isOrderedArrayPath(currentPath, orderedPaths)) return items;
+
+    const withKey = items.filter((item) => getArrayItemKey(item, key) !== undefined);
+    const withoutKey = items.filter((item) => getArrayItemKey(item, key) === undefined);
+    withKey.sort((a, b) => String(getArrayItemKey(a, key)).localeCompare(String(getArrayItemKey(b, key))));
+
+    return [...withKey, ...withoutKey];
+  }
+
+  if (!isPlainObject(value)) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value))
+    result[key] = sortArraysByMergeKey(item, rules, orderedPaths, [...currentPath, key]);
+
+  return result;
+};
@@ -62,3 +62,42 @@ export const validateNoCollisions = (collisions: CollisionInfo[]): void => {
 
   throw collisionError;
 };
+
+// ============================================================================
+// Key Collision Detection
+// ============================================================================
+
+const KeyCollisionErrorClass = createErrorClass('Key Collision Error', {
+  DUPLICATE_TRANSFORMED_KEY: 'Multiple keys transform to the same key'
+});
+
+export class KeyCollisionError extends KeyCollisionErrorClass {}
+export const isKeyCollisionError = createErrorTypeGuard(KeyCollisionError);
+
+export interface KeyCollisionInfo {
+  path: string; // JSONPath of the map holding the keys, e.g. `$.databases`
+  transformedKey: string;
+  originalKeys: string[];
+}
+
+export const validateNoKeyCollisions = (collisions: KeyCollisionInfo[], filePath: string): void => {
+  if (collisions.length === 0) return;
+
+  const collisionDetails = collisions
+    .map((collision) => `  ${collision.path}: ${collision.transformedKey} <- [${collision.originalKeys.join(', ')}]`)
+    .join('\n');
+
+  const collisionError = new KeyCollisionError(`Multiple keys transform to the same key:\n${collisionDetails}`, {
+    code: 'DUPLICATE_TRANSFORMED_KEY',
+    path: filePath,
+    details: JSON.stringify(collisions)
+  });
+
+  collisionError.message += '\n\n  Hint: Make your key transforms more specific:';
+  collisionError.message += "\n    - Anchor the pattern to the whole key: { find: '^uat-db$', replace: 'prod-db' }";
+  collisionError.message +=
+    "\n    - Or limit the rule to one map: { find: '^uat-', replace: 'prod-', paths: ['databases'] }";
+  collisionError.message += '\n    - Check the collision details above for conflicting keys';
+
+  throw collisionError;
+};
@@ -14,7 +14,8 @@ export const deepEqual = (a: unknown, b: unknown): boolean => {
 };
 
 // Structural deep equality - directly compares object structures
-const deepEqualStructural = (a: unknown, b: unknown): boolean => {
+// Array order matters, so callers with already-normalized values (e.g. keeping orderedArrays in order) use it directly
+export const deepEqualStructural = (a: unknown, b: unknown): boolean => {
   if (a === b) return true;
 
   if (a === null || b === null) return a === b;
@@ -1,5 +1,24 @@
 // ============================================================================
 
 const YAML_FILE_REGEX = /\.ya?ml$/i;
+const JSON_FILE_REGEX = /\.json$/i;
+const PROPERTIES_FILE_REGEX = /\.properties$/i;
+const TOML_FILE_REGEX = /\.toml$/i;
+// `.env`, `.env.production`, `app.env`
+const DOTENV_FILE_REGEX = /(?:^|[/\\])\.env(?:\.[^/\\]+)?$|\.env$/i;
 
 export const isYamlFile = (filePath: string): boolean => YAML_FILE_REGEX.test(filePath);
+
+export const isJsonFile = (filePath: string): boolean => JSON_FILE_REGEX.test(filePath);
+
+export const isPropertiesFile = (filePath: string): boolean => PROPERTIES_FILE_REGEX.test(filePath);
+
+export const isTomlFile = (filePath: string): boolean => TOML_FILE_REGEX.test(filePath);
+
+// Other extensions win, so `.env.json` is still a JSON file
+export const isDotenvFile = (filePath: string): boolean =>
+  DOTENV_FILE_REGEX.test(filePath) &&
+  !isYamlFile(filePath) &&
+  !isJsonFile(filePath) &&
+  !isPropertiesFile(filePath) &&
+  !isTomlFile(filePath);
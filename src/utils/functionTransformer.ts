@@ -0,0 +1,78 @@
+// ============================================================================
+// Function Transform Utilities
+// ============================================================================
+
+import type { FunctionTransform, TransformConfig } from '../config';
+import { globalMatcher } from './patternMatcher';
+
+// Whole-value semver with optional `v` prefix; pre-release and build metadata are dropped when bumping
+const SEMVER_VALUE_PATTERN = /^(v?)(\d+)\.(\d+)\.(\d+)(?:[+-][\w+.-]*)?$/;
+
+const BASE64_PATTERN = /^(?:[\d+/A-Za-z]{4})*(?:[\d+/A-Za-z]{2}==|[\d+/A-Za-z]{3}=)?$/;
+
+const bumpSemver = (value: string, part: 'major' | 'minor' | 'patch'): string => {
+  const match = SEMVER_VALUE_PATTERN.exec(value);
+  if (!match) return value;
+
+  const [, prefix, major, minor, patch] = match;
+  const [nextMajor, nextMinor, nextPatch] =
+    part === 'major'
+      ? [Number(major) + 1, 0, 0]
+      : part === 'minor'
+        ? [Number(major), Number(minor) + 1, 0]
+        : [Number(major), Number(minor), Number(patch) + 1];
+
+  return `${prefix}${nextMajor}.${nextMinor}.${nextPatch}`;
+};
+
+// Buffer decoding skips invalid characters, so only well-formed base64 is decoded
+const decodeBase64 = (value: string): string =>
+  BASE64_PATTERN.test(value) ? Buffer.from(value, 'base64').toString('utf8') : value;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Gets function transforms that apply to a specific file path.
+ * @param filePath - Relative file path to match
+ * @param transforms - Transforms config (glob pattern -> rules)
+ * @returns Function transforms of all matching patterns, in config order
+ */
+export const getFunctionTransformsForFile = (filePath: string, transforms?: TransformConfig): FunctionTransform[] => {
+  if (!transforms) return [];
+
+  const functions: FunctionTransform[] = [];
+
+  for (const [pattern, transformRules] of Object.entries(transforms))
+    if (globalMatcher.match(filePath, pattern)) functions.push(...(transformRules.functions ?? []));
+
+  return functions;
+};
+
+/**
+ * Applies one function transform to a string value.
+ * Values the function does not apply to (invalid base64, non-semver versions) are returned unchanged.
+ */
+export const applyFunctionTransform = (value: string, transform: FunctionTransform): string => {
+  if ('base64Encode' in transform) return Buffer.from(value, 'utf8').toString('base64');
+  if ('base64Decode' in transform) return decodeBase64(value);
+  if ('upper' in transform) return value.toUpperCase();
+  if ('lower' in transform) return value.toLowerCase();
+  if ('semverBump' in transform) return bumpSemver(value, transform.semverBump);
+  if ('prefix' in transform) return `${transform.prefix}${value}`;
+  return `${value}${transform.suffix}`;
+};
+
+/**
+ * Describes a function transform for reports, e.g. `semverBump patch image.tag`.
+ */
+export const describeFunctionTransform = (transform: FunctionTransform): string => {
+  if ('base64Encode' in transform) return `base64Encode ${transform.path}`;
+  if ('base64Decode' in transform) return `base64Decode ${transform.path}`;
+  if ('upper' in transform) return `upper ${transform.path}`;
+  if ('lower' in transform) return `lower ${transform.path}`;
+  if ('semverBump' in transform) return `semverBump ${transform.semverBump} ${transform.path}`;
+  if ('prefix' in transform) return `prefix '${transform.prefix}' ${transform.path}`;
+  return `suffix '${transform.suffix}' ${transform.path}`;
+};
@@ -7,8 +7,8 @@ export type { ErrorOptions } from './errors';
 export { createErrorClass, createErrorTypeGuard } from './errors';
 
 // Comparison utilities
-export { deepEqual } from './deepEqual';
-export { normalizeForComparison, serializeForDiff } from './serialization';
+export { deepEqual, deepEqualStructural } from './deepEqual';
+export { normalizeForComparison, serializeForDiff, serializeJsonForDiff } from './serialization';
 
 // Path utilities
 export type { FilterOperator } from './jsonPath';
@@ -16,13 +16,18 @@ export {
   clearJsonPathCache,
   getValueAtPath,
   isFilterSegment,
+  matchesArrayPath,
   matchesFilter,
+  parseArrayPath,
   parseFilterSegment,
   parseJsonPath
 } from './jsonPath';
 
 // File utilities
-export { isYamlFile } from './fileType';
+export { isDotenvFile, isJsonFile, isPropertiesFile, isTomlFile, isYamlFile } from './fileType';
+
+// JSON content utilities
+export { detectJsonIndent, parseJsonContent, stringifyJson } from './jsonContent';
 
 // Pattern matching utilities
 export { globalMatcher, PatternMatcher } from './patternMatcher';
@@ -74,6 +79,9 @@ export { applyRegexRulesSequentially } from './regexTransform';
 // Version validation utilities
 export { validateVersionString, type VersionValidationResult, type VPrefixMode } from './versionValidator';
 
+// Kubernetes quantity parsing
+export { formatQuantity, getQuantitySuffix, parseQuantity } from './quantityParser';
+
 // YAML type guards and helpers
 export {
   extractKeyValue,
@@ -102,18 +110,49 @@ export {
   UUID_PATTERN
 } from './suggestionConstants';
 
+// Structural transform utilities
+export {
+  applyStructuralTransforms,
+  describeStructuralTransform,
+  getStructuralTransformsForFile
+} from './structuralTransformer';
+
+// Function transform utilities
+export { applyFunctionTransform, describeFunctionTransform, getFunctionTransformsForFile } from './functionTransformer';
+
 // Fixed values utilities
 export { applyFixedValues, getFixedValuesForFile, setValueAtPath } from './fixedValues';
 
 // Array merger utilities
 export type { ApplicableFilter } from './arrayMerger';
 export {
+  applyArrayMergeRules,
+  findArrayMergeRule,
   findMatchingTargetItem,
   getApplicableArrayFilters,
+  getArrayItemKey,
+  getArrayMergeRulesForFile,
+  isOrderedArrayPath,
   itemMatchesAnyFilter,
-  shouldPreserveItem
+  mergeArrayByRule,
+  shouldPreserveItem,
+  sortArraysByMergeKey
 } from './arrayMerger';
 
+// Multi-document YAML utilities
+export type { YamlDocumentPair } from './multiDocumentYaml';
+export {
+  getDocumentIdentity,
+  joinYamlDocuments,
+  mapYamlDocuments,
+  matchYamlDocuments,
+  parseYamlDocuments,
+  stringifyYamlDocuments
+} from './multiDocumentYaml';
+
+// Comment-preserving YAML document patching
+export { patchYamlDocument } from './yamlDocumentPatcher';
+
 // Comment-only file detection
 export { isCommentOnlyContent } from './commentOnlyDetector';
 
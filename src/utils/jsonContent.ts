@@ -0,0 +1,34 @@
+import { JSON_DEFAULT_INDENT } from '../constants';
+
+// ============================================================================
+// JSON Content Utilities
+// ============================================================================
+
+const INDENTED_LINE_REGEX = /\n([\t ]+)\S/;
+
+/**
+ * Parses JSON file content. Empty files parse to null, mirroring `YAML.parse`.
+ *
+ * @throws SyntaxError when the content is not valid JSON
+ */
+export const parseJsonContent = (content: string): unknown =>
+  // eslint-disable-next-line unicorn/no-null -- empty files are represented as null, like YAML.parse
+  content.trim() === '' ? null : JSON.parse(content);
+
+/**
+ * Detects the indentation used by existing JSON content so rewritten files keep their style.
+ * Single-line (minified) content returns 0; content without indented lines falls back to the default.
+ */
+export const detectJsonIndent = (content: string): number | string => {
+  const trimmed = content.trim();
+  if (trimmed !== '' && !trimmed.includes('\n')) return 0;
+
+  const indentation = INDENTED_LINE_REGEX.exec(content)?.[1];
+  if (!indentation) return JSON_DEFAULT_INDENT;
+
+  return indentation.startsWith('\t') ? '\t' : indentation.length;
+};
+
+// Serializes a value as JSON with a trailing newline
+export const stringifyJson = (value: unknown, indent: number | string = JSON_DEFAULT_INDENT): string =>
+  `${JSON.stringify(value, undefined, indent)}\n`;
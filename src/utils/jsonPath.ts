@@ -151,6 +151,16 @@ export const parseJsonPath = (path: string): string[] => {
   return parsed;
 };
 
+// Parses the path of an array into object keys only (used by arrayMerge and orderedArrays)
+// Array items add no segment, so `containers[*].env` and `containers.env` are the same path; a leading `$` is dropped
+export const parseArrayPath = (path: string): string[] =>
+  parseJsonPath(path.replaceAll('[*]', '')).filter((segment) => segment !== '$');
+
+// Checks an object key path against parsed array path segments; `*` matches any single key
+export const matchesArrayPath = (currentPath: string[], arrayPath: string[]): boolean =>
+  arrayPath.length === currentPath.length &&
+  arrayPath.every((segment, index) => segment === '*' || segment === currentPath[index]);
+
 // Clears the JSONPath cache (useful for testing)
 export const clearJsonPathCache = (): void => {
   pathCache.clear();
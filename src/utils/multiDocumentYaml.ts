@@ -0,0 +1,153 @@
+/**
+ * Multi-document YAML helpers.
+ * Splits `---` separated streams (e.g. raw Kubernetes manifests) into documents and pairs
+ * source/destination documents by resource identity, falling back to document position.
+ */
+
+import YAML from 'yaml';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface YamlDocumentPair {
+  label: string; // Resource identity (apiVersion/kind/name) or positional label ("document 2")
+  sourceIndex?: number; // Undefined when the document only exists in the destination
+  destinationIndex?: number; // Undefined when the document only exists in the source
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+// Document start/end markers at column 0; anything else cannot start a second document
+const DOCUMENT_MARKER_PATTERN = /^(?:-{3}|\.{3})(?:\s|$)/m;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Empty documents serialize to an empty body so they survive a round-trip as a bare `---`
+const stringifyDocument = (value: unknown): string => (value === null ? '' : YAML.stringify(value));
+
+const getPositionalLabel = (index: number): string => `document ${index + 1}`;
+
+// Identities only conflict when both documents declare one and they differ
+const canPairByPosition = (sourceIdentity: string | undefined, destinationIdentity: string | undefined): boolean =>
+  sourceIdentity === undefined || destinationIdentity === undefined;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parses a YAML stream into one plain value per document.
+ * Single-document content is parsed exactly like `YAML.parse`, so callers can treat
+ * a result of length 1 as a regular YAML file.
+ *
+ * @throws The first YAML parse error found in any document
+ */
+export const parseYamlDocuments = (content: string): unknown[] => {
+  if (!DOCUMENT_MARKER_PATTERN.test(content)) return [YAML.parse(content)];
+
+  const documents = YAML.parseAllDocuments(content);
+  const firstError = documents.flatMap((document) => document.errors)[0];
+  if (firstError) throw firstError;
+
+  if (documents.length <= 1) return [YAML.parse(content)];
+
+  return documents.map((document) => document.toJS());
+};
+
+/**
+ * Returns the Kubernetes-style identity of a document (`apiVersion/kind/metadata.name`),
+ * or undefined when any of the three fields is missing.
+ */
+export const getDocumentIdentity = (value: unknown): string | undefined => {
+  if (!isPlainObject(value)) return undefined;
+
+  const { apiVersion, kind, metadata } = value;
+  const name = isPlainObject(metadata) ? metadata['name'] : undefined;
+  if (typeof apiVersion !== 'string' || typeof kind !== 'string' || typeof name !== 'string') return undefined;
+
+  return `${apiVersion}/${kind}/${name}`;
+};
+
+/**
+ * Pairs source and destination documents.
+ * Documents with the same identity are matched first (in order, so duplicates pair up one by one);
+ * the remaining documents are matched by position unless both declare different identities.
+ * Pairs are returned in source order, followed by documents that only exist in the destination.
+ */
+export const matchYamlDocuments = (sourceDocuments: unknown[], destinationDocuments: unknown[]): YamlDocumentPair[] => {
+  const sourceIdentities = sourceDocuments.map((document) => getDocumentIdentity(document));
+  const destinationIdentities = destinationDocuments.map((document) => getDocumentIdentity(document));
+  const destinationForSource = new Map<number, number>();
+  const usedDestinations = new Set<number>();
+
+  // First pass: match by identity
+  for (const [sourceIndex, identity] of sourceIdentities.entries()) {
+    if (identity === undefined) continue;
+    const destinationIndex = destinationIdentities.findIndex(
+      (candidate, index) => candidate === identity && !usedDestinations.has(index)
+    );
+    if (destinationIndex === -1) continue;
+    destinationForSource.set(sourceIndex, destinationIndex);
+    usedDestinations.add(destinationIndex);
+  }
+
+  // Second pass: fall back to position for documents without a matching identity
+  for (const [sourceIndex, identity] of sourceIdentities.entries()) {
+    if (destinationForSource.has(sourceIndex)) continue;
+    const destinationIndex = destinationIdentities.findIndex(
+      (candidate, index) => !usedDestinations.has(index) && canPairByPosition(identity, candidate)
+    );
+    if (destinationIndex === -1) continue;
+    destinationForSource.set(sourceIndex, destinationIndex);
+    usedDestinations.add(destinationIndex);
+  }
+
+  const pairs: YamlDocumentPair[] = sourceIdentities.map((identity, sourceIndex) => {
+    const destinationIndex = destinationForSource.get(sourceIndex);
+    const destinationIdentity = destinationIndex === undefined ? undefined : destinationIdentities[destinationIndex];
+    return {
+      label: identity ?? destinationIdentity ?? getPositionalLabel(sourceIndex),
+      sourceIndex,
+      destinationIndex
+    };
+  });
+
+  for (const [destinationIndex, identity] of destinationIdentities.entries())
+    if (!usedDestinations.has(destinationIndex))
+      pairs.push({ label: identity ?? getPositionalLabel(destinationIndex), destinationIndex });
+
+  return pairs;
+};
+
+/**
+ * Joins serialized documents into a single YAML stream, inserting `---` separators
+ * where a document does not already start with one. Blank documents are kept as a bare `---`.
+ */
+export const joinYamlDocuments = (documents: string[]): string =>
+  documents
+    .map((document, index) => {
+      if (document.trim() === '') return '---\n';
+      const text = document.endsWith('\n') ? document : `${document}\n`;
+      return index === 0 || text.startsWith('---') ? text : `---\n${text}`;
+    })
+    .join('');
+
+/**
+ * Serializes plain values as a YAML stream. A single value is serialized exactly like `YAML.stringify`.
+ */
+export const stringifyYamlDocuments = (documents: unknown[]): string => {
+  if (documents.length === 1) return YAML.stringify(documents[0]);
+
+  return joinYamlDocuments(documents.map((document) => stringifyDocument(document)));
+};
+
+/**
+ * Applies `mapper` to every document of a YAML stream and serializes the result.
+ * Single-document content round-trips exactly like `YAML.stringify(mapper(YAML.parse(content)))`.
+ */
+export const mapYamlDocuments = (content: string, mapper: (value: unknown) => unknown): string =>
+  stringifyYamlDocuments(parseYamlDocuments(content).map((document) => mapper(document)));
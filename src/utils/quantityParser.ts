@@ -0,0 +1,82 @@
+/**
+ * Kubernetes quantity parsing.
+ * Turns values such as `512Mi`, `2Gi`, `500m` or `1e3` into plain numbers so they can be compared.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Binary (power of 1024) and decimal (power of 1000) suffixes, as accepted by Kubernetes
+const QUANTITY_SUFFIXES: Record<string, number> = {
+  Ki: 1024,
+  Mi: 1024 ** 2,
+  Gi: 1024 ** 3,
+  Ti: 1024 ** 4,
+  Pi: 1024 ** 5,
+  Ei: 1024 ** 6,
+  n: 1e-9,
+  u: 1e-6,
+  m: 1e-3,
+  k: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12,
+  P: 1e15,
+  E: 1e18
+};
+
+const QUANTITY_PATTERN = /^([+-]?(?:\d+(?:\.\d*)?|\.\d+))(?:[Ee]([+-]?\d+)|(Ki|Mi|Gi|Ti|Pi|Ei|[EGMPTkmnu]))?$/;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parses a number or Kubernetes quantity string into its value in base units.
+ *
+ * @param value - Number, or string like `3`, `0.5`, `500m`, `512Mi`, `2Gi`, `1e3`
+ * @returns The numeric value, or undefined if the value is not a quantity
+ *
+ * @example
+ * parseQuantity('500m')  // 0.5
+ * parseQuantity('512Mi') // 536870912
+ * parseQuantity(3)       // 3
+ * parseQuantity('large') // undefined
+ */
+export const parseQuantity = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  if (typeof value !== 'string') return undefined;
+
+  const match = QUANTITY_PATTERN.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, mantissa, exponent, suffix] = match;
+  const base = Number(mantissa);
+
+  if (exponent !== undefined) return base * 10 ** Number(exponent);
+  if (suffix !== undefined) return base * QUANTITY_SUFFIXES[suffix]!;
+  return base;
+};
+
+/**
+ * Returns the unit suffix of a quantity string (e.g. `Mi` for `512Mi`, `m` for `500m`), or undefined
+ * for plain numbers, exponent notation and values that are not quantities.
+ */
+export const getQuantitySuffix = (value: unknown): string | undefined =>
+  typeof value === 'string' ? QUANTITY_PATTERN.exec(value.trim())?.[3] : undefined;
+
+/**
+ * Formats a value in base units as a quantity with the given suffix.
+ *
+ * @example
+ * formatQuantity(268435456, 'Mi') // '256Mi'
+ * formatQuantity(0.25, 'm')       // '250m'
+ */
+export const formatQuantity = (value: number, suffix?: string): string => {
+  const factor = suffix === undefined ? 1 : QUANTITY_SUFFIXES[suffix];
+  if (factor === undefined) return String(value);
+
+  // toPrecision rounds away floating point noise such as 250.00000000000003
+  return `${Number((value / factor).toPrecision(12))}${suffix ?? ''}`;
+};
@@ -120,7 +120,7 @@ export const validateTargetedRegex = (options: RegexValidationOptions): StopRule
       return {
         file: options.filePath,
         rule: options.rule,
-        path: options.rule.path ?? '(unknown)',
+        path: ('path' in options.rule && options.rule.path) || '(unknown)',
         oldValue: options.oldValue,
         updatedValue: options.updatedValue,
         message: `Value "${stringValue}" matches forbidden pattern${patternInfo}`
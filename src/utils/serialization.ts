@@ -1,5 +1,7 @@
 import YAML from 'yaml';
 
+import { matchesArrayPath, parseArrayPath } from './jsonPath';
+
 // ============================================================================
 // YAML Serialization Utilities
 // ============================================================================
@@ -32,8 +34,49 @@ const deepSortKeys = (value: unknown): unknown => {
   return value;
 };
 
+// Serializes parsed JSON content for diffing, with sorted keys so key moves do not show as changes
+export const serializeJsonForDiff = (content?: unknown): string =>
+  content === undefined ? '' : `${JSON.stringify(deepSortKeys(content), undefined, 2)}\n`;
+
+// Sorts normalized array items by their canonical JSON form
+const sortNormalizedItems = (normalized: unknown[]): unknown[] => {
+  // Use JSON.stringify with sorted keys as sort key — ~3-5x faster than YAML.stringify
+  const serializedItems = normalized.map((item) => ({
+    item,
+    // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- JSON.stringify returns undefined at runtime for `undefined` elements despite the TS type saying string
+    serialized: JSON.stringify(deepSortKeys(item)) ?? ''
+  }));
+
+  return serializedItems.toSorted((a, b) => a.serialized.localeCompare(b.serialized)).map(({ item }) => item);
+};
+
+// Path-aware variant of normalizeForComparison: arrays at `orderedPaths` keep their order
+const normalizeWithOrderedPaths = (value: unknown, orderedPaths: string[][], currentPath: string[]): unknown => {
+  if (value === null || value === undefined || typeof value !== 'object') return value;
+
+  if (Array.isArray(value)) {
+    const normalized = value.map((item) => normalizeWithOrderedPaths(item, orderedPaths, currentPath));
+    const isOrdered = orderedPaths.some((orderedPath) => matchesArrayPath(currentPath, orderedPath));
+    return isOrdered ? normalized : sortNormalizedItems(normalized);
+  }
+
+  const normalized: Record<string, unknown> = {};
+  for (const [key, value_] of Object.entries(value))
+    normalized[key] = normalizeWithOrderedPaths(value_, orderedPaths, [...currentPath, key]);
+
+  return normalized;
+};
+
 // Normalizes values for deep comparison by sorting arrays and recursively processing objects
-export const normalizeForComparison = (value: unknown): unknown => {
+// Arrays at `orderedPaths` (orderedArrays config, see parseArrayPath) keep their order so reorders count as changes
+export const normalizeForComparison = (value: unknown, orderedPaths: string[] = []): unknown => {
+  if (orderedPaths.length > 0)
+    return normalizeWithOrderedPaths(
+      value,
+      orderedPaths.map((orderedPath) => parseArrayPath(orderedPath)),
+      []
+    );
+
   if (value === null || value === undefined) return value;
 
   const valueType = typeof value;
@@ -42,14 +85,7 @@ export const normalizeForComparison = (value: unknown): unknown => {
   if (Array.isArray(value)) {
     const normalized = value.map((item) => normalizeForComparison(item));
 
-    // Use JSON.stringify with sorted keys as sort key — ~3-5x faster than YAML.stringify
-    const serializedItems = normalized.map((item) => ({
-      item,
-      // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition -- JSON.stringify returns undefined at runtime for `undefined` elements despite the TS type saying string
-      serialized: JSON.stringify(deepSortKeys(item)) ?? ''
-    }));
-
-    return serializedItems.toSorted((a, b) => a.serialized.localeCompare(b.serialized)).map(({ item }) => item);
+    return sortNormalizedItems(normalized);
   }
 
   if (typeof value === 'object') {
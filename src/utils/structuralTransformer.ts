@@ -0,0 +1,205 @@
+// ============================================================================
+// Structural Transform Utilities
+// ============================================================================
+
+import type { StructuralTransform, TransformConfig } from '../config';
+import { isFilterSegment, matchesFilter, parseFilterSegment, parseJsonPath } from './jsonPath';
+import { globalMatcher } from './patternMatcher';
+
+type Container = Record<string, unknown> | unknown[];
+
+// Keys that would write onto an object's prototype instead of the document
+const DANGEROUS_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+// A key or index inside a container that currently holds a value
+interface Location {
+  container: Container;
+  key: string | number;
+}
+
+const isContainer = (value: unknown): value is Container => typeof value === 'object' && value !== null;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => isContainer(value) && !Array.isArray(value);
+
+const readLocation = (location: Location): unknown => (location.container as Record<string, unknown>)[location.key];
+
+// Structural paths are relative to the document root, so a leading `$` adds nothing
+const parseStructuralPath = (path: string): string[] => {
+  const segments = parseJsonPath(path);
+  return segments[0] === '$' ? segments.slice(1) : segments;
+};
+
+// Locations selected by one segment: a key, an array index, `*` (every child) or a filter (every matching item)
+const selectChildren = (container: Container, segment: string): Location[] => {
+  if (Array.isArray(container)) {
+    if (segment === '*') return container.map((_, index) => ({ container, key: index }));
+
+    if (isFilterSegment(segment)) {
+      const filter = parseFilterSegment(segment);
+      if (!filter) return [];
+      return container.flatMap((item, index) =>
+        isPlainObject(item) && matchesFilter(item[filter.property], filter) ? [{ container, key: index }] : []
+      );
+    }
+
+    const index = Number(segment);
+    return Number.isInteger(index) && index >= 0 && index < container.length ? [{ container, key: index }] : [];
+  }
+
+  if (segment === '*') return Object.keys(container).map((key) => ({ container, key }));
+  if (isFilterSegment(segment)) return [];
+
+  return Object.hasOwn(container, segment) ? [{ container, key: segment }] : [];
+};
+
+// Every existing location matched by a path, in document order
+const findLocations = (root: unknown, segments: string[]): Location[] => {
+  if (segments.length === 0 || !isContainer(root)) return [];
+
+  let containers: Container[] = [root];
+  for (const segment of segments.slice(0, -1))
+    containers = containers
+      .flatMap((container) => selectChildren(container, segment))
+      .map((location) => readLocation(location))
+      .filter((value) => isContainer(value));
+
+  const lastSegment = segments.at(-1)!;
+  return containers.flatMap((container) => selectChildren(container, lastSegment));
+};
+
+// Removes locations back to front so array indexes of earlier matches stay valid
+const removeLocations = (locations: Location[]): void => {
+  for (const location of locations.toReversed())
+    if (Array.isArray(location.container)) location.container.splice(location.key as number, 1);
+    else delete location.container[location.key as string];
+};
+
+// Walks to the object a value is written into, creating missing objects on the way.
+// Returns undefined when an existing scalar or array is in the way; with `create` false nothing is modified.
+const resolveTargetObject = (
+  root: Record<string, unknown>,
+  segments: string[],
+  create: boolean
+): Record<string, unknown> | undefined => {
+  let current = root;
+
+  for (const segment of segments) {
+    if (DANGEROUS_KEYS.has(segment)) return undefined;
+    const next = current[segment];
+    if (next === undefined) {
+      if (!create) return current;
+      const created: Record<string, unknown> = {};
+      current[segment] = created;
+      current = created;
+      continue;
+    }
+    if (!isPlainObject(next)) return undefined;
+    current = next;
+  }
+
+  return current;
+};
+
+// Renames a key in place while keeping its position; an existing key with the new name is replaced
+const renameKeyInPlace = (object: Record<string, unknown>, from: string, to: string): void => {
+  const entries = Object.entries(object);
+  for (const key of Object.keys(object)) delete object[key];
+  for (const [key, value] of entries) {
+    if (key === to && key !== from) continue;
+    object[key === from ? to : key] = value;
+  }
+};
+
+// ============================================================================
+// Operations
+// ============================================================================
+
+const applyMove = (root: unknown, from: string, to: string): void => {
+  const source = findLocations(root, parseStructuralPath(from))[0];
+  const targetSegments = parseStructuralPath(to);
+  const targetKey = targetSegments.at(-1);
+  if (!source || targetKey === undefined || DANGEROUS_KEYS.has(targetKey) || !isPlainObject(root)) return;
+
+  // Check the target first so a blocked move leaves the value where it was
+  const parentSegments = targetSegments.slice(0, -1);
+  if (!resolveTargetObject(root, parentSegments, false)) return;
+
+  const value = readLocation(source);
+  removeLocations([source]);
+
+  const target = resolveTargetObject(root, parentSegments, true);
+  if (target) target[targetKey] = value;
+};
+
+const applyRenameKey = (root: unknown, path: string, to: string): void => {
+  if (DANGEROUS_KEYS.has(to)) return;
+  for (const location of findLocations(root, parseStructuralPath(path)))
+    if (isPlainObject(location.container)) renameKeyInPlace(location.container, location.key as string, to);
+};
+
+const applyDelete = (root: unknown, path: string): void => {
+  removeLocations(findLocations(root, parseStructuralPath(path)));
+};
+
+const applyWrap = (root: unknown, path: string, key: string): void => {
+  if (DANGEROUS_KEYS.has(key)) return;
+  for (const location of findLocations(root, parseStructuralPath(path)))
+    (location.container as Record<string, unknown>)[location.key] = { [key]: readLocation(location) };
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Gets structural transform operations that apply to a specific file path.
+ * @param filePath - Relative file path to match
+ * @param transforms - Transforms config (glob pattern -> rules)
+ * @returns Operations of all matching patterns, in config order
+ */
+export const getStructuralTransformsForFile = (
+  filePath: string,
+  transforms?: TransformConfig
+): StructuralTransform[] => {
+  if (!transforms) return [];
+
+  const operations: StructuralTransform[] = [];
+
+  for (const [pattern, transformRules] of Object.entries(transforms))
+    if (globalMatcher.match(filePath, pattern)) operations.push(...(transformRules.structural ?? []));
+
+  return operations;
+};
+
+/**
+ * Applies structural transform operations (move, renameKey, delete, wrap) to a parsed document.
+ * Operations run in order on a copy of the data; paths that do not exist are skipped silently, and so are
+ * operations that would write a `__proto__`, `constructor` or `prototype` key.
+ *
+ * @param data - The parsed document
+ * @param operations - Structural operations to apply
+ * @returns The restructured copy (the input is not modified)
+ */
+export const applyStructuralTransforms = (data: unknown, operations: StructuralTransform[]): unknown => {
+  if (operations.length === 0 || !isContainer(data)) return data;
+
+  const result = structuredClone(data);
+
+  for (const operation of operations)
+    if ('move' in operation) applyMove(result, operation.move.from, operation.move.to);
+    else if ('renameKey' in operation) applyRenameKey(result, operation.renameKey.path, operation.renameKey.to);
+    else if ('delete' in operation) applyDelete(result, operation.delete);
+    else applyWrap(result, operation.wrap.path, operation.wrap.key);
+
+  return result;
+};
+
+/**
+ * Describes a structural operation for reports, e.g. `move ingress.hosts → ingress.rules`.
+ */
+export const describeStructuralTransform = (operation: StructuralTransform): string => {
+  if ('move' in operation) return `move ${operation.move.from} → ${operation.move.to}`;
+  if ('renameKey' in operation) return `renameKey ${operation.renameKey.path} → ${operation.renameKey.to}`;
+  if ('delete' in operation) return `delete ${operation.delete}`;
+  return `wrap ${operation.wrap.path} in ${operation.wrap.key}`;
+};
@@ -115,6 +115,62 @@ export const NUMERIC_MIN_MULTIPLIER = 0.5;
 /** Minimum numeric constraint value (floor) */
 export const NUMERIC_MIN_FLOOR = 1;
 
+// ============================================================================
+// Skip Path Detection
+// ============================================================================
+
+export const SKIP_PATH_CONFIDENCE = {
+  /** Differs in a single file */
+  SINGLE_FILE: 0.2,
+  /** Differs in 2-3 files */
+  MULTI_FILE_LOW: 0.5,
+  /** Differs in 4+ files */
+  MULTI_FILE_HIGH: 0.75,
+  /** Path names a typically environment-specific setting */
+  ENVIRONMENT_KEY_BOOST: 0.2
+} as const;
+
+/** Words in a path (split on non-letters, lowercased) that mark typically environment-specific values */
+export const ENVIRONMENT_SPECIFIC_KEYWORDS = [
+  'replicas',
+  'replicacount',
+  'minreplicas',
+  'maxreplicas',
+  'resources',
+  'limits',
+  'requests',
+  'cpu',
+  'memory',
+  'host',
+  'hostname',
+  'hosts',
+  'url',
+  'endpoint',
+  'domain',
+  'namespace',
+  'cluster',
+  'region',
+  'storage',
+  'size'
+] as const;
+
+// ============================================================================
+// Filename Pairing
+// ============================================================================
+
+export const FILENAME_PAIRING = {
+  /** Minimum content similarity (0-1) for an added and a deleted file to be paired */
+  MIN_CONTENT_SIMILARITY: 0.5,
+  /** Minimum path similarity (0-1, from Levenshtein distance) for an added and a deleted file to be paired */
+  MIN_PATH_SIMILARITY: 0.3,
+  /** Weight of content similarity in a pair's score (path similarity gets the rest) */
+  CONTENT_WEIGHT: 0.6,
+  /** Added to the confidence when one rule lines up several pairs */
+  MULTI_PAIR_BOOST: 0.1,
+  /** Pairing is skipped when added × deleted files exceeds this */
+  MAX_COMPARISONS: 50_000
+} as const;
+
 // ============================================================================
 // Output Formatting
 // ============================================================================
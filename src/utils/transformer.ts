@@ -1,7 +1,11 @@
-import type { TransformConfig, TransformRule } from '../config';
+import type { FunctionTransform, TransformConfig, TransformRule } from '../config';
+import { type KeyCollisionInfo, validateNoKeyCollisions } from './collisionDetector';
 import { createErrorClass, createErrorTypeGuard } from './errors';
+import { applyFunctionTransform, getFunctionTransformsForFile } from './functionTransformer';
+import { isFilterSegment, matchesFilter, parseFilterSegment, parseJsonPath } from './jsonPath';
 import { globalMatcher } from './patternMatcher';
 import { applyRegexRulesSequentially } from './regexTransform';
+import { applyStructuralTransforms, getStructuralTransformsForFile } from './structuralTransformer';
 
 // ============================================================================
 // Error Handling
@@ -30,6 +34,17 @@ export const getTransformsForFile = (filePath: string, transforms?: TransformCon
   return allRules;
 };
 
+export const getKeyTransformsForFile = (filePath: string, transforms?: TransformConfig): TransformRule[] => {
+  if (!transforms) return [];
+
+  const allRules: TransformRule[] = [];
+
+  for (const [pattern, transformRules] of Object.entries(transforms))
+    if (globalMatcher.match(filePath, pattern)) allRules.push(...(transformRules.keys ?? []));
+
+  return allRules;
+};
+
 // ============================================================================
 // Core Transformation Algorithm
 // ============================================================================
@@ -53,6 +68,130 @@ const transformValueRecursive = (value: unknown, rules: TransformRule[]): unknow
   return value;
 };
 
+// ============================================================================
+// Path-Tracked Transformation (paths / excludePaths, key and function transforms)
+// ============================================================================
+
+// One step from a parent to a child value: the object key or array index, and the child itself
+interface PathStep {
+  key: string | number;
+  value: unknown;
+}
+
+const isScopedRule = (rule: TransformRule): boolean => rule.paths !== undefined || rule.excludePaths !== undefined;
+
+// A leading `$` adds nothing: scope paths are relative to the document root
+const parseScopePath = (path: string): string[] => {
+  const segments = parseJsonPath(path);
+  return segments[0] === '$' ? segments.slice(1) : segments;
+};
+
+const matchesPathStep = (segment: string, step: PathStep): boolean => {
+  if (segment === '*') return true;
+
+  if (isFilterSegment(segment)) {
+    const filter = parseFilterSegment(segment);
+    if (!filter || typeof step.key !== 'number' || !step.value || typeof step.value !== 'object') return false;
+    return matchesFilter((step.value as Record<string, unknown>)[filter.property], filter);
+  }
+
+  return String(step.key) === segment;
+};
+
+// A value is under a scope path when the path selects the value itself or one of its ancestors
+const isUnderScopePath = (path: string, steps: PathStep[]): boolean => {
+  const segments = parseScopePath(path);
+  return segments.length <= steps.length && segments.every((segment, index) => matchesPathStep(segment, steps[index]!));
+};
+
+const isRuleInScope = (rule: TransformRule, steps: PathStep[]): boolean =>
+  (rule.paths === undefined || rule.paths.some((path) => isUnderScopePath(path, steps))) &&
+  !rule.excludePaths?.some((path) => isUnderScopePath(path, steps));
+
+// State shared by one tracked walk: the rules to apply and the key collisions found so far
+interface TrackedTransformContext {
+  contentRules: TransformRule[];
+  keyRules: TransformRule[];
+  functions: FunctionTransform[];
+  collisions: KeyCollisionInfo[];
+}
+
+// Content rules run first, then the functions whose path selects the value (or an ancestor), in config order
+const transformTrackedString = (value: string, steps: PathStep[], context: TrackedTransformContext): string => {
+  const contentResult = applyRegexRulesSequentially(
+    value,
+    context.contentRules.filter((rule) => isRuleInScope(rule, steps)),
+    false
+  );
+
+  return context.functions
+    .filter((transform) => isUnderScopePath(transform.path, steps))
+    .reduce((result, transform) => applyFunctionTransform(result, transform), contentResult);
+};
+
+const formatStepsPath = (steps: PathStep[]): string =>
+  steps.reduce<string>(
+    (path, step) => (typeof step.key === 'number' ? `${path}[${step.key}]` : `${path}.${step.key}`),
+    '$'
+  );
+
+// Renamed keys that would change the prototype of the result object; such renames are skipped
+const DANGEROUS_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+// Key rules are scoped by the map holding the keys, so `paths: [databases]` renames keys inside `databases` only
+const transformObjectKeys = (
+  object: Record<string, unknown>,
+  steps: PathStep[],
+  context: TrackedTransformContext
+): Map<string, string> => {
+  const keyRules = context.keyRules.filter((rule) => isRuleInScope(rule, steps));
+  const renamed = new Map<string, string>();
+  const originalsByKey = new Map<string, string[]>();
+
+  for (const key of Object.keys(object)) {
+    const renamedKey = keyRules.length > 0 ? applyRegexRulesSequentially(key, keyRules, false) : key;
+    const transformedKey = DANGEROUS_KEYS.has(renamedKey) ? key : renamedKey;
+    renamed.set(key, transformedKey);
+    originalsByKey.set(transformedKey, [...(originalsByKey.get(transformedKey) ?? []), key]);
+  }
+
+  for (const [transformedKey, originalKeys] of originalsByKey)
+    if (originalKeys.length > 1)
+      context.collisions.push({ path: formatStepsPath(steps), transformedKey, originalKeys });
+
+  return renamed;
+};
+
+const transformTrackedValueRecursive = (
+  value: unknown,
+  steps: PathStep[],
+  context: TrackedTransformContext
+): unknown => {
+  if (typeof value === 'string') return transformTrackedString(value, steps, context);
+
+  if (Array.isArray(value))
+    return value.map((item, index) =>
+      transformTrackedValueRecursive(item, [...steps, { key: index, value: item }], context)
+    );
+
+  if (value && typeof value === 'object') {
+    const renamedKeys = transformObjectKeys(value as Record<string, unknown>, steps, context);
+    const result: Record<string, unknown> = {};
+
+    // Scope paths of nested values refer to the original (source) keys
+    for (const [key, value_] of Object.entries(value))
+      result[renamedKeys.get(key)!] = transformTrackedValueRecursive(
+        value_,
+        [...steps, { key, value: value_ }],
+        context
+      );
+
+    return result;
+  }
+
+  return value;
+};
+
 // ============================================================================
 // Public API
 // ============================================================================
@@ -60,11 +199,23 @@ const transformValueRecursive = (value: unknown, rules: TransformRule[]): unknow
 export const applyTransforms = (data: unknown, filePath: string, transforms?: TransformConfig): unknown => {
   if (!transforms) return data;
 
+  // Structural operations run first so content rules see the destination layout
+  const restructured = applyStructuralTransforms(data, getStructuralTransformsForFile(filePath, transforms));
+
   const matchedRules = getTransformsForFile(filePath, transforms);
-  if (matchedRules.length === 0) return data;
+  const keyRules = getKeyTransformsForFile(filePath, transforms);
+  const functions = getFunctionTransformsForFile(filePath, transforms);
+  if (matchedRules.length === 0 && keyRules.length === 0 && functions.length === 0) return restructured;
+
+  const context: TrackedTransformContext = { contentRules: matchedRules, keyRules, functions, collisions: [] };
+  let transformed: unknown;
 
   try {
-    return transformValueRecursive(data, matchedRules);
+    // Path tracking is only needed for key rules, function transforms or when a rule is scoped to paths
+    transformed =
+      keyRules.length > 0 || functions.length > 0 || matchedRules.some((rule) => isScopedRule(rule))
+        ? transformTrackedValueRecursive(restructured, [], context)
+        : transformValueRecursive(restructured, matchedRules);
   } catch (error) {
     const transformError = new TransformerError('Failed to apply transformations', {
       code: 'TRANSFORM_APPLICATION_ERROR',
@@ -82,4 +233,8 @@ export const applyTransforms = (data: unknown, filePath: string, transforms?: Tr
 
     throw transformError;
   }
+
+  validateNoKeyCollisions(context.collisions, filePath);
+
+  return transformed;
 };
@@ -0,0 +1,188 @@
+/**
+ * Comment-preserving YAML document patching.
+ * Applies a merged plain value onto a parsed destination Document in place, so comments,
+ * anchors, blank lines and existing key order survive and only changed nodes are rewritten.
+ */
+
+import {
+  type Document,
+  isAlias,
+  isMap,
+  isNode,
+  isScalar,
+  isSeq,
+  type Node,
+  type Pair,
+  type YAMLMap,
+  type YAMLSeq
+} from 'yaml';
+
+import { extractKeyValue } from './yamlTypeGuards';
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Strict structural equality: array order matters, object key order does not
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    if (!Array.isArray(a) || !Array.isArray(b) || a.length !== b.length) return false;
+    return a.every((item, index) => isSameValue(item, b[index]));
+  }
+
+  const objectA = a as Record<string, unknown>;
+  const objectB = b as Record<string, unknown>;
+  const keysA = Object.keys(objectA);
+  if (keysA.length !== Object.keys(objectB).length) return false;
+
+  return keysA.every((key) => Object.hasOwn(objectB, key) && isSameValue(objectA[key], objectB[key]));
+};
+
+// Number of top-level fields two objects have in common with equal values
+const countSharedFields = (a: unknown, b: unknown): number => {
+  if (!isPlainObject(a) || !isPlainObject(b)) return 0;
+  return Object.keys(a).filter((key) => Object.hasOwn(b, key) && isSameValue(a[key], b[key])).length;
+};
+
+// Resolves a node to its plain JS value; undefined when an alias can no longer be resolved
+const toPlainValue = (node: unknown, document: Document): unknown => {
+  // eslint-disable-next-line unicorn/no-null -- an empty YAML node represents null
+  if (node === null || node === undefined) return null;
+  if (!isNode(node)) return node;
+
+  try {
+    return node.toJS(document);
+  } catch {
+    return undefined;
+  }
+};
+
+// Creates a replacement node that keeps the comments, spacing and anchor of the node it replaces
+const replaceNode = (previous: unknown, value: unknown, document: Document): Node => {
+  const created = document.createNode(value);
+  if (!isNode(previous) || isAlias(previous)) return created;
+
+  if (previous.commentBefore) created.commentBefore = previous.commentBefore;
+  if (previous.comment) created.comment = previous.comment;
+  if (previous.spaceBefore) created.spaceBefore = previous.spaceBefore;
+  if (previous.anchor) created.anchor = previous.anchor;
+
+  // Keep explicit quoting style when a quoted string is replaced by another string
+  if (isScalar(previous) && isScalar(created) && typeof previous.value === 'string' && typeof value === 'string')
+    created.type = previous.type;
+
+  return created;
+};
+
+// ============================================================================
+// Node Patching
+// ============================================================================
+
+const patchMap = (map: YAMLMap, target: Record<string, unknown>, document: Document): void => {
+  const seenKeys = new Set<string>();
+  const keptItems: Pair[] = [];
+
+  for (const pair of map.items) {
+    const key = extractKeyValue(pair);
+    if (key !== undefined) {
+      if (!Object.hasOwn(target, key)) continue;
+      pair.value = patchNode(pair.value, target[key], document);
+      seenKeys.add(key);
+    }
+    keptItems.push(pair);
+  }
+
+  map.items = keptItems;
+
+  // New keys are appended after existing ones so destination key order is kept
+  for (const [key, value] of Object.entries(target))
+    if (!seenKeys.has(key)) map.items.push(document.createPair(key, value));
+};
+
+const patchSeq = (seq: YAMLSeq, target: unknown[], document: Document): void => {
+  const existing = seq.items.map((item) => ({ item, value: toPlainValue(item, document), used: false }));
+  const patched: unknown[] = Array.from({ length: target.length });
+
+  // First pass: reuse items whose value is unchanged, wherever they moved to
+  for (const [index, targetItem] of target.entries()) {
+    const match = existing.find((entry) => !entry.used && isSameValue(entry.value, targetItem));
+    if (!match) continue;
+    match.used = true;
+    patched[index] = match.item;
+  }
+
+  // Second pass: patch the most similar remaining item (e.g. same `name`) so comments follow their item
+  for (const [index, targetItem] of target.entries()) {
+    if (patched[index] !== undefined) continue;
+    let best: (typeof existing)[number] | undefined;
+    let bestScore = 0;
+    for (const entry of existing) {
+      if (entry.used) continue;
+      const score = countSharedFields(entry.value, targetItem);
+      if (score > bestScore) {
+        best = entry;
+        bestScore = score;
+      }
+    }
+    if (!best) continue;
+    best.used = true;
+    patched[index] = patchNode(best.item, targetItem, document);
+  }
+
+  // Third pass: patch remaining items in order, creating new nodes when the source has more items
+  for (const [index, targetItem] of target.entries()) {
+    if (patched[index] !== undefined) continue;
+    const candidate = existing.find((entry) => !entry.used);
+    if (candidate) {
+      candidate.used = true;
+      patched[index] = patchNode(candidate.item, targetItem, document);
+    } else patched[index] = document.createNode(targetItem);
+  }
+
+  seq.items = patched;
+};
+
+const patchNode = (node: unknown, target: unknown, document: Document): unknown => {
+  if (isSameValue(toPlainValue(node, document), target)) return node;
+
+  // A diverged alias is materialized as a standalone node instead of rewriting its anchor
+  if (isAlias(node)) return document.createNode(target);
+
+  if (isMap(node) && isPlainObject(target)) {
+    patchMap(node, target, document);
+    return node;
+  }
+
+  if (isSeq(node) && Array.isArray(target)) {
+    patchSeq(node, target, document);
+    return node;
+  }
+
+  return replaceNode(node, target, document);
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Patches a YAML Document in place so that its value equals `target`.
+ * Unchanged nodes (including their comments, anchors and blank lines) are left untouched,
+ * existing keys keep their order and new keys are appended.
+ * Falls back to rebuilding the document body if aliases cannot be preserved consistently.
+ *
+ * @param document - Parsed destination document (modified in place)
+ * @param target - Plain merged value the document should represent
+ */
+export const patchYamlDocument = (document: Document, target: unknown): void => {
+  document.contents = patchNode(document.contents, target, document) as Node;
+
+  if (!isSameValue(toPlainValue(document.contents, document), target))
+    document.contents = replaceNode(document.contents, target, document);
+};
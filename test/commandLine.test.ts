@@ -37,6 +37,7 @@ describe('commandLine', () => {
         my: false,
         myDays: 30,
         noColor: false,
+        provenance: false,
         verbose: false,
         quiet: false
       });
@@ -61,6 +62,10 @@ describe('commandLine', () => {
       expect(result.dryRun).toBe(false);
     });
 
+    it('should parse --strict', () => {
+      expect(parseCommandLine(['node', 'cli', 'run', '-c', 'test.yaml', '--strict']).strict).toBe(true);
+    });
+
     it('should parse --skip-format / -S', () => {
       expect(parseCommandLine(['node', 'cli', 'run', '-c', 'test.yaml', '--skip-format']).skipFormat).toBe(true);
       expect(parseCommandLine(['node', 'cli', 'run', '-c', 'test.yaml', '-S']).skipFormat).toBe(true);
@@ -216,6 +221,7 @@ describe('commandLine', () => {
         my: false,
         myDays: 30,
         noColor: false,
+        provenance: false,
         verbose: true,
         quiet: false
       });
@@ -342,6 +348,46 @@ describe('commandLine', () => {
       consoleErrorSpy.mockRestore();
     });
 
+    it('should parse --apply with --min-confidence', () => {
+      const result = parseCommandLine([
+        'node',
+        'cli',
+        'suggest',
+        '-c',
+        'cfg.yaml',
+        '--apply',
+        '--min-confidence',
+        '0.8'
+      ]);
+
+      expect(result.apply).toBe(true);
+      expect(result.minConfidence).toBe(0.8);
+    });
+
+    it('should leave --apply off and minConfidence unset by default', () => {
+      const result = parseCommandLine(['node', 'cli', 'suggest', '-c', 'cfg.yaml']);
+
+      expect(result.apply).toBe(false);
+      expect(result.minConfidence).toBeUndefined();
+    });
+
+    it('should exit when --min-confidence is given without --apply', () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      parseCommandLine(['node', 'cli', 'suggest', '-c', 'cfg.yaml', '--min-confidence', '0.8']);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Error: --min-confidence requires --apply');
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+
+    it('should exit when --min-confidence is out of range', () => {
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      parseCommandLine(['node', 'cli', 'suggest', '-c', 'cfg.yaml', '--apply', '--min-confidence', '5']);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith('Error: --min-confidence must be a number between 0 and 1');
+    });
+
     it('should exit when --suggest-threshold is not a number', () => {
       const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
 
@@ -485,6 +531,20 @@ describe('commandLine', () => {
       expect(result.quiet).toBe(false);
     });
 
+    it('should default --provenance and --json to false on show-config', () => {
+      const result = parseCommandLine(['node', 'cli', 'show-config', '-c', 'config.yaml']);
+
+      expect(result.provenance).toBe(false);
+      expect(result.json).toBe(false);
+    });
+
+    it('should parse --provenance and --json on show-config', () => {
+      const result = parseCommandLine(['node', 'cli', 'show-config', '-c', 'config.yaml', '--provenance', '--json']);
+
+      expect(result.provenance).toBe(true);
+      expect(result.json).toBe(true);
+    });
+
     it('should parse --verbose on show-config', () => {
       expect(parseCommandLine(['node', 'cli', 'show-config', '-c', 'cfg.yaml', '--verbose']).verbose).toBe(true);
     });
@@ -496,6 +556,79 @@ describe('commandLine', () => {
     });
   });
 
+  // ── explain command ─────────────────────────────────────────────────────────
+
+  describe('explain command', () => {
+    it('should parse the file argument', () => {
+      const result = parseCommandLine(['node', 'cli', 'explain', '-c', 'config.yaml', 'apps/values.yaml']);
+
+      expect(result.commandName).toBe('explain');
+      expect(result.config).toBe('config.yaml');
+      expect(result.explainPath).toBe('apps/values.yaml');
+      expect(result.json).toBe(false);
+    });
+
+    it('should parse --json on explain', () => {
+      expect(parseCommandLine(['node', 'cli', 'explain', 'a.yaml', '-c', 'config.yaml', '--json']).json).toBe(true);
+    });
+
+    it('should exit when explain has no file argument', () => {
+      parseCommandLine(['node', 'cli', 'explain', '-c', 'config.yaml']);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
+  // ── init command ────────────────────────────────────────────────────────────
+
+  describe('init command', () => {
+    it('should parse source and destination with default config path', () => {
+      const result = parseCommandLine(['node', 'cli', 'init', '--source', './uat', '--destination', './prod']);
+
+      expect(result.commandName).toBe('init');
+      expect(result.source).toBe('./uat');
+      expect(result.destination).toBe('./prod');
+      expect(result.config).toBe('config.yaml');
+      expect(result.force).toBe(false);
+      expect(result.suggestThreshold).toBe(0.3);
+    });
+
+    it('should parse short flags, --force and --suggest-threshold', () => {
+      const result = parseCommandLine([
+        'node',
+        'cli',
+        'init',
+        '-s',
+        'uat',
+        '-d',
+        'prod',
+        '-c',
+        'out.yaml',
+        '--force',
+        '--suggest-threshold',
+        '0.6'
+      ]);
+
+      expect(result.config).toBe('out.yaml');
+      expect(result.force).toBe(true);
+      expect(result.suggestThreshold).toBe(0.6);
+    });
+
+    it('should exit when destination is missing', () => {
+      parseCommandLine(['node', 'cli', 'init', '-s', 'uat']);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+
+    it('should exit on an invalid --suggest-threshold', () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      parseCommandLine(['node', 'cli', 'init', '-s', 'uat', '-d', 'prod', '--suggest-threshold', '2']);
+
+      expect(processExitSpy).toHaveBeenCalledWith(3);
+    });
+  });
+
   // ── global behavior ─────────────────────────────────────────────────────────
 
   describe('global behavior', () => {
@@ -33,6 +33,15 @@ describe('configFile', () => {
       expect(result).toEqual({ extends: './base.yaml' });
     });
 
+    it('should parse config with a list of parents', () => {
+      const result = parseBaseConfig({ extends: ['./defaults.yaml', './security.yaml'] });
+      expect(result).toEqual({ extends: ['./defaults.yaml', './security.yaml'] });
+    });
+
+    it('should reject an empty list of parents', () => {
+      expect(() => parseBaseConfig({ extends: [] })).toThrow(ZodValidationError);
+    });
+
     it('should parse config with all fields', () => {
       const config: BaseConfig = {
         extends: './base.yaml',
@@ -130,7 +139,7 @@ describe('configFile', () => {
       const config = { source: './source', destination: './dest' };
       const result = parseFinalConfig(config);
 
-      expect(result.outputFormat).toEqual({ indent: 2, keySeparator: false });
+      expect(result.outputFormat).toEqual({ keySeparator: false });
     });
 
     it('should use custom values over defaults', () => {
@@ -150,11 +159,11 @@ describe('configFile', () => {
   });
 
   describe('parseFinalConfig - outputFormat', () => {
-    it('should apply default indent', () => {
-      const config = { source: './src', destination: './dest' };
+    it('should leave indent unset so formatters can keep their own default', () => {
+      const config = { source: './src', destination: './dest', outputFormat: { keySeparator: true } };
       const result = parseFinalConfig(config);
 
-      expect(result.outputFormat.indent).toBe(2);
+      expect(result.outputFormat.indent).toBeUndefined();
     });
 
     it('should validate indent range (min 1)', () => {
@@ -317,6 +326,200 @@ describe('configFile', () => {
     });
   });
 
+  describe('stop rules - fileDeletion', () => {
+    it('should parse fileDeletion without a path', () => {
+      const config: FinalConfig = {
+        source: './src',
+        destination: './dest',
+        stopRules: {
+          'secrets/**': [{ type: 'fileDeletion' }]
+        }
+      };
+
+      const result = parseFinalConfig(config);
+      expect(result.stopRules?.['secrets/**']).toEqual([{ type: 'fileDeletion' }]);
+    });
+
+    it('should reject a path on fileDeletion (strict mode)', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        stopRules: {
+          'secrets/**': [{ type: 'fileDeletion', path: 'version' }]
+        }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+  });
+
+  describe('stop rules - numericDelta', () => {
+    it('should parse percent limits and a quantity maxDelta', () => {
+      const config: FinalConfig = {
+        source: './src',
+        destination: './dest',
+        stopRules: {
+          '**/*.yaml': [
+            { type: 'numericDelta', path: 'replicaCount', maxDecreasePercent: 50, maxIncreasePercent: 200 },
+            { type: 'numericDelta', path: 'resources.limits.memory', maxDelta: '1Gi' }
+          ]
+        }
+      };
+
+      const result = parseFinalConfig(config);
+      expect(result.stopRules?.['**/*.yaml']?.[1]).toEqual({
+        type: 'numericDelta',
+        path: 'resources.limits.memory',
+        maxDelta: '1Gi'
+      });
+    });
+
+    it('should require at least one limit', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        stopRules: { '**/*.yaml': [{ type: 'numericDelta', path: 'replicaCount' }] }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+
+    it('should reject a maxDelta that is not a quantity', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        stopRules: { '**/*.yaml': [{ type: 'numericDelta', path: 'memory', maxDelta: '1GB' }] }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+
+    it('should reject negative percentages', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        stopRules: { '**/*.yaml': [{ type: 'numericDelta', path: 'replicaCount', maxDecreasePercent: -5 }] }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+  });
+
+  describe('stop rules - quantities', () => {
+    it('should accept quantity limits on numeric rules', () => {
+      const config: FinalConfig = {
+        source: './src',
+        destination: './dest',
+        stopRules: {
+          '**/*.yaml': [{ type: 'numeric', path: 'resources.limits.memory', min: '512Mi', max: '4Gi' }]
+        }
+      };
+
+      expect(parseFinalConfig(config).stopRules?.['**/*.yaml']?.[0]).toMatchObject({ min: '512Mi', max: '4Gi' });
+    });
+
+    it('should compare quantity min and max by value', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        stopRules: { '**/*.yaml': [{ type: 'numeric', path: 'cpu', min: 1, max: '500m' }] }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+
+    it('should reject limits that are not quantities', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        stopRules: { '**/*.yaml': [{ type: 'numeric', path: 'memory', min: '1 GB' }] }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+
+    it('should parse requestsWithinLimits with or without a path', () => {
+      const config: FinalConfig = {
+        source: './src',
+        destination: './dest',
+        stopRules: {
+          '**/*.yaml': [
+            { type: 'requestsWithinLimits' },
+            { type: 'requestsWithinLimits', path: 'spec.template.spec.containers' }
+          ]
+        }
+      };
+
+      expect(parseFinalConfig(config).stopRules?.['**/*.yaml']).toHaveLength(2);
+    });
+  });
+
+  describe('stop rules - immutable and required', () => {
+    it('should parse both rule types with filter paths', () => {
+      const config: FinalConfig = {
+        source: './src',
+        destination: './dest',
+        stopRules: {
+          '**/*.yaml': [
+            { type: 'immutable', path: 'containers[name=app].image' },
+            { type: 'required', path: 'podDisruptionBudget', severity: 'warn' }
+          ]
+        }
+      };
+
+      expect(parseFinalConfig(config).stopRules?.['**/*.yaml']).toEqual(config.stopRules?.['**/*.yaml']);
+    });
+
+    it('should require a path', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        stopRules: { '**/*.yaml': [{ type: 'immutable' }] }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+  });
+
+  describe('stop rules - severity', () => {
+    it('should accept severity on any rule type', () => {
+      const config: FinalConfig = {
+        source: './src',
+        destination: './dest',
+        stopRules: {
+          '**/*.yaml': [
+            { type: 'semverMajorUpgrade', path: 'image.tag', severity: 'warn' },
+            { type: 'versionFormat', path: 'version', severity: 'block' },
+            { type: 'fileDeletion', severity: 'warn' }
+          ]
+        }
+      };
+
+      const result = parseFinalConfig(config);
+      expect(result.stopRules?.['**/*.yaml']?.map((rule) => rule.severity)).toEqual(['warn', 'block', 'warn']);
+    });
+
+    it('should leave severity unset by default', () => {
+      const result = parseFinalConfig({
+        source: './src',
+        destination: './dest',
+        stopRules: { '**/*.yaml': [{ type: 'semverDowngrade', path: 'version' }] }
+      });
+
+      expect(result.stopRules?.['**/*.yaml']?.[0]).not.toHaveProperty('severity');
+    });
+
+    it('should reject an unknown severity', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        stopRules: { '**/*.yaml': [{ type: 'semverDowngrade', path: 'version', severity: 'info' }] }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+  });
+
   describe('stop rules - numeric', () => {
     it('should parse numeric rule with min only', () => {
       const config: FinalConfig = {
@@ -488,7 +691,7 @@ describe('configFile', () => {
 
       expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
       expect(() => parseFinalConfig(config)).toThrow(
-        'At least one of content, filename, contentFile, or filenameFile must be specified'
+        'At least one of content, filename, contentFile, filenameFile, structural, keys, keysFile, or functions must be specified'
       );
     });
 
@@ -674,6 +877,295 @@ describe('configFile', () => {
     });
   });
 
+  describe('arrayMerge rules', () => {
+    it('should parse valid arrayMerge config', () => {
+      const result = parseFinalConfig({
+        source: './src',
+        destination: './dest',
+        arrayMerge: {
+          '**/*.yaml': [
+            { path: 'spec.containers', key: 'name', strategy: 'keepDestinationExtras' },
+            { path: 'spec.volumes', strategy: 'union' }
+          ]
+        }
+      });
+
+      expect(result.arrayMerge?.['**/*.yaml']).toEqual([
+        { path: 'spec.containers', key: 'name', strategy: 'keepDestinationExtras' },
+        { path: 'spec.volumes', strategy: 'union' }
+      ]);
+    });
+
+    it('should require a key for mergeByKey and keepDestinationExtras', () => {
+      for (const strategy of ['mergeByKey', 'keepDestinationExtras'])
+        expect(() =>
+          parseFinalConfig({
+            source: './src',
+            destination: './dest',
+            arrayMerge: { '*.yaml': [{ path: 'env', strategy }] }
+          })
+        ).toThrow(ZodValidationError);
+    });
+
+    it('should reject unknown strategies', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        arrayMerge: { '*.yaml': [{ path: 'env', key: 'name', strategy: 'append' }] }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+  });
+
+  describe('path-scoped content transforms', () => {
+    it('should parse paths and excludePaths on content rules and contentFile entries', () => {
+      const result = parseFinalConfig({
+        source: './src',
+        destination: './dest',
+        transforms: {
+          '*.yaml': {
+            content: [{ find: 'uat', replace: 'prod', paths: ['ingress'], excludePaths: ['ingress.annotations'] }],
+            contentFile: ['./common.yaml', { file: './hosts.yaml', paths: ['ingress.hosts'] }]
+          }
+        }
+      });
+
+      expect(result.transforms?.['*.yaml']?.content?.[0]?.paths).toEqual(['ingress']);
+      expect(result.transforms?.['*.yaml']?.contentFile).toEqual([
+        './common.yaml',
+        { file: './hosts.yaml', paths: ['ingress.hosts'] }
+      ]);
+    });
+
+    it('should reject paths on filename transforms', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: { '*.yaml': { filename: [{ find: 'uat', replace: 'prod', paths: ['a'] }] } }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+
+    it('should reject empty paths lists', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: { '*.yaml': { content: [{ find: 'uat', replace: 'prod', paths: [] }] } }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+  });
+
+  describe('structural transforms', () => {
+    it('should parse move, renameKey, delete and wrap operations', () => {
+      const structural = [
+        { move: { from: 'ingress.hosts', to: 'ingress.rules' } },
+        { renameKey: { path: 'service.port', to: 'targetPort' } },
+        { delete: 'debug' },
+        { wrap: { path: 'resources', key: 'limits' } }
+      ];
+
+      const result = parseFinalConfig({
+        source: './src',
+        destination: './dest',
+        transforms: { '*.yaml': { structural } }
+      });
+
+      expect(result.transforms?.['*.yaml']?.structural).toEqual(structural);
+    });
+
+    it('should reject entries with more than one operation', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: { '*.yaml': { structural: [{ delete: 'a', wrap: { path: 'b', key: 'c' } }] } }
+      };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+
+    it('should reject wildcards and filters in move targets', () => {
+      for (const to of ['items[*].name', 'env[name=A].value'])
+        expect(() =>
+          parseFinalConfig({
+            source: './src',
+            destination: './dest',
+            transforms: { '*.yaml': { structural: [{ move: { from: 'a', to } }] } }
+          })
+        ).toThrow(ZodValidationError);
+    });
+
+    it('should reject prototype keys in paths and keys', () => {
+      const operations = [
+        { move: { from: 'a', to: '__proto__.polluted' } },
+        { move: { from: 'constructor', to: 'b' } },
+        { renameKey: { path: 'a', to: '__proto__' } },
+        { delete: 'a.prototype' },
+        { wrap: { path: 'a', key: 'constructor' } }
+      ];
+
+      for (const operation of operations)
+        expect(() =>
+          parseFinalConfig({
+            source: './src',
+            destination: './dest',
+            transforms: { '*.yaml': { structural: [operation] } }
+          })
+        ).toThrow(ZodValidationError);
+    });
+  });
+
+  describe('key transforms', () => {
+    it('should parse keys and keysFile without content rules', () => {
+      const result = parseFinalConfig({
+        source: './src',
+        destination: './dest',
+        transforms: {
+          '*.yaml': {
+            keys: [{ find: '^uat-', replace: 'prod-', paths: ['databases'] }],
+            keysFile: ['./keys.yaml', { file: './hosts.yaml', paths: ['ingress.hosts'] }]
+          }
+        }
+      });
+
+      expect(result.transforms?.['*.yaml']?.keys).toEqual([{ find: '^uat-', replace: 'prod-', paths: ['databases'] }]);
+      expect(result.transforms?.['*.yaml']?.keysFile).toEqual([
+        './keys.yaml',
+        { file: './hosts.yaml', paths: ['ingress.hosts'] }
+      ]);
+    });
+  });
+
+  describe('function transforms', () => {
+    it('should parse every function', () => {
+      const functions = [
+        { path: 'secrets.*', base64Encode: true },
+        { path: 'encoded', base64Decode: true },
+        { path: 'env[name=ENV].value', upper: true },
+        { path: 'name', lower: true },
+        { path: 'image.tag', semverBump: 'patch' },
+        { path: 'host', prefix: 'prod-' },
+        { path: 'bucket', suffix: '-prod' }
+      ];
+
+      const result = parseFinalConfig({
+        source: './src',
+        destination: './dest',
+        transforms: { '*.yaml': { functions } }
+      });
+
+      expect(result.transforms?.['*.yaml']?.functions).toEqual(functions);
+    });
+
+    it('should reject entries with more than one function or unknown bump parts', () => {
+      for (const entry of [
+        { path: 'a', upper: true, lower: true },
+        { path: 'a', semverBump: 'build' },
+        { upper: true }
+      ])
+        expect(() =>
+          parseFinalConfig({ source: './src', destination: './dest', transforms: { '*.yaml': { functions: [entry] } } })
+        ).toThrow(ZodValidationError);
+    });
+  });
+
+  describe('variables', () => {
+    it('should parse variables, variablesFile and envVariables', () => {
+      const result = parseFinalConfig({
+        source: './src',
+        destination: './dest',
+        variables: { cluster: 'prod-eu', 'account.id': 1234, ha: true },
+        variablesFile: ['./vars/common.yaml'],
+        envVariables: true
+      });
+
+      expect(result.variables).toEqual({ cluster: 'prod-eu', 'account.id': 1234, ha: true });
+      expect(result.variablesFile).toEqual(['./vars/common.yaml']);
+      expect(result.envVariables).toBe(true);
+    });
+
+    it('should reject invalid variable names and nested values', () => {
+      for (const variables of [{ 'my var': 'a' }, { '1st': 'a' }, { cluster: { name: 'a' } }])
+        expect(() => parseFinalConfig({ source: './src', destination: './dest', variables })).toThrow(
+          ZodValidationError
+        );
+    });
+  });
+
+  describe('inheritance overrides', () => {
+    it('should parse $replace and $remove', () => {
+      const result = parseBaseConfig({
+        extends: './base.yaml',
+        $replace: ['exclude', 'skipPath.**/values.yaml'],
+        $remove: {
+          exclude: ['**/secrets.yaml'],
+          stopRules: { '**/*.yaml': [{ type: 'numeric', path: 'replicaCount' }] },
+          transforms: { '**/*.yaml': { content: [{ find: 'uat' }] } }
+        }
+      });
+
+      expect(result.$replace).toEqual(['exclude', 'skipPath.**/values.yaml']);
+      expect(result.$remove?.stopRules?.['**/*.yaml']).toEqual([{ type: 'numeric', path: 'replicaCount' }]);
+    });
+
+    it('should reject $replace entries for fields that cannot be replaced', () => {
+      expect(() => parseBaseConfig({ $replace: ['source'] })).toThrow(ZodValidationError);
+      expect(() => parseBaseConfig({ $replace: ['prune.x'] })).toThrow(ZodValidationError);
+    });
+
+    it('should reject unknown $remove fields', () => {
+      expect(() => parseBaseConfig({ $remove: { source: ['./src'] } })).toThrow(ZodValidationError);
+      expect(() => parseBaseConfig({ $remove: { transforms: { '*.yaml': { find: ['uat'] } } } })).toThrow(
+        ZodValidationError
+      );
+    });
+
+    it('should strip $replace and $remove from the final config', () => {
+      const result = parseFinalConfig({
+        source: './src',
+        destination: './dest',
+        $replace: ['exclude'],
+        $remove: { exclude: ['**/*.bak'] }
+      });
+
+      expect(result).not.toHaveProperty('$replace');
+      expect(result).not.toHaveProperty('$remove');
+    });
+  });
+
+  describe('diffIgnore', () => {
+    it('should parse valid diffIgnore config', () => {
+      const result = parseFinalConfig({
+        source: './src',
+        destination: './dest',
+        diffIgnore: { '**/*.yaml': ['metadata.annotations.checksum/config'] }
+      });
+
+      expect(result.diffIgnore?.['**/*.yaml']).toEqual(['metadata.annotations.checksum/config']);
+    });
+  });
+
+  describe('orderedArrays', () => {
+    it('should parse valid orderedArrays config', () => {
+      const result = parseFinalConfig({
+        source: './src',
+        destination: './dest',
+        orderedArrays: { '**/*.yaml': ['spec.containers[*].args', 'spec.initContainers'] }
+      });
+
+      expect(result.orderedArrays?.['**/*.yaml']).toEqual(['spec.containers[*].args', 'spec.initContainers']);
+    });
+
+    it('should reject empty paths', () => {
+      const config = { source: './src', destination: './dest', orderedArrays: { '*.yaml': [''] } };
+
+      expect(() => parseFinalConfig(config)).toThrow(ZodValidationError);
+    });
+  });
+
   describe('parseConfig alias', () => {
     it('should be an alias for parseFinalConfig', () => {
       const config = { source: './src', destination: './dest' };
@@ -790,7 +1282,7 @@ describe('configFile', () => {
       expect(result.exclude).toEqual([]);
       expect(result.prune).toBe(false);
       expect(result.confirmationDelay).toBe(3000);
-      expect(result.outputFormat).toEqual({ indent: 2, keySeparator: false });
+      expect(result.outputFormat).toEqual({ keySeparator: false });
     });
 
     it('should accept source as optional', () => {
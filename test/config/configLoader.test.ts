@@ -4,11 +4,18 @@ import * as YAML from 'yaml';
 import packageJson from '../../package.json';
 import { ConfigLoaderError, isConfigLoaderError, loadConfigFile } from '../../src/config/configLoader';
 import { ConfigMergerError, isConfigMergerError } from '../../src/config/configMerger';
+import { VariableResolverError } from '../../src/config/variableResolver';
+import { loadTransformFiles } from '../../src/utils/transformFileLoader';
 
 vi.mock('node:fs', () => ({
   readFileSync: vi.fn()
 }));
 
+vi.mock('../../src/utils/transformFileLoader', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  loadTransformFiles: vi.fn()
+}));
+
 import { readFileSync } from 'node:fs';
 
 describe('configLoader', () => {
@@ -104,6 +111,114 @@ describe('configLoader', () => {
     });
   });
 
+  describe('structural transforms', () => {
+    it('should keep structural transforms when expanding transform files', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: { '*.yaml': { structural: [{ delete: 'debug' }] } }
+      };
+      vi.mocked(readFileSync).mockReturnValue(YAML.stringify(config));
+
+      const result = loadConfigFile('config.yaml');
+
+      expect(result.transforms?.['*.yaml']?.structural).toEqual([{ delete: 'debug' }]);
+    });
+  });
+
+  describe('scoped contentFile entries', () => {
+    it('should scope rules loaded from contentFile objects to their paths', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: {
+          '*.yaml': {
+            contentFile: ['./common.yaml', { file: './hosts.yaml', paths: ['ingress'], excludePaths: ['ingress.tls'] }]
+          }
+        }
+      };
+      vi.mocked(readFileSync).mockReturnValue(YAML.stringify(config));
+      vi.mocked(loadTransformFiles).mockImplementation((filePath) =>
+        filePath === './common.yaml' ? [{ find: 'uat', replace: 'prod' }] : [{ find: 'stg', replace: 'prod' }]
+      );
+
+      const result = loadConfigFile('config.yaml');
+
+      expect(result.transforms?.['*.yaml']?.content).toEqual([
+        { find: 'uat', replace: 'prod' },
+        { find: 'stg', replace: 'prod', paths: ['ingress'], excludePaths: ['ingress.tls'] }
+      ]);
+    });
+  });
+
+  describe('keysFile', () => {
+    it('should load keysFile rules before inline key rules', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: {
+          '*.yaml': {
+            keys: [{ find: '^uat-', replace: 'prod-' }],
+            keysFile: [{ file: './hosts.yaml', paths: ['ingress.hosts'] }]
+          }
+        }
+      };
+      vi.mocked(readFileSync).mockReturnValue(YAML.stringify(config));
+      vi.mocked(loadTransformFiles).mockReturnValue([{ find: 'uat.example.com', replace: 'prod.example.com' }]);
+
+      const result = loadConfigFile('config.yaml');
+
+      expect(result.transforms?.['*.yaml']?.keys).toEqual([
+        { find: 'uat.example.com', replace: 'prod.example.com', paths: ['ingress.hosts'] },
+        { find: '^uat-', replace: 'prod-' }
+      ]);
+      expect(result.transforms?.['*.yaml']?.keysFile).toBeUndefined();
+    });
+  });
+
+  describe('variables', () => {
+    it('should interpolate variables in the loaded config', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        variables: { cluster: 'prod-eu' },
+        transforms: { '*.yaml': { content: [{ find: 'uat', replace: '${cluster}' }] } },
+        fixedValues: { '*.yaml': [{ path: 'cluster', value: '${cluster}' }] }
+      };
+      vi.mocked(readFileSync).mockReturnValue(YAML.stringify(config));
+
+      const result = loadConfigFile('config.yaml');
+
+      expect(result.transforms?.['*.yaml']?.content).toEqual([{ find: 'uat', replace: 'prod-eu' }]);
+      expect(result.fixedValues?.['*.yaml']).toEqual([{ path: 'cluster', value: 'prod-eu' }]);
+    });
+
+    it('should throw VariableResolverError for undefined variables', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        variables: { region: 'eu' },
+        fixedValues: { '*.yaml': [{ path: 'cluster', value: '${cluster}' }] }
+      };
+      vi.mocked(readFileSync).mockReturnValue(YAML.stringify(config));
+
+      expect(() => loadConfigFile('config.yaml')).toThrow(VariableResolverError);
+    });
+
+    it('should keep placeholders of configs without variables as literal text', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        fixedValues: { '*.yaml': [{ path: 'name', value: '${RELEASE_NAME}-svc' }] }
+      };
+      vi.mocked(readFileSync).mockReturnValue(YAML.stringify(config));
+
+      expect(loadConfigFile('config.yaml').fixedValues).toEqual({
+        '*.yaml': [{ path: 'name', value: '${RELEASE_NAME}-svc' }]
+      });
+    });
+  });
+
   describe('file loading errors', () => {
     it('should throw ConfigMergerError when file not found (ENOENT)', () => {
       const error: NodeJS.ErrnoException = new Error('File not found');
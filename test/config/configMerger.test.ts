@@ -6,7 +6,8 @@ import {
   ConfigMergerError,
   isConfigMergerError,
   mergeConfigs,
-  resolveConfigWithExtends
+  resolveConfigWithExtends,
+  resolveExtendsChain
 } from '../../src/config/configMerger';
 
 vi.mock('node:fs', () => ({
@@ -15,6 +16,15 @@ vi.mock('node:fs', () => ({
 
 import { readFileSync } from 'node:fs';
 
+// Serves config files by absolute path
+const mockConfigFiles = (files: Record<string, BaseConfig>): void => {
+  vi.mocked(readFileSync).mockImplementation((filePath) => {
+    const config = files[String(filePath)];
+    if (!config) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+    return YAML.stringify(config);
+  });
+};
+
 describe('configMerger', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -148,6 +158,63 @@ describe('configMerger', () => {
       });
     });
 
+    it('should concatenate scoped contentFile entries', () => {
+      const parent: BaseConfig = { transforms: { '*.yaml': { contentFile: './common.yaml' } } };
+      const child: BaseConfig = {
+        transforms: { '*.yaml': { contentFile: [{ file: './hosts.yaml', excludePaths: ['image'] }] } }
+      };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.transforms?.['*.yaml']?.contentFile).toEqual([
+        './common.yaml',
+        { file: './hosts.yaml', excludePaths: ['image'] }
+      ]);
+    });
+
+    it('should concatenate structural transforms', () => {
+      const parent: BaseConfig = { transforms: { '*.yaml': { structural: [{ delete: 'debug' }] } } };
+      const child: BaseConfig = {
+        transforms: { '*.yaml': { structural: [{ move: { from: 'ingress.hosts', to: 'ingress.rules' } }] } }
+      };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.transforms?.['*.yaml']?.structural).toEqual([
+        { delete: 'debug' },
+        { move: { from: 'ingress.hosts', to: 'ingress.rules' } }
+      ]);
+    });
+
+    it('should concatenate key transforms and keysFile references', () => {
+      const parent: BaseConfig = {
+        transforms: { '*.yaml': { keys: [{ find: 'uat', replace: 'prod' }], keysFile: './common-keys.yaml' } }
+      };
+      const child: BaseConfig = {
+        transforms: { '*.yaml': { keys: [{ find: 'stg', replace: 'prod' }], keysFile: ['./app-keys.yaml'] } }
+      };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.transforms?.['*.yaml']?.keys).toEqual([
+        { find: 'uat', replace: 'prod' },
+        { find: 'stg', replace: 'prod' }
+      ]);
+      expect(result.transforms?.['*.yaml']?.keysFile).toEqual(['./common-keys.yaml', './app-keys.yaml']);
+    });
+
+    it('should concatenate function transforms', () => {
+      const parent: BaseConfig = { transforms: { '*.yaml': { functions: [{ path: 'env', upper: true }] } } };
+      const child: BaseConfig = { transforms: { '*.yaml': { functions: [{ path: 'tag', semverBump: 'minor' }] } } };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.transforms?.['*.yaml']?.functions).toEqual([
+        { path: 'env', upper: true },
+        { path: 'tag', semverBump: 'minor' }
+      ]);
+    });
+
     it('should merge per-file stopRules', () => {
       const parent: BaseConfig = {
         stopRules: {
@@ -196,6 +263,49 @@ describe('configMerger', () => {
       });
     });
 
+    it('should merge per-file arrayMerge rules', () => {
+      const parent: BaseConfig = {
+        arrayMerge: {
+          '**/*.yaml': [{ path: 'spec.containers', key: 'name', strategy: 'mergeByKey' }]
+        }
+      };
+      const child: BaseConfig = {
+        arrayMerge: {
+          '**/*.yaml': [{ path: 'spec.containers', key: 'name', strategy: 'keepDestinationExtras' }]
+        }
+      };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.arrayMerge).toEqual({
+        '**/*.yaml': [
+          { path: 'spec.containers', key: 'name', strategy: 'mergeByKey' },
+          { path: 'spec.containers', key: 'name', strategy: 'keepDestinationExtras' }
+        ]
+      });
+    });
+
+    it('should merge per-file diffIgnore paths', () => {
+      const parent: BaseConfig = { diffIgnore: { '**/*.yaml': ['buildTime'] } };
+      const child: BaseConfig = { diffIgnore: { '**/*.yaml': ['checksum'] } };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.diffIgnore).toEqual({ '**/*.yaml': ['buildTime', 'checksum'] });
+    });
+
+    it('should merge per-file orderedArrays paths', () => {
+      const parent: BaseConfig = { orderedArrays: { '**/*.yaml': ['spec.containers[*].args'] } };
+      const child: BaseConfig = { orderedArrays: { '**/*.yaml': ['spec.initContainers'], 'app.yaml': ['command'] } };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.orderedArrays).toEqual({
+        '**/*.yaml': ['spec.containers[*].args', 'spec.initContainers'],
+        'app.yaml': ['command']
+      });
+    });
+
     it('should remove extends field from merged result', () => {
       const parent: BaseConfig = {
         extends: './grandparent.yaml',
@@ -559,6 +669,156 @@ describe('configMerger', () => {
     });
   });
 
+  describe('resolveConfigWithExtends - multiple parents', () => {
+    afterEach(() => {
+      vi.mocked(readFileSync).mockReset();
+    });
+
+    it('should merge multiple parents left to right before the config itself', () => {
+      mockConfigFiles({
+        '/cfg/config.yaml': { extends: ['./defaults.yaml', './security.yaml'], destination: './prod' },
+        '/cfg/defaults.yaml': { prune: false, include: ['apps/**'], confirmationDelay: 1000 },
+        '/cfg/security.yaml': {
+          prune: true,
+          include: ['svc/**'],
+          stopRules: { '*.yaml': [{ type: 'semverDowngrade', path: 'version' }] }
+        }
+      });
+
+      const result = resolveConfigWithExtends('/cfg/config.yaml');
+
+      expect(result).toEqual({
+        destination: './prod',
+        prune: true,
+        confirmationDelay: 1000,
+        include: ['apps/**', 'svc/**'],
+        stopRules: { '*.yaml': [{ type: 'semverDowngrade', path: 'version' }] }
+      });
+      expect(result.extends).toBeUndefined();
+    });
+
+    it('should merge a shared ancestor once', () => {
+      mockConfigFiles({
+        '/cfg/config.yaml': { extends: ['./a.yaml', './b.yaml'] },
+        '/cfg/a.yaml': { extends: './base.yaml', exclude: ['a/**'] },
+        '/cfg/b.yaml': { extends: './base.yaml', exclude: ['b/**'] },
+        '/cfg/base.yaml': { exclude: ['tmp/**'] }
+      });
+
+      expect(resolveConfigWithExtends('/cfg/config.yaml').exclude).toEqual(['tmp/**', 'a/**', 'b/**']);
+      expect(resolveExtendsChain('/cfg/config.yaml')).toEqual([
+        '/cfg/base.yaml',
+        '/cfg/a.yaml',
+        '/cfg/b.yaml',
+        '/cfg/config.yaml'
+      ]);
+    });
+
+    it('should apply $replace of a parent only to its own ancestors, not to sibling parents', () => {
+      mockConfigFiles({
+        '/cfg/config.yaml': { extends: ['./a.yaml', './b.yaml'] },
+        '/cfg/a.yaml': { stopRules: { '*.yaml': [{ type: 'semverDowngrade', path: 'version' }] } },
+        '/cfg/b.yaml': {
+          extends: './base.yaml',
+          $replace: ['stopRules'],
+          stopRules: { '*.yaml': [{ type: 'versionFormat', path: 'image.tag', vPrefix: 'forbidden' }] }
+        },
+        '/cfg/base.yaml': { stopRules: { '*.yaml': [{ type: 'semverMajorUpgrade', path: 'image.tag' }] } }
+      });
+
+      expect(resolveConfigWithExtends('/cfg/config.yaml').stopRules).toEqual({
+        '*.yaml': [
+          { type: 'semverDowngrade', path: 'version' },
+          { type: 'versionFormat', path: 'image.tag', vPrefix: 'forbidden' }
+        ]
+      });
+    });
+
+    it('should apply $remove of a parent only to its own ancestors, not to sibling parents', () => {
+      mockConfigFiles({
+        '/cfg/config.yaml': { extends: ['./a.yaml', './b.yaml'] },
+        '/cfg/a.yaml': { exclude: ['tmp/**'], skipPath: { '*.yaml': ['metadata.labels'] } },
+        '/cfg/b.yaml': {
+          extends: './base.yaml',
+          $remove: { exclude: ['tmp/**'], skipPath: { '*.yaml': ['metadata.labels'] } }
+        },
+        '/cfg/base.yaml': { exclude: ['tmp/**', 'cache/**'], skipPath: { '*.yaml': ['metadata.labels', 'status'] } }
+      });
+
+      const result = resolveConfigWithExtends('/cfg/config.yaml');
+
+      expect(result.exclude).toEqual(['tmp/**', 'cache/**']);
+      expect(result.skipPath).toEqual({ '*.yaml': ['metadata.labels', 'status'] });
+    });
+
+    it('should keep entries of a shared ancestor that an earlier parent still inherits', () => {
+      mockConfigFiles({
+        '/cfg/config.yaml': { extends: ['./a.yaml', './b.yaml'] },
+        '/cfg/a.yaml': { extends: './base.yaml' },
+        '/cfg/b.yaml': { extends: './base.yaml', $remove: { include: ['apps/**'] } },
+        '/cfg/base.yaml': { include: ['apps/**'] }
+      });
+
+      expect(resolveConfigWithExtends('/cfg/config.yaml').include).toEqual(['apps/**']);
+    });
+
+    it('should detect circular dependencies through a second parent', () => {
+      mockConfigFiles({
+        '/cfg/config.yaml': { extends: ['./defaults.yaml', './security.yaml'] },
+        '/cfg/defaults.yaml': { prune: true },
+        '/cfg/security.yaml': { extends: './config.yaml' }
+      });
+
+      try {
+        resolveConfigWithExtends('/cfg/config.yaml');
+        expect.fail('Should have thrown error');
+      } catch (error: unknown) {
+        expect(isConfigMergerError(error)).toBe(true);
+        if (isConfigMergerError(error)) {
+          expect(error.code).toBe('CIRCULAR_DEPENDENCY');
+          expect(error['chain']).toBe('config.yaml → security.yaml → config.yaml');
+        }
+      }
+    });
+
+    it('should apply the depth limit to every branch', () => {
+      const files: Record<string, BaseConfig> = {
+        '/cfg/config.yaml': { extends: ['./shallow.yaml', './level1.yaml'] },
+        '/cfg/shallow.yaml': { prune: true }
+      };
+      for (let level = 1; level <= 6; level++)
+        files[`/cfg/level${level}.yaml`] = { extends: `./level${level + 1}.yaml` };
+      files['/cfg/level7.yaml'] = { source: './source' };
+      mockConfigFiles(files);
+
+      expect(() => resolveConfigWithExtends('/cfg/config.yaml')).toThrow('Extends chain exceeds maximum depth of 5');
+    });
+
+    it('should report which parent of a list is missing', () => {
+      mockConfigFiles({
+        '/cfg/config.yaml': { extends: ['./defaults.yaml', './missing.yaml'] },
+        '/cfg/defaults.yaml': {}
+      });
+
+      try {
+        resolveConfigWithExtends('/cfg/config.yaml');
+        expect.fail('Should have thrown error');
+      } catch (error: unknown) {
+        expect(isConfigMergerError(error)).toBe(true);
+        if (isConfigMergerError(error)) {
+          expect(error.code).toBe('INVALID_EXTENDS_PATH');
+          expect(error['extends']).toBe('./missing.yaml');
+        }
+      }
+    });
+
+    it('should return only the config itself as chain when it has no parents', () => {
+      mockConfigFiles({ '/cfg/config.yaml': { source: './src' } });
+
+      expect(resolveExtendsChain('/cfg/config.yaml')).toEqual(['/cfg/config.yaml']);
+    });
+  });
+
   describe('ConfigMergerError', () => {
     it('should be instance of ConfigMergerError', () => {
       const error = new ConfigMergerError('Test error');
@@ -658,4 +918,141 @@ describe('configMerger', () => {
       expect(result.requiredVersion).toBeUndefined();
     });
   });
+
+  describe('mergeConfigs - variables', () => {
+    it('should merge variables with child values winning and concatenate variablesFile', () => {
+      const parent: BaseConfig = {
+        variables: { cluster: 'base', domain: 'example.com' },
+        variablesFile: './common-vars.yaml',
+        envVariables: true
+      };
+      const child: BaseConfig = { variables: { cluster: 'prod-eu' }, variablesFile: ['./prod-vars.yaml'] };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.variables).toEqual({ cluster: 'prod-eu', domain: 'example.com' });
+      expect(result.variablesFile).toEqual(['./common-vars.yaml', './prod-vars.yaml']);
+      expect(result.envVariables).toBe(true);
+    });
+
+    it('should leave variable fields undefined when neither config sets them', () => {
+      const result = mergeConfigs({ source: './a' }, { destination: './b' });
+
+      expect(result.variables).toBeUndefined();
+      expect(result.variablesFile).toBeUndefined();
+      expect(result.envVariables).toBeUndefined();
+    });
+  });
+
+  describe('mergeConfigs - $replace and $remove', () => {
+    const parent: BaseConfig = {
+      include: ['apps/**'],
+      exclude: ['**/secrets.yaml', '**/*.bak'],
+      skipPath: { '**/values.yaml': ['image.tag', 'replicaCount'] },
+      stopRules: {
+        '**/*.yaml': [
+          { type: 'semverMajorUpgrade', path: 'image.tag' },
+          { type: 'numeric', path: 'replicaCount', min: 1 }
+        ]
+      },
+      transforms: {
+        '**/*.yaml': {
+          content: [
+            { find: 'uat', replace: 'prod' },
+            { find: 'uat-db', replace: 'prod-db' }
+          ],
+          filename: [{ find: 'uat', replace: 'prod' }]
+        }
+      },
+      outputFormat: { indent: 4, keySeparator: true }
+    };
+
+    it('should replace a whole inherited field with the child value', () => {
+      const child: BaseConfig = {
+        $replace: ['exclude', 'outputFormat'],
+        exclude: ['**/*.tmp'],
+        outputFormat: { indent: 2 }
+      };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.exclude).toEqual(['**/*.tmp']);
+      expect(result.outputFormat).toEqual({ indent: 2 });
+      expect(result.include).toEqual(['apps/**']);
+    });
+
+    it('should drop a replaced field entirely when the child does not set it', () => {
+      const result = mergeConfigs(parent, { $replace: ['stopRules'] });
+
+      expect(result.stopRules).toBeUndefined();
+      expect(result.skipPath).toEqual(parent.skipPath);
+    });
+
+    it('should replace only the entry of a single glob with <field>.<glob>', () => {
+      const child: BaseConfig = {
+        $replace: ['skipPath.**/values.yaml'],
+        skipPath: { '**/values.yaml': ['resources'], '**/other.yaml': ['a'] }
+      };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.skipPath).toEqual({ '**/values.yaml': ['resources'], '**/other.yaml': ['a'] });
+    });
+
+    it('should remove inherited include and exclude patterns', () => {
+      const child: BaseConfig = { $remove: { exclude: ['**/secrets.yaml'] }, exclude: ['**/*.tmp'] };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.exclude).toEqual(['**/*.bak', '**/*.tmp']);
+      expect(result.include).toEqual(['apps/**']);
+    });
+
+    it('should remove inherited skipPath entries and drop globs left empty', () => {
+      const result = mergeConfigs(parent, {
+        $remove: { skipPath: { '**/values.yaml': ['image.tag', 'replicaCount'] } }
+      });
+
+      expect(result.skipPath).toEqual({});
+    });
+
+    it('should remove inherited stop rules matched by type and path', () => {
+      const child: BaseConfig = {
+        $remove: { stopRules: { '**/*.yaml': [{ type: 'semverMajorUpgrade', path: 'image.tag' }] } }
+      };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.stopRules).toEqual({ '**/*.yaml': [{ type: 'numeric', path: 'replicaCount', min: 1 }] });
+    });
+
+    it('should remove inherited transforms matched by listed properties', () => {
+      const child: BaseConfig = {
+        $remove: { transforms: { '**/*.yaml': { content: [{ find: 'uat-db' }], filename: [{ find: 'uat' }] } } }
+      };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.transforms?.['**/*.yaml']?.content).toEqual([{ find: 'uat', replace: 'prod' }]);
+      expect(result.transforms?.['**/*.yaml']?.filename).toEqual([]);
+    });
+
+    it('should only remove entries inherited from the parent, not those added by the child', () => {
+      const child: BaseConfig = {
+        $remove: { exclude: ['**/*.bak'] },
+        exclude: ['**/*.bak']
+      };
+
+      const result = mergeConfigs(parent, child);
+
+      expect(result.exclude).toEqual(['**/secrets.yaml', '**/*.bak']);
+    });
+
+    it('should not keep $replace or $remove in the merged config', () => {
+      const result = mergeConfigs(parent, { $replace: ['include'], $remove: { exclude: ['**/*.bak'] } });
+
+      expect(result).not.toHaveProperty('$replace');
+      expect(result).not.toHaveProperty('$remove');
+    });
+  });
 });
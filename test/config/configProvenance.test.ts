@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  formatConfigProvenanceJson,
+  formatConfigProvenanceYaml,
+  resolveConfigProvenance
+} from '../../src/config/configProvenance';
+
+vi.mock('node:fs', () => ({
+  readFileSync: vi.fn()
+}));
+
+import { readFileSync } from 'node:fs';
+
+// Serves raw config file contents by absolute path, so line numbers are predictable
+const mockConfigSources = (files: Record<string, string>): void => {
+  vi.mocked(readFileSync).mockImplementation((filePath) => {
+    const content = files[String(filePath)];
+    if (content === undefined) throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+    return content;
+  });
+};
+
+const BASE_YAML = `exclude:
+  - '**/secrets.yaml'
+  - '**/*.bak'
+skipPath:
+  '*.yaml':
+    - image.tag
+stopRules:
+  '*.yaml':
+    - type: semverMajorUpgrade
+      path: image.tag
+outputFormat:
+  indent: 2
+  keyOrders:
+    '*.yaml': [apiVersion, kind]
+`;
+
+const SECURITY_YAML = `stopRules:
+  '*.yaml':
+    - type: numeric
+      path: replicaCount
+      min: 1
+transforms:
+  '*.yaml':
+    content:
+      - find: uat
+        replace: prod
+`;
+
+const CHILD_YAML = `extends: [./base.yaml, ./security.yaml]
+source: ./uat
+destination: ./prod
+$remove:
+  exclude: ['**/*.bak']
+exclude: ['**/*.tmp']
+outputFormat:
+  indent: 4
+`;
+
+describe('configProvenance', () => {
+  beforeEach(() => {
+    mockConfigSources({
+      '/configs/base.yaml': BASE_YAML,
+      '/configs/security.yaml': SECURITY_YAML,
+      '/configs/prod.yaml': CHILD_YAML
+    });
+  });
+
+  afterEach(() => {
+    vi.mocked(readFileSync).mockReset();
+  });
+
+  describe('resolveConfigProvenance', () => {
+    it('should return the merged config and the chain in merge order', () => {
+      const result = resolveConfigProvenance('/configs/prod.yaml');
+
+      expect(result.extendsChain).toEqual(['/configs/base.yaml', '/configs/security.yaml', '/configs/prod.yaml']);
+      expect(result.config.exclude).toEqual(['**/secrets.yaml', '**/*.tmp']);
+      expect(result.config).not.toHaveProperty('$remove');
+    });
+
+    it('should attribute scalars and outputFormat fields to the last config setting them', () => {
+      const { entries } = resolveConfigProvenance('/configs/prod.yaml');
+      const find = (path: string) => entries.find((entry) => entry.path === path);
+
+      expect(find('source')).toMatchObject({ file: '/configs/prod.yaml', line: 2 });
+      expect(find('outputFormat.indent')).toMatchObject({ file: '/configs/prod.yaml', line: 8 });
+      expect(find('outputFormat.keyOrders')).toMatchObject({ file: '/configs/base.yaml', line: 14 });
+    });
+
+    it('should attribute every list item to the file and line it was defined at', () => {
+      const { entries } = resolveConfigProvenance('/configs/prod.yaml');
+      const find = (path: string) => entries.find((entry) => entry.path === path);
+
+      expect(find('exclude[0]')).toMatchObject({ file: '/configs/base.yaml', line: 2 });
+      expect(find('exclude[1]')).toMatchObject({ file: '/configs/prod.yaml', line: 6 });
+      expect(find("skipPath['*.yaml'][0]")).toMatchObject({ file: '/configs/base.yaml', line: 6 });
+      expect(find("stopRules['*.yaml'][0]")).toMatchObject({ file: '/configs/base.yaml', line: 9 });
+      expect(find("stopRules['*.yaml'][1]")).toMatchObject({ file: '/configs/security.yaml', line: 3 });
+      expect(find("transforms['*.yaml'].content[0]")).toMatchObject({ file: '/configs/security.yaml', line: 9 });
+    });
+
+    it('should attribute duplicate items to each file in merge order', () => {
+      mockConfigSources({
+        '/configs/base.yaml': "include: ['apps/**']\n",
+        '/configs/prod.yaml': "extends: ./base.yaml\ninclude:\n  - 'apps/**'\n"
+      });
+
+      const { entries } = resolveConfigProvenance('/configs/prod.yaml');
+
+      expect(entries.filter((entry) => entry.path.startsWith('include'))).toEqual([
+        expect.objectContaining({ path: 'include[0]', file: '/configs/base.yaml', line: 1 }),
+        expect.objectContaining({ path: 'include[1]', file: '/configs/prod.yaml', line: 3 })
+      ]);
+    });
+
+    it('should skip items of configs before a $replace of the field', () => {
+      mockConfigSources({
+        '/configs/base.yaml': "exclude: ['**/*.tmp']\n",
+        '/configs/prod.yaml': "extends: ./base.yaml\n$replace: [exclude]\nexclude: ['**/*.tmp']\n"
+      });
+
+      const { entries } = resolveConfigProvenance('/configs/prod.yaml');
+
+      expect(entries.find((entry) => entry.path === 'exclude[0]')).toMatchObject({
+        file: '/configs/prod.yaml',
+        line: 3
+      });
+    });
+
+    it('should keep items of sibling parents when another parent replaces the field', () => {
+      mockConfigSources({
+        '/configs/a.yaml': "exclude: ['**/*.tmp']\n",
+        '/configs/base.yaml': "exclude: ['**/*.tmp']\n",
+        '/configs/b.yaml': "extends: ./base.yaml\n$replace: [exclude]\nexclude: ['**/*.bak']\n",
+        '/configs/prod.yaml': 'extends: [./a.yaml, ./b.yaml]\n'
+      });
+
+      const { config, entries } = resolveConfigProvenance('/configs/prod.yaml');
+
+      expect(config.exclude).toEqual(['**/*.tmp', '**/*.bak']);
+      expect(entries.filter((entry) => entry.path.startsWith('exclude'))).toEqual([
+        expect.objectContaining({ path: 'exclude[0]', file: '/configs/a.yaml', line: 1 }),
+        expect.objectContaining({ path: 'exclude[1]', file: '/configs/b.yaml', line: 3 })
+      ]);
+    });
+
+    it('should trace a config without extends to itself', () => {
+      mockConfigSources({ '/configs/prod.yaml': 'source: ./uat\ndestination: ./prod\n' });
+
+      const result = resolveConfigProvenance('/configs/prod.yaml');
+
+      expect(result.extendsChain).toEqual(['/configs/prod.yaml']);
+      expect(result.entries.map((entry) => `${entry.path}:${entry.line}`)).toEqual(['source:1', 'destination:2']);
+    });
+  });
+
+  describe('formatConfigProvenanceYaml', () => {
+    it('should annotate values with file:line comments relative to the base directory', () => {
+      const yaml = formatConfigProvenanceYaml(resolveConfigProvenance('/configs/prod.yaml'), '/configs');
+
+      expect(yaml).toContain('source: ./uat # prod.yaml:2');
+      expect(yaml).toContain('- "**/secrets.yaml" # base.yaml:2');
+      expect(yaml).toContain('- type: numeric # security.yaml:3');
+      expect(yaml).toContain('keyOrders: # base.yaml:14');
+    });
+  });
+
+  describe('formatConfigProvenanceJson', () => {
+    it('should list provenance entries with relative file paths', () => {
+      const json = formatConfigProvenanceJson(resolveConfigProvenance('/configs/prod.yaml'), '/configs');
+
+      expect(json.extendsChain).toEqual(['base.yaml', 'security.yaml', 'prod.yaml']);
+      expect(json.provenance).toContainEqual({ path: "stopRules['*.yaml'][1]", file: 'security.yaml', line: 3 });
+      expect(json.config.source).toBe('./uat');
+    });
+  });
+});
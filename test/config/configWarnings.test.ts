@@ -242,6 +242,71 @@ describe('validateConfigWarnings', () => {
     });
   });
 
+  describe('empty arrayMerge arrays', () => {
+    it('should warn about arrayMerge patterns with empty arrays', () => {
+      const config = createBaseConfig();
+      config.arrayMerge = {
+        '**/*.yaml': [{ path: 'env', key: 'name', strategy: 'mergeByKey' }],
+        'empty.yaml': []
+      };
+
+      const result = validateConfigWarnings(config);
+
+      expect(result.warnings).toEqual(["arrayMerge pattern 'empty.yaml' has empty array (will have no effect)"]);
+    });
+  });
+
+  describe('diffIgnore', () => {
+    it('should warn about diffIgnore patterns with empty arrays', () => {
+      const config = createBaseConfig();
+      config.diffIgnore = { '**/*.yaml': ['buildTime'], 'empty.yaml': [] };
+
+      const result = validateConfigWarnings(config);
+
+      expect(result.warnings).toEqual(["diffIgnore pattern 'empty.yaml' has empty array (will have no effect)"]);
+    });
+
+    it('should warn when a diffIgnore path is also a skipPath', () => {
+      const config = createBaseConfig();
+      config.diffIgnore = { '*.yaml': ['buildTime', 'checksum'] };
+      config.skipPath = { '*.yaml': ['buildTime'] };
+
+      const result = validateConfigWarnings(config);
+
+      expect(result.warnings).toEqual([
+        "diffIgnore path 'buildTime' is also a skipPath for '*.yaml' (skipPath wins, value is never synced)"
+      ]);
+    });
+  });
+
+  describe('empty orderedArrays arrays', () => {
+    it('should warn about orderedArrays patterns with empty arrays', () => {
+      const config = createBaseConfig();
+      config.orderedArrays = { '**/*.yaml': ['args'], 'empty.yaml': [] };
+
+      const result = validateConfigWarnings(config);
+
+      expect(result.warnings).toEqual(["orderedArrays pattern 'empty.yaml' has empty array (will have no effect)"]);
+    });
+  });
+
+  describe('fileDeletion stop rules', () => {
+    it('should warn when prune is disabled', () => {
+      const config = createBaseConfig();
+      config.stopRules = { 'secrets/**': [{ type: 'fileDeletion' }] };
+
+      expect(validateConfigWarnings(config).warnings).toEqual([
+        "fileDeletion stop rule for 'secrets/**' has no effect because prune is disabled"
+      ]);
+    });
+
+    it('should not warn when prune is enabled', () => {
+      const config = { ...createBaseConfig(), prune: true, stopRules: { 'secrets/**': [{ type: 'fileDeletion' }] } };
+
+      expect(validateConfigWarnings(config).hasWarnings).toBe(false);
+    });
+  });
+
   describe('fixedValues and skipPath conflicts', () => {
     it('should warn when fixedValue path equals skipPath', () => {
       const config = createBaseConfig();
@@ -0,0 +1,203 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import type { BaseConfig } from '../../src/config/configFile';
+import {
+  isVariableResolverError,
+  loadVariables,
+  resolveConfigVariables,
+  VariableResolverError
+} from '../../src/config/variableResolver';
+import type * as YamlFileLoaderModule from '../../src/utils/yamlFileLoader';
+import { YamlFileLoaderError } from '../../src/utils/yamlFileLoader';
+
+vi.mock('../../src/utils/yamlFileLoader', async () => {
+  const actual = await vi.importActual<typeof YamlFileLoaderModule>('../../src/utils/yamlFileLoader');
+  return {
+    ...actual,
+    loadYamlFile: vi.fn()
+  };
+});
+
+import { loadYamlFile } from '../../src/utils/yamlFileLoader';
+
+const mockLoadYamlFile = vi.mocked(loadYamlFile);
+
+describe('config/variableResolver', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  describe('loadVariables', () => {
+    it('should return inline variables when no file is configured', () => {
+      expect(loadVariables({ variables: { cluster: 'prod-eu' } }, '/config')).toEqual({ cluster: 'prod-eu' });
+      expect(mockLoadYamlFile).not.toHaveBeenCalled();
+    });
+
+    it('should merge files in order and let inline variables win', () => {
+      mockLoadYamlFile.mockImplementation((filePath) =>
+        filePath === './common.yaml' ? { domain: 'example.com', cluster: 'common' } : { cluster: 'prod-eu' }
+      );
+
+      const variables = loadVariables(
+        { variablesFile: ['./common.yaml', './prod.yaml'], variables: { accountId: 1234 } },
+        '/config'
+      );
+
+      expect(variables).toEqual({ domain: 'example.com', cluster: 'prod-eu', accountId: 1234 });
+      expect(mockLoadYamlFile).toHaveBeenCalledWith('./common.yaml', '/config', 'variables');
+    });
+
+    it('should treat an empty variables file as no variables', () => {
+      // eslint-disable-next-line unicorn/no-null -- YAML.parse returns null for empty files
+      mockLoadYamlFile.mockReturnValue(null);
+
+      expect(loadVariables({ variablesFile: './empty.yaml' }, '/config')).toEqual({});
+    });
+
+    it('should reject nested values and invalid names', () => {
+      for (const data of [{ cluster: { name: 'a' } }, { 'not valid': 'a' }, ['a']]) {
+        mockLoadYamlFile.mockReturnValue(data);
+
+        expect(() => loadVariables({ variablesFile: './vars.yaml' }, '/config')).toThrow(VariableResolverError);
+      }
+    });
+
+    it('should wrap file loading errors', () => {
+      mockLoadYamlFile.mockImplementation(() => {
+        throw new YamlFileLoaderError('Cannot read variables file', { code: 'ENOENT' });
+      });
+
+      try {
+        loadVariables({ variablesFile: './missing.yaml' }, '/config');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(isVariableResolverError(error)).toBe(true);
+        if (error instanceof VariableResolverError) expect(error.path).toBe('./missing.yaml');
+      }
+    });
+  });
+
+  describe('resolveConfigVariables', () => {
+    const variables = { cluster: 'prod-eu', domain: 'example.com', replicas: 3 };
+
+    it('should interpolate content, filename and key replace strings', () => {
+      const config: BaseConfig = {
+        variables,
+        transforms: {
+          '*.yaml': {
+            content: [{ find: 'uat-internal', replace: '${cluster}.${domain}' }],
+            filename: [{ find: 'uat/', replace: '${cluster}/' }],
+            keys: [{ find: '^uat$', replace: '${cluster}' }]
+          }
+        }
+      };
+
+      const result = resolveConfigVariables(config, '/config');
+
+      expect(result.transforms?.['*.yaml']?.content).toEqual([
+        { find: 'uat-internal', replace: 'prod-eu.example.com' }
+      ]);
+      expect(result.transforms?.['*.yaml']?.filename).toEqual([{ find: 'uat/', replace: 'prod-eu/' }]);
+      expect(result.transforms?.['*.yaml']?.keys).toEqual([{ find: '^uat$', replace: 'prod-eu' }]);
+    });
+
+    it('should keep the variable type for fixed values that are a single reference', () => {
+      const config: BaseConfig = {
+        variables,
+        fixedValues: {
+          '*.yaml': [
+            { path: 'replicas', value: '${replicas}' },
+            { path: 'host', value: 'api.${domain}' },
+            { path: 'labels', value: { cluster: '${cluster}', tags: ['${cluster}-a'] } }
+          ]
+        }
+      };
+
+      const result = resolveConfigVariables(config, '/config');
+
+      expect(result.fixedValues?.['*.yaml']).toEqual([
+        { path: 'replicas', value: 3 },
+        { path: 'host', value: 'api.example.com' },
+        { path: 'labels', value: { cluster: 'prod-eu', tags: ['prod-eu-a'] } }
+      ]);
+    });
+
+    it('should leave capture group references and other dollar signs alone', () => {
+      const config: BaseConfig = {
+        variables,
+        transforms: { '*.yaml': { content: [{ find: 'v([0-9]+)', replace: 'v$1-$$-${cluster}' }] } }
+      };
+
+      const result = resolveConfigVariables(config, '/config');
+
+      expect(result.transforms?.['*.yaml']?.content?.[0]?.replace).toBe('v$1-$$-prod-eu');
+    });
+
+    it('should resolve environment variables only when envVariables is enabled', () => {
+      vi.stubEnv('HED_TEST_REGION', 'eu-west-1');
+      const config: BaseConfig = {
+        fixedValues: { '*.yaml': [{ path: 'region', value: '${env:HED_TEST_REGION}' }] }
+      };
+
+      expect(resolveConfigVariables({ ...config, envVariables: true }, '/config').fixedValues?.['*.yaml']).toEqual([
+        { path: 'region', value: 'eu-west-1' }
+      ]);
+      expect(() => resolveConfigVariables({ ...config, envVariables: false }, '/config')).toThrow(
+        'environment access is disabled'
+      );
+    });
+
+    it('should list every undefined variable with its location', () => {
+      const config: BaseConfig = {
+        variables,
+        transforms: { 'apps/*.yaml': { content: [{ find: 'a', replace: '${missing}' }] } },
+        fixedValues: { '*.yaml': [{ path: 'x', value: '${other}-${cluster}' }] }
+      };
+
+      try {
+        resolveConfigVariables(config, '/config');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(isVariableResolverError(error)).toBe(true);
+        if (error instanceof VariableResolverError) {
+          expect(error.code).toBe('UNDEFINED_VARIABLE');
+          expect(error.message).toContain("${missing} in transforms['apps/*.yaml'].content[0].replace");
+          expect(error.message).toContain("${other} in fixedValues['*.yaml'][0].value");
+          expect(error.message).not.toContain('${cluster} in');
+        }
+      }
+    });
+
+    it('should write escaped references as literal text', () => {
+      const config: BaseConfig = {
+        variables,
+        transforms: { '*.yaml': { content: [{ find: 'a', replace: '$${RELEASE_NAME}-${cluster}' }] } },
+        fixedValues: { '*.yaml': [{ path: 'x', value: '$${replicas}' }] }
+      };
+
+      const result = resolveConfigVariables(config, '/config');
+
+      expect(result.transforms?.['*.yaml']?.content?.[0]?.replace).toBe('${RELEASE_NAME}-prod-eu');
+      expect(result.fixedValues?.['*.yaml']).toEqual([{ path: 'x', value: '${replicas}' }]);
+    });
+
+    it('should keep undefined references as literal text when no variables are configured', () => {
+      const config: BaseConfig = {
+        transforms: { '*.yaml': { content: [{ find: 'a', replace: '${X}' }] } },
+        fixedValues: { '*.yaml': [{ path: 'name', value: '${RELEASE_NAME}-svc' }] }
+      };
+
+      expect(resolveConfigVariables(config, '/config')).toEqual(config);
+    });
+
+    it('should return the config unchanged when nothing references variables', () => {
+      const config: BaseConfig = {
+        source: './src',
+        transforms: { '*.yaml': { content: [{ find: 'a', replace: 'b' }] } }
+      };
+
+      expect(resolveConfigVariables(config, '/config')).toEqual(config);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as YAML from 'yaml';
+
+import { parseFinalConfig } from '../src/config';
+import { buildInitialConfig, initConfig, isConfigInitializerError } from '../src/configInitializer';
+
+vi.mock('node:fs', () => ({
+  existsSync: vi.fn()
+}));
+
+vi.mock('node:fs/promises', () => ({
+  writeFile: vi.fn()
+}));
+
+vi.mock('../src/pipeline/fileLoader', async (importOriginal) => ({
+  ...(await importOriginal<object>()),
+  loadFiles: vi.fn()
+}));
+
+import { existsSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+
+import { loadFiles } from '../src/pipeline/fileLoader';
+
+const options = { source: './uat', destination: './prod', suggestThreshold: 0.3 };
+
+const deployment = (name: string, environment: string, version: string, replicas = 1) =>
+  YAML.stringify({
+    apiVersion: 'apps/v1',
+    kind: 'Deployment',
+    metadata: { name },
+    spec: { database: `${environment}-db`, version, replicas }
+  });
+
+const createSourceFiles = () =>
+  new Map([
+    ['apps/a.yaml', deployment('a', 'uat', '1.2.0')],
+    ['apps/b.yaml', deployment('b', 'uat', '1.2.0')],
+    ['README.md', '# Apps']
+  ]);
+
+const createDestinationFiles = () =>
+  new Map([
+    ['apps/a.yaml', deployment('a', 'prod', '1.1.0', 3)],
+    ['apps/b.yaml', deployment('b', 'prod', '1.1.0', 3)]
+  ]);
+
+describe('configInitializer', () => {
+  describe('buildInitialConfig', () => {
+    it('should include one glob per structured file type found', () => {
+      const result = buildInitialConfig(
+        new Map([
+          ['values.yaml', 'a: 1'],
+          ['settings.json', '{}']
+        ]),
+        new Map([['notes.txt', 'x']]),
+        options
+      );
+
+      expect(result.config.include).toEqual(['**/*.json', '**/*.yaml']);
+      expect(result.content).toContain('not included: .txt');
+    });
+
+    it('should write suggested transforms and stop rules with their confidence', () => {
+      const result = buildInitialConfig(createSourceFiles(), createDestinationFiles(), options);
+
+      expect(result.transformCount).toBeGreaterThan(0);
+      expect(result.stopRuleCount).toBeGreaterThan(0);
+      expect(result.config.stopRules?.['**/*.yaml']).toContainEqual({ type: 'semverDowngrade', path: 'spec.version' });
+      expect(result.content).toMatch(/# Confidence: \d+% \| 2 occurrence\(s\) in 2 file\(s\)/);
+      expect(result.content).toContain('# Example:');
+    });
+
+    it('should write suggested skipPaths for values no transform explains', () => {
+      const result = buildInitialConfig(createSourceFiles(), createDestinationFiles(), options);
+
+      expect(result.config.skipPath).toEqual({ '**/*.yaml': ['spec.replicas'] });
+      expect(result.skipPathCount).toBe(1);
+      expect(result.content).toContain(
+        '    # Confidence: 70% | Differs in 2 files with no matching transform\n    - spec.replicas'
+      );
+    });
+
+    it('should write filename transforms for files named per environment', () => {
+      const source = new Map([['envs/values-uat.yaml', deployment('web', 'uat', '1.2.0')]]);
+      const destination = new Map([['envs/values-prod.yaml', deployment('web', 'prod', '1.2.0')]]);
+
+      const result = buildInitialConfig(source, destination, options);
+
+      expect(result.config.transforms?.['**/*']?.filename).toEqual([{ find: 'uat', replace: 'prod' }]);
+      expect(result.content).toContain('# Example: envs/values-uat.yaml → envs/values-prod.yaml');
+      expect(result.transformCount).toBe(1);
+    });
+
+    it('should infer key orders from the destination', () => {
+      const result = buildInitialConfig(createSourceFiles(), createDestinationFiles(), options);
+
+      expect(result.config.outputFormat.keyOrders).toEqual({
+        '**/*.yaml': ['apiVersion', 'kind', 'metadata', 'spec']
+      });
+    });
+
+    it('should leave out keys most destination documents lack', () => {
+      const destination = new Map([
+        ['a.yaml', 'kind: A\nname: a\n'],
+        ['b.yaml', 'kind: B\nname: b\n'],
+        ['c.yaml', 'kind: C\nname: c\nextra: true\n']
+      ]);
+
+      const result = buildInitialConfig(new Map(), destination, options);
+
+      expect(result.config.outputFormat.keyOrders).toEqual({ '**/*.yaml': ['kind', 'name'] });
+    });
+
+    it('should produce commented YAML that parses back to the same config', () => {
+      const result = buildInitialConfig(createSourceFiles(), createDestinationFiles(), options);
+
+      expect(result.content).toMatch(/^# yaml-language-server: \$schema=/);
+      expect(parseFinalConfig(YAML.parse(result.content))).toEqual(result.config);
+    });
+
+    it('should omit rule sections when the folders are in sync', () => {
+      const files = new Map([['values.yaml', 'replicaCount: 1\n']]);
+
+      const result = buildInitialConfig(files, new Map(files), options);
+
+      expect(result.config.transforms).toBeUndefined();
+      expect(result.config.stopRules).toBeUndefined();
+      expect(result.filesAnalyzed).toBe(1);
+    });
+
+    it('should throw when no structured files are found', () => {
+      expect.assertions(2);
+      try {
+        buildInitialConfig(new Map([['README.md', '# x']]), new Map(), options);
+      } catch (error) {
+        expect(isConfigInitializerError(error)).toBe(true);
+        expect((error as { code?: string }).code).toBe('NO_FILES');
+      }
+    });
+  });
+
+  describe('initConfig', () => {
+    afterEach(() => {
+      vi.mocked(existsSync).mockReset();
+      vi.mocked(writeFile).mockReset();
+      vi.mocked(loadFiles).mockReset();
+    });
+
+    it('should refuse to overwrite an existing config without force', async () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+
+      await expect(initConfig({ ...options, configPath: 'config.yaml', force: false })).rejects.toMatchObject({
+        code: 'OUTPUT_EXISTS'
+      });
+      expect(writeFile).not.toHaveBeenCalled();
+    });
+
+    it('should load both folders and write the generated config', async () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(loadFiles)
+        .mockResolvedValueOnce({ fileMap: createSourceFiles(), originalPaths: new Map() })
+        .mockResolvedValueOnce({ fileMap: createDestinationFiles(), originalPaths: new Map() });
+
+      const result = await initConfig({ ...options, configPath: 'config.yaml', force: true });
+
+      expect(loadFiles).toHaveBeenCalledWith({ baseDirectory: './uat', include: ['**/*'], exclude: [] }, undefined);
+      expect(writeFile).toHaveBeenCalledWith('config.yaml', result.content, 'utf8');
+    });
+  });
+});
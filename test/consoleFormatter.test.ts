@@ -109,6 +109,13 @@ describe('consoleFormatter', () => {
       expect(result).toContain('(--force)');
     });
 
+    it('should show "Stop Rule Warning" for advisory mode', () => {
+      const result = formatStopRuleViolation(violation, 'advisory');
+
+      expect(result).toContain('Stop Rule Warning');
+      expect(result).not.toContain('Stop Rule Violation');
+    });
+
     it('should use error style for error mode', () => {
       const result = formatStopRuleViolation(violation, 'error');
 
@@ -167,6 +174,21 @@ describe('consoleFormatter', () => {
       expect(result).toContain('2.0.0');
       expect(result).toBeDefined();
     });
+
+    it('should omit values for file deletions', () => {
+      const deletion = {
+        file: 'prod/secrets.yaml',
+        path: '(file)',
+        rule: { type: 'fileDeletion' as const },
+        message: 'Prune would delete this protected file',
+        oldValue: undefined,
+        updatedValue: undefined
+      };
+      const result = formatStopRuleViolation(deletion, 'error');
+
+      expect(result).toContain('fileDeletion');
+      expect(result).not.toContain('New Value');
+    });
   });
 
   describe('colorizeFileOperation', () => {
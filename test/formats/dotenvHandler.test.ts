@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+
+import { dotenvHandler } from '../../src/formats/dotenvHandler';
+
+const content = [
+  '# Database',
+  'export DB_URL="postgres://uat-db" # primary',
+  'DEBUG=true',
+  "NAME='my app'",
+  'MULTI="line1',
+  'line2"',
+  'EMPTY=',
+  ''
+].join('\n');
+
+describe('formats/dotenvHandler', () => {
+  describe('matches', () => {
+    it('should match .env files', () => {
+      expect(dotenvHandler.matches('.env')).toBe(true);
+      expect(dotenvHandler.matches('apps/.env.production')).toBe(true);
+      expect(dotenvHandler.matches('values.yaml')).toBe(false);
+    });
+  });
+
+  describe('parse', () => {
+    it('should parse keys into a flat object of strings', () => {
+      expect(dotenvHandler.parse(content)).toEqual([
+        { DB_URL: 'postgres://uat-db', DEBUG: 'true', NAME: 'my app', MULTI: 'line1\nline2', EMPTY: '' }
+      ]);
+    });
+
+    it('should unescape double-quoted values and keep single-quoted values literal', () => {
+      expect(dotenvHandler.parse(String.raw`A="a\nb \"c\""` + '\n' + String.raw`B='a\nb'`)).toEqual([
+        { A: 'a\nb "c"', B: String.raw`a\nb` }
+      ]);
+    });
+
+    it('should strip inline comments from unquoted values only', () => {
+      expect(dotenvHandler.parse('A=value # note\nB="x # y"\nC=#comment')).toEqual([{ A: 'value', B: 'x # y', C: '' }]);
+    });
+
+    it('should use the last value of duplicate keys', () => {
+      expect(dotenvHandler.parse('A=1\nA=2')).toEqual([{ A: '2' }]);
+    });
+
+    it('should throw on unterminated quotes', () => {
+      expect(() => dotenvHandler.parse('A="open\nB=1')).toThrow(/Unterminated " quote for 'A'/);
+    });
+
+    it('should parse empty content as an empty object', () => {
+      expect(dotenvHandler.parse('')).toEqual([{}]);
+    });
+  });
+
+  describe('patch', () => {
+    it('should keep comments, prefixes, quoting and unchanged lines', () => {
+      const [parsed] = dotenvHandler.parse(content) as [Record<string, string>];
+
+      const result = dotenvHandler.patch(content, [
+        { value: { ...parsed, DB_URL: 'postgres://prod-db', NAME: 'prod app' }, destinationIndex: 0 }
+      ]);
+
+      expect(result).toBe(content.replace('postgres://uat-db', 'postgres://prod-db').replace("'my app'", "'prod app'"));
+    });
+
+    it('should drop removed keys and append new keys', () => {
+      const result = dotenvHandler.patch('# keep\nA=1\nB=2\n', [{ value: { A: '1', C: 'has space' } }]);
+
+      expect(result).toBe('# keep\nA=1\nC="has space"\n');
+    });
+
+    it('should switch to double quotes when the previous style cannot hold the value', () => {
+      expect(dotenvHandler.patch("A='x'\nB=y\n", [{ value: { A: "it's", B: 'two words' } }])).toBe(
+        'A="it\'s"\nB="two words"\n'
+      );
+    });
+
+    it('should write non-string values as text', () => {
+      expect(dotenvHandler.patch('PORT=80\n', [{ value: { PORT: 8080 } }])).toBe('PORT=8080\n');
+    });
+
+    it('should keep Windows line endings', () => {
+      expect(dotenvHandler.patch('A=1\r\nB=2\r\n', [{ value: { A: '1', B: '3' } }])).toBe('A=1\r\nB=3\r\n');
+    });
+  });
+
+  describe('serialize', () => {
+    it('should reuse the layout of the original content', () => {
+      expect(dotenvHandler.serialize([{ URL: 'prod' }], '# url\nURL=uat\n')).toBe('# url\nURL=prod\n');
+    });
+  });
+
+  describe('serializeForDiff', () => {
+    it('should list keys in sorted order', () => {
+      expect(dotenvHandler.serializeForDiff({ B: '2', A: 'x y' })).toBe('A="x y"\nB=2\n');
+    });
+
+    it('should serialize undefined as empty content', () => {
+      expect(dotenvHandler.serializeForDiff()).toBe('');
+    });
+  });
+});
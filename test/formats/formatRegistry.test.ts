@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+
+import type { FormatHandler } from '../../src/formats/formatHandler';
+import { getFormatHandler, registerFormatHandler } from '../../src/formats/formatRegistry';
+
+describe('formats/formatRegistry', () => {
+  describe('getFormatHandler', () => {
+    it('should return the built-in handler for each structured extension', () => {
+      expect(getFormatHandler('values.yaml')?.id).toBe('yaml');
+      expect(getFormatHandler('values.yml')?.id).toBe('yaml');
+      expect(getFormatHandler('config.json')?.id).toBe('json');
+      expect(getFormatHandler('.env.production')?.id).toBe('dotenv');
+      expect(getFormatHandler('application.properties')?.id).toBe('properties');
+      expect(getFormatHandler('Cargo.toml')?.id).toBe('toml');
+    });
+
+    it('should return undefined for plain text files', () => {
+      expect(getFormatHandler('README.md')).toBeUndefined();
+      expect(getFormatHandler('Chart.lock')).toBeUndefined();
+    });
+  });
+
+  describe('registerFormatHandler', () => {
+    it('should give registered handlers precedence', () => {
+      const customHandler: FormatHandler = {
+        id: 'ini',
+        name: 'INI',
+        matches: (filePath) => filePath.endsWith('.ini'),
+        syntaxHints: [],
+        parse: () => [{}],
+        serialize: () => '',
+        patch: () => '',
+        format: (content) => content,
+        serializeForDiff: () => ''
+      };
+
+      registerFormatHandler(customHandler);
+
+      expect(getFormatHandler('settings.ini')).toBe(customHandler);
+      expect(getFormatHandler('values.yaml')?.id).toBe('yaml');
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+
+import { propertiesHandler } from '../../src/formats/propertiesHandler';
+
+const content = [
+  '# Application',
+  'server.port = 8080',
+  '! legacy comment',
+  'spring.datasource.url=jdbc:uat',
+  'long.value=first \\',
+  '    second',
+  String.raw`key\ with\ space : v`,
+  ''
+].join('\n');
+
+describe('formats/propertiesHandler', () => {
+  describe('parse', () => {
+    it('should parse dotted keys into nested objects', () => {
+      expect(propertiesHandler.parse(content)).toEqual([
+        {
+          server: { port: '8080' },
+          spring: { datasource: { url: 'jdbc:uat' } },
+          long: { value: 'first second' },
+          'key with space': 'v'
+        }
+      ]);
+    });
+
+    it('should support all separators and escapes', () => {
+      expect(propertiesHandler.parse(String.raw`a:1` + '\nb 2\n' + String.raw`c=tab\there é`)).toEqual([
+        { a: '1', b: '2', c: 'tab\there é' }
+      ]);
+    });
+
+    it('should throw when a key both holds a value and prefixes other keys', () => {
+      expect(() => propertiesHandler.parse('app=1\napp.name=web')).toThrow(/conflicts with key 'app'/);
+      expect(() => propertiesHandler.parse('app.name=web\napp=1')).toThrow(/conflicts with longer keys/);
+    });
+  });
+
+  describe('patch', () => {
+    it('should keep comments, separators and unchanged entries', () => {
+      const result = propertiesHandler.patch(content, [
+        {
+          value: {
+            server: { port: '9090' },
+            spring: { datasource: { url: 'jdbc:uat', password: 'secret' } },
+            'key with space': 'v'
+          },
+          destinationIndex: 0
+        }
+      ]);
+
+      expect(result).toBe(
+        [
+          '# Application',
+          'server.port = 9090',
+          '! legacy comment',
+          'spring.datasource.url=jdbc:uat',
+          String.raw`key\ with\ space : v`,
+          'spring.datasource.password=secret',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should escape special characters in new entries', () => {
+      expect(propertiesHandler.patch('', [{ value: { 'a b': ' x\ny' } }])).toBe(String.raw`a\ b=\ x\ny` + '\n');
+    });
+  });
+
+  describe('serializeForDiff', () => {
+    it('should list flattened keys in sorted order', () => {
+      expect(propertiesHandler.serializeForDiff({ z: '1', a: { b: '2' } })).toBe('a.b=2\nz=1\n');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+
+import { tomlHandler } from '../../src/formats/tomlHandler';
+
+const content = '# Service\ntitle = "uat"\n\n[db]\nhost = "uat-db"\nports = [ 5432 ]\ncreated = 1979-05-27\n';
+
+describe('formats/tomlHandler', () => {
+  describe('parse', () => {
+    it('should parse tables into nested objects and dates into text', () => {
+      expect(tomlHandler.parse(content)).toEqual([
+        { title: 'uat', db: { host: 'uat-db', ports: [5432], created: '1979-05-27' } }
+      ]);
+    });
+
+    it('should throw on invalid TOML', () => {
+      expect(() => tomlHandler.parse('title = uat')).toThrow();
+    });
+  });
+
+  describe('patch', () => {
+    it('should rewrite only changed lines, keeping comments and date values', () => {
+      const result = tomlHandler.patch(content, [
+        { value: { title: 'prod', db: { host: 'prod-db', ports: [5432], created: '1979-05-27' } }, destinationIndex: 0 }
+      ]);
+
+      expect(result).toBe(
+        '# Service\ntitle = "prod"\n\n[db]\nhost = "prod-db"\nports = [ 5432 ]\ncreated = 1979-05-27\n'
+      );
+    });
+
+    it('should keep the destination as it is when only formatting differs', () => {
+      const destination = 'title   =   "uat"  # env\r\nports = [\r\n  1,\r\n  2,\r\n]\r\n';
+
+      expect(tomlHandler.patch(destination, [{ value: { title: 'uat', ports: [1, 2] } }])).toBe(destination);
+    });
+
+    it('should replace multi-line values, drop removed keys and tables, and add new ones', () => {
+      const destination = [
+        'name = "uat" # service',
+        'ports = [',
+        '  1,',
+        '  2,',
+        ']',
+        'notes = """',
+        'line',
+        '"""',
+        '',
+        '[db]',
+        '# connection',
+        'host = "uat-db"',
+        '',
+        '[cache]',
+        'size = 1',
+        ''
+      ].join('\n');
+
+      const result = tomlHandler.patch(destination, [
+        { value: { name: 'prod', ports: [3], extra: true, db: { host: 'uat-db', user: 'app' }, queue: { size: 2 } } }
+      ]);
+
+      expect(result).toBe(
+        [
+          'name = "prod" # service',
+          'ports = [3]',
+          'extra = true',
+          '',
+          '[db]',
+          '# connection',
+          'host = "uat-db"',
+          'user = "app"',
+          '',
+          '',
+          '[queue]',
+          'size = 2',
+          ''
+        ].join('\n')
+      );
+    });
+
+    it('should regenerate files with arrays of tables', () => {
+      const destination = '# Servers\n[[servers]]\nname = "a"\n';
+      const documents = [{ value: { servers: [{ name: 'b' }] } }];
+
+      expect(tomlHandler.patch(destination, documents)).toBe('[[servers]]\nname = "b"\n');
+      expect(tomlHandler.patchKeepsLayout?.(destination, documents)).toBe(false);
+      expect(
+        tomlHandler.patchKeepsLayout?.(
+          content,
+          tomlHandler.parse(content).map((value) => ({ value }))
+        )
+      ).toBe(true);
+    });
+
+    it('should reject documents that are not tables', () => {
+      expect(() => tomlHandler.patch('', [{ value: ['a'] }])).toThrow(/must be tables/);
+    });
+  });
+
+  describe('serializeForDiff', () => {
+    it('should serialize with sorted keys', () => {
+      expect(tomlHandler.serializeForDiff({ b: 1, a: { d: 2, c: 3 } })).toBe('b = 1\n\n[a]\nc = 3\nd = 2\n');
+    });
+  });
+});
@@ -1,6 +1,20 @@
 import { describe, expect, it, vi } from 'vitest';
 
-import { computeFileDiff, getSkipPathsForFile } from '../../src/pipeline/fileDiff';
+import {
+  computeFileDiff,
+  getDiffIgnorePathsForFile,
+  getOrderedArrayPathsForFile,
+  getSkipPathsForFile
+} from '../../src/pipeline/fileDiff';
+
+const createDeploymentYaml = (tag: string, replicas = 2): string =>
+  `apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web\nspec:\n  replicas: ${replicas}\n  tag: ${tag}\n`;
+
+const createArrayMergeConfig = (strategy: string) => ({
+  source: './src',
+  destination: './dest',
+  arrayMerge: { '*.yaml': [{ path: 'env', key: 'name', strategy }] }
+});
 
 describe('fileDiff', () => {
   describe('computeFileDiff', () => {
@@ -1027,4 +1041,425 @@ describe('fileDiff', () => {
       expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('broken.yaml'), 'normal');
     });
   });
+
+  describe('multi-document YAML', () => {
+    const service = 'apiVersion: v1\nkind: Service\nmetadata:\n  name: web\nspec:\n  port: 80\n';
+
+    it('should treat reordered but identical documents as unchanged', () => {
+      const source = new Map([['app.yaml', `${service}---\n${createDeploymentYaml('v1')}`]]);
+      const destination = new Map([['app.yaml', `${createDeploymentYaml('v1')}---\n${service}`]]);
+      const config = { source: './src', destination: './dest' };
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.unchangedFiles).toContain('app.yaml');
+    });
+
+    it('should report changes per document matched by identity', () => {
+      const source = new Map([['app.yaml', `${service}---\n${createDeploymentYaml('v2')}`]]);
+      const destination = new Map([['app.yaml', `${createDeploymentYaml('v1')}---\n${service}`]]);
+      const config = { source: './src', destination: './dest' };
+
+      const result = computeFileDiff(source, destination, config);
+      const documents = result.changedFiles[0]?.documents;
+
+      expect(
+        documents?.map(({ label, sourceIndex, destinationIndex, changed }) => ({
+          label,
+          sourceIndex,
+          destinationIndex,
+          changed
+        }))
+      ).toEqual([
+        { label: 'v1/Service/web', sourceIndex: 0, destinationIndex: 1, changed: false },
+        { label: 'apps/v1/Deployment/web', sourceIndex: 1, destinationIndex: 0, changed: true }
+      ]);
+      expect(documents?.[1]?.processedSourceContent).toMatchObject({ spec: { tag: 'v2' } });
+    });
+
+    it('should apply transforms, fixedValues and skipPath to every document', () => {
+      const source = new Map([
+        ['app.yaml', `${createDeploymentYaml('uat-v1', 2)}---\nkind: Note\ndata:\n  level: debug\n`]
+      ]);
+      const destination = new Map([
+        ['app.yaml', `${createDeploymentYaml('prod-v1', 9)}---\nkind: Note\ndata:\n  level: info\n`]
+      ]);
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: { '*.yaml': { content: [{ find: 'uat-', replace: 'prod-' }] } },
+        fixedValues: { '*.yaml': [{ path: 'data.level', value: 'info' }] },
+        skipPath: { '*.yaml': ['spec.replicas'] }
+      };
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.unchangedFiles).toContain('app.yaml');
+    });
+
+    it('should mark documents added to or removed from the source', () => {
+      const configMap = 'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: settings\n';
+      const source = new Map([['app.yaml', `${service}---\n${configMap}`]]);
+      const destination = new Map([['app.yaml', `${service}---\n${createDeploymentYaml('v1')}`]]);
+      const config = { source: './src', destination: './dest' };
+
+      const result = computeFileDiff(source, destination, config);
+      const documents = result.changedFiles[0]?.documents ?? [];
+
+      expect(documents.find((document) => document.label === 'v1/ConfigMap/settings')).toMatchObject({
+        sourceIndex: 1,
+        destinationIndex: undefined,
+        changed: true
+      });
+      expect(documents.find((document) => document.label === 'apps/v1/Deployment/web')).toMatchObject({
+        sourceIndex: undefined,
+        destinationIndex: 1,
+        changed: true
+      });
+    });
+
+    it('should compare a single-document destination against a multi-document source', () => {
+      const source = new Map([['app.yaml', `${service}---\n${createDeploymentYaml('v1')}`]]);
+      const destination = new Map([['app.yaml', service]]);
+      const config = { source: './src', destination: './dest' };
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.changedFiles[0]?.documents?.filter((document) => document.changed)).toHaveLength(1);
+    });
+
+    it('should process every document of added multi-document files', () => {
+      const source = new Map([['app.yaml', 'url: uat-a\n---\nurl: uat-b\n']]);
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: { '*.yaml': { content: [{ find: 'uat-', replace: 'prod-' }] } }
+      };
+
+      const result = computeFileDiff(source, new Map(), config);
+
+      expect(result.addedFiles[0]?.processedContent).toBe('url: prod-a\n---\nurl: prod-b\n');
+    });
+  });
+
+  describe('arrayMerge', () => {
+    const source = new Map([['values.yaml', 'env:\n  - name: A\n    value: "1"\n']]);
+    const destination = new Map([
+      ['values.yaml', 'env:\n  - name: LOCAL\n    value: x\n  - name: A\n    value: "1"\n']
+    ]);
+
+    it('should treat destination-only items as unchanged with keepDestinationExtras', () => {
+      const result = computeFileDiff(source, destination, createArrayMergeConfig('keepDestinationExtras'));
+
+      expect(result.changedFiles).toHaveLength(0);
+      expect(result.unchangedFiles).toEqual(['values.yaml']);
+    });
+
+    it('should treat destination-only items as unchanged with union', () => {
+      const result = computeFileDiff(source, destination, createArrayMergeConfig('union'));
+
+      expect(result.unchangedFiles).toEqual(['values.yaml']);
+    });
+
+    it('should report destination-only items as removed with mergeByKey', () => {
+      const result = computeFileDiff(source, destination, createArrayMergeConfig('mergeByKey'));
+
+      expect(result.changedFiles).toHaveLength(1);
+      expect(result.changedFiles[0]?.processedSourceContent).toEqual({ env: [{ name: 'A', value: '1' }] });
+    });
+
+    it('should show kept items on both sides and order keyed arrays by key', () => {
+      const changedSource = new Map([
+        ['values.yaml', 'env:\n  - name: B\n    value: new\n  - name: A\n    value: "1"\n']
+      ]);
+      const result = computeFileDiff(changedSource, destination, createArrayMergeConfig('keepDestinationExtras'));
+
+      expect(result.changedFiles[0]?.processedSourceContent).toEqual({
+        env: [
+          { name: 'A', value: '1' },
+          { name: 'B', value: 'new' },
+          { name: 'LOCAL', value: 'x' }
+        ]
+      });
+      expect(result.changedFiles[0]?.processedDestContent).toEqual({
+        env: [
+          { name: 'A', value: '1' },
+          { name: 'LOCAL', value: 'x' }
+        ]
+      });
+      expect(result.changedFiles[0]?.arrayMergeRules).toHaveLength(1);
+    });
+  });
+
+  describe('structural transforms', () => {
+    const config = {
+      source: './src',
+      destination: './dest',
+      transforms: { '*.yaml': { structural: [{ move: { from: 'ingress.hosts', to: 'ingress.rules' } }] } },
+      skipPath: { '*.yaml': ['ingress.rules'] }
+    };
+
+    it('should compare the restructured source with the destination', () => {
+      const source = new Map([['values.yaml', 'ingress:\n  hosts:\n    - a\n']]);
+      const destination = new Map([['values.yaml', 'ingress:\n  rules:\n    - a\n']]);
+
+      const result = computeFileDiff(source, destination, { ...config, skipPath: undefined });
+
+      expect(result.unchangedFiles).toEqual(['values.yaml']);
+    });
+
+    it('should apply skipPath to the restructured source and record the operations', () => {
+      const source = new Map([['values.yaml', 'ingress:\n  hosts:\n    - a\n  enabled: true\n']]);
+      const destination = new Map([['values.yaml', 'ingress:\n  rules:\n    - b\n  enabled: false\n']]);
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.changedFiles[0]?.rawParsedSource).toEqual({ ingress: { enabled: true } });
+      expect(result.changedFiles[0]?.structuralTransforms).toEqual([
+        { move: { from: 'ingress.hosts', to: 'ingress.rules' } }
+      ]);
+    });
+  });
+
+  describe('function transforms', () => {
+    it('should apply functions after content transforms and record them on the changed file', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: {
+          '*.yaml': {
+            content: [{ find: 'uat', replace: 'prod' }],
+            functions: [{ path: 'secret', base64Encode: true }]
+          }
+        }
+      };
+      const source = new Map([['values.yaml', 'secret: uat-password\nname: web\n']]);
+      const destination = new Map([['values.yaml', 'secret: old\nname: web\n']]);
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.changedFiles[0]?.rawParsedSource).toEqual({
+        secret: Buffer.from('prod-password').toString('base64'),
+        name: 'web'
+      });
+      expect(result.changedFiles[0]?.functionTransforms).toEqual([{ path: 'secret', base64Encode: true }]);
+    });
+  });
+
+  describe('key transforms', () => {
+    const config = {
+      source: './src',
+      destination: './dest',
+      transforms: { '*.yaml': { keys: [{ find: '^uat-', replace: 'prod-' }] } }
+    };
+
+    it('should compare renamed source keys with the destination', () => {
+      const source = new Map([['values.yaml', 'uat-db:\n  port: 5432\n']]);
+      const destination = new Map([['values.yaml', 'prod-db:\n  port: 5432\n']]);
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.unchangedFiles).toEqual(['values.yaml']);
+    });
+
+    it('should fail instead of falling back to raw content when keys of an added file collide', () => {
+      const source = new Map([['values.yaml', 'uat-db: a\nprod-db: b\n']]);
+
+      expect(() => computeFileDiff(source, new Map(), config)).toThrow('Multiple keys transform to the same key');
+    });
+  });
+
+  describe('diffIgnore', () => {
+    const config = {
+      source: './src',
+      destination: './dest',
+      diffIgnore: { '*.yaml': ['metadata.annotations.checksum/config', 'buildTime'] }
+    };
+    const destination = new Map([
+      ['values.yaml', 'metadata:\n  annotations:\n    checksum/config: old\nbuildTime: "1"\nreplicas: 2\n']
+    ]);
+
+    it('should treat files that only differ in ignored paths as unchanged', () => {
+      const source = new Map([
+        ['values.yaml', 'metadata:\n  annotations:\n    checksum/config: new\nbuildTime: "2"\nreplicas: 2\n']
+      ]);
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.changedFiles).toHaveLength(0);
+      expect(result.unchangedFiles).toEqual(['values.yaml']);
+    });
+
+    it('should keep ignored values in the processed content when something else changed', () => {
+      const source = new Map([
+        ['values.yaml', 'metadata:\n  annotations:\n    checksum/config: new\nbuildTime: "2"\nreplicas: 3\n']
+      ]);
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.changedFiles).toHaveLength(1);
+      expect(result.changedFiles[0]?.rawParsedSource).toEqual({
+        metadata: { annotations: { 'checksum/config': 'new' } },
+        buildTime: '2',
+        replicas: 3
+      });
+    });
+
+    it('should compare multi-document files per document ignoring the paths', () => {
+      const source = new Map([['all.yaml', 'kind: A\nbuildTime: "2"\n---\nkind: B\nbuildTime: "2"\nreplicas: 3\n']]);
+      const multiDestination = new Map([
+        ['all.yaml', 'kind: A\nbuildTime: "1"\n---\nkind: B\nbuildTime: "1"\nreplicas: 2\n']
+      ]);
+
+      const result = computeFileDiff(source, multiDestination, config);
+
+      expect(result.changedFiles[0]?.documents?.map((document) => document.changed)).toEqual([false, true]);
+    });
+
+    it('should collect ignored paths from all matching patterns', () => {
+      const diffIgnore = { '*.yaml': ['buildTime'], 'apps/**/*.yaml': ['checksum'] };
+
+      expect(getDiffIgnorePathsForFile('apps/web/values.yaml', diffIgnore)).toEqual(['checksum']);
+      expect(getDiffIgnorePathsForFile('values.yaml', diffIgnore)).toEqual(['buildTime']);
+      expect(getDiffIgnorePathsForFile('values.yaml')).toEqual([]);
+    });
+  });
+
+  describe('orderedArrays', () => {
+    const source = new Map([['values.yaml', 'containers:\n  - name: app\n    args: [--port=80, --verbose]\n']]);
+    const destination = new Map([['values.yaml', 'containers:\n  - name: app\n    args: [--verbose, --port=80]\n']]);
+
+    it('should ignore reordered arrays by default', () => {
+      const result = computeFileDiff(source, destination, { source: './src', destination: './dest' });
+
+      expect(result.unchangedFiles).toEqual(['values.yaml']);
+    });
+
+    it('should report reordered arrays at ordered paths as changed', () => {
+      const config = {
+        source: './src',
+        destination: './dest',
+        orderedArrays: { '*.yaml': ['containers[*].args'] }
+      };
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.changedFiles).toHaveLength(1);
+      expect(result.changedFiles[0]?.processedSourceContent).toEqual({
+        containers: [{ args: ['--port=80', '--verbose'], name: 'app' }]
+      });
+      expect(result.changedFiles[0]?.processedDestContent).toEqual({
+        containers: [{ args: ['--verbose', '--port=80'], name: 'app' }]
+      });
+      expect(result.changedFiles[0]?.orderedArrayPaths).toEqual(['containers[*].args']);
+    });
+
+    it('should collect ordered paths from all matching patterns', () => {
+      const orderedArrays = { '*.yaml': ['args'], 'apps/**/*.yaml': ['command'], '*.json': ['items'] };
+
+      expect(getOrderedArrayPathsForFile('apps/web/values.yaml', orderedArrays)).toEqual(['command']);
+      expect(getOrderedArrayPathsForFile('values.yaml', orderedArrays)).toEqual(['args']);
+      expect(getOrderedArrayPathsForFile('values.yaml')).toEqual([]);
+    });
+  });
+
+  describe('JSON files', () => {
+    it('should treat reformatted but equal JSON as unchanged', () => {
+      const source = new Map([['config.json', '{"b": 1, "a": [1, 2]}']]);
+      const destination = new Map([['config.json', '{\n  "a": [1, 2],\n  "b": 1\n}\n']]);
+      const config = { source: './src', destination: './dest' };
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.unchangedFiles).toContain('config.json');
+    });
+
+    it('should apply transforms, fixedValues and skipPath to JSON files', () => {
+      const source = new Map([['config.json', '{"url": "uat-db", "level": "debug", "secret": "uat"}']]);
+      const destination = new Map([['config.json', '{"url": "prod-db", "level": "info", "secret": "prod"}']]);
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: { '*.json': { content: [{ find: 'uat-', replace: 'prod-' }] } },
+        fixedValues: { '*.json': [{ path: 'level', value: 'info' }] },
+        skipPath: { '*.json': ['secret'] }
+      };
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.unchangedFiles).toContain('config.json');
+    });
+
+    it('should report structured content for changed JSON files', () => {
+      const source = new Map([['config.json', '{"replicas": 3}']]);
+      const destination = new Map([['config.json', '{"replicas": 2}']]);
+      const config = { source: './src', destination: './dest' };
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.changedFiles[0]?.processedSourceContent).toEqual({ replicas: 3 });
+      expect(result.changedFiles[0]?.processedDestContent).toEqual({ replicas: 2 });
+    });
+
+    it('should throw a JSON parse error with hints for invalid JSON', () => {
+      const source = new Map([['config.json', '{"a": 1,}']]);
+      const destination = new Map([['config.json', '{"a": 1}']]);
+      const config = { source: './src', destination: './dest' };
+
+      expect(() => computeFileDiff(source, destination, config)).toThrow(/Failed to parse source JSON file/);
+      expect(() => computeFileDiff(source, destination, config)).toThrow(/trailing commas/);
+    });
+
+    it('should process and format added JSON files', () => {
+      const source = new Map([['config.json', '{"url":"uat-db","name":"web"}']]);
+      const destination = new Map<string, string>();
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: { '*.json': { content: [{ find: 'uat-', replace: 'prod-' }] } },
+        outputFormat: { indent: 2, keySeparator: false, keyOrders: { '*.json': ['name'] } }
+      };
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.addedFiles[0]?.processedContent).toBe('{\n  "name": "web",\n  "url": "prod-db"\n}\n');
+    });
+  });
+
+  describe('key/value formats', () => {
+    it('should apply transforms, fixedValues and skipPath by key to .env files', () => {
+      const source = new Map([['.env', 'DB_URL=uat-db\nLOG_LEVEL=debug\nSECRET=uat\n']]);
+      const destination = new Map([['.env', '# prod\nDB_URL=prod-db\nLOG_LEVEL=info\nSECRET=prod\n']]);
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: { '.env': { content: [{ find: 'uat-', replace: 'prod-' }] } },
+        fixedValues: { '.env': [{ path: 'LOG_LEVEL', value: 'info' }] },
+        skipPath: { '.env': ['SECRET'] }
+      };
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.unchangedFiles).toContain('.env');
+    });
+
+    it('should report structured content for changed .properties files', () => {
+      const source = new Map([['app.properties', 'server.port=9090\n']]);
+      const destination = new Map([['app.properties', 'server.port = 8080\n']]);
+      const config = { source: './src', destination: './dest' };
+
+      const result = computeFileDiff(source, destination, config);
+
+      expect(result.changedFiles[0]?.processedSourceContent).toEqual({ server: { port: '9090' } });
+      expect(result.changedFiles[0]?.processedDestContent).toEqual({ server: { port: '8080' } });
+    });
+
+    it('should throw a parse error naming the format', () => {
+      const source = new Map([['app.toml', 'title = uat']]);
+      const destination = new Map([['app.toml', 'title = "prod"']]);
+      const config = { source: './src', destination: './dest' };
+
+      expect(() => computeFileDiff(source, destination, config)).toThrow(/Failed to parse source TOML file/);
+    });
+  });
 });
@@ -416,6 +416,17 @@ describe('fileLoader', () => {
       expect(result.fileMap.get('empty.yaml')).toBe('');
     });
 
+    it('should strip a UTF-8 byte order mark from structured files only', async () => {
+      const baseDirectory = '/base';
+      mockGlob.mockResolvedValue([`${baseDirectory}/config.json`, `${baseDirectory}/notes.txt`]);
+      mockReadFile.mockResolvedValue('\uFEFF{}' as unknown as Buffer);
+
+      const result = await loadFiles({ baseDirectory, include: ['**/*'], exclude: [] });
+
+      expect(result.fileMap.get('config.json')).toBe('{}');
+      expect(result.fileMap.get('notes.txt')).toBe('\uFEFF{}');
+    });
+
     it('should detect binary files by null byte', async () => {
       const baseDirectory = '/base';
       const filePath = `${baseDirectory}/binary.bin`;
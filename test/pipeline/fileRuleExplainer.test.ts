@@ -0,0 +1,179 @@
+import colors from 'ansi-colors';
+import { describe, expect, it } from 'vitest';
+
+import type { ConfigProvenance, FinalConfig } from '../../src/config';
+import {
+  explainFileRules,
+  formatFileRuleExplanation,
+  formatFileRuleExplanationJson
+} from '../../src/pipeline/fileRuleExplainer';
+
+const createConfig = (overrides: Partial<FinalConfig> = {}): FinalConfig => ({
+  source: './uat',
+  destination: './prod',
+  include: ['**/*.yaml'],
+  exclude: ['**/secrets.yaml'],
+  prune: false,
+  confirmationDelay: 3000,
+  outputFormat: { indent: 2, keySeparator: false },
+  ...overrides
+});
+
+const entry = (path: string, segments: Array<string | number>, file: string, line: number) => ({
+  path,
+  segments,
+  file,
+  line
+});
+
+const createProvenance = (): ConfigProvenance => ({
+  extendsChain: ['/configs/base.yaml', '/configs/prod.yaml'],
+  config: {
+    include: ['**/*.yaml'],
+    exclude: ['**/secrets.yaml'],
+    transforms: {
+      'apps/**': {
+        filename: [{ find: 'uat', replace: 'prod' }],
+        content: [{ find: 'uat-db', replace: 'prod-db' }]
+      },
+      'services/**': { content: [{ find: 'svc', replace: 'service' }] }
+    },
+    skipPath: { 'apps/**/values.yaml': ['image.tag'], 'services/**': ['replicaCount'] },
+    stopRules: { '**/*.yaml': [{ type: 'semverMajorUpgrade', path: 'image.tag' }] },
+    fixedValues: { 'apps/prod/*.yaml': [{ path: 'env', value: 'prod' }] },
+    outputFormat: { keyOrders: { 'apps/**': ['apiVersion', 'kind'] } }
+  },
+  entries: [
+    entry('include[0]', ['include', 0], '/configs/prod.yaml', 2),
+    entry('exclude[0]', ['exclude', 0], '/configs/base.yaml', 2),
+    entry("transforms['apps/**'].filename[0]", ['transforms', 'apps/**', 'filename', 0], '/configs/base.yaml', 6),
+    entry("transforms['apps/**'].content[0]", ['transforms', 'apps/**', 'content', 0], '/configs/prod.yaml', 8),
+    entry(
+      "transforms['services/**'].content[0]",
+      ['transforms', 'services/**', 'content', 0],
+      '/configs/prod.yaml',
+      12
+    ),
+    entry("skipPath['apps/**/values.yaml'][0]", ['skipPath', 'apps/**/values.yaml', 0], '/configs/base.yaml', 10),
+    entry("skipPath['services/**'][0]", ['skipPath', 'services/**', 0], '/configs/base.yaml', 12),
+    entry("stopRules['**/*.yaml'][0]", ['stopRules', '**/*.yaml', 0], '/configs/base.yaml', 15),
+    entry("fixedValues['apps/prod/*.yaml'][0]", ['fixedValues', 'apps/prod/*.yaml', 0], '/configs/prod.yaml', 20),
+    entry('outputFormat.keyOrders', ['outputFormat', 'keyOrders'], '/configs/base.yaml', 18)
+  ]
+});
+
+const findSection = (explanation: ReturnType<typeof explainFileRules>, title: string) =>
+  explanation.sections.find((section) => section.title === title)!;
+
+describe('fileRuleExplainer', () => {
+  describe('explainFileRules', () => {
+    it('should apply filename transforms and match other rules against the destination path', () => {
+      const config = createConfig({ transforms: createProvenance().config.transforms as FinalConfig['transforms'] });
+
+      const explanation = explainFileRules('apps/uat/values.yaml', config, createProvenance());
+
+      expect(explanation.destinationPath).toBe('apps/prod/values.yaml');
+      expect(findSection(explanation, 'Filename transforms').rules).toEqual([
+        { pattern: 'apps/**', rule: { find: 'uat', replace: 'prod' }, file: '/configs/base.yaml', line: 6 }
+      ]);
+      expect(findSection(explanation, 'Fixed values').rules).toEqual([
+        { pattern: 'apps/prod/*.yaml', rule: { path: 'env', value: 'prod' }, file: '/configs/prod.yaml', line: 20 }
+      ]);
+    });
+
+    it('should list only rules of matching globs with their location', () => {
+      const explanation = explainFileRules('apps/uat/values.yaml', createConfig(), createProvenance());
+
+      expect(findSection(explanation, 'Content transforms').rules.map((rule) => rule.rule)).toEqual([
+        { find: 'uat-db', replace: 'prod-db' }
+      ]);
+      expect(findSection(explanation, 'Skip paths').rules).toEqual([
+        { pattern: 'apps/**/values.yaml', rule: 'image.tag', file: '/configs/base.yaml', line: 10 }
+      ]);
+      expect(findSection(explanation, 'Stop rules').rules[0]).toMatchObject({ file: '/configs/base.yaml', line: 15 });
+      expect(findSection(explanation, 'Output format rules').rules).toEqual([
+        {
+          pattern: 'apps/**',
+          rule: { keyOrders: ['apiVersion', 'kind'] },
+          file: '/configs/base.yaml',
+          line: 18
+        }
+      ]);
+    });
+
+    it('should report the include pattern that matched', () => {
+      const explanation = explainFileRules('apps/uat/values.yaml', createConfig(), createProvenance());
+
+      expect(explanation.included).toBe(true);
+      expect(explanation.includedBy).toEqual({
+        pattern: '**/*.yaml',
+        rule: '**/*.yaml',
+        file: '/configs/prod.yaml',
+        line: 2
+      });
+      expect(explanation.excludedBy).toBeUndefined();
+    });
+
+    it('should report the exclude pattern that removed the file', () => {
+      const explanation = explainFileRules('apps/uat/secrets.yaml', createConfig(), createProvenance());
+
+      expect(explanation.included).toBe(false);
+      expect(explanation.excludedBy).toMatchObject({ pattern: '**/secrets.yaml', file: '/configs/base.yaml' });
+    });
+
+    it('should leave the location of default include patterns empty', () => {
+      const provenance = { ...createProvenance(), entries: [] };
+
+      const explanation = explainFileRules('README.md', createConfig({ include: ['**/*'] }), provenance);
+
+      expect(explanation.includedBy).toEqual({ pattern: '**/*', rule: '**/*' });
+    });
+
+    it('should not include files no include pattern matches', () => {
+      const explanation = explainFileRules('README.md', createConfig(), createProvenance());
+
+      expect(explanation.included).toBe(false);
+      expect(explanation.includedBy).toBeUndefined();
+    });
+  });
+
+  describe('formatFileRuleExplanation', () => {
+    it('should print matched rules with glob and relative location, and summarize empty sections', () => {
+      const output = colors.unstyle(
+        formatFileRuleExplanation(
+          explainFileRules('apps/uat/values.yaml', createConfig(), createProvenance()),
+          '/configs'
+        )
+      );
+
+      expect(output).toContain('Rules for apps/uat/values.yaml');
+      expect(output).toContain("Included: yes — include '**/*.yaml' (prod.yaml:2)");
+      expect(output).toContain('• image.tag [apps/**/values.yaml] (base.yaml:10)');
+      expect(output).toContain('• { type: semverMajorUpgrade, path: image.tag } [**/*.yaml] (base.yaml:15)');
+      expect(output).toContain('No matching structural transforms');
+    });
+
+    it('should show the exclude pattern for excluded files', () => {
+      const output = colors.unstyle(
+        formatFileRuleExplanation(
+          explainFileRules('apps/uat/secrets.yaml', createConfig(), createProvenance()),
+          '/configs'
+        )
+      );
+
+      expect(output).toContain("Included: no — excluded by '**/secrets.yaml' (base.yaml:2)");
+    });
+  });
+
+  describe('formatFileRuleExplanationJson', () => {
+    it('should make config file paths relative', () => {
+      const json = formatFileRuleExplanationJson(
+        explainFileRules('apps/uat/values.yaml', createConfig(), createProvenance()),
+        '/configs'
+      );
+
+      expect(json.includedBy?.file).toBe('prod.yaml');
+      expect(json.sections.find((section) => section.title === 'Skip paths')?.rules[0]?.file).toBe('base.yaml');
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { parseFinalConfig } from '../../src/config';
 import { type Logger } from '../../src/logger';
-import { type AddedFile } from '../../src/pipeline/fileDiff';
+import { type AddedFile, computeFileDiff } from '../../src/pipeline/fileDiff';
 import { updateFiles } from '../../src/pipeline/fileUpdater';
 
 const createAddedFile = (path: string): AddedFile => ({
@@ -264,6 +265,151 @@ describe('fileUpdater', () => {
       expect(writtenContent).toContain('replicas: 3');
     });
 
+    it('should preserve destination comments, anchors and key order when merging', async () => {
+      const destinationContent =
+        '# Production values\nreplicas: 5 # scaled for prod\n\nimage:\n  tag: v1.0.0 # pinned\n\ndefaults: &defaults\n  timeout: 30\nworker: *defaults\n';
+      const diffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [
+          {
+            path: 'values.yaml',
+            sourceContent: 'image:\n  tag: v2.0.0\nreplicas: 5\ndefaults:\n  timeout: 30\nworker:\n  timeout: 30',
+            destinationContent,
+            processedSourceContent: {},
+            processedDestContent: {},
+            rawParsedSource: {
+              image: { tag: 'v2.0.0' },
+              replicas: 5,
+              defaults: { timeout: 30 },
+              worker: { timeout: 30 }
+            },
+            rawParsedDest: {
+              replicas: 5,
+              image: { tag: 'v1.0.0' },
+              defaults: { timeout: 30 },
+              worker: { timeout: 30 }
+            }
+          }
+        ],
+        unchangedFiles: []
+      };
+      const source = new Map([['values.yaml', diffResult.changedFiles[0].sourceContent]]);
+      const destination = new Map([['values.yaml', destinationContent]]);
+      const config = { source: './src', destination: './dest' };
+
+      await updateFiles(diffResult, source, destination, config, false, true, mockLogger);
+
+      const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+      expect(writtenContent).toBe(destinationContent.replace('tag: v1.0.0', 'tag: v2.0.0'));
+    });
+
+    it('should merge multi-document files per document in source order', async () => {
+      const sourceContent = [
+        'apiVersion: v1\nkind: Service\nmetadata:\n  name: web\nspec:\n  port: 8080\n',
+        'apiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web\nspec:\n  replicas: 2\n  tag: v2\n',
+        'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: settings\n'
+      ].join('---\n');
+      const destinationContent = [
+        '# Deployment\napiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web\nspec:\n  replicas: 5 # prod\n  tag: v1\n',
+        'apiVersion: v1\nkind: Service\nmetadata:\n  name: web\nspec:\n  port: 80\n',
+        'apiVersion: v1\nkind: Secret\nmetadata:\n  name: legacy\n'
+      ].join('---\n');
+      const source = new Map([['app.yaml', sourceContent]]);
+      const destination = new Map([['app.yaml', destinationContent]]);
+      const config = { source: './src', destination: './dest', skipPath: { 'app.yaml': ['spec.replicas'] } };
+      const diffResult = computeFileDiff(source, destination, config);
+
+      await updateFiles(diffResult, source, destination, config, false, true, mockLogger);
+
+      const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+      expect(writtenContent).toBe(
+        [
+          'apiVersion: v1\nkind: Service\nmetadata:\n  name: web\nspec:\n  port: 8080\n',
+          '# Deployment\napiVersion: apps/v1\nkind: Deployment\nmetadata:\n  name: web\nspec:\n  replicas: 5 # prod\n  tag: v2\n',
+          'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: settings\n'
+        ].join('---\n')
+      );
+    });
+
+    it('should merge JSON files keeping destination key order, indentation and skipped fields', async () => {
+      const sourceContent = '{"image": {"tag": "v2"}, "replicas": 2, "name": "web"}';
+      const destinationContent =
+        '{\n    "name": "web",\n    "replicas": 5,\n    "image": {\n        "tag": "v1"\n    }\n}\n';
+      const source = new Map([['values.json', sourceContent]]);
+      const destination = new Map([['values.json', destinationContent]]);
+      const config = { source: './src', destination: './dest', skipPath: { '*.json': ['replicas'] } };
+      const diffResult = computeFileDiff(source, destination, config);
+
+      await updateFiles(diffResult, source, destination, config, false, true, mockLogger);
+
+      const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+      expect(writtenContent).toBe(destinationContent.replace('"v1"', '"v2"'));
+    });
+
+    it('should keep the destination JSON indentation with the default outputFormat', async () => {
+      const source = new Map([['app.json', '{"name": "web", "replicas": 2}']]);
+      const destinationContent = '{\n    "name": "web",\n    "replicas": 5\n}\n';
+      const destination = new Map([['app.json', destinationContent]]);
+      const config = parseFinalConfig({ source: './src', destination: './dest' });
+      const diffResult = computeFileDiff(source, destination, config);
+
+      await updateFiles(diffResult, source, destination, config, false, false, mockLogger);
+
+      const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+      expect(writtenContent).toBe('{\n    "name": "web",\n    "replicas": 2\n}\n');
+    });
+
+    it('should apply JSON outputFormat when writing JSON files', async () => {
+      const source = new Map([['values.json', '{"b": 2, "a": 1}']]);
+      const destination = new Map([['values.json', '{"b": 1, "a": 1}']]);
+      const config = {
+        source: './src',
+        destination: './dest',
+        outputFormat: { indent: 2, keySeparator: false, keyOrders: { '*.json': ['a', 'b'] } }
+      };
+      const diffResult = computeFileDiff(source, destination, config);
+
+      await updateFiles(diffResult, source, destination, config, false, false, mockLogger);
+
+      const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+      expect(writtenContent).toBe('{\n  "a": 1,\n  "b": 2\n}\n');
+    });
+
+    it('should merge .env files keeping comments and skipped keys', async () => {
+      const source = new Map([['.env', 'DB_URL=uat-db\nSECRET=uat\nNEW_FLAG=on\n']]);
+      const destinationContent = '# Production\nexport DB_URL="old-db" # primary\nSECRET=prod\n';
+      const destination = new Map([['.env', destinationContent]]);
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: { '.env': { content: [{ find: 'uat-', replace: 'prod-' }] } },
+        skipPath: { '.env': ['SECRET'] }
+      };
+      const diffResult = computeFileDiff(source, destination, config);
+
+      await updateFiles(diffResult, source, destination, config, false, false, mockLogger);
+
+      const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+      expect(writtenContent).toBe('# Production\nexport DB_URL="prod-db" # primary\nSECRET=prod\nNEW_FLAG=on\n');
+    });
+
+    it('should apply transforms to added .properties files', async () => {
+      const source = new Map([['app.properties', '# db\nspring.datasource.url=jdbc:uat-db\n']]);
+      const destination = new Map<string, string>();
+      const config = {
+        source: './src',
+        destination: './dest',
+        transforms: { '*.properties': { content: [{ find: 'uat-', replace: 'prod-' }] } }
+      };
+      const diffResult = computeFileDiff(source, destination, config);
+
+      await updateFiles(diffResult, source, destination, config, false, false, mockLogger);
+
+      const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+      expect(writtenContent).toBe('# db\nspring.datasource.url=jdbc:prod-db\n');
+    });
+
     it('should delete fields that exist in destination but not in source', async () => {
       const diffResult = {
         addedFiles: [],
@@ -955,5 +1101,182 @@ describe('fileUpdater', () => {
         expect(writtenContent).toContain('value: final');
       });
     });
+
+    describe('arrayMerge', () => {
+      const sourceContent = 'containers:\n  - name: app\n    image: app:2\n';
+      const destinationContent =
+        'containers:\n  - name: sidecar # mesh proxy\n    image: proxy:1\n  - name: app\n    image: app:1\n    debug: true\n';
+
+      const syncWithStrategy = async (strategy: string): Promise<string> => {
+        const source = new Map([['values.yaml', sourceContent]]);
+        const destination = new Map([['values.yaml', destinationContent]]);
+        const config = {
+          source: './src',
+          destination: './dest',
+          arrayMerge: { '*.yaml': [{ path: 'containers', key: 'name', strategy }] }
+        };
+        const diffResult = computeFileDiff(source, destination, config);
+
+        await updateFiles(diffResult, source, destination, config, false, true, mockLogger);
+
+        return vi.mocked(writeFile).mock.calls[0][1] as string;
+      };
+
+      it('should replace the array without a rule', async () => {
+        const writtenContent = await syncWithStrategy('replace');
+
+        expect(writtenContent).toBe('containers:\n  - name: app\n    image: app:2\n');
+      });
+
+      it('should keep destination-only items with keepDestinationExtras', async () => {
+        const writtenContent = await syncWithStrategy('keepDestinationExtras');
+
+        expect(writtenContent).toBe(
+          'containers:\n  - name: sidecar # mesh proxy\n    image: proxy:1\n  - name: app\n    image: app:2\n'
+        );
+      });
+
+      it('should drop destination-only items with mergeByKey', async () => {
+        const writtenContent = await syncWithStrategy('mergeByKey');
+
+        expect(writtenContent).toBe('containers:\n  - name: app\n    image: app:2\n');
+      });
+
+      it('should keep destination items and replace paired items wholesale with union', async () => {
+        const writtenContent = await syncWithStrategy('union');
+
+        expect(writtenContent).toContain('name: sidecar');
+        expect(writtenContent).toContain('image: app:2');
+        expect(writtenContent).not.toContain('debug: true');
+      });
+
+      it('should merge nested keyed arrays inside paired items', async () => {
+        const source = new Map([
+          ['values.yaml', 'containers:\n  - name: app\n    env:\n      - name: A\n        value: "2"\n']
+        ]);
+        const destinationValues =
+          'containers:\n  - name: app\n    env:\n      - name: A\n        value: "1"\n      - name: LOCAL\n        value: x\n';
+        const destination = new Map([['values.yaml', destinationValues]]);
+        const config = {
+          source: './src',
+          destination: './dest',
+          arrayMerge: {
+            '*.yaml': [
+              { path: 'containers', key: 'name', strategy: 'mergeByKey' },
+              { path: 'containers[*].env', key: 'name', strategy: 'keepDestinationExtras' }
+            ]
+          }
+        };
+        const diffResult = computeFileDiff(source, destination, config);
+
+        await updateFiles(diffResult, source, destination, config, false, true, mockLogger);
+
+        const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+        expect(writtenContent).toBe(
+          'containers:\n  - name: app\n    env:\n      - name: A\n        value: "2"\n      - name: LOCAL\n        value: x\n'
+        );
+      });
+
+      it('should keep skipPath-filtered items with mergeByKey', async () => {
+        const source = new Map([
+          ['values.yaml', 'env:\n  - name: LOG\n    value: new\n  - name: SECRET\n    value: uat\n']
+        ]);
+        const destination = new Map([
+          ['values.yaml', 'env:\n  - name: SECRET\n    value: prod\n  - name: LOG\n    value: old\n']
+        ]);
+        const config = {
+          source: './src',
+          destination: './dest',
+          skipPath: { '*.yaml': ['env[name=SECRET]'] },
+          arrayMerge: { '*.yaml': [{ path: 'env', key: 'name', strategy: 'mergeByKey' }] }
+        };
+        const diffResult = computeFileDiff(source, destination, config);
+
+        await updateFiles(diffResult, source, destination, config, false, true, mockLogger);
+
+        const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+        expect(writtenContent).toBe('env:\n  - name: SECRET\n    value: prod\n  - name: LOG\n    value: new\n');
+      });
+    });
+
+    describe('structural transforms', () => {
+      it('should write the restructured source layout', async () => {
+        const source = new Map([['values.yaml', 'ingress:\n  hosts:\n    - new.example.com\ndebug: true\n']]);
+        const destination = new Map([['values.yaml', '# public\ningress:\n  rules:\n    - old.example.com\n']]);
+        const config = {
+          source: './src',
+          destination: './dest',
+          transforms: {
+            '*.yaml': {
+              structural: [{ move: { from: 'ingress.hosts', to: 'ingress.rules' } }, { delete: 'debug' }]
+            }
+          }
+        };
+        const diffResult = computeFileDiff(source, destination, config);
+
+        await updateFiles(diffResult, source, destination, config, false, true, mockLogger);
+
+        const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+        expect(writtenContent).toBe('# public\ningress:\n  rules:\n    - new.example.com\n');
+      });
+    });
+
+    describe('diffIgnore', () => {
+      it('should sync ignored paths along with other changes', async () => {
+        const source = new Map([['values.yaml', 'buildTime: "2"\nreplicas: 3\n']]);
+        const destination = new Map([['values.yaml', 'buildTime: "1"\nreplicas: 2\n']]);
+        const config = { source: './src', destination: './dest', diffIgnore: { '*.yaml': ['buildTime'] } };
+        const diffResult = computeFileDiff(source, destination, config);
+
+        await updateFiles(diffResult, source, destination, config, false, true, mockLogger);
+
+        const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+        expect(writtenContent).toBe('buildTime: "2"\nreplicas: 3\n');
+      });
+
+      it('should not write files that only differ in ignored paths', async () => {
+        const source = new Map([['values.yaml', 'buildTime: "2"\nreplicas: 2\n']]);
+        const destination = new Map([['values.yaml', 'buildTime: "1"\nreplicas: 2\n']]);
+        const config = { source: './src', destination: './dest', diffIgnore: { '*.yaml': ['buildTime'] } };
+        const diffResult = computeFileDiff(source, destination, config);
+
+        await updateFiles(diffResult, source, destination, config, false, true, mockLogger);
+
+        expect(writeFile).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('orderedArrays', () => {
+      it('should sync reordered arrays at ordered paths', async () => {
+        const source = new Map([['values.yaml', 'command:\n  - run\n  - --fast\n']]);
+        const destination = new Map([['values.yaml', '# entrypoint\ncommand:\n  - --fast\n  - run\n']]);
+        const config = { source: './src', destination: './dest', orderedArrays: { '*.yaml': ['command'] } };
+        const diffResult = computeFileDiff(source, destination, config);
+
+        await updateFiles(diffResult, source, destination, config, false, true, mockLogger);
+
+        const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+        expect(writtenContent).toBe('# entrypoint\ncommand:\n  - run\n  - --fast\n');
+      });
+
+      it('should follow source order for ordered keyed arrays', async () => {
+        const source = new Map([['values.yaml', 'initContainers:\n  - name: migrate\n  - name: wait\n']]);
+        const destination = new Map([
+          ['values.yaml', 'initContainers:\n  - name: wait\n  - name: local\n  - name: migrate\n']
+        ]);
+        const config = {
+          source: './src',
+          destination: './dest',
+          orderedArrays: { '*.yaml': ['initContainers'] },
+          arrayMerge: { '*.yaml': [{ path: 'initContainers', key: 'name', strategy: 'keepDestinationExtras' }] }
+        };
+        const diffResult = computeFileDiff(source, destination, config);
+
+        await updateFiles(diffResult, source, destination, config, false, true, mockLogger);
+
+        const writtenContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+        expect(writtenContent).toBe('initContainers:\n  - name: migrate\n  - name: wait\n  - name: local\n');
+      });
+    });
   });
 });
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatJson, isJsonFormatterError, JsonFormatterError } from '../../src/pipeline/jsonFormatter';
+
+describe('jsonFormatter', () => {
+  it('should return content unchanged when no outputFormat is given', () => {
+    const input = '{"b":1,\n "a":2}';
+
+    expect(formatJson(input, 'config.json')).toBe(input);
+  });
+
+  it('should return empty content unchanged', () => {
+    expect(formatJson('', 'config.json', { indent: 2, keySeparator: false })).toBe('');
+  });
+
+  it('should apply indent and add a trailing newline', () => {
+    const result = formatJson('{"a":{"b":1}}', 'config.json', { indent: 4, keySeparator: false });
+
+    expect(result).toBe('{\n    "a": {\n        "b": 1\n    }\n}\n');
+  });
+
+  it('should keep the content indentation when indent is not set', () => {
+    const result = formatJson('{\n    "env": {\n        "B": 1,\n        "A": 2\n    }\n}', 'config.json', {
+      keySeparator: false,
+      keySort: { '*.json': [{ path: 'env' }] }
+    });
+
+    expect(result).toBe('{\n    "env": {\n        "A": 2,\n        "B": 1\n    }\n}\n');
+  });
+
+  it('should apply keyOrders', () => {
+    const result = formatJson('{"spec":{},"kind":"App","apiVersion":"v1"}', 'apps/config.json', {
+      indent: 2,
+      keySeparator: false,
+      keyOrders: { 'apps/*.json': ['apiVersion', 'kind'] }
+    });
+
+    expect(Object.keys(JSON.parse(result) as object)).toEqual(['apiVersion', 'kind', 'spec']);
+  });
+
+  it('should apply keySort and arraySort', () => {
+    const input = JSON.stringify({
+      env: { ZEBRA: 'z', ALPHA: 'a' },
+      items: [{ name: 'b' }, { name: 'a' }]
+    });
+
+    const result = formatJson(input, 'config.json', {
+      indent: 2,
+      keySeparator: false,
+      keySort: { '*.json': [{ path: 'env' }] },
+      arraySort: { '*.json': [{ path: 'items', sortBy: 'name', order: 'asc' }] }
+    });
+
+    const parsed = JSON.parse(result) as { env: object; items: Array<{ name: string }> };
+    expect(Object.keys(parsed.env)).toEqual(['ALPHA', 'ZEBRA']);
+    expect(parsed.items.map((item) => item.name)).toEqual(['a', 'b']);
+  });
+
+  it('should ignore rules for non-matching files', () => {
+    const result = formatJson('{"b":1,"a":2}', 'config.json', {
+      indent: 2,
+      keySeparator: false,
+      keyOrders: { '*.yaml': ['a'] }
+    });
+
+    expect(result).toBe('{\n  "b": 1,\n  "a": 2\n}\n');
+  });
+
+  it('should throw JsonFormatterError for invalid JSON', () => {
+    expect(() => formatJson('{"a":', 'config.json', { indent: 2, keySeparator: false })).toThrow(JsonFormatterError);
+
+    try {
+      formatJson('{"a":', 'config.json', { indent: 2, keySeparator: false });
+    } catch (error) {
+      expect(isJsonFormatterError(error)).toBe(true);
+      expect((error as JsonFormatterError).code).toBe('JSON_PARSE_ERROR');
+    }
+  });
+});
@@ -1041,4 +1041,106 @@ describe('patternUsageValidator', () => {
       expect(warning!.hint).toBeTruthy();
     });
   });
+
+  describe('diffIgnore validation', () => {
+    it('should warn when diffIgnore pattern matches no files', () => {
+      const config = createBaseConfig();
+      config.diffIgnore = { 'nonexistent/*.yaml': ['buildTime'] };
+
+      const files = createFileMap({ 'app.yaml': 'buildTime: "1"' });
+
+      const result = validatePatternUsage(config, files, files);
+
+      expect(result.warnings).toContainEqual({
+        type: 'unused-diffIgnore',
+        pattern: 'nonexistent/*.yaml',
+        message: "diffIgnore pattern 'nonexistent/*.yaml' matches no files"
+      });
+    });
+
+    it('should warn when a diffIgnore JSONPath is not found in any matched file', () => {
+      const config = createBaseConfig();
+      config.diffIgnore = { '*.yaml': ['buildTime', 'metadata.annotations'] };
+
+      const files = createFileMap({ 'app.yaml': 'buildTime: "1"\n' });
+
+      const result = validatePatternUsage(config, files, files);
+
+      const pathWarnings = result.warnings.filter((warning) => warning.type === 'unused-diffIgnore-jsonpath');
+      expect(pathWarnings.map((warning) => warning.message)).toEqual([
+        "diffIgnore JSONPath 'metadata.annotations' not found in any matched files"
+      ]);
+    });
+  });
+
+  describe('arrayMerge validation', () => {
+    it('should warn when arrayMerge pattern matches no files', () => {
+      const config = createBaseConfig();
+      config.arrayMerge = {
+        'nonexistent/*.yaml': [{ path: 'env', key: 'name', strategy: 'mergeByKey' }]
+      };
+
+      const files = createFileMap({ 'app.yaml': 'env: []' });
+
+      const result = validatePatternUsage(config, files, files);
+
+      expect(result.warnings).toContainEqual({
+        type: 'unused-arrayMerge',
+        pattern: 'nonexistent/*.yaml',
+        message: "arrayMerge pattern 'nonexistent/*.yaml' matches no files",
+        context: '1 rule(s) defined'
+      });
+    });
+
+    it('should warn when an arrayMerge path is not found in any matched file', () => {
+      const config = createBaseConfig();
+      config.arrayMerge = {
+        '*.yaml': [
+          { path: 'spec.containers[*].env', key: 'name', strategy: 'keepDestinationExtras' },
+          { path: 'spec.volumes', strategy: 'union' }
+        ]
+      };
+
+      const files = createFileMap({ 'app.yaml': 'spec:\n  containers:\n    - name: app\n      env: []\n' });
+
+      const result = validatePatternUsage(config, files, files);
+
+      const pathWarnings = result.warnings.filter((warning) => warning.type === 'unused-arrayMerge-path');
+      expect(pathWarnings.map((warning) => warning.message)).toEqual([
+        "arrayMerge path 'spec.volumes' not found in any matched files"
+      ]);
+    });
+  });
+
+  describe('orderedArrays validation', () => {
+    it('should warn when orderedArrays pattern matches no files', () => {
+      const config = createBaseConfig();
+      config.orderedArrays = { 'nonexistent/*.yaml': ['args'] };
+
+      const files = createFileMap({ 'app.yaml': 'args: []' });
+
+      const result = validatePatternUsage(config, files, files);
+
+      expect(result.warnings).toContainEqual({
+        type: 'unused-orderedArrays',
+        pattern: 'nonexistent/*.yaml',
+        message: "orderedArrays pattern 'nonexistent/*.yaml' matches no files",
+        context: '1 path(s) defined'
+      });
+    });
+
+    it('should warn when an orderedArrays path is not found in any matched file', () => {
+      const config = createBaseConfig();
+      config.orderedArrays = { '*.yaml': ['spec.containers[*].args', 'spec.initContainers'] };
+
+      const files = createFileMap({ 'app.yaml': 'spec:\n  containers:\n    - name: app\n      args: [--v]\n' });
+
+      const result = validatePatternUsage(config, files, files);
+
+      const pathWarnings = result.warnings.filter((warning) => warning.type === 'unused-orderedArrays-path');
+      expect(pathWarnings.map((warning) => warning.message)).toEqual([
+        "orderedArrays path 'spec.initContainers' not found in any matched files"
+      ]);
+    });
+  });
 });
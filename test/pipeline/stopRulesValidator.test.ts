@@ -1,6 +1,50 @@
 import { describe, expect, it } from 'vitest';
 
-import { validateStopRules } from '../../src/pipeline/stopRulesValidator';
+import { isBlockingViolation, validateStopRules } from '../../src/pipeline/stopRulesValidator';
+
+const createDiffResult = (addedFiles: { path: string; content: string; processedContent: string }[]) => ({
+  addedFiles,
+  deletedFiles: [],
+  changedFiles: [],
+  unchangedFiles: []
+});
+
+const createChangedDiffResult = (oldData: unknown, updatedData: unknown) => ({
+  addedFiles: [],
+  deletedFiles: [],
+  changedFiles: [
+    {
+      path: 'values.yaml',
+      sourceContent: '',
+      destinationContent: '',
+      processedSourceContent: updatedData,
+      processedDestContent: oldData,
+      rawParsedSource: {},
+      rawParsedDest: {}
+    }
+  ],
+  unchangedFiles: []
+});
+
+const createDeployment = (requests: Record<string, unknown>, limits: Record<string, unknown>) => ({
+  spec: {
+    template: {
+      spec: {
+        containers: [
+          { name: 'sidecar', resources: { requests: { cpu: '50m' }, limits: { cpu: '100m' } } },
+          { name: 'web', resources: { requests, limits } }
+        ]
+      }
+    }
+  }
+});
+
+const createPod = (image: string) => ({
+  containers: [
+    { name: 'sidecar', image: 'proxy:2' },
+    { name: 'app', image }
+  ]
+});
 
 describe('stopRulesValidator', () => {
   describe('validateStopRules', () => {
@@ -338,6 +382,145 @@ describe('stopRulesValidator', () => {
     });
   });
 
+  describe('immutable validation', () => {
+    const rule = { type: 'immutable' as const, path: 'persistence.storageClass' };
+
+    it('should detect a changed value', () => {
+      const result = validateStopRules(
+        createChangedDiffResult({ persistence: { storageClass: 'gp2' } }, { persistence: { storageClass: 'gp3' } }),
+        { '*.yaml': [rule] }
+      );
+
+      expect(result.violations).toEqual([
+        {
+          file: 'values.yaml',
+          rule,
+          path: 'persistence.storageClass',
+          oldValue: 'gp2',
+          updatedValue: 'gp3',
+          message: 'Immutable value changed: gp2 → gp3'
+        }
+      ]);
+    });
+
+    it('should detect a removed value', () => {
+      const result = validateStopRules(
+        createChangedDiffResult({ persistence: { storageClass: 'gp2' } }, { persistence: {} }),
+        { '*.yaml': [rule] }
+      );
+
+      expect(result.violations[0]?.message).toBe('Immutable value would be removed');
+    });
+
+    it('should allow setting a value the destination does not have', () => {
+      const result = validateStopRules(createChangedDiffResult({}, { persistence: { storageClass: 'gp3' } }), {
+        '*.yaml': [rule]
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should compare maps by content', () => {
+      const database = { name: 'orders', port: 5432 };
+      const objectRule = { type: 'immutable' as const, path: 'database' };
+
+      expect(
+        validateStopRules(createChangedDiffResult({ database }, { database: { ...database } }), {
+          '*.yaml': [objectRule]
+        }).isValid
+      ).toBe(true);
+      expect(
+        validateStopRules(createChangedDiffResult({ database }, { database: { ...database, name: 'orders-v2' } }), {
+          '*.yaml': [objectRule]
+        }).violations[0]?.message
+      ).toBe('Immutable value would be changed');
+    });
+
+    it('should resolve filter paths', () => {
+      const filterRule = { type: 'immutable' as const, path: 'containers[name=app].image' };
+
+      expect(
+        validateStopRules(createChangedDiffResult(createPod('app:1'), createPod('app:2')), { '*.yaml': [filterRule] })
+          .violations[0]?.message
+      ).toBe('Immutable value changed: app:1 → app:2');
+      expect(
+        validateStopRules(createChangedDiffResult(createPod('app:1'), createPod('app:1')), { '*.yaml': [filterRule] })
+          .isValid
+      ).toBe(true);
+    });
+
+    it('should not apply to added files', () => {
+      const diffResult = createDiffResult([{ path: 'new.yaml', content: '', processedContent: 'database: orders\n' }]);
+
+      expect(
+        validateStopRules(diffResult, { '*.yaml': [{ type: 'immutable' as const, path: 'database' }] }).violations
+      ).toEqual([]);
+    });
+  });
+
+  describe('required validation', () => {
+    const rule = { type: 'required' as const, path: 'podDisruptionBudget' };
+
+    it('should detect a removed value', () => {
+      const result = validateStopRules(
+        createChangedDiffResult({ podDisruptionBudget: { minAvailable: 1 }, replicas: 2 }, { replicas: 2 }),
+        { '*.yaml': [rule] }
+      );
+
+      expect(result.violations).toEqual([
+        {
+          file: 'values.yaml',
+          rule,
+          path: 'podDisruptionBudget',
+          oldValue: { minAvailable: 1 },
+          updatedValue: undefined,
+          message: 'Required value would be removed'
+        }
+      ]);
+    });
+
+    it('should detect a value set to null', () => {
+      // eslint-disable-next-line unicorn/no-null -- YAML parses `podDisruptionBudget:` and `~` as null
+      const updatedData = { podDisruptionBudget: null };
+
+      const result = validateStopRules(
+        createChangedDiffResult({ podDisruptionBudget: { minAvailable: 1 } }, updatedData),
+        {
+          '*.yaml': [rule]
+        }
+      );
+
+      expect(result.violations[0]?.message).toBe('Required value would be set to null');
+    });
+
+    it('should allow changed values and paths the destination does not have', () => {
+      expect(
+        validateStopRules(
+          createChangedDiffResult(
+            { podDisruptionBudget: { minAvailable: 1 } },
+            { podDisruptionBudget: { minAvailable: 2 } }
+          ),
+          { '*.yaml': [rule] }
+        ).isValid
+      ).toBe(true);
+      expect(
+        validateStopRules(createChangedDiffResult({ replicas: 1 }, { replicas: 2 }), { '*.yaml': [rule] }).isValid
+      ).toBe(true);
+    });
+
+    it('should resolve filter paths', () => {
+      const result = validateStopRules(
+        createChangedDiffResult(
+          { containers: [{ name: 'app', livenessProbe: { path: '/health' } }] },
+          { containers: [{ name: 'app' }] }
+        ),
+        { '*.yaml': [{ type: 'required' as const, path: 'containers[name=app].livenessProbe' }] }
+      );
+
+      expect(result.violations[0]?.path).toBe('containers[name=app].livenessProbe');
+    });
+  });
+
   describe('numeric validation', () => {
     it('should detect value below minimum', () => {
       const diffResult = {
@@ -423,6 +606,272 @@ describe('stopRulesValidator', () => {
     });
   });
 
+  describe('numeric validation with quantities', () => {
+    it('should compare quantity values against quantity limits', () => {
+      const rule = { type: 'numeric' as const, path: 'memory', min: '512Mi', max: '4Gi' };
+
+      const below = validateStopRules(createChangedDiffResult({ memory: '1Gi' }, { memory: '256Mi' }), {
+        '*.yaml': [rule]
+      });
+      const above = validateStopRules(createChangedDiffResult({ memory: '1Gi' }, { memory: '8Gi' }), {
+        '*.yaml': [rule]
+      });
+
+      expect(below.violations[0]?.message).toBe('Value 256Mi is below minimum 512Mi');
+      expect(above.violations[0]?.message).toBe('Value 8Gi exceeds maximum 4Gi');
+      expect(
+        validateStopRules(createChangedDiffResult({ memory: '1Gi' }, { memory: '2048Mi' }), { '*.yaml': [rule] })
+          .isValid
+      ).toBe(true);
+    });
+
+    it('should compare CPU millicores against plain numbers', () => {
+      const rule = { type: 'numeric' as const, path: 'cpu', min: 0.25 };
+
+      expect(
+        validateStopRules(createChangedDiffResult({ cpu: 1 }, { cpu: '100m' }), { '*.yaml': [rule] }).violations[0]
+          ?.message
+      ).toBe('Value 100m is below minimum 0.25');
+      expect(
+        validateStopRules(createChangedDiffResult({ cpu: 1 }, { cpu: '250m' }), { '*.yaml': [rule] }).isValid
+      ).toBe(true);
+    });
+
+    it('should skip values that are not numbers or quantities', () => {
+      const result = validateStopRules(createChangedDiffResult({ memory: '1Gi' }, { memory: 'unlimited' }), {
+        '*.yaml': [{ type: 'numeric' as const, path: 'memory', min: '512Mi' }]
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe('requestsWithinLimits validation', () => {
+    it('should detect a request above its limit in the same container', () => {
+      const result = validateStopRules(
+        createChangedDiffResult(
+          createDeployment({ cpu: '250m', memory: '256Mi' }, { cpu: 1, memory: '512Mi' }),
+          createDeployment({ cpu: 2, memory: '256Mi' }, { cpu: '500m', memory: '512Mi' })
+        ),
+        { '*.yaml': [{ type: 'requestsWithinLimits' as const }] }
+      );
+
+      expect(result.violations).toEqual([
+        {
+          file: 'values.yaml',
+          rule: { type: 'requestsWithinLimits' },
+          path: 'spec.template.spec.containers[name=web].resources.requests.cpu',
+          oldValue: '250m',
+          updatedValue: 2,
+          message: 'Request 2 exceeds limit 500m for cpu'
+        }
+      ]);
+    });
+
+    it('should read the old value from the container with the same name, not the same index', () => {
+      const oldData = {
+        containers: [
+          { name: 'app', resources: { requests: { cpu: '100m' }, limits: { cpu: 1 } } },
+          { name: 'sidecar', resources: { requests: { cpu: '10m' }, limits: { cpu: 1 } } }
+        ]
+      };
+      const updatedData = {
+        containers: [
+          { name: 'sidecar', resources: { requests: { cpu: '10m' }, limits: { cpu: 1 } } },
+          { name: 'app', resources: { requests: { cpu: 2 }, limits: { cpu: 1 } } }
+        ]
+      };
+
+      const result = validateStopRules(createChangedDiffResult(oldData, updatedData), {
+        '*.yaml': [{ type: 'requestsWithinLimits' as const }]
+      });
+
+      expect(result.violations[0]).toMatchObject({
+        path: 'containers[name=app].resources.requests.cpu',
+        oldValue: '100m',
+        updatedValue: 2
+      });
+    });
+
+    it('should leave out the old value when a container has no name', () => {
+      const result = validateStopRules(
+        createChangedDiffResult(
+          { containers: [{ resources: { requests: { cpu: 1 }, limits: { cpu: 1 } } }] },
+          { containers: [{ resources: { requests: { cpu: 2 }, limits: { cpu: 1 } } }] }
+        ),
+        { '*.yaml': [{ type: 'requestsWithinLimits' as const }] }
+      );
+
+      expect(result.violations[0]?.path).toBe('containers.0.resources.requests.cpu');
+      expect(result.violations[0]?.oldValue).toBeUndefined();
+    });
+
+    it('should allow requests equal to or below their limits', () => {
+      const result = validateStopRules(
+        createChangedDiffResult(
+          createDeployment({ memory: '256Mi' }, { memory: '512Mi' }),
+          createDeployment({ cpu: '500m', memory: '0.5Gi' }, { cpu: '500m', memory: '512Mi' })
+        ),
+        { '*.yaml': [{ type: 'requestsWithinLimits' as const }] }
+      );
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should ignore resources without a limit or with values that are not quantities', () => {
+      const result = validateStopRules(
+        createChangedDiffResult({}, createDeployment({ cpu: 4, memory: 'lots' }, { memory: '1Gi' })),
+        { '*.yaml': [{ type: 'requestsWithinLimits' as const }] }
+      );
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should only check below the rule path when one is set', () => {
+      const data = {
+        ...createDeployment({ cpu: 2 }, { cpu: 1 }),
+        initJob: { resources: { requests: { cpu: 2 }, limits: { cpu: 1 } } }
+      };
+
+      const result = validateStopRules(createChangedDiffResult({}, data), {
+        '*.yaml': [{ type: 'requestsWithinLimits' as const, path: 'initJob' }]
+      });
+
+      expect(result.violations.map(({ path }) => path)).toEqual(['initJob.resources.requests.cpu']);
+    });
+
+    it('should apply to added files', () => {
+      const diffResult = createDiffResult([
+        {
+          path: 'new.yaml',
+          content: '',
+          processedContent: 'resources:\n  requests:\n    memory: 2Gi\n  limits:\n    memory: 1Gi\n'
+        }
+      ]);
+
+      const result = validateStopRules(diffResult, { '*.yaml': [{ type: 'requestsWithinLimits' as const }] });
+
+      expect(result.violations[0]?.message).toBe('Request 2Gi exceeds limit 1Gi for memory');
+    });
+  });
+
+  describe('numericDelta validation', () => {
+    const replicasRule = {
+      type: 'numericDelta' as const,
+      path: 'replicas',
+      maxIncreasePercent: 100,
+      maxDecreasePercent: 50
+    };
+
+    it('should detect a decrease beyond maxDecreasePercent', () => {
+      const result = validateStopRules(createChangedDiffResult({ replicas: 12 }, { replicas: 2 }), {
+        '*.yaml': [replicasRule]
+      });
+
+      expect(result.isValid).toBe(false);
+      expect(result.violations[0]?.message).toBe('Decrease of 83.3% (12 → 2) exceeds maxDecreasePercent 50');
+    });
+
+    it('should detect an increase beyond maxIncreasePercent', () => {
+      const result = validateStopRules(createChangedDiffResult({ replicas: 2 }, { replicas: 5 }), {
+        '*.yaml': [replicasRule]
+      });
+
+      expect(result.violations[0]?.message).toBe('Increase of 150% (2 → 5) exceeds maxIncreasePercent 100');
+    });
+
+    it('should allow changes within the limits', () => {
+      const result = validateStopRules(createChangedDiffResult({ replicas: 12 }, { replicas: 6 }), {
+        '*.yaml': [replicasRule]
+      });
+
+      expect(result.isValid).toBe(true);
+    });
+
+    it('should only check the direction that has a limit', () => {
+      const rule = { type: 'numericDelta' as const, path: 'replicas', maxDecreasePercent: 10 };
+
+      expect(
+        validateStopRules(createChangedDiffResult({ replicas: 2 }, { replicas: 20 }), { '*.yaml': [rule] }).isValid
+      ).toBe(true);
+    });
+
+    it('should compare Kubernetes memory quantities', () => {
+      const result = validateStopRules(
+        createChangedDiffResult(
+          { resources: { limits: { memory: '2Gi' } } },
+          { resources: { limits: { memory: '1Gi' } } }
+        ),
+        { '*.yaml': [{ type: 'numericDelta' as const, path: 'resources.limits.memory', maxDecreasePercent: 25 }] }
+      );
+
+      expect(result.violations[0]?.message).toBe('Decrease of 50% (2Gi → 1Gi) exceeds maxDecreasePercent 25');
+    });
+
+    it('should compare CPU millicores with plain cores', () => {
+      const rule = { type: 'numericDelta' as const, path: 'cpu', maxIncreasePercent: 50 };
+
+      expect(
+        validateStopRules(createChangedDiffResult({ cpu: '500m' }, { cpu: 1 }), { '*.yaml': [rule] }).isValid
+      ).toBe(false);
+      expect(
+        validateStopRules(createChangedDiffResult({ cpu: '500m' }, { cpu: '0.7' }), { '*.yaml': [rule] }).isValid
+      ).toBe(true);
+    });
+
+    it('should detect an absolute change beyond maxDelta', () => {
+      const memoryRule = { type: 'numericDelta' as const, path: 'memory', maxDelta: '512Mi' };
+
+      const result = validateStopRules(createChangedDiffResult({ memory: '1Gi' }, { memory: '2Gi' }), {
+        '*.yaml': [memoryRule]
+      });
+
+      expect(result.violations[0]?.message).toBe('Change of 1073741824 (1Gi → 2Gi) exceeds maxDelta 512Mi');
+      expect(
+        validateStopRules(createChangedDiffResult({ memory: '1Gi' }, { memory: '1.25Gi' }), { '*.yaml': [memoryRule] })
+          .isValid
+      ).toBe(true);
+    });
+
+    it('should accept a numeric maxDelta', () => {
+      const result = validateStopRules(createChangedDiffResult({ cpu: 0.1 }, { cpu: 0.4 }), {
+        '*.yaml': [{ type: 'numericDelta' as const, path: 'cpu', maxDelta: 0.2 }]
+      });
+
+      expect(result.violations[0]?.message).toBe('Change of 0.3 (0.1 → 0.4) exceeds maxDelta 0.2');
+    });
+
+    it('should only check maxDelta when the old value is zero', () => {
+      const rule = { type: 'numericDelta' as const, path: 'replicas', maxIncreasePercent: 10, maxDelta: 5 };
+
+      expect(
+        validateStopRules(createChangedDiffResult({ replicas: 0 }, { replicas: 3 }), { '*.yaml': [rule] }).isValid
+      ).toBe(true);
+      expect(
+        validateStopRules(createChangedDiffResult({ replicas: 0 }, { replicas: 6 }), { '*.yaml': [rule] }).isValid
+      ).toBe(false);
+    });
+
+    it('should skip values that are missing or not quantities', () => {
+      const rule = { type: 'numericDelta' as const, path: 'replicas', maxDecreasePercent: 10 };
+
+      expect(validateStopRules(createChangedDiffResult({}, { replicas: 1 }), { '*.yaml': [rule] }).isValid).toBe(true);
+      expect(
+        validateStopRules(createChangedDiffResult({ replicas: 'many' }, { replicas: 1 }), { '*.yaml': [rule] }).isValid
+      ).toBe(true);
+    });
+
+    it('should not apply to added files', () => {
+      const diffResult = createDiffResult([{ path: 'new.yaml', content: '', processedContent: 'replicas: 1\n' }]);
+
+      expect(
+        validateStopRules(diffResult, {
+          '*.yaml': [{ type: 'numericDelta' as const, path: 'replicas', maxDecreasePercent: 10 }]
+        }).violations
+      ).toEqual([]);
+    });
+  });
+
   describe('regex validation', () => {
     it('should detect value matching forbidden pattern', () => {
       const diffResult = {
@@ -1187,4 +1636,242 @@ describe('stopRulesValidator', () => {
       expect(result.violations[0]?.path).toBe('containers.0.image');
     });
   });
+
+  describe('multi-document files', () => {
+    it('should validate each changed document and record its label', () => {
+      const diffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [
+          {
+            path: 'app.yaml',
+            sourceContent: '',
+            destinationContent: '',
+            processedSourceContent: [],
+            processedDestContent: [],
+            rawParsedSource: [],
+            rawParsedDest: [],
+            documents: [
+              {
+                label: 'apps/v1/Deployment/api',
+                sourceIndex: 0,
+                destinationIndex: 0,
+                changed: true,
+                processedSourceContent: { version: '1.1.0' },
+                processedDestContent: { version: '1.0.0' },
+                rawParsedSource: {},
+                rawParsedDest: {}
+              },
+              {
+                label: 'apps/v1/Deployment/web',
+                sourceIndex: 1,
+                destinationIndex: 1,
+                changed: true,
+                processedSourceContent: { version: '2.0.0' },
+                processedDestContent: { version: '1.0.0' },
+                rawParsedSource: {},
+                rawParsedDest: {}
+              }
+            ]
+          }
+        ],
+        unchangedFiles: []
+      };
+
+      const stopRules = {
+        '*.yaml': [{ type: 'semverMajorUpgrade' as const, path: 'version' }]
+      };
+
+      const result = validateStopRules(diffResult, stopRules);
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0]?.document).toBe('apps/v1/Deployment/web');
+      expect(result.violations[0]?.path).toBe('version');
+    });
+
+    it('should skip unchanged documents', () => {
+      const diffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [
+          {
+            path: 'app.yaml',
+            sourceContent: '',
+            destinationContent: '',
+            processedSourceContent: [],
+            processedDestContent: [],
+            rawParsedSource: [],
+            rawParsedDest: [],
+            documents: [
+              {
+                label: 'document 1',
+                sourceIndex: 0,
+                destinationIndex: 0,
+                changed: false,
+                processedSourceContent: { image: 'forbidden:latest' },
+                processedDestContent: { image: 'forbidden:latest' },
+                rawParsedSource: {},
+                rawParsedDest: {}
+              }
+            ]
+          }
+        ],
+        unchangedFiles: []
+      };
+
+      const stopRules = {
+        '*.yaml': [{ type: 'regex' as const, regex: 'forbidden' }]
+      };
+
+      const result = validateStopRules(diffResult, stopRules);
+
+      expect(result.isValid).toBe(true);
+    });
+  });
+
+  describe('added files', () => {
+    it('should check absolute rules against the processed content', () => {
+      const diffResult = createDiffResult([
+        { path: 'new.yaml', content: '', processedContent: 'image:\n  tag: latest\nreplicas: 0\n' }
+      ]);
+      const stopRules = {
+        '*.yaml': [
+          { type: 'regex' as const, path: 'image.tag', regex: '^latest$' },
+          { type: 'numeric' as const, path: 'replicas', min: 1 },
+          { type: 'versionFormat' as const, path: 'image.tag', vPrefix: 'allowed' as const }
+        ]
+      };
+
+      const result = validateStopRules(diffResult, stopRules);
+
+      expect(result.violations.map(({ file, rule, oldValue }) => ({ file, type: rule.type, oldValue }))).toEqual([
+        { file: 'new.yaml', type: 'regex', oldValue: undefined },
+        { file: 'new.yaml', type: 'numeric', oldValue: undefined },
+        { file: 'new.yaml', type: 'versionFormat', oldValue: undefined }
+      ]);
+    });
+
+    it('should scan all values for pathless regex rules', () => {
+      const diffResult = createDiffResult([
+        { path: 'new.yaml', content: '', processedContent: 'db:\n  host: uat-db.internal\n' }
+      ]);
+
+      const result = validateStopRules(diffResult, { '*.yaml': [{ type: 'regex' as const, regex: 'uat' }] });
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0]?.path).toBe('db.host');
+    });
+
+    it('should skip semver rules, which need an old value', () => {
+      const diffResult = createDiffResult([{ path: 'new.yaml', content: '', processedContent: 'version: 9.0.0\n' }]);
+      const stopRules = {
+        '*.yaml': [
+          { type: 'semverMajorUpgrade' as const, path: 'version' },
+          { type: 'semverDowngrade' as const, path: 'version' }
+        ]
+      };
+
+      expect(validateStopRules(diffResult, stopRules).isValid).toBe(true);
+    });
+
+    it('should label violations by document in multi-document files', () => {
+      const diffResult = createDiffResult([
+        {
+          path: 'manifests.yaml',
+          content: '',
+          processedContent:
+            'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: ok\n---\napiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: bad\ndata:\n  env: uat\n'
+        }
+      ]);
+
+      const result = validateStopRules(diffResult, {
+        '*.yaml': [{ type: 'regex' as const, path: 'data.env', regex: 'uat' }]
+      });
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0]?.document).toBe('v1/ConfigMap/bad');
+    });
+
+    it('should ignore files without a format handler', () => {
+      const diffResult = createDiffResult([{ path: 'notes.txt', content: 'uat', processedContent: 'uat' }]);
+
+      expect(validateStopRules(diffResult, { '*': [{ type: 'regex' as const, regex: 'uat' }] }).isValid).toBe(true);
+    });
+  });
+
+  describe('fileDeletion rules', () => {
+    it('should block deleting files matched by the glob', () => {
+      const diffResult = {
+        addedFiles: [],
+        deletedFiles: ['secrets/db.yaml', 'apps/old.yaml'],
+        changedFiles: [],
+        unchangedFiles: []
+      };
+
+      const result = validateStopRules(diffResult, { 'secrets/**': [{ type: 'fileDeletion' as const }] });
+
+      expect(result.isValid).toBe(false);
+      expect(result.violations).toEqual([
+        {
+          file: 'secrets/db.yaml',
+          rule: { type: 'fileDeletion' },
+          path: '(file)',
+          oldValue: undefined,
+          updatedValue: undefined,
+          message: 'Prune would delete this protected file'
+        }
+      ]);
+    });
+
+    it('should not apply to changed files', () => {
+      const diffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [
+          {
+            path: 'secrets/db.yaml',
+            sourceContent: '',
+            destinationContent: '',
+            processedSourceContent: { a: 1 },
+            processedDestContent: { a: 2 },
+            rawParsedSource: {},
+            rawParsedDest: {}
+          }
+        ],
+        unchangedFiles: []
+      };
+
+      expect(validateStopRules(diffResult, { 'secrets/**': [{ type: 'fileDeletion' as const }] }).isValid).toBe(true);
+    });
+  });
+
+  describe('severity', () => {
+    const diffResult = createDiffResult([
+      { path: 'values.yaml', content: 'env: uat\n', processedContent: 'env: uat\n' }
+    ]);
+
+    it('should report warn violations without failing validation', () => {
+      const result = validateStopRules(diffResult, {
+        '*.yaml': [{ type: 'regex' as const, path: 'env', regex: 'uat', severity: 'warn' as const }]
+      });
+
+      expect(result.violations).toHaveLength(1);
+      expect(result.isValid).toBe(true);
+      expect(isBlockingViolation(result.violations[0]!)).toBe(false);
+      expect(isBlockingViolation(result.violations[0]!, true)).toBe(true);
+    });
+
+    it('should fail validation when a blocking rule is violated alongside warnings', () => {
+      const result = validateStopRules(diffResult, {
+        '*.yaml': [
+          { type: 'regex' as const, path: 'env', regex: 'uat', severity: 'warn' as const },
+          { type: 'regex' as const, regex: 'ua' }
+        ]
+      });
+
+      expect(result.violations).toHaveLength(2);
+      expect(result.isValid).toBe(false);
+      expect(result.violations.map((violation) => isBlockingViolation(violation))).toEqual([false, true]);
+    });
+  });
 });
@@ -354,6 +354,48 @@ kind: Application`;
     });
   });
 
+  describe('multi-document files', () => {
+    it('should format every document and keep separators', () => {
+      const input = `kind: Service
+apiVersion: v1
+---
+kind: Deployment
+apiVersion: apps/v1
+`;
+
+      const result = formatYaml(input, 'test.yaml', {
+        indent: 2,
+        keySeparator: false,
+        keyOrders: { '*.yaml': ['apiVersion', 'kind'] }
+      });
+
+      expect(result).toBe('apiVersion: v1\nkind: Service\n---\napiVersion: apps/v1\nkind: Deployment\n');
+    });
+
+    it('should apply keySeparator within each document only', () => {
+      const input = `apiVersion: v1
+kind: Service
+---
+apiVersion: apps/v1
+kind: Deployment
+`;
+
+      const result = formatYaml(input, 'test.yaml', { indent: 2, keySeparator: true });
+
+      expect(result).toBe('apiVersion: v1\n\nkind: Service\n---\napiVersion: apps/v1\n\nkind: Deployment\n');
+    });
+
+    it('should keep empty documents', () => {
+      const input = `a: 1
+---
+`;
+
+      const result = formatYaml(input, 'test.yaml', { indent: 2, keySeparator: false });
+
+      expect(result).toBe('a: 1\n---\n');
+    });
+  });
+
   describe('arraySort', () => {
     it('should sort array items by string field in ascending order', () => {
       const input = `env:
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+
+import type { ChangedFile } from '../../src/pipeline/fileDiff';
+import { generateChangedFileDiff } from '../../src/reporters/changedFileDiff';
+
+const createChangedFile = (overrides: Partial<ChangedFile> = {}): ChangedFile => ({
+  path: 'app.yaml',
+  sourceContent: '',
+  destinationContent: '',
+  processedSourceContent: { tag: 'v2' },
+  processedDestContent: { tag: 'v1' },
+  rawParsedSource: {},
+  rawParsedDest: {},
+  ...overrides
+});
+
+describe('reporters/changedFileDiff', () => {
+  describe('generateChangedFileDiff', () => {
+    it('should diff the serialized YAML content of single-document files', () => {
+      const diff = generateChangedFileDiff(createChangedFile());
+
+      expect(diff).toContain('--- app.yaml\tDestination');
+      expect(diff).toContain('-tag: v1');
+      expect(diff).toContain('+tag: v2');
+    });
+
+    it('should diff raw content of non-YAML files', () => {
+      const diff = generateChangedFileDiff(
+        createChangedFile({ path: 'notes.txt', processedSourceContent: 'new', processedDestContent: 'old' })
+      );
+
+      expect(diff).toContain('-old');
+      expect(diff).toContain('+new');
+    });
+
+    it('should diff JSON files as sorted JSON', () => {
+      const diff = generateChangedFileDiff(
+        createChangedFile({
+          path: 'config.json',
+          processedSourceContent: { tag: 'v2', name: 'web' },
+          processedDestContent: { name: 'web', tag: 'v1' }
+        })
+      );
+
+      expect(diff).toContain('--- config.json\tDestination');
+      expect(diff).toContain('   "name": "web",');
+      expect(diff).toContain('-  "tag": "v1"');
+      expect(diff).toContain('+  "tag": "v2"');
+    });
+
+    it('should produce one labelled section per changed document', () => {
+      const diff = generateChangedFileDiff(
+        createChangedFile({
+          documents: [
+            {
+              label: 'v1/Service/web',
+              sourceIndex: 0,
+              destinationIndex: 0,
+              changed: false,
+              processedSourceContent: { port: 80 },
+              processedDestContent: { port: 80 },
+              rawParsedSource: {},
+              rawParsedDest: {}
+            },
+            {
+              label: 'apps/v1/Deployment/web',
+              sourceIndex: 1,
+              destinationIndex: 1,
+              changed: true,
+              processedSourceContent: { tag: 'v2' },
+              processedDestContent: { tag: 'v1' },
+              rawParsedSource: {},
+              rawParsedDest: {}
+            }
+          ]
+        })
+      );
+
+      expect(diff).toContain('--- app.yaml (apps/v1/Deployment/web)\tDestination');
+      expect(diff).not.toContain('v1/Service/web');
+      expect(diff).toContain('+tag: v2');
+    });
+
+    it('should diff added and removed documents against empty content', () => {
+      const diff = generateChangedFileDiff(
+        createChangedFile({
+          documents: [
+            {
+              label: 'v1/ConfigMap/new',
+              sourceIndex: 0,
+              changed: true,
+              processedSourceContent: { data: 'a' },
+              processedDestContent: undefined,
+              rawParsedSource: {},
+              rawParsedDest: undefined
+            },
+            {
+              label: 'v1/Secret/old',
+              destinationIndex: 0,
+              changed: true,
+              processedSourceContent: undefined,
+              processedDestContent: { data: 'b' },
+              rawParsedSource: undefined,
+              rawParsedDest: {}
+            }
+          ]
+        })
+      );
+
+      expect(diff).toContain('+data: a');
+      expect(diff).toContain('-data: b');
+    });
+  });
+});
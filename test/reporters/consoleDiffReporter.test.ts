@@ -416,6 +416,55 @@ describe('consoleDiffReporter', () => {
     });
   });
 
+  describe('showConsoleDiff - structural transforms', () => {
+    it('should list structural transforms applied to a changed file', () => {
+      const changedFile: ChangedFile = {
+        path: 'values.yaml',
+        rawParsedSource: { rules: ['a'] },
+        rawParsedDest: { rules: ['b'] },
+        processedSourceContent: { rules: ['a'] },
+        processedDestContent: { rules: ['b'] },
+        structuralTransforms: [{ move: { from: 'hosts', to: 'rules' } }, { delete: 'debug' }]
+      };
+      const diffResult: FileDiffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [changedFile],
+        unchangedFiles: []
+      };
+
+      showConsoleDiff(diffResult, createMockConfig());
+
+      const output = consoleLogSpy.mock.calls.map((call: unknown[]) => call[0]).join('\n');
+      expect(output).toContain('Structural transforms applied: move hosts → rules, delete debug');
+    });
+
+    it('should list function transforms applied to a changed file', () => {
+      const changedFile: ChangedFile = {
+        path: 'values.yaml',
+        rawParsedSource: { tag: '1.2.4' },
+        rawParsedDest: { tag: '1.2.3' },
+        processedSourceContent: { tag: '1.2.4' },
+        processedDestContent: { tag: '1.2.3' },
+        functionTransforms: [
+          { path: 'tag', semverBump: 'patch' },
+          { path: 'env', upper: true }
+        ]
+      };
+      const diffResult: FileDiffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [changedFile],
+        unchangedFiles: []
+      };
+
+      showConsoleDiff(diffResult, createMockConfig());
+
+      const output = consoleLogSpy.mock.calls.map((call: unknown[]) => call[0]).join('\n');
+      expect(output).toContain('Function transforms applied: semverBump patch tag, upper env');
+    });
+  });
+
   describe('showConsoleDiff - mixed file types', () => {
     it('should handle mix of added, deleted, and changed files', () => {
       const changedFile: ChangedFile = {
@@ -28,11 +28,16 @@ vi.mock('../../src/utils/diffGenerator', () => ({
 }));
 
 vi.mock('../../src/utils/fileType', () => ({
+  isDotenvFile: vi.fn(),
+  isJsonFile: vi.fn(),
+  isPropertiesFile: vi.fn(),
+  isTomlFile: vi.fn(),
   isYamlFile: vi.fn()
 }));
 
 vi.mock('../../src/utils/serialization', () => ({
   serializeForDiff: vi.fn(),
+  serializeJsonForDiff: vi.fn(),
   normalizeForComparison: vi.fn()
 }));
 
@@ -629,6 +634,65 @@ describe('htmlReporter', () => {
       expect(htmlContent).toContain('1 Violation');
     });
 
+    it('should render the document label of multi-document violations', async () => {
+      const diffResult = createMockDiffResult({
+        changedFiles: [createMockChangedFile()]
+      });
+      const validationResult: ValidationResult = {
+        violations: [
+          {
+            file: 'app.yaml',
+            document: 'apps/v1/Deployment/web',
+            rule: { type: 'semverMajorUpgrade', path: 'version' },
+            path: 'version',
+            oldValue: '1.0.0',
+            updatedValue: '2.0.0',
+            message: 'Major upgrade'
+          }
+        ],
+        isValid: false
+      };
+
+      await generateHtmlReport(diffResult, [], createMockConfig(), true, createMockLogger(), validationResult);
+
+      const htmlContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+      expect(htmlContent).toContain('<span class="violation-document">apps/v1/Deployment/web</span>');
+    });
+
+    it('should render the severity of each violation', async () => {
+      const diffResult = createMockDiffResult({
+        changedFiles: [createMockChangedFile()]
+      });
+      const validationResult: ValidationResult = {
+        violations: [
+          {
+            file: 'app.yaml',
+            rule: { type: 'semverMajorUpgrade', path: 'version', severity: 'warn' },
+            path: 'version',
+            oldValue: '1.0.0',
+            updatedValue: '2.0.0',
+            message: 'Major upgrade'
+          },
+          {
+            file: 'app.yaml',
+            rule: { type: 'semverDowngrade', path: 'chart' },
+            path: 'chart',
+            oldValue: '2.0.0',
+            updatedValue: '1.0.0',
+            message: 'Downgrade'
+          }
+        ],
+        isValid: false
+      };
+
+      await generateHtmlReport(diffResult, [], createMockConfig(), true, createMockLogger(), validationResult);
+
+      const htmlContent = vi.mocked(writeFile).mock.calls[0][1] as string;
+      expect(htmlContent).toContain('<th>Severity</th>');
+      expect(htmlContent).toContain('<span class="violation-severity warn">warn</span>');
+      expect(htmlContent).toContain('<span class="violation-severity block">block</span>');
+    });
+
     it('should render violations badge with plural label for multiple violations', async () => {
       const diffResult = createMockDiffResult({
         changedFiles: [createMockChangedFile()]
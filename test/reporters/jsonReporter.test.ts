@@ -227,6 +227,48 @@ describe('jsonReporter', () => {
       expect(parsed.files.changed[0].changes[0].updatedValue).toBe('newValue');
     });
 
+    it('should label field changes with their document for multi-document files', () => {
+      const changedFile: ChangedFile = {
+        ...createMockChangedFile('app.yaml', 'a', 'b', [], []),
+        documents: [
+          {
+            label: 'v1/Service/web',
+            sourceIndex: 0,
+            destinationIndex: 0,
+            changed: false,
+            processedSourceContent: { port: 80 },
+            processedDestContent: { port: 80 },
+            rawParsedSource: { port: 80 },
+            rawParsedDest: { port: 80 }
+          },
+          {
+            label: 'apps/v1/Deployment/web',
+            sourceIndex: 1,
+            destinationIndex: 1,
+            changed: true,
+            processedSourceContent: { tag: 'v2' },
+            processedDestContent: { tag: 'v1' },
+            rawParsedSource: { tag: 'v2' },
+            rawParsedDest: { tag: 'v1' }
+          }
+        ]
+      };
+      const diffResult: FileDiffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [changedFile],
+        unchangedFiles: []
+      };
+
+      generateJsonReport(diffResult, [], { violations: [], isValid: true }, createMockConfig(), false, '1.0.0');
+
+      const parsed: JsonReport = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+
+      expect(parsed.files.changed[0].changes).toEqual([
+        { document: 'apps/v1/Deployment/web', path: '$.tag', oldValue: 'v1', updatedValue: 'v2' }
+      ]);
+    });
+
     it('should detect nested field changes', () => {
       const diffResult: FileDiffResult = {
         addedFiles: [],
@@ -259,6 +301,43 @@ describe('jsonReporter', () => {
       expect(parsed.files.changed[0].changes[0].updatedValue).toBe('v2.0.0');
     });
 
+    it('should add quantity values to changes of Kubernetes quantities', () => {
+      const diffResult: FileDiffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [
+          createMockChangedFile(
+            'app.yaml',
+            'resources',
+            'resources',
+            { resources: { limits: { cpu: 1, memory: '1536Mi' } }, replicas: 3 },
+            { resources: { limits: { cpu: '500m', memory: '1Gi' } }, replicas: 2 }
+          )
+        ],
+        unchangedFiles: []
+      };
+
+      generateJsonReport(diffResult, [], { violations: [], isValid: true }, createMockConfig(), false, '1.0.0');
+
+      const parsed: JsonReport = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+
+      expect(parsed.files.changed[0].changes).toEqual([
+        {
+          path: '$.resources.limits.cpu',
+          oldValue: '500m',
+          updatedValue: 1,
+          quantity: { oldValue: 0.5, updatedValue: 1, delta: 0.5 }
+        },
+        {
+          path: '$.resources.limits.memory',
+          oldValue: '1Gi',
+          updatedValue: '1536Mi',
+          quantity: { oldValue: 1024 ** 3, updatedValue: 1536 * 1024 ** 2, delta: 512 * 1024 ** 2 }
+        },
+        { path: '$.replicas', oldValue: 2, updatedValue: 3 }
+      ]);
+    });
+
     it('should detect multiple field changes', () => {
       const diffResult: FileDiffResult = {
         addedFiles: [],
@@ -318,6 +397,195 @@ describe('jsonReporter', () => {
       expect(parsed.files.changed[0].changes[0].updatedValue).toBe('Array with 3 item(s)');
     });
 
+    it('should report keyed arrays item by item when an arrayMerge rule has a key', () => {
+      const changedFile = createMockChangedFile(
+        'deploy.yaml',
+        'content',
+        'content',
+        {
+          containers: [
+            { name: 'app', image: 'app:2' },
+            { name: 'worker', image: 'worker:1' }
+          ]
+        },
+        {
+          containers: [
+            { name: 'app', image: 'app:1' },
+            { name: 'cron', image: 'cron:1' }
+          ]
+        }
+      );
+      changedFile.arrayMergeRules = [{ path: 'containers', key: 'name', strategy: 'mergeByKey' }];
+      const diffResult: FileDiffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [changedFile],
+        unchangedFiles: []
+      };
+
+      const validationResult: ValidationResult = {
+        violations: [],
+        isValid: true
+      };
+
+      generateJsonReport(diffResult, [], validationResult, createMockConfig(), false, '1.0.0');
+
+      const output = consoleLogSpy.mock.calls[0][0];
+      const parsed: JsonReport = JSON.parse(output);
+
+      expect(parsed.files.changed[0].changes).toEqual([
+        { path: '$.containers[name=app].image', oldValue: 'app:1', updatedValue: 'app:2' },
+        { path: '$.containers[name=worker]', updatedValue: { name: 'worker', image: 'worker:1' } },
+        { path: '$.containers[name=cron]', oldValue: { name: 'cron', image: 'cron:1' } }
+      ]);
+    });
+
+    it('should fall back to an array-level change when keyed items lack the key', () => {
+      const changedFile = createMockChangedFile(
+        'deploy.yaml',
+        'content',
+        'content',
+        { containers: [{ name: 'app' }, { image: 'x' }] },
+        { containers: [{ name: 'app' }] }
+      );
+      changedFile.arrayMergeRules = [{ path: 'containers', key: 'name', strategy: 'mergeByKey' }];
+      const diffResult: FileDiffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [changedFile],
+        unchangedFiles: []
+      };
+
+      const validationResult: ValidationResult = {
+        violations: [],
+        isValid: true
+      };
+
+      generateJsonReport(diffResult, [], validationResult, createMockConfig(), false, '1.0.0');
+
+      const output = consoleLogSpy.mock.calls[0][0];
+      const parsed: JsonReport = JSON.parse(output);
+
+      expect(parsed.files.changed[0].changes).toEqual([
+        { path: '$.containers', oldValue: 'Array with 1 item(s)', updatedValue: 'Array with 2 item(s)' }
+      ]);
+    });
+
+    it('should report reordered arrays at ordered paths with both arrays', () => {
+      const changedFile = createMockChangedFile(
+        'deploy.yaml',
+        'content',
+        'content',
+        { args: ['--port=80', '--verbose'] },
+        { args: ['--verbose', '--port=80'] }
+      );
+      changedFile.orderedArrayPaths = ['args'];
+      const diffResult: FileDiffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [changedFile],
+        unchangedFiles: []
+      };
+
+      const validationResult: ValidationResult = {
+        violations: [],
+        isValid: true
+      };
+
+      generateJsonReport(diffResult, [], validationResult, createMockConfig(), false, '1.0.0');
+
+      const output = consoleLogSpy.mock.calls[0][0];
+      const parsed: JsonReport = JSON.parse(output);
+
+      expect(parsed.files.changed[0].changes).toEqual([
+        { path: '$.args', oldValue: ['--verbose', '--port=80'], updatedValue: ['--port=80', '--verbose'] }
+      ]);
+    });
+
+    it('should report the key order of reordered keyed arrays at ordered paths', () => {
+      const changedFile = createMockChangedFile(
+        'deploy.yaml',
+        'content',
+        'content',
+        { initContainers: [{ name: 'migrate' }, { name: 'wait' }] },
+        { initContainers: [{ name: 'wait' }, { name: 'migrate' }] }
+      );
+      changedFile.arrayMergeRules = [{ path: 'initContainers', key: 'name', strategy: 'mergeByKey' }];
+      changedFile.orderedArrayPaths = ['initContainers'];
+      const diffResult: FileDiffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [changedFile],
+        unchangedFiles: []
+      };
+
+      const validationResult: ValidationResult = {
+        violations: [],
+        isValid: true
+      };
+
+      generateJsonReport(diffResult, [], validationResult, createMockConfig(), false, '1.0.0');
+
+      const output = consoleLogSpy.mock.calls[0][0];
+      const parsed: JsonReport = JSON.parse(output);
+
+      expect(parsed.files.changed[0].changes).toEqual([
+        { path: '$.initContainers', oldValue: ['wait', 'migrate'], updatedValue: ['migrate', 'wait'] }
+      ]);
+    });
+
+    it('should list structural transforms applied to a changed file', () => {
+      const changedFile = createMockChangedFile(
+        'values.yaml',
+        'content',
+        'content',
+        { rules: ['a'] },
+        { rules: ['b'] }
+      );
+      changedFile.structuralTransforms = [{ move: { from: 'hosts', to: 'rules' } }];
+      const diffResult: FileDiffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [changedFile],
+        unchangedFiles: []
+      };
+
+      const validationResult: ValidationResult = {
+        violations: [],
+        isValid: true
+      };
+
+      generateJsonReport(diffResult, [], validationResult, createMockConfig(), false, '1.0.0');
+
+      const output = consoleLogSpy.mock.calls[0][0];
+      const parsed: JsonReport = JSON.parse(output);
+
+      expect(parsed.files.changed[0].structuralTransforms).toEqual(['move hosts → rules']);
+    });
+
+    it('should list function transforms applied to a changed file', () => {
+      const changedFile = createMockChangedFile('values.yaml', 'content', 'content', { name: 'prod-web' }, {});
+      changedFile.functionTransforms = [{ path: 'name', prefix: 'prod-' }];
+      const diffResult: FileDiffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [changedFile],
+        unchangedFiles: []
+      };
+
+      const validationResult: ValidationResult = {
+        violations: [],
+        isValid: true
+      };
+
+      generateJsonReport(diffResult, [], validationResult, createMockConfig(), false, '1.0.0');
+
+      const parsed: JsonReport = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+
+      expect(parsed.files.changed[0].functionTransforms).toEqual(["prefix 'prod-' name"]);
+      expect(parsed.files.changed[0].structuralTransforms).toBeUndefined();
+    });
+
     it('should detect added fields', () => {
       const diffResult: FileDiffResult = {
         addedFiles: [],
@@ -420,6 +688,36 @@ describe('jsonReporter', () => {
       expect(parsed.stopRuleViolations[0].oldValue).toBe('v1.2.3');
       expect(parsed.stopRuleViolations[0].updatedValue).toBe('v2.0.0');
       expect(parsed.stopRuleViolations[0].message).toBe('Major version upgrade detected');
+      expect(parsed.stopRuleViolations[0].severity).toBe('block');
+    });
+
+    it('should include the severity of warning rules', () => {
+      const diffResult: FileDiffResult = {
+        addedFiles: [],
+        deletedFiles: [],
+        changedFiles: [],
+        unchangedFiles: []
+      };
+
+      const validationResult: ValidationResult = {
+        violations: [
+          {
+            file: 'app.yaml',
+            rule: { type: 'semverMajorUpgrade', path: 'version', severity: 'warn' },
+            path: 'version',
+            oldValue: 'v1.2.3',
+            updatedValue: 'v2.0.0',
+            message: 'Major version upgrade detected'
+          }
+        ],
+        isValid: true
+      };
+
+      generateJsonReport(diffResult, [], validationResult, createMockConfig(), false, '1.0.0');
+
+      const parsed: JsonReport = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+
+      expect(parsed.stopRuleViolations[0].severity).toBe('warn');
     });
 
     it('should handle empty diff result', () => {
@@ -0,0 +1,293 @@
+import { describe, expect, it, vi } from 'vitest';
+import * as YAML from 'yaml';
+
+import { isZodValidationError } from '../src/config';
+import {
+  type AppliableSuggestion,
+  applySuggestionsToConfig,
+  describeAppliableSuggestion,
+  isSuggestionApplierError,
+  listAppliableSuggestions,
+  promptForSuggestions,
+  selectByConfidence
+} from '../src/suggestionApplier';
+import type { SuggestionResult } from '../src/suggestionEngine';
+
+const transform = (find: string, replace: string, confidence: number): AppliableSuggestion => ({
+  kind: 'transform',
+  pattern: '**/*.yaml',
+  suggestion: { find, replace, confidence, occurrences: 3, affectedFiles: ['a.yaml'], examples: [] }
+});
+
+const stopRule = (path: string, confidence: number): AppliableSuggestion => ({
+  kind: 'stopRule',
+  pattern: '**/*.yaml',
+  suggestion: {
+    rule: { type: 'semverMajorUpgrade', path },
+    confidence,
+    reason: `Blocks major version bumps for ${path}`,
+    affectedPaths: [path],
+    affectedFiles: ['a.yaml']
+  }
+});
+
+const skipPath = (path: string, confidence: number): AppliableSuggestion => ({
+  kind: 'skipPath',
+  pattern: '**/*.yaml',
+  suggestion: {
+    path,
+    confidence,
+    reason: 'Differs in 2 files with no matching transform',
+    affectedFiles: ['a.yaml', 'b.yaml'],
+    examples: []
+  }
+});
+
+const filename = (find: string, replace: string, confidence: number, literal = false): AppliableSuggestion => ({
+  kind: 'filename',
+  pattern: '**/*',
+  suggestion: {
+    find,
+    replace,
+    literal,
+    confidence,
+    reason: 'Lines up 1 added file(s) with deleted file(s) of similar content',
+    pairs: [
+      { sourcePath: 'values-uat.yaml', destinationPath: 'values-prod.yaml', contentSimilarity: 1, pathSimilarity: 0.7 }
+    ]
+  }
+});
+
+const CONFIG = `# Sync UAT to production
+source: ./uat # relative to cwd
+destination: ./prod
+
+include: ['**/*.yaml']
+
+# Never touch versions blindly
+stopRules:
+  '**/*.yaml':
+    - type: semverDowngrade
+      path: image.tag
+`;
+
+// Fake prompt that replies with the given answers in order
+const answering = (...answers: string[]) => {
+  const ask = vi.fn<(question: string) => Promise<string>>();
+  for (const answer of answers) ask.mockResolvedValueOnce(answer);
+  return ask;
+};
+
+describe('suggestionApplier', () => {
+  describe('listAppliableSuggestions', () => {
+    it('should flatten transforms, stop rules, skipPaths, then filename transforms', () => {
+      const first = transform('uat', 'prod', 0.9);
+      const second = stopRule('version', 0.8);
+      const third = skipPath('replicaCount', 0.7);
+      const fourth = filename('-uat', '-prod', 0.9);
+      const literal = filename('values-uat.yaml', 'values-prod.yaml', 0.6, true);
+      const result = {
+        transforms: new Map([['**/*.yaml', [first.suggestion]]]),
+        stopRules: new Map([['**/*.yaml', [second.suggestion]]]),
+        skipPaths: new Map([['**/*.yaml', [third.suggestion]]]),
+        filenames: new Map([['**/*', [fourth.suggestion, literal.suggestion]]]),
+        metadata: { filesAnalyzed: 1, changedFiles: 1, timestamp: '' }
+      } as SuggestionResult;
+
+      expect(listAppliableSuggestions(result)).toEqual([first, second, third, fourth]);
+    });
+  });
+
+  describe('selectByConfidence', () => {
+    it('should keep suggestions at or above the minimum', () => {
+      const suggestions = [transform('a', 'b', 0.5), transform('c', 'd', 0.8), stopRule('version', 0.95)];
+
+      expect(selectByConfidence(suggestions, 0.8).map((entry) => entry.suggestion.confidence)).toEqual([0.8, 0.95]);
+    });
+  });
+
+  describe('describeAppliableSuggestion', () => {
+    it('should describe transforms and stop rules on one line', () => {
+      expect(describeAppliableSuggestion(transform('uat', 'prod', 0.654))).toBe(
+        "transform [**/*.yaml] find 'uat' → replace 'prod' (65%)"
+      );
+      expect(describeAppliableSuggestion(stopRule('version', 0.95))).toBe(
+        'stop rule [**/*.yaml] { type: semverMajorUpgrade, path: version } (95%)'
+      );
+      expect(describeAppliableSuggestion(filename('-uat', '-prod', 0.9))).toBe(
+        "filename transform [**/*] find '-uat' → replace '-prod' (90%)"
+      );
+      expect(describeAppliableSuggestion(skipPath('replicaCount', 0.7))).toBe(
+        'skipPath [**/*.yaml] replicaCount (70%)'
+      );
+    });
+  });
+
+  describe('promptForSuggestions', () => {
+    const suggestions = [transform('a', 'b', 0.5), transform('c', 'd', 0.6), stopRule('version', 0.9)];
+
+    it('should accept y answers and skip everything else', async () => {
+      const accepted = await promptForSuggestions(suggestions, answering('y', '', 'YES'));
+
+      expect(accepted).toEqual([suggestions[0], suggestions[2]]);
+    });
+
+    it('should accept all remaining suggestions on a', async () => {
+      const ask = answering('n', 'a');
+
+      expect(await promptForSuggestions(suggestions, ask)).toEqual([suggestions[1], suggestions[2]]);
+      expect(ask).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop asking on q', async () => {
+      const ask = answering('y', 'q');
+
+      expect(await promptForSuggestions(suggestions, ask)).toEqual([suggestions[0]]);
+      expect(ask).toHaveBeenCalledTimes(2);
+      expect(ask.mock.calls[0]?.[0]).toContain('[1/3]');
+    });
+  });
+
+  describe('applySuggestionsToConfig', () => {
+    it('should append stop rules to an existing glob and keep comments and formatting', () => {
+      const result = applySuggestionsToConfig(CONFIG, [stopRule('image.tag', 0.95)]);
+
+      expect(result.content).toContain('# Sync UAT to production\nsource: ./uat # relative to cwd');
+      expect(result.content).toContain("include: ['**/*.yaml']");
+      expect(result.content).toContain('# Never touch versions blindly');
+      expect(result.content).toContain(
+        '    # Suggested (confidence 95%): Blocks major version bumps for image.tag\n    - type: semverMajorUpgrade'
+      );
+      expect(YAML.parse(result.content).stopRules['**/*.yaml']).toEqual([
+        { type: 'semverDowngrade', path: 'image.tag' },
+        { type: 'semverMajorUpgrade', path: 'image.tag' }
+      ]);
+    });
+
+    it('should create the transforms section when missing', () => {
+      const result = applySuggestionsToConfig(CONFIG, [transform('uat', 'prod', 0.7)]);
+
+      expect(YAML.parse(result.content).transforms).toEqual({
+        '**/*.yaml': { content: [{ find: 'uat', replace: 'prod' }] }
+      });
+      expect(result.content).toContain('# Suggested (confidence 70%, 3 occurrence(s))');
+    });
+
+    it('should append skipPaths under their glob', () => {
+      const config = `${CONFIG}skipPath:\n  '**/*.yaml':\n    - image.pullPolicy\n`;
+
+      const result = applySuggestionsToConfig(config, [
+        skipPath('replicaCount', 0.7),
+        skipPath('image.pullPolicy', 0.5)
+      ]);
+
+      expect(YAML.parse(result.content).skipPath).toEqual({ '**/*.yaml': ['image.pullPolicy', 'replicaCount'] });
+      expect(result.content).toContain(
+        '    # Suggested (confidence 70%): Differs in 2 files with no matching transform\n    - replicaCount'
+      );
+      expect(result.skipped).toHaveLength(1);
+    });
+
+    it('should append filename transforms under their glob', () => {
+      const result = applySuggestionsToConfig(CONFIG, [filename(String.raw`-uat\.`, '-prod.', 0.9)]);
+
+      expect(YAML.parse(result.content).transforms).toEqual({
+        '**/*': { filename: [{ find: String.raw`-uat\.`, replace: '-prod.' }] }
+      });
+      expect(
+        applySuggestionsToConfig(result.content, [filename(String.raw`-uat\.`, '-prod.', 0.9)]).skipped
+      ).toHaveLength(1);
+    });
+
+    it('should skip suggestions the file already contains', () => {
+      const config = `${CONFIG}transforms:\n  apps/**:\n    content:\n      - find: uat\n        replace: prod\n`;
+
+      const result = applySuggestionsToConfig(config, [
+        transform('uat', 'prod', 0.9),
+        stopRule('image.tag', 0.9),
+        stopRule('image.tag', 0.9)
+      ]);
+
+      expect(result.applied).toHaveLength(1);
+      expect(result.skipped).toHaveLength(2);
+      expect(YAML.parse(result.content).stopRules['**/*.yaml']).toHaveLength(2);
+    });
+
+    it('should keep every untouched line byte-identical', () => {
+      const config = `source: ./src   # source dir
+destination: ./prod
+skipPath: { "nothing.yaml": [ a ] }
+stopRules:
+  '**/*.yaml':
+    -   type: semverDowngrade    # keep spacing
+        path: image.tag
+`;
+
+      const result = applySuggestionsToConfig(config, [stopRule('image.tag', 0.9), transform('uat', 'prod', 0.7)]);
+
+      expect(result.content).toBe(`${config}    # Suggested (confidence 90%): Blocks major version bumps for image.tag
+    - type: semverMajorUpgrade
+      path: image.tag
+transforms:
+  "**/*.yaml":
+    content:
+      # Suggested (confidence 70%, 3 occurrence(s))
+      - find: uat
+        replace: prod
+`);
+    });
+
+    it('should rewrite only the flow collection that receives an entry in block style', () => {
+      const config = 'source: ./src   # source dir\nskipPath: { "nothing.yaml": [ a ] } # skip\ndestination: ./prod\n';
+
+      const result = applySuggestionsToConfig(config, [skipPath('replicaCount', 0.7)]);
+
+      expect(result.content).toBe(`source: ./src   # source dir
+skipPath: # skip
+  "nothing.yaml":
+    - a
+  "**/*.yaml":
+    # Suggested (confidence 70%): Differs in 2 files with no matching transform
+    - replicaCount
+destination: ./prod
+`);
+      expect(YAML.parse(result.content).skipPath).toEqual({ 'nothing.yaml': ['a'], '**/*.yaml': ['replicaCount'] });
+    });
+
+    it('should fill an empty value and append to a file without trailing newline', () => {
+      const emptyValue = applySuggestionsToConfig('skipPath:\nsource: ./src\n', [skipPath('replicaCount', 0.7)]);
+      const noNewline = applySuggestionsToConfig('source: ./src', [skipPath('replicaCount', 0.7)]);
+
+      expect(emptyValue.content).toMatch(
+        /^skipPath:\n {2}"\*\*\/\*\.yaml":\n.*\n {4}- replicaCount\nsource: \.\/src\n$/
+      );
+      expect(noNewline.content).toMatch(/^source: \.\/src\nskipPath:\n/);
+      expect(YAML.parse(noNewline.content).skipPath).toEqual({ '**/*.yaml': ['replicaCount'] });
+    });
+
+    it('should return the content unchanged when nothing is applied', () => {
+      const result = applySuggestionsToConfig(CONFIG, []);
+
+      expect(result.content).toBe(CONFIG);
+    });
+
+    it('should reject content that is not a YAML mapping', () => {
+      expect.assertions(2);
+      try {
+        applySuggestionsToConfig('- a\n- b\n', [transform('uat', 'prod', 0.9)], 'config.yaml');
+      } catch (error) {
+        expect(isSuggestionApplierError(error)).toBe(true);
+        expect((error as { code?: string }).code).toBe('NOT_A_MAPPING');
+      }
+    });
+
+    it('should validate the merged config', () => {
+      expect.assertions(1);
+      try {
+        applySuggestionsToConfig('source: ./uat\nprune: sometimes\n', [stopRule('version', 0.9)]);
+      } catch (error) {
+        expect(isZodValidationError(error)).toBe(true);
+      }
+    });
+  });
+});
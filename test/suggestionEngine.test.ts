@@ -1,7 +1,7 @@
 import { describe, expect, it } from 'vitest';
 
 import { type Config } from '../src/config/configFile';
-import { type ChangedFile, type FileDiffResult } from '../src/pipeline/fileDiff';
+import { type AddedFile, type ChangedFile, type FileDiffResult } from '../src/pipeline/fileDiff';
 import { analyzeDifferencesForSuggestions, formatSuggestionsAsYaml } from '../src/suggestionEngine';
 
 const createMinimalConfig = (): Config => ({
@@ -31,6 +31,26 @@ const createChangedFile = (
   skipPaths
 });
 
+const createLimits = (memory: string, cpu: string) => ({ resources: { limits: { memory, cpu } } });
+
+const analyzeSkipPaths = (changedFiles: ChangedFile[], config = createMinimalConfig()) =>
+  analyzeDifferencesForSuggestions(
+    { addedFiles: [], deletedFiles: [], changedFiles, unchangedFiles: [] },
+    config
+  ).skipPaths.get('**/*.yaml') ?? [];
+
+const createAddedFile = (path: string, content: string): AddedFile => ({ path, content, processedContent: content });
+
+const VALUES = 'image:\n  repository: web\n  tag: 1.2.0\nreplicaCount: 2\n';
+
+const analyzeFilenames = (diffResult: Partial<FileDiffResult>, destinationFiles: Map<string, string>) =>
+  analyzeDifferencesForSuggestions(
+    { addedFiles: [], deletedFiles: [], changedFiles: [], unchangedFiles: [], ...diffResult },
+    createMinimalConfig(),
+    undefined,
+    destinationFiles
+  ).filenames.get('**/*') ?? [];
+
 describe('suggestionEngine', () => {
   describe('analyzeDifferencesForSuggestions', () => {
     it('should return empty suggestions for no changes', () => {
@@ -626,6 +646,20 @@ describe('suggestionEngine', () => {
       expect(numericRule!.rule.type === 'numeric' && numericRule!.rule.min).toBeGreaterThan(0);
     });
 
+    it('should suggest numeric rules in the unit of Kubernetes quantities', () => {
+      const changedFiles: ChangedFile[] = [
+        createChangedFile('app.yaml', createLimits('512Mi', '500m'), createLimits('1Gi', '2')),
+        createChangedFile('worker.yaml', createLimits('2Gi', '1'), createLimits('4Gi', '1'))
+      ];
+      const diffResult: FileDiffResult = { addedFiles: [], deletedFiles: [], changedFiles, unchangedFiles: [] };
+
+      const result = analyzeDifferencesForSuggestions(diffResult, createMinimalConfig());
+
+      const rules = result.stopRules.get('**/*.yaml')?.map(({ rule }) => rule);
+      expect(rules).toContainEqual({ type: 'numeric', path: 'resources.limits.memory', min: '256Mi' });
+      expect(rules).toContainEqual({ type: 'numeric', path: 'resources.limits.cpu', min: '250m' });
+    });
+
     it('should not suggest numeric rules when values are the same', () => {
       const changedFiles: ChangedFile[] = [
         createChangedFile('app.yaml', { replicas: 5 }, { replicas: 5 }, { replicas: 5 }, { replicas: 5 })
@@ -1019,6 +1053,8 @@ describe('suggestionEngine', () => {
       const suggestionResult = {
         transforms: new Map(),
         stopRules: new Map(),
+        skipPaths: new Map(),
+        filenames: new Map(),
         metadata: {
           filesAnalyzed: 0,
           changedFiles: 0,
@@ -1051,6 +1087,8 @@ describe('suggestionEngine', () => {
           ]
         ]),
         stopRules: new Map(),
+        skipPaths: new Map(),
+        filenames: new Map(),
         metadata: {
           filesAnalyzed: 2,
           changedFiles: 2,
@@ -1088,6 +1126,8 @@ describe('suggestionEngine', () => {
             ]
           ]
         ]),
+        skipPaths: new Map(),
+        filenames: new Map(),
         metadata: {
           filesAnalyzed: 1,
           changedFiles: 1,
@@ -1122,6 +1162,8 @@ describe('suggestionEngine', () => {
             ]
           ]
         ]),
+        skipPaths: new Map(),
+        filenames: new Map(),
         metadata: {
           filesAnalyzed: 1,
           changedFiles: 1,
@@ -1152,6 +1194,8 @@ describe('suggestionEngine', () => {
             ]
           ]
         ]),
+        skipPaths: new Map(),
+        filenames: new Map(),
         metadata: {
           filesAnalyzed: 1,
           changedFiles: 1,
@@ -1166,6 +1210,31 @@ describe('suggestionEngine', () => {
       expect(yaml).toContain('max: 10');
     });
 
+    it('should quote quantity limits of numeric rules', () => {
+      const suggestionResult = {
+        transforms: new Map(),
+        stopRules: new Map([
+          [
+            '**/*.yaml',
+            [
+              {
+                rule: { type: 'numeric' as const, path: 'resources.limits.memory', min: '256Mi' },
+                confidence: 0.7,
+                reason: 'Prevents resources.limits.memory from dropping below safe minimum',
+                affectedPaths: ['resources.limits.memory'],
+                affectedFiles: ['app.yaml']
+              }
+            ]
+          ]
+        ]),
+        skipPaths: new Map(),
+        filenames: new Map(),
+        metadata: { filesAnalyzed: 1, changedFiles: 1, timestamp: '2024-01-01T00:00:00.000Z' }
+      };
+
+      expect(formatSuggestionsAsYaml(suggestionResult)).toContain("min: '256Mi'");
+    });
+
     it('should escape single quotes in YAML strings', () => {
       const suggestionResult = {
         transforms: new Map([
@@ -1184,6 +1253,8 @@ describe('suggestionEngine', () => {
           ]
         ]),
         stopRules: new Map(),
+        skipPaths: new Map(),
+        filenames: new Map(),
         metadata: {
           filesAnalyzed: 1,
           changedFiles: 1,
@@ -1201,6 +1272,8 @@ describe('suggestionEngine', () => {
       const suggestionResult = {
         transforms: new Map(),
         stopRules: new Map(),
+        skipPaths: new Map(),
+        filenames: new Map(),
         metadata: {
           filesAnalyzed: 0,
           changedFiles: 0,
@@ -1221,6 +1294,8 @@ describe('suggestionEngine', () => {
       const suggestionResult = {
         transforms: new Map(),
         stopRules: new Map(),
+        skipPaths: new Map(),
+        filenames: new Map(),
         metadata: {
           filesAnalyzed: 0,
           changedFiles: 0,
@@ -1259,6 +1334,8 @@ describe('suggestionEngine', () => {
           ]
         ]),
         stopRules: new Map(),
+        skipPaths: new Map(),
+        filenames: new Map(),
         metadata: {
           filesAnalyzed: 2,
           changedFiles: 2,
@@ -1291,6 +1368,8 @@ describe('suggestionEngine', () => {
           ]
         ]),
         stopRules: new Map(),
+        skipPaths: new Map(),
+        filenames: new Map(),
         metadata: {
           filesAnalyzed: 1,
           changedFiles: 1,
@@ -1321,6 +1400,8 @@ describe('suggestionEngine', () => {
           ]
         ]),
         stopRules: new Map(),
+        skipPaths: new Map(),
+        filenames: new Map(),
         metadata: {
           filesAnalyzed: 2,
           changedFiles: 2,
@@ -1632,4 +1713,223 @@ describe('suggestionEngine', () => {
       expect(result.stopRules.get('**/*.yaml')?.length).toBe(0);
     });
   });
+
+  describe('skipPath suggestions', () => {
+    it('should suggest environment-specific values that differ in several files', () => {
+      const suggestions = analyzeSkipPaths([
+        createChangedFile('a.yaml', { replicaCount: 1 }, { replicaCount: 3 }),
+        createChangedFile('b.yaml', { replicaCount: 1 }, { replicaCount: 5 })
+      ]);
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toMatchObject({
+        path: 'replicaCount',
+        confidence: 0.7,
+        reason: 'Differs in 2 files with no matching transform',
+        affectedFiles: ['a.yaml', 'b.yaml']
+      });
+    });
+
+    it('should address keyed array items with filter syntax', () => {
+      const suggestions = analyzeSkipPaths([
+        createChangedFile(
+          'a.yaml',
+          { env: [{ name: 'DB_HOST', value: 'db-a.internal' }] },
+          { env: [{ name: 'DB_HOST', value: 'db-b.internal' }] }
+        )
+      ]);
+
+      expect(suggestions.map(({ path }) => path)).toEqual(['env[name=DB_HOST].value']);
+    });
+
+    it('should not suggest version bumps or values a transform explains', () => {
+      const suggestions = analyzeSkipPaths([
+        createChangedFile(
+          'a.yaml',
+          { version: '1.2.0', database: 'uat-db', replicas: 2 },
+          { version: '1.1.0', database: 'prod-db', replicas: 4 }
+        )
+      ]);
+
+      expect(suggestions.map(({ path }) => path)).toEqual(['replicas']);
+    });
+
+    it('should not suggest hostnames and URLs that a uat → prod pair derives', () => {
+      const suggestions = analyzeSkipPaths(
+        ['a', 'b', 'c'].map((name, index) =>
+          createChangedFile(
+            `${name}.yaml`,
+            { host: `app${index}.uat.example.com`, url: `https://uat.example.com/${index}`, replicas: 1 },
+            { host: `app${index}.prod.example.com`, url: `https://prod.example.com/${index}`, replicas: 3 }
+          )
+        )
+      );
+
+      expect(suggestions.map(({ path }) => path)).toEqual(['replicas']);
+    });
+
+    it('should still suggest values that an environment pair does not fully derive', () => {
+      const suggestions = analyzeSkipPaths([
+        createChangedFile('a.yaml', { host: 'db-1.uat.internal' }, { host: 'db-7.prod.internal' })
+      ]);
+
+      expect(suggestions.map(({ path }) => path)).toEqual(['host']);
+    });
+
+    it('should not suggest paths the config already skips', () => {
+      const config = { ...createMinimalConfig(), skipPath: { 'apps/*.yaml': ['replicaCount'] } };
+
+      const suggestions = analyzeSkipPaths(
+        [createChangedFile('a.yaml', { replicaCount: 1 }, { replicaCount: 3 })],
+        config
+      );
+
+      expect(suggestions).toEqual([]);
+    });
+
+    it('should list skipPath suggestions in the formatted output', () => {
+      const result = analyzeDifferencesForSuggestions(
+        {
+          addedFiles: [],
+          deletedFiles: [],
+          changedFiles: [createChangedFile('a.yaml', { replicaCount: 1 }, { replicaCount: 3 })],
+          unchangedFiles: []
+        },
+        createMinimalConfig()
+      );
+
+      const yaml = formatSuggestionsAsYaml(result);
+
+      expect(yaml).toContain(
+        "skipPath:\n  '**/*.yaml':\n    # Confidence: 40% | Differs in 1 file with no matching transform"
+      );
+      expect(yaml).toContain("    - 'replicaCount'");
+    });
+
+    it('should print examples from source to destination', () => {
+      const result = analyzeDifferencesForSuggestions(
+        {
+          addedFiles: [],
+          deletedFiles: [],
+          changedFiles: [createChangedFile('a.yaml', { replicaCount: 1 }, { replicaCount: 3 })],
+          unchangedFiles: []
+        },
+        createMinimalConfig()
+      );
+
+      expect(formatSuggestionsAsYaml(result)).toContain('    # Example: "1" → "3"');
+    });
+  });
+
+  describe('filename suggestions', () => {
+    it('should pair a renamed file with its destination counterpart', () => {
+      const suggestions = analyzeFilenames(
+        { addedFiles: [createAddedFile('envs/values-uat.yaml', VALUES)] },
+        new Map([['envs/values-prod.yaml', VALUES.replace('2', '4')]])
+      );
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0]).toMatchObject({
+        find: 'uat',
+        replace: 'prod',
+        literal: false,
+        pairs: [{ sourcePath: 'envs/values-uat.yaml', destinationPath: 'envs/values-prod.yaml', contentSimilarity: 1 }]
+      });
+    });
+
+    it('should keep separators in the rule when the bare word would rename other files', () => {
+      const suggestions = analyzeFilenames(
+        {
+          addedFiles: [
+            createAddedFile('envs/values-uat.yaml', VALUES),
+            createAddedFile('envs/api-uat.yaml', 'db: a\n')
+          ],
+          unchangedFiles: ['tools/uat-seed.yaml']
+        },
+        new Map([
+          ['envs/values-prod.yaml', VALUES],
+          ['envs/api-prod.yaml', 'db: b\n'],
+          ['tools/uat-seed.yaml', 'seed: true\n']
+        ])
+      );
+
+      expect(suggestions.map(({ find, replace, pairs }) => ({ find, replace, count: pairs.length }))).toEqual([
+        { find: String.raw`-uat\.`, replace: '-prod.', count: 2 }
+      ]);
+      expect(suggestions[0]!.confidence).toBe(0.95);
+    });
+
+    it('should fall back to a literal filenameFile entry when no rule renames only the pair', () => {
+      const suggestions = analyzeFilenames(
+        { addedFiles: [createAddedFile('envs/uat.yaml', VALUES)], unchangedFiles: ['other/uat.json'] },
+        new Map([
+          ['envs/prod.yaml', VALUES],
+          ['other/uat.json', '{}']
+        ])
+      );
+
+      expect(suggestions).toMatchObject([{ find: 'envs/uat.yaml', replace: 'envs/prod.yaml', literal: true }]);
+    });
+
+    it('should not pair files with different content', () => {
+      const suggestions = analyzeFilenames(
+        { addedFiles: [createAddedFile('envs/values-uat.yaml', VALUES)] },
+        new Map([['envs/values-prod.yaml', 'database:\n  host: db\n  port: 5432\n']])
+      );
+
+      expect(suggestions).toEqual([]);
+    });
+
+    it('should skip filename analysis without destination files', () => {
+      const result = analyzeDifferencesForSuggestions(
+        {
+          addedFiles: [createAddedFile('values-uat.yaml', VALUES)],
+          deletedFiles: ['values-prod.yaml'],
+          changedFiles: [],
+          unchangedFiles: []
+        },
+        createMinimalConfig()
+      );
+
+      expect(result.filenames.size).toBe(0);
+    });
+
+    it('should format filename rules and filenameFile entries', () => {
+      const pair = {
+        sourcePath: 'a-uat.yaml',
+        destinationPath: 'a-prod.yaml',
+        contentSimilarity: 1,
+        pathSimilarity: 0.7
+      };
+      const reason = 'Lines up 1 added file(s) with deleted file(s) of similar content';
+      const yaml = formatSuggestionsAsYaml({
+        transforms: new Map(),
+        stopRules: new Map(),
+        skipPaths: new Map(),
+        filenames: new Map([
+          [
+            '**/*',
+            [
+              { find: 'uat', replace: 'prod', literal: false, confidence: 0.88, reason, pairs: [pair] },
+              { find: 'b/uat.yaml', replace: 'b/prod.yaml', literal: true, confidence: 0.6, reason, pairs: [pair] }
+            ]
+          ]
+        ]),
+        metadata: { filesAnalyzed: 1, changedFiles: 0, timestamp: '2026-01-01T00:00:00.000Z' }
+      });
+
+      expect(yaml).toContain(
+        [
+          'transforms:',
+          "  '**/*':",
+          '    filename:',
+          `      # Confidence: 88% | ${reason}`,
+          '      # Example: "a-uat.yaml" → "a-prod.yaml"',
+          "      - find: 'uat'",
+          "        replace: 'prod'"
+        ].join('\n')
+      );
+      expect(yaml).toContain(`# Confidence: 60% | ${reason}\n# 'b/uat.yaml': 'b/prod.yaml'`);
+    });
+  });
 });
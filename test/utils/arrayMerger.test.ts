@@ -1,11 +1,19 @@
 import { describe, expect, it } from 'vitest';
 
+import type { ArrayMergeRule } from '../../src/config';
 import {
   type ApplicableFilter,
+  applyArrayMergeRules,
+  findArrayMergeRule,
   findMatchingTargetItem,
   getApplicableArrayFilters,
+  getArrayItemKey,
+  getArrayMergeRulesForFile,
+  isOrderedArrayPath,
   itemMatchesAnyFilter,
-  shouldPreserveItem
+  mergeArrayByRule,
+  shouldPreserveItem,
+  sortArraysByMergeKey
 } from '../../src/utils/arrayMerger';
 
 // Helper to create filter with full parameters (for itemMatchesAnyFilter and shouldPreserveItem tests)
@@ -24,6 +32,12 @@ const createPropertyFilter = (property: string): ApplicableFilter => ({
   remainingPath: []
 });
 
+// Shallow merge for mergeArrayByRule tests: source fields win, target-only fields are kept
+const mergeShallow = (sourceItem: unknown, targetItem: unknown): unknown => ({
+  ...(targetItem as object),
+  ...(sourceItem as object)
+});
+
 describe('utils/arrayMerger', () => {
   describe('getApplicableArrayFilters', () => {
     it('should return empty array when no skipPaths provided', () => {
@@ -345,4 +359,243 @@ describe('utils/arrayMerger', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('getArrayMergeRulesForFile', () => {
+    it('should return empty array when config is undefined', () => {
+      expect(getArrayMergeRulesForFile('values.yaml')).toEqual([]);
+    });
+
+    it('should collect rules from all matching globs', () => {
+      const result = getArrayMergeRulesForFile('apps/values.yaml', {
+        '**/*.yaml': [{ path: 'env', key: 'name', strategy: 'mergeByKey' }],
+        'apps/*': [{ path: 'volumes', strategy: 'union' }],
+        'other/*': [{ path: 'ports', strategy: 'union' }]
+      });
+
+      expect(result.map((rule) => rule.path)).toEqual(['env', 'volumes']);
+    });
+  });
+
+  describe('findArrayMergeRule', () => {
+    const rules: ArrayMergeRule[] = [
+      { path: 'spec.containers', key: 'name', strategy: 'mergeByKey' },
+      { path: 'spec.containers[*].env', key: 'name', strategy: 'keepDestinationExtras' },
+      { path: '*.ports', strategy: 'union' }
+    ];
+
+    it('should match exact key paths', () => {
+      expect(findArrayMergeRule(['spec', 'containers'], rules)).toBe(rules[0]);
+    });
+
+    it('should ignore [*] segments for arrays nested in array items', () => {
+      expect(findArrayMergeRule(['spec', 'containers', 'env'], rules)).toBe(rules[1]);
+    });
+
+    it('should support * as a key wildcard', () => {
+      expect(findArrayMergeRule(['service', 'ports'], rules)).toBe(rules[2]);
+    });
+
+    it('should accept a leading $', () => {
+      const rule: ArrayMergeRule = { path: '$.env', key: 'name', strategy: 'mergeByKey' };
+      expect(findArrayMergeRule(['env'], [rule])).toBe(rule);
+    });
+
+    it('should return undefined for prefixes and unrelated paths', () => {
+      expect(findArrayMergeRule(['spec'], rules)).toBeUndefined();
+      expect(findArrayMergeRule(['spec', 'volumes'], rules)).toBeUndefined();
+    });
+
+    it('should prefer the last matching rule', () => {
+      const override: ArrayMergeRule = { path: 'spec.containers', strategy: 'replace' };
+      expect(findArrayMergeRule(['spec', 'containers'], [...rules, override])).toBe(override);
+    });
+  });
+
+  describe('getArrayItemKey', () => {
+    it('should return the key value of object items', () => {
+      expect(getArrayItemKey({ name: 'app' }, 'name')).toBe('app');
+    });
+
+    it('should return undefined for scalars, missing keys and no key', () => {
+      expect(getArrayItemKey('app', 'name')).toBeUndefined();
+      expect(getArrayItemKey({ image: 'x' }, 'name')).toBeUndefined();
+      expect(getArrayItemKey({ name: 'app' })).toBeUndefined();
+    });
+  });
+
+  describe('mergeArrayByRule', () => {
+    const source = [
+      { name: 'app', image: 'app:2' },
+      { name: 'worker', image: 'worker:1' }
+    ];
+    const target = [
+      { name: 'sidecar', image: 'proxy:1' },
+      { name: 'app', image: 'app:1', debug: true }
+    ];
+
+    it('should return the source for replace', () => {
+      const result = mergeArrayByRule(source, target, { path: 'c', strategy: 'replace' }, mergeShallow);
+      expect(result).toBe(source);
+    });
+
+    it('should merge paired items, drop destination-only items and append new items for mergeByKey', () => {
+      const result = mergeArrayByRule(source, target, { path: 'c', key: 'name', strategy: 'mergeByKey' }, mergeShallow);
+
+      expect(result).toEqual([
+        { name: 'app', image: 'app:2', debug: true },
+        { name: 'worker', image: 'worker:1' }
+      ]);
+    });
+
+    it('should keep destination-only items for keepDestinationExtras', () => {
+      const result = mergeArrayByRule(
+        source,
+        target,
+        { path: 'c', key: 'name', strategy: 'keepDestinationExtras' },
+        mergeShallow
+      );
+
+      expect(result).toEqual([
+        { name: 'sidecar', image: 'proxy:1' },
+        { name: 'app', image: 'app:2', debug: true },
+        { name: 'worker', image: 'worker:1' }
+      ]);
+    });
+
+    it('should replace paired items wholesale for union', () => {
+      const result = mergeArrayByRule(source, target, { path: 'c', key: 'name', strategy: 'union' }, mergeShallow);
+
+      expect(result).toEqual([
+        { name: 'sidecar', image: 'proxy:1' },
+        { name: 'app', image: 'app:2' },
+        { name: 'worker', image: 'worker:1' }
+      ]);
+    });
+
+    it('should deduplicate by value for union without a key', () => {
+      const result = mergeArrayByRule(['a', 'b'], ['c', 'a'], { path: 'c', strategy: 'union' }, mergeShallow);
+      expect(result).toEqual(['c', 'a', 'b']);
+    });
+
+    it('should keep destination-only items accepted by keepTargetItem for mergeByKey', () => {
+      const result = mergeArrayByRule(
+        source,
+        target,
+        { path: 'c', key: 'name', strategy: 'mergeByKey' },
+        mergeShallow,
+        (item) => (item as { name: string }).name === 'sidecar'
+      );
+
+      expect(result.map((item) => (item as { name: string }).name)).toEqual(['sidecar', 'app', 'worker']);
+    });
+
+    it('should pair duplicate keys one by one', () => {
+      const result = mergeArrayByRule(
+        [{ name: 'a', v: 1 }],
+        [
+          { name: 'a', v: 0 },
+          { name: 'a', v: 9 }
+        ],
+        { path: 'c', key: 'name', strategy: 'mergeByKey' },
+        mergeShallow
+      );
+
+      expect(result).toEqual([{ name: 'a', v: 1 }]);
+    });
+  });
+
+  describe('applyArrayMergeRules', () => {
+    it('should return the source unchanged without rules', () => {
+      const source = { env: [{ name: 'A' }] };
+      expect(applyArrayMergeRules(source, { env: [{ name: 'B' }] }, [])).toBe(source);
+    });
+
+    it('should add kept destination items to nested arrays', () => {
+      const rules: ArrayMergeRule[] = [
+        { path: 'containers', key: 'name', strategy: 'mergeByKey' },
+        { path: 'containers[*].env', key: 'name', strategy: 'keepDestinationExtras' }
+      ];
+      const source = { containers: [{ name: 'app', env: [{ name: 'A', value: '2' }] }] };
+      const destination = {
+        containers: [
+          { name: 'app', env: [{ name: 'LOCAL', value: 'x' }] },
+          { name: 'sidecar', env: [] }
+        ]
+      };
+
+      expect(applyArrayMergeRules(source, destination, rules)).toEqual({
+        containers: [
+          {
+            name: 'app',
+            env: [
+              { name: 'LOCAL', value: 'x' },
+              { name: 'A', value: '2' }
+            ]
+          }
+        ]
+      });
+    });
+
+    it('should leave keys missing from the destination untouched', () => {
+      const rules: ArrayMergeRule[] = [{ path: 'env', key: 'name', strategy: 'keepDestinationExtras' }];
+      const source = { env: [{ name: 'A' }] };
+
+      expect(applyArrayMergeRules(source, {}, rules)).toEqual(source);
+    });
+  });
+
+  describe('sortArraysByMergeKey', () => {
+    it('should order keyed arrays by key and put items without a key last', () => {
+      const rules: ArrayMergeRule[] = [{ path: 'env', key: 'name', strategy: 'mergeByKey' }];
+      const value = { env: [{ value: 'none' }, { name: 'B' }, { name: 'A' }], other: [{ name: 'Z' }, { name: 'Y' }] };
+
+      expect(sortArraysByMergeKey(value, rules)).toEqual({
+        env: [{ name: 'A' }, { name: 'B' }, { value: 'none' }],
+        other: [{ name: 'Z' }, { name: 'Y' }]
+      });
+    });
+  });
+
+  describe('isOrderedArrayPath', () => {
+    it('should match ordered paths with [*] and * segments', () => {
+      expect(isOrderedArrayPath(['spec', 'containers', 'args'], ['spec.containers[*].args'])).toBe(true);
+      expect(isOrderedArrayPath(['web', 'command'], ['*.command'])).toBe(true);
+      expect(isOrderedArrayPath(['spec', 'containers'], ['spec.containers[*].args'])).toBe(false);
+    });
+  });
+
+  describe('ordered arrays', () => {
+    it('should follow source order and keep destination extras next to their predecessor', () => {
+      const result = mergeArrayByRule(
+        [{ name: 'b' }, { name: 'a' }],
+        [{ name: 'init' }, { name: 'a' }, { name: 'local' }, { name: 'b' }],
+        { path: 'c', key: 'name', strategy: 'keepDestinationExtras' },
+        mergeShallow,
+        undefined,
+        true
+      );
+
+      expect(result).toEqual([{ name: 'init' }, { name: 'b' }, { name: 'a' }, { name: 'local' }]);
+    });
+
+    it('should merge ordered nested arrays in source order', () => {
+      const rules: ArrayMergeRule[] = [{ path: 'initContainers', key: 'name', strategy: 'keepDestinationExtras' }];
+
+      expect(
+        applyArrayMergeRules(
+          { initContainers: [{ name: 'b' }, { name: 'a' }] },
+          { initContainers: [{ name: 'a' }, { name: 'b' }] },
+          rules,
+          ['initContainers']
+        )
+      ).toEqual({ initContainers: [{ name: 'b' }, { name: 'a' }] });
+    });
+
+    it('should not sort ordered keyed arrays by key', () => {
+      const rules: ArrayMergeRule[] = [{ path: 'initContainers', key: 'name', strategy: 'mergeByKey' }];
+      const value = { initContainers: [{ name: 'b' }, { name: 'a' }] };
+
+      expect(sortArraysByMergeKey(value, rules, ['initContainers'])).toEqual(value);
+    });
+  });
 });
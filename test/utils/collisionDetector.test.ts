@@ -5,7 +5,10 @@ import {
   CollisionDetectorError,
   detectCollisions,
   isCollisionDetectorError,
-  validateNoCollisions
+  isKeyCollisionError,
+  KeyCollisionError,
+  validateNoCollisions,
+  validateNoKeyCollisions
 } from '../../src/utils/collisionDetector';
 
 describe('collisionDetector', () => {
@@ -163,4 +166,28 @@ describe('collisionDetector', () => {
       expect(isCollisionDetectorError(error1)).toBe(false);
     });
   });
+
+  describe('validateNoKeyCollisions', () => {
+    it('should not throw when there are no collisions', () => {
+      expect(() => validateNoKeyCollisions([], 'values.yaml')).not.toThrow();
+    });
+
+    it('should throw KeyCollisionError listing the map, key and original keys', () => {
+      const collisions = [{ path: '$.databases', transformedKey: 'prod-db', originalKeys: ['uat-db', 'prod-db'] }];
+
+      try {
+        validateNoKeyCollisions(collisions, 'values.yaml');
+        expect.fail('Should have thrown error');
+      } catch (error) {
+        expect(isKeyCollisionError(error)).toBe(true);
+        expect(error).toBeInstanceOf(KeyCollisionError);
+        if (error instanceof KeyCollisionError) {
+          expect(error.code).toBe('DUPLICATE_TRANSFORMED_KEY');
+          expect(error.path).toBe('values.yaml');
+          expect(error.message).toContain('$.databases: prod-db <- [uat-db, prod-db]');
+          expect(error.message).toContain('Hint: Make your key transforms more specific');
+        }
+      }
+    });
+  });
 });
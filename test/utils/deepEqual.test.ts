@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { deepEqual } from '../../src/utils/deepEqual';
+import { deepEqual, deepEqualStructural } from '../../src/utils/deepEqual';
 
 describe('utils/deepEqual', () => {
   describe('deepEqual', () => {
@@ -199,4 +199,15 @@ describe('utils/deepEqual', () => {
       expect(deepEqual(object1, object2)).toBe(true);
     });
   });
+
+  describe('deepEqualStructural', () => {
+    it('should treat array order as significant', () => {
+      expect(deepEqualStructural(['a', 'b'], ['b', 'a'])).toBe(false);
+      expect(deepEqual(['a', 'b'], ['b', 'a'])).toBe(true);
+    });
+
+    it('should ignore object key order', () => {
+      expect(deepEqualStructural({ a: 1, b: [1, 2] }, { b: [1, 2], a: 1 })).toBe(true);
+    });
+  });
 });
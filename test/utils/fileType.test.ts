@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { isYamlFile } from '../../src/utils/fileType';
+import { isDotenvFile, isJsonFile, isPropertiesFile, isTomlFile, isYamlFile } from '../../src/utils/fileType';
 
 describe('utils/fileType', () => {
   describe('isYamlFile', () => {
@@ -64,4 +64,45 @@ describe('utils/fileType', () => {
       expect(isYamlFile('')).toBe(false);
     });
   });
+
+  describe('isJsonFile', () => {
+    it('should return true for .json extension in any case', () => {
+      expect(isJsonFile('config.json')).toBe(true);
+      expect(isJsonFile('path/to/values.JSON')).toBe(true);
+    });
+
+    it('should return false for other extensions', () => {
+      expect(isJsonFile('config.yaml')).toBe(false);
+      expect(isJsonFile('config.json.bak')).toBe(false);
+      expect(isJsonFile('config.jsonc')).toBe(false);
+    });
+  });
+
+  describe('isDotenvFile', () => {
+    it('should return true for .env files and variants', () => {
+      expect(isDotenvFile('.env')).toBe(true);
+      expect(isDotenvFile('apps/web/.env.production')).toBe(true);
+      expect(isDotenvFile('config/app.env')).toBe(true);
+    });
+
+    it('should leave files with another known extension to their format', () => {
+      expect(isDotenvFile('.env.json')).toBe(false);
+      expect(isDotenvFile('.env.yaml')).toBe(false);
+      expect(isDotenvFile('environment.txt')).toBe(false);
+    });
+  });
+
+  describe('isPropertiesFile', () => {
+    it('should match .properties files', () => {
+      expect(isPropertiesFile('src/main/resources/application.properties')).toBe(true);
+      expect(isPropertiesFile('application.yaml')).toBe(false);
+    });
+  });
+
+  describe('isTomlFile', () => {
+    it('should match .toml files', () => {
+      expect(isTomlFile('config/app.TOML')).toBe(true);
+      expect(isTomlFile('config/app.toml.bak')).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+
+import type { TransformConfig } from '../../src/config/configFile';
+import {
+  applyFunctionTransform,
+  describeFunctionTransform,
+  getFunctionTransformsForFile
+} from '../../src/utils/functionTransformer';
+
+describe('utils/functionTransformer', () => {
+  describe('getFunctionTransformsForFile', () => {
+    it('should return empty array when transforms is undefined', () => {
+      expect(getFunctionTransformsForFile('values.yaml')).toEqual([]);
+    });
+
+    it('should collect functions from all matching patterns in order', () => {
+      const transforms: TransformConfig = {
+        '**/*.yaml': { functions: [{ path: 'env', upper: true }] },
+        'apps/*.yaml': {
+          content: [{ find: 'uat', replace: 'prod' }],
+          functions: [{ path: 'tag', semverBump: 'patch' }]
+        },
+        '*.json': { functions: [{ path: 'other', lower: true }] }
+      };
+
+      expect(getFunctionTransformsForFile('apps/values.yaml', transforms)).toEqual([
+        { path: 'env', upper: true },
+        { path: 'tag', semverBump: 'patch' }
+      ]);
+    });
+  });
+
+  describe('applyFunctionTransform', () => {
+    it('should encode and decode base64', () => {
+      expect(applyFunctionTransform('prod-password', { path: 'a', base64Encode: true })).toBe('cHJvZC1wYXNzd29yZA==');
+      expect(applyFunctionTransform('cHJvZC1wYXNzd29yZA==', { path: 'a', base64Decode: true })).toBe('prod-password');
+    });
+
+    it('should leave invalid base64 unchanged when decoding', () => {
+      expect(applyFunctionTransform('not base64!', { path: 'a', base64Decode: true })).toBe('not base64!');
+    });
+
+    it('should change case', () => {
+      expect(applyFunctionTransform('Prod', { path: 'a', upper: true })).toBe('PROD');
+      expect(applyFunctionTransform('Prod', { path: 'a', lower: true })).toBe('prod');
+    });
+
+    it('should bump semver parts and reset lower parts', () => {
+      expect(applyFunctionTransform('1.2.3', { path: 'a', semverBump: 'patch' })).toBe('1.2.4');
+      expect(applyFunctionTransform('1.2.3', { path: 'a', semverBump: 'minor' })).toBe('1.3.0');
+      expect(applyFunctionTransform('v1.2.3', { path: 'a', semverBump: 'major' })).toBe('v2.0.0');
+    });
+
+    it('should drop pre-release and build metadata when bumping', () => {
+      expect(applyFunctionTransform('1.2.3-rc.1+build.5', { path: 'a', semverBump: 'patch' })).toBe('1.2.4');
+    });
+
+    it('should leave non-semver values unchanged when bumping', () => {
+      for (const value of ['latest', '1.2', 'app-1.2.3'])
+        expect(applyFunctionTransform(value, { path: 'a', semverBump: 'patch' })).toBe(value);
+    });
+
+    it('should add prefixes and suffixes', () => {
+      expect(applyFunctionTransform('web', { path: 'a', prefix: 'prod-' })).toBe('prod-web');
+      expect(applyFunctionTransform('bucket', { path: 'a', suffix: '-prod' })).toBe('bucket-prod');
+    });
+  });
+
+  describe('describeFunctionTransform', () => {
+    it('should describe every function with its path', () => {
+      expect(describeFunctionTransform({ path: 'a', base64Encode: true })).toBe('base64Encode a');
+      expect(describeFunctionTransform({ path: 'a', base64Decode: true })).toBe('base64Decode a');
+      expect(describeFunctionTransform({ path: 'a', upper: true })).toBe('upper a');
+      expect(describeFunctionTransform({ path: 'a', lower: true })).toBe('lower a');
+      expect(describeFunctionTransform({ path: 'a', semverBump: 'minor' })).toBe('semverBump minor a');
+      expect(describeFunctionTransform({ path: 'a', prefix: 'x-' })).toBe("prefix 'x-' a");
+      expect(describeFunctionTransform({ path: 'a', suffix: '-x' })).toBe("suffix '-x' a");
+    });
+  });
+});
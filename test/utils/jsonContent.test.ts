@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import { detectJsonIndent, parseJsonContent, stringifyJson } from '../../src/utils/jsonContent';
+
+describe('utils/jsonContent', () => {
+  describe('parseJsonContent', () => {
+    it('should parse JSON content', () => {
+      expect(parseJsonContent('{"a": [1, "b"]}')).toEqual({ a: [1, 'b'] });
+    });
+
+    it('should parse empty content as null', () => {
+      expect(parseJsonContent('')).toBeNull();
+      expect(parseJsonContent('  \n')).toBeNull();
+    });
+
+    it('should throw on invalid JSON', () => {
+      expect(() => parseJsonContent('{"a": 1,}')).toThrow(SyntaxError);
+    });
+  });
+
+  describe('detectJsonIndent', () => {
+    it('should detect space indentation', () => {
+      expect(detectJsonIndent('{\n    "a": 1\n}\n')).toBe(4);
+      expect(detectJsonIndent('{\n  "a": {\n    "b": 1\n  }\n}\n')).toBe(2);
+    });
+
+    it('should detect tab indentation', () => {
+      expect(detectJsonIndent('{\n\t"a": 1\n}\n')).toBe('\t');
+    });
+
+    it('should return 0 for single-line content', () => {
+      expect(detectJsonIndent('{"a":1}')).toBe(0);
+      expect(detectJsonIndent('{"a":1}\n')).toBe(0);
+    });
+
+    it('should fall back to the default indent when no line is indented', () => {
+      expect(detectJsonIndent('')).toBe(2);
+      expect(detectJsonIndent('{\n"a": 1\n}')).toBe(2);
+    });
+  });
+
+  describe('stringifyJson', () => {
+    it('should use 2-space indentation and a trailing newline by default', () => {
+      expect(stringifyJson({ a: 1 })).toBe('{\n  "a": 1\n}\n');
+    });
+
+    it('should honor the given indent', () => {
+      expect(stringifyJson({ a: 1 }, '\t')).toBe('{\n\t"a": 1\n}\n');
+      expect(stringifyJson({ a: 1 }, 0)).toBe('{"a":1}\n');
+    });
+  });
+});
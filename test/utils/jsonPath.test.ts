@@ -3,7 +3,9 @@ import { describe, expect, it } from 'vitest';
 import {
   getValueAtPath,
   isFilterSegment,
+  matchesArrayPath,
   matchesFilter,
+  parseArrayPath,
   parseFilterSegment,
   parseJsonPath
 } from '../../src/utils/jsonPath';
@@ -685,4 +687,29 @@ describe('utils/jsonPath', () => {
       });
     });
   });
+
+  describe('parseArrayPath', () => {
+    it('should drop [*] segments and a leading $', () => {
+      expect(parseArrayPath('$.spec.containers[*].args')).toEqual(['spec', 'containers', 'args']);
+    });
+
+    it('should keep * key wildcards', () => {
+      expect(parseArrayPath('*.ports')).toEqual(['*', 'ports']);
+    });
+  });
+
+  describe('matchesArrayPath', () => {
+    it('should match equal key paths', () => {
+      expect(matchesArrayPath(['spec', 'args'], ['spec', 'args'])).toBe(true);
+    });
+
+    it('should treat * as any single key', () => {
+      expect(matchesArrayPath(['web', 'ports'], ['*', 'ports'])).toBe(true);
+    });
+
+    it('should not match prefixes or longer paths', () => {
+      expect(matchesArrayPath(['spec'], ['spec', 'args'])).toBe(false);
+      expect(matchesArrayPath(['spec', 'args', 'x'], ['spec', 'args'])).toBe(false);
+    });
+  });
 });
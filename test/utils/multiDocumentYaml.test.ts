@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import YAML from 'yaml';
+
+import {
+  getDocumentIdentity,
+  joinYamlDocuments,
+  mapYamlDocuments,
+  matchYamlDocuments,
+  parseYamlDocuments
+} from '../../src/utils/multiDocumentYaml';
+
+const resource = (kind: string, name: string, extra: Record<string, unknown> = {}) => ({
+  apiVersion: 'v1',
+  kind,
+  metadata: { name },
+  ...extra
+});
+
+describe('utils/multiDocumentYaml', () => {
+  describe('parseYamlDocuments', () => {
+    it('should return a single value for single-document content', () => {
+      expect(parseYamlDocuments('a: 1\n')).toEqual([{ a: 1 }]);
+    });
+
+    it('should treat a leading document marker as a single document', () => {
+      expect(parseYamlDocuments('---\na: 1\n')).toEqual([{ a: 1 }]);
+    });
+
+    it('should parse empty content like YAML.parse', () => {
+      expect(parseYamlDocuments('')).toEqual([YAML.parse('')]);
+    });
+
+    it('should split documents separated by ---', () => {
+      expect(parseYamlDocuments('a: 1\n---\nb: 2\n---\nc: 3\n')).toEqual([{ a: 1 }, { b: 2 }, { c: 3 }]);
+    });
+
+    it('should keep empty documents as null', () => {
+      // eslint-disable-next-line unicorn/no-null -- YAML represents empty documents as null
+      expect(parseYamlDocuments('a: 1\n---\n')).toEqual([{ a: 1 }, null]);
+    });
+
+    it('should not split on --- inside block scalars', () => {
+      expect(parseYamlDocuments('text: |\n  ---\n  body\n')).toEqual([{ text: '---\nbody\n' }]);
+    });
+
+    it('should throw the first parse error of any document', () => {
+      expect(() => parseYamlDocuments('a: 1\n---\nb: [\n')).toThrow();
+    });
+  });
+
+  describe('getDocumentIdentity', () => {
+    it('should build apiVersion/kind/name', () => {
+      expect(getDocumentIdentity({ apiVersion: 'apps/v1', kind: 'Deployment', metadata: { name: 'web' } })).toBe(
+        'apps/v1/Deployment/web'
+      );
+    });
+
+    it('should return undefined when any identity field is missing', () => {
+      expect(getDocumentIdentity({ kind: 'Deployment', metadata: { name: 'web' } })).toBeUndefined();
+      expect(getDocumentIdentity({ apiVersion: 'v1', kind: 'Service' })).toBeUndefined();
+      expect(getDocumentIdentity('plain')).toBeUndefined();
+      // eslint-disable-next-line unicorn/no-null -- empty YAML documents parse to null
+      expect(getDocumentIdentity(null)).toBeUndefined();
+    });
+  });
+
+  describe('matchYamlDocuments', () => {
+    it('should match documents by identity regardless of order', () => {
+      const pairs = matchYamlDocuments(
+        [resource('Service', 'web'), resource('ConfigMap', 'web')],
+        [resource('ConfigMap', 'web'), resource('Service', 'web')]
+      );
+
+      expect(pairs).toEqual([
+        { label: 'v1/Service/web', sourceIndex: 0, destinationIndex: 1 },
+        { label: 'v1/ConfigMap/web', sourceIndex: 1, destinationIndex: 0 }
+      ]);
+    });
+
+    it('should fall back to position for documents without identity', () => {
+      const pairs = matchYamlDocuments([{ a: 1 }, { b: 1 }], [{ a: 2 }, { b: 2 }]);
+
+      expect(pairs).toEqual([
+        { label: 'document 1', sourceIndex: 0, destinationIndex: 0 },
+        { label: 'document 2', sourceIndex: 1, destinationIndex: 1 }
+      ]);
+    });
+
+    it('should not pair documents with different identities by position', () => {
+      const pairs = matchYamlDocuments([resource('Service', 'new')], [resource('Service', 'old')]);
+
+      expect(pairs).toEqual([
+        { label: 'v1/Service/new', sourceIndex: 0, destinationIndex: undefined },
+        { label: 'v1/Service/old', destinationIndex: 0 }
+      ]);
+    });
+
+    it('should pair a document that gained an identity with a positional counterpart', () => {
+      const pairs = matchYamlDocuments([resource('Service', 'web')], [{ kind: 'Service' }]);
+
+      expect(pairs).toEqual([{ label: 'v1/Service/web', sourceIndex: 0, destinationIndex: 0 }]);
+    });
+
+    it('should pair duplicate identities in order', () => {
+      const pairs = matchYamlDocuments(
+        [resource('Service', 'web', { n: 1 }), resource('Service', 'web', { n: 2 })],
+        [resource('Service', 'web', { n: 3 }), resource('Service', 'web', { n: 4 })]
+      );
+
+      expect(pairs.map((pair) => [pair.sourceIndex, pair.destinationIndex])).toEqual([
+        [0, 0],
+        [1, 1]
+      ]);
+    });
+
+    it('should append destination-only documents after source documents', () => {
+      const pairs = matchYamlDocuments(
+        [resource('Service', 'web')],
+        [resource('Secret', 'old'), resource('Service', 'web')]
+      );
+
+      expect(pairs).toEqual([
+        { label: 'v1/Service/web', sourceIndex: 0, destinationIndex: 1 },
+        { label: 'v1/Secret/old', destinationIndex: 0 }
+      ]);
+    });
+  });
+
+  describe('joinYamlDocuments', () => {
+    it('should insert separators between documents', () => {
+      expect(joinYamlDocuments(['a: 1\n', 'b: 2\n'])).toBe('a: 1\n---\nb: 2\n');
+    });
+
+    it('should not duplicate existing separators', () => {
+      expect(joinYamlDocuments(['a: 1\n', '---\nb: 2\n'])).toBe('a: 1\n---\nb: 2\n');
+    });
+
+    it('should add missing trailing newlines', () => {
+      expect(joinYamlDocuments(['a: 1', 'b: 2'])).toBe('a: 1\n---\nb: 2\n');
+    });
+
+    it('should keep empty documents as a bare separator', () => {
+      const joined = joinYamlDocuments(['a: 1\n', '']);
+
+      expect(joined).toBe('a: 1\n---\n');
+      // eslint-disable-next-line unicorn/no-null -- YAML represents empty documents as null
+      expect(parseYamlDocuments(joined)).toEqual([{ a: 1 }, null]);
+    });
+  });
+
+  describe('mapYamlDocuments', () => {
+    it('should behave like YAML.stringify for single documents', () => {
+      expect(mapYamlDocuments('a: 1\n', (value) => ({ ...(value as object), b: 2 }))).toBe(
+        YAML.stringify({ a: 1, b: 2 })
+      );
+    });
+
+    it('should map every document of a stream', () => {
+      const result = mapYamlDocuments('a: 1\n---\na: 2\n', (value) => ({ a: (value as { a: number }).a * 10 }));
+
+      expect(result).toBe('a: 10\n---\na: 20\n');
+    });
+  });
+});
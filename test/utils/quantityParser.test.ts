@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+
+import { formatQuantity, getQuantitySuffix, parseQuantity } from '../../src/utils/quantityParser';
+
+describe('utils/quantityParser', () => {
+  describe('parseQuantity', () => {
+    it('returns finite numbers unchanged', () => {
+      expect(parseQuantity(3)).toBe(3);
+      expect(parseQuantity(0.25)).toBe(0.25);
+      expect(parseQuantity(Number.NaN)).toBeUndefined();
+      expect(parseQuantity(Number.POSITIVE_INFINITY)).toBeUndefined();
+    });
+
+    it('parses plain numeric strings', () => {
+      expect(parseQuantity('12')).toBe(12);
+      expect(parseQuantity('0.5')).toBe(0.5);
+      expect(parseQuantity('.5')).toBe(0.5);
+      expect(parseQuantity('-2')).toBe(-2);
+      expect(parseQuantity(' 4 ')).toBe(4);
+    });
+
+    it('parses binary suffixes', () => {
+      expect(parseQuantity('1Ki')).toBe(1024);
+      expect(parseQuantity('512Mi')).toBe(512 * 1024 ** 2);
+      expect(parseQuantity('2Gi')).toBe(2 * 1024 ** 3);
+      expect(parseQuantity('1.5Gi')).toBe(1.5 * 1024 ** 3);
+      expect(parseQuantity('1Ti')).toBe(1024 ** 4);
+    });
+
+    it('parses decimal suffixes', () => {
+      expect(parseQuantity('500m')).toBe(0.5);
+      expect(parseQuantity('250m')).toBe(0.25);
+      expect(parseQuantity('1k')).toBe(1000);
+      expect(parseQuantity('128M')).toBe(128_000_000);
+      expect(parseQuantity('1G')).toBe(1e9);
+    });
+
+    it('parses exponent notation', () => {
+      expect(parseQuantity('1e3')).toBe(1000);
+      expect(parseQuantity('12E-1')).toBeCloseTo(1.2);
+    });
+
+    it('rejects values that are not quantities', () => {
+      expect(parseQuantity('large')).toBeUndefined();
+      expect(parseQuantity('')).toBeUndefined();
+      expect(parseQuantity('1KB')).toBeUndefined();
+      expect(parseQuantity('1K')).toBeUndefined();
+      expect(parseQuantity('Mi')).toBeUndefined();
+      expect(parseQuantity(true)).toBeUndefined();
+      expect(parseQuantity()).toBeUndefined();
+      expect(parseQuantity({ value: 1 })).toBeUndefined();
+    });
+  });
+
+  describe('getQuantitySuffix', () => {
+    it('returns the unit of quantity strings', () => {
+      expect(getQuantitySuffix('512Mi')).toBe('Mi');
+      expect(getQuantitySuffix('500m')).toBe('m');
+      expect(getQuantitySuffix('1E')).toBe('E');
+    });
+
+    it('returns undefined for plain numbers and non-quantities', () => {
+      expect(getQuantitySuffix('2')).toBeUndefined();
+      expect(getQuantitySuffix('1e3')).toBeUndefined();
+      expect(getQuantitySuffix(2)).toBeUndefined();
+      expect(getQuantitySuffix('large')).toBeUndefined();
+    });
+  });
+
+  describe('formatQuantity', () => {
+    it('formats base units in the given unit', () => {
+      expect(formatQuantity(256 * 1024 ** 2, 'Mi')).toBe('256Mi');
+      expect(formatQuantity(0.25, 'm')).toBe('250m');
+      expect(formatQuantity(0.5 * 1024 ** 3, 'Gi')).toBe('0.5Gi');
+    });
+
+    it('formats plain numbers without a unit', () => {
+      expect(formatQuantity(3)).toBe('3');
+    });
+  });
+});
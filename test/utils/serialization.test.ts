@@ -1,8 +1,20 @@
 import { describe, expect, it } from 'vitest';
 
-import { normalizeForComparison, serializeForDiff } from '../../src/utils/serialization';
+import { normalizeForComparison, serializeForDiff, serializeJsonForDiff } from '../../src/utils/serialization';
 
 describe('utils/serialization', () => {
+  describe('serializeJsonForDiff', () => {
+    it('should serialize with sorted keys, 2-space indent and a trailing newline', () => {
+      expect(serializeJsonForDiff({ b: 1, a: { d: true, c: [1, 2] } })).toBe(
+        '{\n  "a": {\n    "c": [\n      1,\n      2\n    ],\n    "d": true\n  },\n  "b": 1\n}\n'
+      );
+    });
+
+    it('should serialize undefined content as an empty string', () => {
+      expect(serializeJsonForDiff()).toBe('');
+    });
+  });
+
   describe('serializeForDiff', () => {
     it('should return string conversion for non-YAML file', () => {
       expect(serializeForDiff('plain text', false)).toBe('plain text');
@@ -195,4 +207,33 @@ describe('utils/serialization', () => {
       expect(result).toHaveLength(3);
     });
   });
+
+  describe('normalizeForComparison with ordered paths', () => {
+    const value = {
+      containers: [
+        { name: 'b', args: ['--z', '--a'] },
+        { name: 'a', args: ['--y', '--b'] }
+      ],
+      hosts: ['b', 'a']
+    };
+
+    it('should keep arrays at ordered paths in order and sort the rest', () => {
+      expect(normalizeForComparison(value, ['containers[*].args'])).toEqual({
+        containers: [
+          { args: ['--y', '--b'], name: 'a' },
+          { args: ['--z', '--a'], name: 'b' }
+        ],
+        hosts: ['a', 'b']
+      });
+    });
+
+    it('should keep top-level ordered arrays in order', () => {
+      const result = normalizeForComparison(value, ['hosts']) as { hosts: string[] };
+      expect(result.hosts).toEqual(['b', 'a']);
+    });
+
+    it('should behave like the default without ordered paths', () => {
+      expect(normalizeForComparison(value, [])).toEqual(normalizeForComparison(value));
+    });
+  });
 });
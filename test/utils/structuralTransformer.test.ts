@@ -0,0 +1,174 @@
+import { describe, expect, it } from 'vitest';
+
+import type { StructuralTransform, TransformConfig } from '../../src/config/configFile';
+import {
+  applyStructuralTransforms,
+  describeStructuralTransform,
+  getStructuralTransformsForFile
+} from '../../src/utils/structuralTransformer';
+
+describe('utils/structuralTransformer', () => {
+  describe('getStructuralTransformsForFile', () => {
+    it('should return empty array when transforms is undefined', () => {
+      expect(getStructuralTransformsForFile('values.yaml')).toEqual([]);
+    });
+
+    it('should collect operations from all matching patterns in order', () => {
+      const transforms: TransformConfig = {
+        '**/*.yaml': { structural: [{ delete: 'debug' }] },
+        'apps/*.yaml': { content: [{ find: 'uat', replace: 'prod' }], structural: [{ delete: 'trace' }] },
+        '*.json': { structural: [{ delete: 'other' }] }
+      };
+
+      expect(getStructuralTransformsForFile('apps/values.yaml', transforms)).toEqual([
+        { delete: 'debug' },
+        { delete: 'trace' }
+      ]);
+    });
+  });
+
+  describe('applyStructuralTransforms', () => {
+    describe('move', () => {
+      it('should move a value to a new path', () => {
+        const data = { ingress: { enabled: true, hosts: ['a.example.com'] } };
+
+        const result = applyStructuralTransforms(data, [{ move: { from: 'ingress.hosts', to: 'ingress.rules' } }]);
+
+        expect(result).toEqual({ ingress: { enabled: true, rules: ['a.example.com'] } });
+      });
+
+      it('should create missing parent objects', () => {
+        const result = applyStructuralTransforms({ image: 'app:1' }, [
+          { move: { from: 'image', to: 'spec.container.image' } }
+        ]);
+
+        expect(result).toEqual({ spec: { container: { image: 'app:1' } } });
+      });
+
+      it('should move values selected by a filter', () => {
+        const data = { env: [{ name: 'A', value: '1' }] };
+
+        const result = applyStructuralTransforms(data, [{ move: { from: 'env[name=A].value', to: 'defaults.a' } }]);
+
+        expect(result).toEqual({ env: [{ name: 'A' }], defaults: { a: '1' } });
+      });
+
+      it('should leave the value in place when a scalar blocks the target path', () => {
+        const data = { a: 1, b: 'scalar' };
+
+        expect(applyStructuralTransforms(data, [{ move: { from: 'a', to: 'b.c' } }])).toEqual(data);
+      });
+
+      it('should skip missing source paths', () => {
+        expect(applyStructuralTransforms({ a: 1 }, [{ move: { from: 'missing', to: 'b' } }])).toEqual({ a: 1 });
+      });
+
+      it('should not move values onto prototypes', () => {
+        for (const to of ['__proto__.polluted', 'constructor.prototype.polluted', '__proto__'])
+          expect(applyStructuralTransforms({ a: 'x' }, [{ move: { from: 'a', to } }])).toEqual({ a: 'x' });
+
+        expect(({} as Record<string, unknown>)['polluted']).toBeUndefined();
+      });
+    });
+
+    describe('renameKey', () => {
+      it('should rename a key and keep its position', () => {
+        const data = { ingress: { hosts: ['a'], tls: true } };
+
+        const result = applyStructuralTransforms(data, [{ renameKey: { path: 'ingress.hosts', to: 'rules' } }]);
+
+        expect(Object.keys((result as typeof data).ingress)).toEqual(['rules', 'tls']);
+        expect(result).toEqual({ ingress: { rules: ['a'], tls: true } });
+      });
+
+      it('should rename the key in every array item matched by a wildcard', () => {
+        const data = {
+          containers: [
+            { name: 'a', img: 'a:1' },
+            { name: 'b', img: 'b:1' }
+          ]
+        };
+
+        const result = applyStructuralTransforms(data, [{ renameKey: { path: 'containers[*].img', to: 'image' } }]);
+
+        expect(result).toEqual({
+          containers: [
+            { name: 'a', image: 'a:1' },
+            { name: 'b', image: 'b:1' }
+          ]
+        });
+      });
+
+      it('should not rename keys to prototype keys', () => {
+        const result = applyStructuralTransforms({ a: { polluted: 'x' } }, [
+          { renameKey: { path: 'a', to: '__proto__' } }
+        ]) as Record<string, unknown>;
+
+        expect(Object.keys(result)).toEqual(['a']);
+        expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+        expect(({} as Record<string, unknown>)['polluted']).toBeUndefined();
+      });
+    });
+
+    describe('delete', () => {
+      it('should delete a key', () => {
+        expect(applyStructuralTransforms({ debug: true, replicas: 2 }, [{ delete: '$.debug' }])).toEqual({
+          replicas: 2
+        });
+      });
+
+      it('should delete every array item matched by a filter', () => {
+        const data = { env: [{ name: 'DEBUG_A' }, { name: 'LOG' }, { name: 'DEBUG_B' }] };
+
+        expect(applyStructuralTransforms(data, [{ delete: 'env[name^=DEBUG_]' }])).toEqual({ env: [{ name: 'LOG' }] });
+      });
+    });
+
+    describe('wrap', () => {
+      it('should nest a value under a key', () => {
+        const data = { resources: { cpu: '100m' } };
+
+        expect(applyStructuralTransforms(data, [{ wrap: { path: 'resources', key: 'limits' } }])).toEqual({
+          resources: { limits: { cpu: '100m' } }
+        });
+      });
+
+      it('should not wrap values under prototype keys', () => {
+        const data = { resources: { cpu: '100m' } };
+
+        for (const key of ['__proto__', 'constructor', 'prototype'])
+          expect(applyStructuralTransforms(data, [{ wrap: { path: 'resources', key } }])).toEqual(data);
+      });
+    });
+
+    it('should apply operations in order', () => {
+      const operations: StructuralTransform[] = [
+        { renameKey: { path: 'hosts', to: 'rules' } },
+        { wrap: { path: 'rules', key: 'items' } }
+      ];
+
+      expect(applyStructuralTransforms({ hosts: ['a'] }, operations)).toEqual({ rules: { items: ['a'] } });
+    });
+
+    it('should not modify the input', () => {
+      const data = { debug: true };
+
+      applyStructuralTransforms(data, [{ delete: 'debug' }]);
+
+      expect(data).toEqual({ debug: true });
+    });
+
+    it('should return scalars unchanged', () => {
+      expect(applyStructuralTransforms('text', [{ delete: 'debug' }])).toBe('text');
+    });
+  });
+
+  describe('describeStructuralTransform', () => {
+    it('should describe each operation', () => {
+      expect(describeStructuralTransform({ move: { from: 'a', to: 'b' } })).toBe('move a → b');
+      expect(describeStructuralTransform({ renameKey: { path: 'a.b', to: 'c' } })).toBe('renameKey a.b → c');
+      expect(describeStructuralTransform({ delete: 'a' })).toBe('delete a');
+      expect(describeStructuralTransform({ wrap: { path: 'a', key: 'b' } })).toBe('wrap a in b');
+    });
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, expect, it } from 'vitest';
 
 import type { TransformConfig } from '../../src/config/configFile';
-import { applyTransforms, getTransformsForFile } from '../../src/utils/transformer';
+import { isKeyCollisionError } from '../../src/utils/collisionDetector';
+import { applyTransforms, getKeyTransformsForFile, getTransformsForFile } from '../../src/utils/transformer';
 
 describe('utils/transformer', () => {
   describe('applyTransforms', () => {
@@ -78,6 +79,230 @@ describe('utils/transformer', () => {
       });
     });
 
+    describe('structural transforms', () => {
+      it('should apply structural operations before content rules', () => {
+        const data = { ingress: { hosts: ['uat.example.com'] } };
+        const transforms: TransformConfig = {
+          'test.yaml': {
+            content: [{ find: String.raw`^uat\.`, replace: 'prod.' }],
+            structural: [{ renameKey: { path: 'ingress.hosts', to: 'rules' } }]
+          }
+        };
+
+        const result = applyTransforms(data, 'test.yaml', transforms);
+
+        expect(result).toEqual({ ingress: { rules: ['prod.example.com'] } });
+      });
+
+      it('should apply structural operations without content rules', () => {
+        const transforms: TransformConfig = { '*.yaml': { structural: [{ delete: 'debug' }] } };
+
+        expect(applyTransforms({ debug: true, name: 'app' }, 'test.yaml', transforms)).toEqual({ name: 'app' });
+      });
+    });
+
+    describe('path-scoped rules', () => {
+      const data = {
+        image: 'registry/uat-app:1',
+        description: 'copied from uat',
+        ingress: { host: 'uat.example.com', annotations: { note: 'uat' } },
+        env: [
+          { name: 'DB_HOST', value: 'uat-db' },
+          { name: 'LABEL', value: 'uat' }
+        ]
+      };
+
+      it('should only transform values under paths', () => {
+        const transforms: TransformConfig = {
+          '*.yaml': { content: [{ find: 'uat', replace: 'prod', paths: ['ingress', 'env[name=DB_HOST]'] }] }
+        };
+
+        expect(applyTransforms(data, 'test.yaml', transforms)).toEqual({
+          image: 'registry/uat-app:1',
+          description: 'copied from uat',
+          ingress: { host: 'prod.example.com', annotations: { note: 'prod' } },
+          env: [
+            { name: 'DB_HOST', value: 'prod-db' },
+            { name: 'LABEL', value: 'uat' }
+          ]
+        });
+      });
+
+      it('should skip values under excludePaths', () => {
+        const transforms: TransformConfig = {
+          '*.yaml': {
+            content: [{ find: 'uat', replace: 'prod', excludePaths: ['$.image', 'description', 'env[*].value'] }]
+          }
+        };
+
+        expect(applyTransforms(data, 'test.yaml', transforms)).toEqual({
+          image: 'registry/uat-app:1',
+          description: 'copied from uat',
+          ingress: { host: 'prod.example.com', annotations: { note: 'prod' } },
+          env: data.env
+        });
+      });
+
+      it('should combine paths and excludePaths', () => {
+        const transforms: TransformConfig = {
+          '*.yaml': {
+            content: [{ find: 'uat', replace: 'prod', paths: ['ingress'], excludePaths: ['ingress.annotations'] }]
+          }
+        };
+
+        const result = applyTransforms(data, 'test.yaml', transforms) as typeof data;
+
+        expect(result.ingress).toEqual({ host: 'prod.example.com', annotations: { note: 'uat' } });
+        expect(result.image).toBe('registry/uat-app:1');
+      });
+
+      it('should keep unscoped rules applying everywhere and preserve rule order', () => {
+        const transforms: TransformConfig = {
+          '*.yaml': {
+            content: [
+              { find: 'uat', replace: 'stg', paths: ['ingress.host'] },
+              { find: 'uat|stg', replace: 'prod' }
+            ]
+          }
+        };
+
+        const result = applyTransforms(data, 'test.yaml', transforms) as typeof data;
+
+        expect(result.ingress.host).toBe('prod.example.com');
+        expect(result.description).toBe('copied from prod');
+      });
+    });
+
+    describe('function transforms', () => {
+      it('should apply functions to string values under their path after content rules', () => {
+        const transforms: TransformConfig = {
+          '*.yaml': {
+            content: [{ find: 'uat', replace: 'prod' }],
+            functions: [
+              { path: 'env[name=ENV].value', upper: true },
+              { path: 'image.tag', semverBump: 'minor' },
+              { path: 'hosts', suffix: '.internal' }
+            ]
+          }
+        };
+        const data = {
+          env: [
+            { name: 'ENV', value: 'uat' },
+            { name: 'OTHER', value: 'uat' }
+          ],
+          image: { tag: 'v1.4.2' },
+          hosts: ['uat-a', 'uat-b'],
+          replicas: 3
+        };
+
+        expect(applyTransforms(data, 'test.yaml', transforms)).toEqual({
+          env: [
+            { name: 'ENV', value: 'PROD' },
+            { name: 'OTHER', value: 'prod' }
+          ],
+          image: { tag: 'v1.5.0' },
+          hosts: ['prod-a.internal', 'prod-b.internal'],
+          replicas: 3
+        });
+      });
+
+      it('should compose functions in config order', () => {
+        const transforms: TransformConfig = {
+          '*.yaml': {
+            functions: [
+              { path: 'name', prefix: 'prod-' },
+              { path: 'name', upper: true }
+            ]
+          }
+        };
+
+        expect(applyTransforms({ name: 'web' }, 'test.yaml', transforms)).toEqual({ name: 'PROD-WEB' });
+      });
+    });
+
+    describe('key transforms', () => {
+      it('should rename keys at every depth and keep order and values', () => {
+        const transforms: TransformConfig = {
+          '*.yaml': { keys: [{ find: '^uat-', replace: 'prod-' }] }
+        };
+        const data = { 'uat-db': { host: 'uat-db' }, list: [{ 'uat-cache': true }], other: 1 };
+
+        const result = applyTransforms(data, 'test.yaml', transforms) as Record<string, unknown>;
+
+        expect(result).toEqual({ 'prod-db': { host: 'uat-db' }, list: [{ 'prod-cache': true }], other: 1 });
+        expect(Object.keys(result)).toEqual(['prod-db', 'list', 'other']);
+      });
+
+      it('should combine key and content transforms', () => {
+        const transforms: TransformConfig = {
+          '*.yaml': {
+            keys: [{ find: String.raw`\.uat\.`, replace: '.prod.' }],
+            content: [{ find: 'uat', replace: 'prod' }]
+          }
+        };
+
+        expect(applyTransforms({ hosts: { 'api.uat.example.com': 'uat' } }, 'test.yaml', transforms)).toEqual({
+          hosts: { 'api.prod.example.com': 'prod' }
+        });
+      });
+
+      it('should scope key rules by the map holding the keys', () => {
+        const transforms: TransformConfig = {
+          '*.yaml': {
+            keys: [{ find: 'uat', replace: 'prod', paths: ['databases'], excludePaths: ['databases.uat-ro'] }]
+          }
+        };
+        const data = { uat: 1, databases: { 'uat-db': { uat: 2 }, 'uat-ro': { uat: 3 } } };
+
+        expect(applyTransforms(data, 'test.yaml', transforms)).toEqual({
+          uat: 1,
+          databases: { 'prod-db': { prod: 2 }, 'prod-ro': { uat: 3 } }
+        });
+      });
+
+      it('should throw a key collision error when keys of one map transform to the same name', () => {
+        const transforms: TransformConfig = {
+          'values.yaml': { keys: [{ find: '^(uat|prod)-db$', replace: 'prod-db' }] }
+        };
+        const data = { databases: { 'uat-db': 'a', 'prod-db': 'b' } };
+
+        try {
+          applyTransforms(data, 'values.yaml', transforms);
+          expect.fail('Should have thrown error');
+        } catch (error) {
+          expect(isKeyCollisionError(error)).toBe(true);
+          if (error instanceof Error) {
+            expect(error.message).toContain('$.databases: prod-db <- [uat-db, prod-db]');
+            expect(error.message).toContain('values.yaml');
+          }
+        }
+      });
+
+      it('should skip renames that produce prototype keys', () => {
+        const transforms: TransformConfig = {
+          '*.yaml': { keys: [{ find: '^uat-(.*)$', replace: '$1' }] }
+        };
+        const data = { 'uat-__proto__': { polluted: true }, 'uat-constructor': 1, 'uat-db': 2 };
+
+        const result = applyTransforms(data, 'test.yaml', transforms) as Record<string, unknown>;
+
+        expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+        expect(result).not.toHaveProperty('polluted');
+        expect(Object.keys(result)).toEqual(['uat-__proto__', 'uat-constructor', 'db']);
+      });
+
+      it('should not report a collision for keys in different maps', () => {
+        const transforms: TransformConfig = {
+          '*.yaml': { keys: [{ find: '^uat-', replace: 'prod-' }] }
+        };
+
+        expect(applyTransforms({ a: { 'uat-db': 1 }, b: { 'prod-db': 2 } }, 'test.yaml', transforms)).toEqual({
+          a: { 'prod-db': 1 },
+          b: { 'prod-db': 2 }
+        });
+      });
+    });
+
     describe('multiple transform rules', () => {
       it('should apply multiple transform rules sequentially', () => {
         const data = { url: 'uat-db-primary.internal' };
@@ -417,4 +642,20 @@ describe('utils/transformer', () => {
       expect(rules[2].find).toBe('third');
     });
   });
+
+  describe('getKeyTransformsForFile', () => {
+    it('should collect key rules of matching patterns in order', () => {
+      const transforms: TransformConfig = {
+        '**/*.yaml': { keys: [{ find: 'uat', replace: 'prod' }], content: [{ find: 'a', replace: 'b' }] },
+        'apps/*.yaml': { keys: [{ find: 'stg', replace: 'prod' }] },
+        '*.json': { keys: [{ find: 'x', replace: 'y' }] }
+      };
+
+      expect(getKeyTransformsForFile('apps/values.yaml', transforms)).toEqual([
+        { find: 'uat', replace: 'prod' },
+        { find: 'stg', replace: 'prod' }
+      ]);
+      expect(getKeyTransformsForFile('apps/values.yaml')).toEqual([]);
+    });
+  });
 });
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import YAML from 'yaml';
+
+import { patchYamlDocument } from '../../src/utils/yamlDocumentPatcher';
+
+const patch = (content: string, mutate: (data: Record<string, unknown>) => void): string => {
+  const document = YAML.parseDocument(content);
+  const target = document.toJS() as Record<string, unknown>;
+  mutate(target);
+  patchYamlDocument(document, target);
+  return document.toString();
+};
+
+describe('utils/yamlDocumentPatcher', () => {
+  describe('patchYamlDocument', () => {
+    it('should leave an unchanged document byte-identical', () => {
+      const content = '# header\nreplicas: 3 # peak load\n\nimage:\n  tag: v1 # pinned\n';
+      expect(patch(content, () => {})).toBe(content);
+    });
+
+    it('should update a changed scalar and keep surrounding comments', () => {
+      const content = '# header\nreplicas: 3 # peak load\n\nimage:\n  # why pinned\n  tag: v1 # pinned\n';
+      const result = patch(content, (data) => {
+        (data['image'] as Record<string, unknown>)['tag'] = 'v2';
+      });
+
+      expect(result).toBe('# header\nreplicas: 3 # peak load\n\nimage:\n  # why pinned\n  tag: v2 # pinned\n');
+    });
+
+    it('should keep destination key order and append new keys', () => {
+      const result = patch('b: 1\na: 2\n', (data) => {
+        data['c'] = 3;
+        data['a'] = 4;
+      });
+
+      expect(result).toBe('b: 1\na: 4\nc: 3\n');
+    });
+
+    it('should remove keys missing from the target', () => {
+      const result = patch('a: 1 # keep\nb: 2\nc: 3\n', (data) => {
+        delete data['b'];
+      });
+
+      expect(result).toBe('a: 1 # keep\nc: 3\n');
+    });
+
+    it('should preserve anchors and aliases when values are unchanged', () => {
+      const content = 'defaults: &defaults\n  timeout: 30\nservice:\n  settings: *defaults\n  name: api\n';
+      const result = patch(content, (data) => {
+        (data['service'] as Record<string, unknown>)['name'] = 'web';
+      });
+
+      expect(result).toBe('defaults: &defaults\n  timeout: 30\nservice:\n  settings: *defaults\n  name: web\n');
+    });
+
+    it('should keep the anchor on a changed anchored node', () => {
+      const content = 'defaults: &defaults\n  timeout: 30\nservice: *defaults\n';
+      const result = patch(content, (data) => {
+        data['defaults'] = { timeout: 60 };
+        data['service'] = { timeout: 60 };
+      });
+
+      expect(result).toBe('defaults: &defaults\n  timeout: 60\nservice: *defaults\n');
+    });
+
+    it('should materialize an alias whose value diverges from its anchor', () => {
+      const content = 'defaults: &defaults\n  timeout: 30\nservice: *defaults\n';
+      const result = patch(content, (data) => {
+        data['service'] = { timeout: 90 };
+      });
+
+      expect(YAML.parse(result)).toEqual({ defaults: { timeout: 30 }, service: { timeout: 90 } });
+      expect(result).toContain('&defaults');
+    });
+
+    it('should keep comments on sequence items that moved or were matched by key', () => {
+      const content = 'env:\n  - name: A # first\n    value: "1"\n  - name: B\n    value: \'2\'\n';
+      const result = patch(content, (data) => {
+        data['env'] = [
+          { name: 'Z', value: '0' },
+          { name: 'A', value: '1' },
+          { name: 'B', value: '3' }
+        ];
+      });
+
+      expect(result).toContain('- name: A # first');
+      expect(result).toContain("value: '3'");
+      expect(YAML.parse(result)).toEqual({
+        env: [
+          { name: 'Z', value: '0' },
+          { name: 'A', value: '1' },
+          { name: 'B', value: '3' }
+        ]
+      });
+    });
+
+    it('should trim sequences that shrink', () => {
+      const result = patch('list:\n  - a\n  - b\n  - c\n', (data) => {
+        data['list'] = ['a', 'c'];
+      });
+
+      expect(result).toBe('list:\n  - a\n  - c\n');
+    });
+
+    it('should keep flow style collections', () => {
+      const result = patch('args: [--a, --b]\n', (data) => {
+        data['args'] = ['--a', '--c'];
+      });
+
+      expect(result).toBe('args: [ --a, --c ]\n');
+    });
+
+    it('should replace a scalar with a collection when the type changes', () => {
+      const result = patch('value: plain # note\n', (data) => {
+        data['value'] = { nested: true };
+      });
+
+      expect(YAML.parse(result)).toEqual({ value: { nested: true } });
+    });
+
+    it('should build the document body for an empty destination', () => {
+      const document = YAML.parseDocument('');
+      patchYamlDocument(document, { a: 1 });
+
+      expect(document.toString()).toBe('a: 1\n');
+    });
+  });
+});